@@ -27,81 +27,523 @@ function createWindow() {
   win.loadFile(path.join(__dirname, '..', 'src', 'ui', 'index.html'));
 }
 
-app.whenReady().then(createWindow);
+function loadModelManager() {
+  const svcPath = path.join(__dirname, '..', 'src', 'services', 'models.js');
+  return import(pathToFileURL(svcPath).href);
+}
 
-ipcMain.handle('open-audio-file', async () => {
-  console.log('main: open-audio-file handler invoked');
-  const { canceled, filePaths } = await dialog.showOpenDialog({
-    properties: ['openFile'],
-    filters: [{ name: 'Audio', extensions: ['wav', 'mp3', 'flac', 'm4a'] }],
-  });
-  if (canceled) return null;
-  return filePaths[0];
-});
+function loadEngines() {
+  const svcPath = path.join(__dirname, '..', 'src', 'services', 'engines', 'index.js');
+  return import(pathToFileURL(svcPath).href);
+}
+
+function loadTranscribe() {
+  const svcPath = path.join(__dirname, '..', 'src', 'services', 'transcribe.js');
+  return import(pathToFileURL(svcPath).href);
+}
+
+// IPC contract (src/ipc/contract.ts): channel names, argument checks and the { ok, error } envelope
+function loadIpc() {
+  const svcPath = path.join(__dirname, '..', 'src', 'ipc', 'main.js');
+  return import(pathToFileURL(svcPath).href);
+}
+
+// Paths sent by the renderer are only used when the user picked them or they lie in a configured folder
+function loadAccess() {
+  const svcPath = path.join(__dirname, '..', 'src', 'services', 'access.js');
+  return import(pathToFileURL(svcPath).href);
+}
+
+const ipcReady = loadIpc();
+const accessReady = loadAccess();
 
-ipcMain.handle('save-transcript', async (_, { filePath, text }) => {
-  await fs.writeFile(filePath, text, 'utf8');
-  return true;
+// Forward service progress events to the renderer that asked for the work
+function progressForwarder(ipc, sender, sourceId) {
+  return (progress) => ipc.emit(sender, 'onProgress', sourceId, progress);
+}
+
+async function broadcast(method, ...payload) {
+  const ipc = await ipcReady;
+  for (const win of BrowserWindow.getAllWindows()) ipc.emit(win.webContents, method, ...payload);
+}
+
+// Every finished transcription is kept in the library under the user-data folder
+function loadLibrary() {
+  const svcPath = path.join(__dirname, '..', 'src', 'services', 'library.js');
+  return import(pathToFileURL(svcPath).href);
+}
+
+const libraryReady = app.whenReady().then(async () => {
+  const library = await loadLibrary();
+  library.configureLibrary({ directory: process.env.VTP_LIBRARY_DIR || path.join(app.getPath('userData'), 'library') });
+  return library;
 });
 
-ipcMain.handle('transcribe-file', async (_, filePath) => {
+// Failing to store a transcript must not fail the transcription itself
+async function addToLibrary(transcript, source) {
   try {
-    // Import the compiled JS service module dynamically
-    const svcPath = path.join(__dirname, '..', 'src', 'services', 'transcribe.js');
-    const mod = await import(pathToFileURL(svcPath).href);
-    if (!mod || !mod.transcribeFile) throw new Error('transcribe service not found');
-    const text = await mod.transcribeFile(filePath);
-    return { ok: true, text };
+    const entry = await (await libraryReady).addTranscript(transcript, source);
+    broadcast('onLibraryChanged');
+    return entry;
   } catch (err) {
-    return { ok: false, error: String(err) };
+    console.warn('library: could not store transcript', err);
+    return null;
   }
-});
+}
 
-app.on('window-all-closed', () => {
-  if (process.platform !== 'darwin') app.quit();
+// Library entries of finished jobs, so handlers waiting on a job can report the entry id; dropped by the handler
+// that reads them, or when the job is cleared from the queue
+const jobLibraryEntries = new Map();
+
+// User settings (src/services/settings.ts), shared with the services and the CLI
+function loadSettings() {
+  const svcPath = path.join(__dirname, '..', 'src', 'services', 'settings.js');
+  return import(pathToFileURL(svcPath).href);
+}
+
+// Folders picked in the preferences dialog during this run; only those may become the output or watched folder
+const pickedFolders = new Set();
+
+const settingsReady = app.whenReady().then(async () => {
+  const settings = await loadSettings();
+  settings.configureSettings({ path: process.env.VTP_SETTINGS_FILE || path.join(app.getPath('userData'), 'settings.json') });
+  const access = await accessReady;
+  const { outputDirectory, watchDirectory } = await settings.loadSettings();
+  if (outputDirectory) access.allowFolder(outputDirectory);
+  if (watchDirectory) access.allowFolder(watchDirectory);
+  // windows apply changes as they are saved, without a restart
+  settings.onSettingsChange((next) => {
+    if (next.outputDirectory) access.allowFolder(next.outputDirectory);
+    if (next.watchDirectory) access.allowFolder(next.watchDirectory);
+    broadcast('onSettingsChanged', next);
+  });
+  return settings;
 });
 
-// Simple streaming handlers that use the recording service
-ipcMain.handle('stream-start', async (_, sessionId = 'default') => {
-  try {
-    const svcPath = path.join(__dirname, '..', 'src', 'services', 'recording.js');
-    const rec = await import(pathToFileURL(svcPath).href);
-    if (!rec || !rec.startSession) throw new Error('recording service not found');
-    rec.startSession(sessionId);
-    return { ok: true };
-  } catch (err) {
-    console.error('stream-start error', err);
-    return { ok: false, error: String(err) };
-  }
+// Inference runs in worker threads (src/services/workers.ts, VTP_WORKER_THREADS of them) so the main process
+// keeps handling windows and IPC; they start once the settings file is known, since they read it too
+function loadWorkers() {
+  const svcPath = path.join(__dirname, '..', 'src', 'services', 'workers.js');
+  return import(pathToFileURL(svcPath).href);
+}
+
+const workersReady = settingsReady.then(() => loadWorkers());
+
+// Transcriptions run through the job queue: limited concurrency, cancellable, visible in the queue panel
+function loadJobs() {
+  const svcPath = path.join(__dirname, '..', 'src', 'services', 'jobs.js');
+  return import(pathToFileURL(svcPath).href);
+}
+
+const jobsReady = Promise.all([loadJobs(), workersReady]).then(([jobs, workers]) => {
+  // one job per worker unless told otherwise; extra jobs wait for a free worker
+  const concurrency = Number(process.env.VTP_JOB_CONCURRENCY) || workers.getWorkerConfig().threads;
+  jobs.configureJobs({ concurrency: Math.max(1, concurrency), transcriber: workers.workerTranscriber });
+  jobs.onJobUpdate((job) => {
+    broadcast('onJobUpdate', job);
+    // a transcribed range is a partial result; only whole files go to the library
+    if (job.status === 'done' && !job.range) {
+      const { transcript } = jobs.getJob(job.id);
+      jobLibraryEntries.set(job.id, addToLibrary(transcript, { sourcePath: job.filePath, ...(job.engine ? { engine: job.engine } : {}) }));
+    }
+  });
+  return jobs;
 });
 
-ipcMain.handle('stream-chunk', async (_, sessionId = 'default', arrayBuffer) => {
+// The watched folder (settings.watchDirectory, src/services/watch.ts): new audio files in it go through the job
+// queue like any other, so they show in the queue panel and reach the library; transcripts are written to the
+// output folder, or <folder>/transcripts
+function loadWatch() {
+  const svcPath = path.join(__dirname, '..', 'src', 'services', 'watch.js');
+  return import(pathToFileURL(svcPath).href);
+}
+
+let folderWatcher = null;
+let folderWatcherKey = '';
+
+async function restartFolderWatcher(current) {
+  const key = JSON.stringify([current.watchDirectory, current.outputDirectory, current.outputFormats]);
+  if (key === folderWatcherKey) return;
+  folderWatcherKey = key;
+  const previous = folderWatcher;
+  folderWatcher = null;
+  await previous?.stop();
+  if (!current.watchDirectory) return;
+  const [watch, jobs] = await Promise.all([loadWatch(), jobsReady]);
+  // a later change may have come in while the previous watcher stopped
+  if (key !== folderWatcherKey) return;
   try {
-    const svcPath = path.join(__dirname, '..', 'src', 'services', 'recording.js');
-    const rec = await import(pathToFileURL(svcPath).href);
-    rec.pushChunk(sessionId, arrayBuffer);
-    return { ok: true };
+    folderWatcher = await watch.startWatching({
+      directory: current.watchDirectory,
+      ...(current.outputDirectory ? { outputDirectory: current.outputDirectory } : {}),
+      formats: current.outputFormats,
+      transcribe: async (filePath, { signal }) => {
+        const job = jobs.enqueueJob(filePath);
+        signal?.addEventListener('abort', () => jobs.cancelJob(job.id), { once: true });
+        try {
+          return await jobs.waitForJob(job.id);
+        } finally {
+          // the watcher keeps its own record of the file; the queue and the library entry map need not
+          jobs.removeJob(job.id);
+          jobLibraryEntries.delete(job.id);
+        }
+      },
+      onEvent: (event) => {
+        if (event.type === 'failed' || event.type === 'error') console.warn('watch:', event.file ?? '', event.error);
+        else if (event.type === 'done') console.log('watch: transcribed', event.file);
+      },
+    });
+    console.log('main: watching', folderWatcher.directory);
   } catch (err) {
-    console.error('stream-chunk error', err);
-    return { ok: false, error: String(err) };
+    console.warn('main: cannot watch', current.watchDirectory, err);
   }
+}
+
+settingsReady.then(async (settings) => {
+  settings.onSettingsChange((next) => { restartFolderWatcher(next).catch((err) => console.warn('main: watcher restart failed', err)); });
+  await restartFolderWatcher(await settings.loadSettings());
+}).catch((err) => console.warn('main: watcher failed to start', err));
+
+// Decoding and preprocessing (src/services/audio.ts), for the waveform and previews of the processed audio
+function loadAudio() {
+  const svcPath = path.join(__dirname, '..', 'src', 'services', 'audio.js');
+  return import(pathToFileURL(svcPath).href);
+}
+
+// Open dialogs offer every format ffmpeg decodes for transcription, video included
+async function mediaFilters() {
+  const { AUDIO_EXTENSIONS, VIDEO_EXTENSIONS, MEDIA_EXTENSIONS } = await loadAudio();
+  return [
+    { name: 'Audio and video', extensions: MEDIA_EXTENSIONS },
+    { name: 'Audio', extensions: AUDIO_EXTENSIONS },
+    { name: 'Video', extensions: VIDEO_EXTENSIONS },
+    { name: 'All files', extensions: ['*'] },
+  ];
+}
+
+function loadPreprocess() {
+  const svcPath = path.join(__dirname, '..', 'src', 'services', 'preprocess.js');
+  return import(pathToFileURL(svcPath).href);
+}
+
+// Temporary WAVs played by the renderer: previews of the processed audio, and the audio extracted from the
+// opened file; only the latest of each is kept, the rest are removed on quit
+const previewFiles = new Set();
+const extractedFiles = new Set();
+
+async function removeTempFiles(files) {
+  await Promise.all([...files].map((file) => fs.unlink(file).catch(() => {})));
+  files.clear();
+}
+
+// Simple streaming handlers that use the recording service
+function loadRecording() {
+  const svcPath = path.join(__dirname, '..', 'src', 'services', 'recording.js');
+  return import(pathToFileURL(svcPath).href);
+}
+
+// Recordings go to a user-visible folder; unfinished sessions live in its .incomplete/ sub-folder
+const recordingsReady = app.whenReady().then(async () => {
+  const rec = await loadRecording();
+  const directory = process.env.VTP_RECORDINGS_DIR || path.join(app.getPath('documents'), 'Recordings');
+  rec.configureRecordings({ directory, transcriber: (await workersReady).workerTranscriber });
+  (await accessReady).allowFolder(directory);
+  return rec;
 });
 
-ipcMain.handle('stream-end', async (event, sessionId = 'default') => {
-  try {
-    const svcPath = path.join(__dirname, '..', 'src', 'services', 'recording.js');
-    const rec = await import(pathToFileURL(svcPath).href);
-    const text = await rec.endSession(sessionId);
+// One handler per method of the IPC contract; each returns its result object or throws
+const handlers = {
+  async listEngines() {
+    const engines = await loadEngines();
+    const names = engines.engineNames();
+    const loaded = await Promise.all(names.map((name) => engines.getEngine(name).catch(() => null)));
+    return {
+      engines: names,
+      defaultEngine: engines.getDefaultEngineName(),
+      prompts: loaded.filter((engine) => engine?.prompts).map((engine) => engine.name),
+    };
+  },
+
+  async listModels() {
+    return { models: await (await loadModelManager()).listLocalModels() };
+  },
+
+  async openAudioFile() {
+    const { canceled, filePaths } = await dialog.showOpenDialog({
+      properties: ['openFile'],
+      filters: await mediaFilters(),
+    });
+    if (canceled || !filePaths[0]) return { filePath: null };
+    await (await accessReady).grantPaths([filePaths[0]]);
+    return { filePath: filePaths[0] };
+  },
+
+  async openAudioFiles() {
+    const { canceled, filePaths } = await dialog.showOpenDialog({
+      properties: ['openFile', 'multiSelections'],
+      filters: await mediaFilters(),
+    });
+    if (canceled) return { filePaths: [] };
+    await (await accessReady).grantPaths(filePaths);
+    return { filePaths };
+  },
+
+  async saveTranscript(_, filePath, text, transcript) {
+    await (await accessReady).checkWritable(filePath);
+    // With a timed transcript the extension picks the format (.txt, .srt, .vtt or .json)
+    if (transcript) {
+      const svcPath = path.join(__dirname, '..', 'src', 'services', 'formats.js');
+      const formats = await import(pathToFileURL(svcPath).href);
+      await fs.writeFile(filePath, formats.formatTranscript(transcript, formats.formatFromPath(filePath)), 'utf8');
+    } else {
+      await fs.writeFile(filePath, text, 'utf8');
+    }
+    return { filePath };
+  },
+
+  // Waits for the result; start/end options limit the job to a range of the file
+  async transcribeFile(event, filePath, options = {}) {
+    await (await accessReady).checkReadable(filePath);
+    const jobs = await jobsReady;
+    const job = jobs.enqueueJob(filePath, { ...options, onProgress: progressForwarder(await ipcReady, event.sender, filePath) });
+    // the renderer shows this next to the transcript; an unknown engine fails the job itself
+    const promptIgnored = await (await loadTranscribe()).checkPrompt(options).catch(() => undefined);
+    const transcript = await jobs.waitForJob(job.id);
+    const entry = await jobLibraryEntries.get(job.id);
+    jobLibraryEntries.delete(job.id);
+    return { text: transcript.text, transcript, jobId: job.id, ...(entry ? { libraryId: entry.id } : {}), ...(promptIgnored ? { promptIgnored } : {}) };
+  },
+
+  async enqueueJobs(_, filePaths, options = {}) {
+    const access = await accessReady;
+    for (const filePath of filePaths) await access.checkReadable(filePath);
+    const jobs = await jobsReady;
+    return { jobs: filePaths.map((filePath) => jobs.enqueueJob(filePath, options)) };
+  },
+
+  async previewPreprocess(_, filePath, preprocess, track) {
+    await (await accessReady).checkReadable(filePath);
+    let checked;
+    try {
+      checked = (await loadPreprocess()).checkPreprocess(preprocess);
+    } catch (err) {
+      throw new (await ipcReady).IpcError('invalid-argument', err?.message ?? String(err));
+    }
+    await removeTempFiles(previewFiles);
+    const preview = await (await loadAudio()).preprocessToWav(filePath, { preprocess: checked, ...(track !== undefined ? { track } : {}) });
+    previewFiles.add(preview);
+    return { filePath: preview };
+  },
+
+  // WebAudio only decodes a few formats; ffmpeg reads the rest, video containers included
+  async extractAudio(_, filePath, track) {
+    await (await accessReady).checkReadable(filePath);
+    const audio = await loadAudio();
+    let tracks;
+    try {
+      tracks = await audio.listAudioTracks(filePath);
+    } catch (err) {
+      throw new (await ipcReady).IpcError('invalid-argument', err?.message ?? String(err));
+    }
+    if (tracks.length === 0) throw new (await ipcReady).IpcError('invalid-argument', `no audio track in ${path.basename(filePath)}`);
+    if (track !== undefined && track >= tracks.length) {
+      throw new (await ipcReady).IpcError('invalid-argument', `${path.basename(filePath)} has ${tracks.length} audio track(s)`);
+    }
+    // of several tracks, the one the container marks as default, like a media player; the renderer
+    // transcribes the same one
+    const picked = track ?? (tracks.length > 1 ? (tracks.find((t) => t.default) ?? tracks[0]).index : undefined);
+    await removeTempFiles(extractedFiles);
+    const extracted = await audio.preprocessToWav(filePath, picked !== undefined ? { track: picked } : {});
+    extractedFiles.add(extracted);
+    return {
+      filePath: extracted,
+      tracks: tracks.map((t) => ({ ...t, label: audio.describeAudioTrack(t) })),
+      ...(picked !== undefined ? { track: picked } : {}),
+    };
+  },
+
+  async listJobs() {
+    return { jobs: (await jobsReady).listJobs() };
+  },
+
+  async getJob(_, id) {
+    const job = (await jobsReady).getJob(id);
+    if (!job) throw new (await ipcReady).IpcError('not-found', `unknown job: ${id}`);
+    return { job };
+  },
+
+  async cancelJob(_, id) {
+    return { cancelled: (await jobsReady).cancelJob(id) };
+  },
+
+  async clearFinishedJobs() {
+    const jobs = await jobsReady;
+    const removed = jobs.clearFinishedJobs();
+    // nobody can wait on a forgotten job any more, so its library entry is not asked for either
+    for (const id of jobLibraryEntries.keys()) if (!jobs.getJob(id)) jobLibraryEntries.delete(id);
+    return { removed };
+  },
+
+  async startStream(event, sessionId = 'default', options = {}) {
+    const rec = await recordingsReady;
+    const ipc = await ipcReady;
+    const { live, ...transcribeOptions } = options;
+    const sender = event.sender;
+    await rec.startSession(sessionId, live ? {
+      live: {
+        ...transcribeOptions,
+        onUpdate: (update) => ipc.emit(sender, 'onPartial', sessionId, update),
+      },
+    } : {});
+    return {};
+  },
+
+  async sendStreamChunk(_, sessionId, arrayBuffer) {
+    // limitReached tells the renderer to stop: the session refuses further audio
+    return (await recordingsReady).pushChunk(sessionId, arrayBuffer);
+  },
+
+  // Live PCM (16 kHz mono Float32) arrives several times a second: fire-and-forget, no reply
+  async sendStreamPcm(_, sessionId, arrayBuffer) {
+    (await recordingsReady).pushPcm(sessionId, new Float32Array(arrayBuffer));
+  },
+
+  async pauseStream(_, sessionId) {
+    await (await recordingsReady).pauseSession(sessionId);
+    return {};
+  },
+
+  async resumeStream(_, sessionId) {
+    await (await recordingsReady).resumeSession(sessionId);
+    return {};
+  },
+
+  async endStream(event, sessionId = 'default', options = {}) {
+    const rec = await recordingsReady;
+    const ipc = await ipcReady;
+    const { transcript, audioPath, transcriptPath } = await rec.endSession(sessionId, { ...options, onProgress: progressForwarder(ipc, event.sender, sessionId) });
+    const entry = await addToLibrary(transcript, { sourcePath: audioPath, ...(options.engine ? { engine: options.engine } : {}) });
     // notify renderer that transcription completed
+    const win = BrowserWindow.getAllWindows()[0];
+    if (win) ipc.emit(win.webContents, 'onTranscription', sessionId, transcript.text, transcript, audioPath);
+    return { text: transcript.text, transcript, audioPath, transcriptPath, ...(entry ? { libraryId: entry.id } : {}) };
+  },
+
+  async listRecoverableSessions() {
+    return { sessions: await (await recordingsReady).listRecoverableSessions() };
+  },
+
+  async recoverSession(event, sessionId, options = {}) {
+    const rec = await recordingsReady;
+    const { transcript, audioPath, transcriptPath } = await rec.recoverSession(sessionId, { ...options, onProgress: progressForwarder(await ipcReady, event.sender, sessionId) });
+    const entry = await addToLibrary(transcript, { sourcePath: audioPath, ...(options.engine ? { engine: options.engine } : {}) });
+    return { text: transcript.text, transcript, audioPath, transcriptPath, ...(entry ? { libraryId: entry.id } : {}) };
+  },
+
+  async discardSession(_, sessionId) {
+    await (await recordingsReady).discardSession(sessionId);
+    return {};
+  },
+
+  async listLibrary() {
+    return { entries: await (await libraryReady).listEntries() };
+  },
+
+  async searchLibrary(_, query) {
+    return { hits: await (await libraryReady).searchLibrary(query, { limit: 50 }) };
+  },
+
+  async getLibraryEntry(_, id) {
+    const { entry, transcript } = await (await libraryReady).getEntry(id);
+    // reopening an entry plays and re-transcribes its source, which the user picked when it was created
+    await (await accessReady).grantPaths([entry.sourcePath]);
+    return { entry, transcript };
+  },
+
+  async renameLibraryEntry(_, id, title) {
+    const entry = await (await libraryReady).renameEntry(id, title);
+    broadcast('onLibraryChanged');
+    return { entry };
+  },
+
+  async updateLibraryEntry(_, id, transcript) {
+    const entry = await (await libraryReady).updateTranscript(id, transcript);
+    broadcast('onLibraryChanged');
+    return { entry };
+  },
+
+  async deleteLibraryEntry(_, id) {
+    await (await libraryReady).deleteEntry(id);
+    broadcast('onLibraryChanged');
+    return {};
+  },
+
+  async getSettings() {
+    const settings = await settingsReady;
+    return { settings: await settings.loadSettings(), path: settings.getSettingsConfig().path };
+  },
+
+  async updateSettings(_, patch) {
+    const settings = await settingsReady;
+    const current = await settings.loadSettings();
+    // the output and watched folders become readable and writable, so they must come from the folder dialog
+    for (const key of ['outputDirectory', 'watchDirectory']) {
+      if (patch[key] && patch[key] !== current[key] && !pickedFolders.has(patch[key])) {
+        throw new (await ipcReady).IpcError('access-denied', `choose ${patch[key]} through the folder dialog first`);
+      }
+    }
     try {
-      const win = BrowserWindow.getAllWindows()[0];
-      if (win) win.webContents.send('transcription-result', sessionId, text);
-    } catch (e) {
-      console.warn('could not notify renderer', e);
+      return { settings: await settings.updateSettings(patch) };
+    } catch (err) {
+      // file system errors carry a code; anything else is a rejected value
+      if (err?.code) throw err;
+      throw new (await ipcReady).IpcError('invalid-argument', err?.message ?? String(err));
     }
-    return { ok: true, text };
-  } catch (err) {
-    console.error('stream-end error', err);
-    return { ok: false, error: String(err) };
-  }
-});
\ No newline at end of file
+  },
+
+  async resetSettings() {
+    return { settings: await (await settingsReady).resetSettings() };
+  },
+
+  async chooseFolder() {
+    const { canceled, filePaths } = await dialog.showOpenDialog({ properties: ['openDirectory', 'createDirectory'] });
+    if (canceled || !filePaths[0]) return { folder: null };
+    pickedFolders.add(filePaths[0]);
+    return { folder: filePaths[0] };
+  },
+};
+
+// Handlers must be in place before the preload asks for the bridge description
+const ipcRegistered = Promise.all([ipcReady, accessReady]).then(([ipc, access]) => {
+  ipc.registerIpc(ipcMain, handlers);
+  // the preload reports files dropped on the window; only real dropped files have a path
+  ipcMain.on(ipc.GRANT_DROPPED_FILE_CHANNEL, (_, filePath) => {
+    if (typeof filePath === 'string') access.grantPaths([filePath]).catch((err) => console.warn('grant dropped file failed', err));
+  });
+});
+
+app.whenReady().then(async () => {
+  await ipcRegistered;
+  createWindow();
+  // Warm the default model in the workers so the first transcription does not pay the load cost
+  Promise.all([loadEngines(), settingsReady, workersReady])
+    .then(async ([engines, settings, workers]) => {
+      const { engine: engineName, model } = await settings.loadSettings();
+      const engine = await engines.getEngine(engineName);
+      if (!engine.preload) return;
+      await workers.preloadWorkers({ engine: engine.name, model: model || process.env.VTP_DEFAULT_MODEL || engine.defaultModel });
+      console.log('main: model preloaded for engine', engine.name);
+    })
+    .catch((err) => console.warn('main: model preload failed', err));
+});
+
+app.on('will-quit', () => {
+  removeTempFiles(previewFiles);
+  removeTempFiles(extractedFiles);
+  folderWatcher?.stop().catch(() => {});
+  workersReady.then((workers) => workers.stopWorkers()).catch(() => {});
+});
+
+app.on('window-all-closed', () => {
+  if (process.platform !== 'darwin') app.quit();
+});
@@ -1,40 +1,41 @@
-// electron/preload.js (ESM)
-const { contextBridge, ipcRenderer } = require('electron');
+// electron/preload.js (CJS)
+const { contextBridge, ipcRenderer, webUtils } = require('electron');
+
+// The bridge is built from the IPC contract (src/ipc/contract.ts). The sandboxed preload cannot import it,
+// so the main process sends the method list; these two channels must match the contract's constants.
+const BRIDGE_SPEC_CHANNEL = 'ipc-bridge-spec';
+const GRANT_DROPPED_FILE_CHANNEL = 'grant-dropped-file';
 
 try {
   console.debug('preload: loaded (cjs)');
-  contextBridge.exposeInMainWorld('electronAPI', {
-    openAudioFile: () => {
-      console.debug('preload: openAudioFile invoked');
-      return ipcRenderer.invoke('open-audio-file');
-    },
-    saveTranscript: (filePath, text) => {
-      console.debug('preload: saveTranscript invoked', filePath);
-      return ipcRenderer.invoke('save-transcript', { filePath, text });
-    },
-    transcribeFile: (filePath) => {
-      console.debug('preload: transcribeFile invoked', filePath);
-      return ipcRenderer.invoke('transcribe-file', filePath);
-    },
-    startStream: (sessionId) => {
-      console.debug('preload: startStream', sessionId);
-      return ipcRenderer.invoke('stream-start', sessionId);
-    },
-    sendStreamChunk: (sessionId, arrayBuffer) => {
-      // arrayBuffer should be transferable
-      console.debug('preload: sendStreamChunk', sessionId, arrayBuffer && arrayBuffer.byteLength);
-      return ipcRenderer.invoke('stream-chunk', sessionId, arrayBuffer);
-    },
-    endStream: (sessionId) => {
-      console.debug('preload: endStream', sessionId);
-      return ipcRenderer.invoke('stream-end', sessionId);
-    },
-    onTranscription: (cb) => {
-      console.debug('preload: onTranscription registered');
-      ipcRenderer.on('transcription-result', (_, sessionId, text) => cb(sessionId, text));
+  const spec = ipcRenderer.sendSync(BRIDGE_SPEC_CHANNEL);
+  if (!Array.isArray(spec)) throw new Error('main process did not send the IPC bridge description');
+  const api = {};
+  for (const { method, channel, kind, log } of spec) {
+    if (kind === 'invoke') {
+      api[method] = (...args) => {
+        if (log) console.debug(`preload: ${method} invoked`);
+        return ipcRenderer.invoke(channel, ...args);
+      };
+    } else if (kind === 'send') {
+      // high-rate, so no debug logging and no reply
+      api[method] = (...args) => ipcRenderer.send(channel, ...args);
+    } else {
+      api[method] = (cb) => {
+        console.debug(`preload: ${method} registered`);
+        ipcRenderer.on(channel, (_, ...payload) => cb(...payload));
+      };
     }
-  });
+  }
+  // dropped File objects no longer carry a path; Electron resolves it here and the main process
+  // is told the user picked that file, so it may be read
+  api.pathForFile = (file) => {
+    const filePath = webUtils.getPathForFile(file);
+    if (filePath) ipcRenderer.send(GRANT_DROPPED_FILE_CHANNEL, filePath);
+    return filePath;
+  };
+  contextBridge.exposeInMainWorld('electronAPI', api);
 } catch (err) {
   console.error('preload: failed to initialize', err);
   throw err;
-}
\ No newline at end of file
+}
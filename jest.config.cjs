@@ -1,10 +1,16 @@
-const { createDefaultPreset } = require('ts-jest');
+const { createDefaultEsmPreset } = require('ts-jest');
 
-const tsJestTransformCfg = createDefaultPreset().transform;
+// The sources are ES modules ("type": "module", nodenext): tests run as ESM too, so `npm test` starts node with
+// --experimental-vm-modules and imports written as './x.js' are mapped back to the .ts sources
+const tsJestTransformCfg = createDefaultEsmPreset().transform;
 
 /** @type {import('jest').Config} */
 module.exports = {
   testEnvironment: 'node',
+  extensionsToTreatAsEsm: ['.ts'],
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
   transform: {
     ...tsJestTransformCfg,
   },
@@ -0,0 +1,55 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { OutputFormat } from '../services/formats.js';
+
+/**
+ * Batch helpers for the CLI
+ * - planOutputs decides where each input's transcripts go
+ * - isUpToDate lets reruns skip inputs whose outputs are newer than the audio
+ * - mapWithConcurrency runs jobs with a fixed number of workers
+ */
+
+export type PlannedOutput = { path: string; format: OutputFormat };
+
+export type OutputPlan = {
+  formats: OutputFormat[];
+  /** directory for all outputs; defaults to each input's own directory */
+  outDir?: string;
+  /** exact output file, only valid for a single input and a single format */
+  outFile?: string;
+};
+
+export function planOutputs(input: string, plan: OutputPlan): PlannedOutput[] {
+  const firstFormat = plan.formats[0];
+  if (plan.outFile && firstFormat) return [{ path: plan.outFile, format: firstFormat }];
+  const dir = plan.outDir ?? path.dirname(input);
+  const base = path.basename(input, path.extname(input));
+  return plan.formats.map((format) => ({ path: path.join(dir, `${base}.${format}`), format }));
+}
+
+export async function isUpToDate(input: string, outputs: PlannedOutput[]): Promise<boolean> {
+  if (outputs.length === 0) return false;
+  const inputStat = await fs.stat(input);
+  for (const out of outputs) {
+    const stat = await fs.stat(out.path).catch(() => null);
+    if (!stat || stat.mtimeMs < inputStat.mtimeMs) return false;
+  }
+  return true;
+}
+
+/** Run `fn` over `items` with at most `limit` calls in flight; results keep input order */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]!, i);
+    }
+  };
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+export default { planOutputs, isUpToDate, mapWithConcurrency };
@@ -0,0 +1,147 @@
+import { parseArgs } from 'util';
+import path from 'path';
+import { configureModels } from '../services/model-config.js';
+import { engineNames, getDefaultEngineName, getEngine } from '../services/engines/index.js';
+import { normalizeLanguage } from '../services/languages.js';
+import { loadSettings } from '../services/settings.js';
+import { describePreprocess, parsePreprocess, PREPROCESS_PRESETS, type PreprocessOptions } from '../services/preprocess.js';
+import { transcribeFile } from '../services/transcribe.js';
+import { loadManifest, runEvaluation, type EvalConfig } from '../eval/evaluate.js';
+import { formatReportTable, writeReport } from '../eval/report.js';
+
+/**
+ * eval subcommand of the CLI: transcribes the items of a manifest with one or more configurations and writes a
+ * WER / CER / speed comparison (see eval/evaluate.ts)
+ */
+
+const DEFAULT_MANIFEST = 'audios/manifest.json';
+
+export const EVAL_USAGE = `Usage: npm run transcribe -- eval [options] [manifest]
+
+Transcribes every item of the manifest (default ${DEFAULT_MANIFEST}) and compares the text with its reference.
+
+Options:
+  -m, --model <id>         model to compare; repeat for several models
+  -e, --engine <name>      ${engineNames().join(' | ')} (default ${getDefaultEngineName()})
+  -l, --language <code>    source language for items that do not set one
+  -p, --preprocess <list>  preprocessing to compare (${Object.keys(PREPROCESS_PRESETS).join(', ')}, highpass=<hz>...);
+                           repeat for several, e.g. -p none -p speech
+      --vad                skip silence
+      --chunk-length <s>   window length for long audio in seconds
+      --ignore-accents     score "élève" and "eleve" as the same word
+      --model-dir <path>   load models from this directory only (no downloads)
+  -o, --output <path>      report path without extension (default eval-report): writes .json and .txt
+  -h, --help               show this help
+
+Without --model or --preprocess, the configurations listed in the manifest are compared (the options above
+apply to each); without those either, a single run with the options and the app settings.
+
+Manifest:
+  { "items": [{ "audio": "sample-0.wav", "reference": "expected text", "language": "en" },
+              { "audio": "interview.mp3", "referenceFile": "interview.txt" }],
+    "configs": [{ "name": "tiny", "model": "Xenova/whisper-tiny.en" },
+                { "name": "base + speech", "model": "Xenova/whisper-base.en", "preprocess": { "highpass": 80, "normalize": true } }] }
+Paths are relative to the manifest. Items without a reference are timed but not scored.`;
+
+/** One configuration per model and preprocessing combination, on top of `base` */
+function crossConfigs(base: EvalConfig, models: string[], preprocessing: PreprocessOptions[]): EvalConfig[] {
+  const modelList = models.length ? models : [undefined];
+  const preprocessList = preprocessing.length ? preprocessing : [undefined];
+  return modelList.flatMap((model) => preprocessList.map((preprocess) => {
+    const name = [
+      model ?? base.name,
+      preprocessing.length > 1 && preprocess ? describePreprocess(preprocess) : '',
+    ].filter(Boolean).join(' + ');
+    return { ...base, name, ...(model ? { model } : {}), ...(preprocess ? { preprocess } : {}) };
+  }));
+}
+
+/** Resolves with the exit code: 0 when every item was transcribed, 1 when some failed, 2 on usage errors */
+export async function runEvalCommand(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        model: { type: 'string', short: 'm', multiple: true },
+        engine: { type: 'string', short: 'e' },
+        language: { type: 'string', short: 'l' },
+        preprocess: { type: 'string', short: 'p', multiple: true },
+        vad: { type: 'boolean' },
+        'chunk-length': { type: 'string' },
+        'ignore-accents': { type: 'boolean' },
+        'model-dir': { type: 'string' },
+        output: { type: 'string', short: 'o' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err: any) {
+    console.error(`${err?.message ?? err}\n\n${EVAL_USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(EVAL_USAGE);
+    return 0;
+  }
+  const chunkSeconds = values['chunk-length'] !== undefined ? Number(values['chunk-length']) : undefined;
+  const problems: string[] = [
+    positionals.length > 1 ? 'expected a single manifest' : '',
+    values.engine && !engineNames().includes(values.engine) ? `unknown engine: ${values.engine}` : '',
+    chunkSeconds !== undefined && !(chunkSeconds >= 0) ? '--chunk-length must be a number of seconds' : '',
+  ];
+  let preprocessing: PreprocessOptions[] = [];
+  try {
+    normalizeLanguage(values.language);
+    preprocessing = (values.preprocess ?? []).map((spec) => parsePreprocess(spec));
+  } catch (err: any) {
+    problems.push(err?.message ?? String(err));
+  }
+  if (problems.some(Boolean)) {
+    console.error(problems.filter(Boolean).join('\n'));
+    return 2;
+  }
+  if (values['model-dir']) configureModels({ localModelPath: path.resolve(process.cwd(), values['model-dir']) });
+
+  const manifestPath = positionals[0] ?? DEFAULT_MANIFEST;
+  let manifest;
+  try {
+    manifest = await loadManifest(manifestPath);
+  } catch (err: any) {
+    console.error(err?.message ?? String(err));
+    return 2;
+  }
+
+  const overrides: Partial<EvalConfig> = {
+    ...(values.engine ? { engine: values.engine } : {}),
+    ...(values.language ? { language: values.language } : {}),
+    ...(values.vad ? { vad: true } : {}),
+    ...(chunkSeconds !== undefined ? { chunkSeconds } : {}),
+  };
+  const models = values.model ?? [];
+  const configs = models.length || preprocessing.length || manifest.configs.length === 0
+    ? crossConfigs({ name: values.engine ?? 'default', ...overrides }, models, preprocessing)
+    : manifest.configs.map((config) => ({ ...config, ...overrides }));
+
+  const settings = await loadSettings();
+  const report = await runEvaluation(manifest.items, configs, {
+    transcribe: transcribeFile,
+    // the model transcribeFile would pick for an English item, loaded up front when the engine keeps it in memory
+    loadModel: async (config) => {
+      const engine = await getEngine(config.engine ?? settings.engine);
+      const settingsModel = settings.model && (settings.engine ?? getDefaultEngineName()) === engine.name ? settings.model : undefined;
+      const model = config.model ?? settingsModel ?? engine.defaultModel;
+      if (!engine.preload) return { model, loaded: false };
+      await engine.preload(model);
+      return { model, loaded: true };
+    },
+  }, { normalize: values['ignore-accents'] ? { removeDiacritics: true } : manifest.normalize, manifest: manifestPath });
+
+  const written = await writeReport(report, values.output ?? 'eval-report');
+  console.log(`\n${formatReportTable(report)}`);
+  console.log(`Report written to ${written.json} and ${written.text}`);
+  return report.configs.some((result) => result.failed > 0) ? 1 : 0;
+}
+
+export default { runEvalCommand };
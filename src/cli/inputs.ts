@@ -0,0 +1,110 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { isMediaFile } from '../services/audio.js';
+
+/**
+ * CLI input expansion
+ * - Accepts plain files, directories (top level, or recursive with `recursive`) and glob patterns
+ * - Globs support `*`, `?`, `**`, `[abc]` and `{a,b}`; no external glob dependency is needed
+ */
+
+export { MEDIA_EXTENSIONS, isMediaFile } from '../services/audio.js';
+
+export function hasGlobChars(pattern: string): boolean {
+  return /[*?[\]{}]/.test(pattern);
+}
+
+/** Convert a glob (always using `/` separators) to an anchored RegExp */
+export function globToRegExp(glob: string): RegExp {
+  let re = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]!;
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches anything
+        const slash = glob[i + 2] === '/';
+        re += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        re += '[^/]*';
+      }
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) { re += '\\['; continue; }
+      re += '[' + glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+      i = close;
+    } else if (c === '{') {
+      inGroup = true;
+      re += '(?:';
+    } else if (c === '}' && inGroup) {
+      inGroup = false;
+      re += ')';
+    } else if (c === ',' && inGroup) {
+      re += '|';
+    } else {
+      re += c.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp('^' + re + '$', process.platform === 'win32' ? 'i' : '');
+}
+
+async function walk(dir: string, recursive: boolean, out: string[]) {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      // hidden folders and dependencies are never audio archives
+      if (recursive && !entry.name.startsWith('.') && entry.name !== 'node_modules') await walk(full, recursive, out);
+    } else if (entry.isFile()) {
+      out.push(full);
+    }
+  }
+}
+
+async function expandGlob(pattern: string, cwd: string): Promise<string[]> {
+  const normalized = pattern.replace(/\\/g, '/');
+  const parts = normalized.split('/');
+  const firstGlob = parts.findIndex(hasGlobChars);
+  const baseRel = parts.slice(0, firstGlob).join('/') || (normalized.startsWith('/') ? '/' : '.');
+  const base = path.resolve(cwd, baseRel);
+  const matcher = globToRegExp(parts.slice(firstGlob).join('/'));
+  const recursive = parts.length - firstGlob > 1 || normalized.includes('**');
+  const files: string[] = [];
+  await walk(base, recursive, files).catch(() => { /* missing base directory: no matches */ });
+  return files.filter((f) => matcher.test(path.relative(base, f).split(path.sep).join('/')));
+}
+
+/**
+ * Resolve CLI arguments to a sorted, de-duplicated list of absolute audio and video file paths.
+ * Explicit files are kept whatever their extension; directories and globs only yield audio and video files.
+ * Inputs that match nothing are returned in `missing`.
+ */
+export async function expandInputs(inputs: string[], options: { cwd?: string; recursive?: boolean } = {}) {
+  const cwd = options.cwd ?? process.cwd();
+  const files = new Set<string>();
+  const missing: string[] = [];
+  for (const input of inputs) {
+    let found: string[];
+    if (hasGlobChars(input)) {
+      found = (await expandGlob(input, cwd)).filter(isMediaFile);
+    } else {
+      const full = path.resolve(cwd, input);
+      const stat = await fs.stat(full).catch(() => null);
+      if (stat?.isDirectory()) {
+        found = [];
+        await walk(full, options.recursive ?? false, found);
+        found = found.filter(isMediaFile);
+      } else {
+        found = stat ? [full] : [];
+      }
+    }
+    if (found.length === 0) missing.push(input);
+    for (const f of found) files.add(f);
+  }
+  return { files: [...files].sort(), missing };
+}
+
+export default { expandInputs, globToRegExp, isMediaFile };
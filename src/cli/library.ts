@@ -0,0 +1,117 @@
+import { parseArgs } from 'util';
+import { configureLibrary, getEntry, getLibraryConfig, listEntries, resolveEntryId, searchLibrary } from '../services/library.js';
+import { formatTranscript, isOutputFormat, OUTPUT_FORMATS, type OutputFormat } from '../services/formats.js';
+import { formatDuration } from './progress.js';
+import path from 'path';
+
+/**
+ * Library subcommands of the CLI: list, search, show
+ * - Read the same store as the Electron app (see services/library.ts); nothing here writes to it
+ */
+
+export const LIBRARY_COMMANDS = ['list', 'search', 'show'] as const;
+export type LibraryCommand = typeof LIBRARY_COMMANDS[number];
+
+export const LIBRARY_USAGE = `Usage: npm run transcribe -- list [options]
+       npm run transcribe -- search <words...> [options]
+       npm run transcribe -- show <id> [options]
+
+Options:
+      --library <dir>      library directory (default ${getLibraryConfig().directory})
+  -n, --limit <n>          at most n entries (list, search)
+  -f, --format <format>    show: ${OUTPUT_FORMATS.join(', ')} (default txt)
+      --json               print entries as JSON (list, search)
+  -h, --help               show this help
+
+Ids may be shortened to any unique prefix.`;
+
+export function isLibraryCommand(value: string | undefined): value is LibraryCommand {
+  return (LIBRARY_COMMANDS as readonly string[]).includes(value ?? '');
+}
+
+const time = (seconds: number | undefined) => (seconds === undefined ? '-' : formatDuration(seconds * 1000));
+const date = (ms: number) => new Date(ms).toISOString().replace('T', ' ').slice(0, 16);
+
+/** Returns the process exit code */
+export async function runLibraryCommand(command: LibraryCommand, argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        library: { type: 'string' },
+        limit: { type: 'string', short: 'n' },
+        format: { type: 'string', short: 'f' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err: any) {
+    console.error(`${err?.message ?? err}\n\n${LIBRARY_USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(LIBRARY_USAGE);
+    return 0;
+  }
+  const limit = values.limit !== undefined ? Number(values.limit) : undefined;
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    console.error('--limit must be a positive integer');
+    return 2;
+  }
+  if (values.library) configureLibrary({ directory: path.resolve(process.cwd(), values.library) });
+
+  if (command === 'list') {
+    const entries = (await listEntries()).slice(0, limit);
+    if (values.json) {
+      console.log(JSON.stringify(entries, null, 2));
+      return 0;
+    }
+    if (entries.length === 0) console.log('The library is empty.');
+    for (const e of entries) console.log(`${e.id}\t${date(e.createdAt)}\t${time(e.duration)}\t${e.title}`);
+    return 0;
+  }
+
+  if (command === 'search') {
+    const query = positionals.join(' ').trim();
+    if (!query) {
+      console.error(`search needs words to look for\n\n${LIBRARY_USAGE}`);
+      return 2;
+    }
+    const hits = await searchLibrary(query, limit !== undefined ? { limit } : {});
+    if (values.json) {
+      console.log(JSON.stringify(hits, null, 2));
+      return hits.length ? 0 : 1;
+    }
+    if (hits.length === 0) console.log(`No transcripts match "${query}".`);
+    for (const { entry, matches } of hits) {
+      console.log(`${entry.id}\t${date(entry.createdAt)}\t${entry.title}`);
+      for (const m of matches) console.log(`  [${time(m.start)}] ${m.text}`);
+    }
+    return hits.length ? 0 : 1;
+  }
+
+  // show
+  const format = (values.format ?? 'txt').toLowerCase();
+  if (!isOutputFormat(format)) {
+    console.error(`unknown format: ${format}`);
+    return 2;
+  }
+  if (positionals.length !== 1) {
+    console.error(`show needs exactly one id\n\n${LIBRARY_USAGE}`);
+    return 2;
+  }
+  try {
+    const { transcript } = await getEntry(await resolveEntryId(positionals[0]!));
+    process.stdout.write(formatTranscript(transcript, format as OutputFormat));
+    if (format === 'txt') process.stdout.write('\n');
+    return 0;
+  } catch (err: any) {
+    console.error(err?.message ?? err);
+    return 1;
+  }
+}
+
+export default { runLibraryCommand, isLibraryCommand };
@@ -0,0 +1,61 @@
+import type { TranscribeProgress } from '../services/transcribe.js';
+
+/**
+ * Single-line progress display for the CLI
+ * - One entry per file being transcribed, redrawn in place on a TTY
+ * - print() clears the line first so regular output never mixes with it
+ */
+
+export function formatDuration(ms: number): string {
+  const total = Math.round(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor(total / 60) % 60;
+  const s = total % 60;
+  if (h > 0) return `${h}h${String(m).padStart(2, '0')}m`;
+  return m > 0 ? `${m}m${String(s).padStart(2, '0')}s` : `${s}s`;
+}
+
+export function describeProgress(p: TranscribeProgress): string {
+  if (p.stage === 'decoding') return 'decoding';
+  const eta = p.etaMs !== undefined ? ` ETA ${formatDuration(p.etaMs)}` : '';
+  return `${Math.floor(p.percent)}% chunk ${p.chunk}/${p.chunks}${eta}`;
+}
+
+export function createProgressLine(stream: NodeJS.WriteStream = process.stderr) {
+  const active = new Map<string, string>();
+  const enabled = !!stream.isTTY;
+  let shown = false;
+
+  const clear = () => {
+    if (!enabled || !shown) return;
+    stream.write('\r\x1b[K');
+    shown = false;
+  };
+  const render = () => {
+    if (!enabled) return;
+    clear();
+    if (active.size === 0) return;
+    const line = [...active.entries()].map(([key, text]) => `${key} ${text}`).join(' | ');
+    const width = stream.columns || 80;
+    stream.write(line.length > width - 1 ? line.slice(0, width - 2) + '…' : line);
+    shown = true;
+  };
+
+  return {
+    enabled,
+    update(key: string, progress: TranscribeProgress) {
+      active.set(key, describeProgress(progress));
+      render();
+    },
+    done(key: string) {
+      active.delete(key);
+      render();
+    },
+    /** run a print call with the progress line temporarily removed */
+    print(fn: () => void) {
+      clear();
+      fn();
+      render();
+    },
+  };
+}
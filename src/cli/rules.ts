@@ -0,0 +1,58 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { checkTextRules, type TextRules } from '../services/postprocess.js';
+import { findRuleSet, loadSettings } from '../services/settings.js';
+
+/**
+ * Text rules for the CLI
+ * - --rules names a rule set from the settings, reads one from a JSON file, or turns rules off with "none"
+ * - --vocabulary adds terms on top of that (or of the settings' default rule set)
+ */
+
+export const RULES_HELP = `      --rules <name|file>  text rules: a rule set from the settings, a JSON file, or 'none'
+                           (default: the settings' rule set)
+      --prompt <text>      initial prompt for the model, e.g. the topic and names to expect (whisper-cpp only: xenova does not take one)
+      --vocabulary <list>  comma separated terms to spell as given, e.g. "Kubernetes,PostgreSQL"`;
+
+export function parseVocabulary(list: string | undefined): string[] {
+  return (list ?? '').split(',').map((term) => term.trim()).filter(Boolean);
+}
+
+/**
+ * The rules for `--rules` and `--vocabulary`; undefined when neither is given, so the service applies the
+ * settings' default rule set
+ */
+export async function resolveRules(spec: string | undefined, vocabulary: string[] = []): Promise<TextRules | undefined> {
+  if (spec === undefined && vocabulary.length === 0) return undefined;
+  let rules: TextRules;
+  const settings = await loadSettings();
+  if (spec === undefined) {
+    rules = findRuleSet(settings, settings.ruleSet) ?? {};
+  } else if (spec === 'none') {
+    rules = {};
+  } else if (/\.json$/i.test(spec) || spec.includes('/') || spec.includes(path.sep)) {
+    const file = path.resolve(process.cwd(), spec);
+    let data: unknown;
+    try {
+      data = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (err: any) {
+      throw new Error(`cannot read rules from ${file}: ${err?.message ?? err}`);
+    }
+    try {
+      rules = checkTextRules(data);
+    } catch (err: any) {
+      throw new Error(`${file}: ${err?.message ?? err}`);
+    }
+  } else {
+    const set = findRuleSet(settings, spec);
+    if (!set) {
+      const names = settings.ruleSets.map((s) => s.name);
+      throw new Error(`no rule set named ${spec}${names.length ? ` (expected ${names.join(', ')}, 'none' or a JSON file)` : ' in the settings (expected \'none\' or a JSON file)'}`);
+    }
+    rules = set;
+  }
+  if (vocabulary.length) rules = { ...rules, vocabulary: [...new Set([...(rules.vocabulary ?? []), ...vocabulary])] };
+  return checkTextRules(rules);
+}
+
+export default { resolveRules, parseVocabulary };
@@ -0,0 +1,108 @@
+import { parseArgs } from 'util';
+import path from 'path';
+import { configureModels } from '../services/model-config.js';
+import { configureRecordings, getRecordingConfig } from '../services/recording.js';
+import { engineNames, getDefaultEngineName } from '../services/engines/index.js';
+import { DEFAULT_PORT, startServer } from '../server/server.js';
+
+/**
+ * serve subcommand of the CLI: runs the local HTTP server (see server/server.ts) until interrupted
+ */
+
+export const SERVE_USAGE = `Usage: npm run transcribe -- serve [options]
+
+Options:
+      --host <host>          address to listen on (default 127.0.0.1)
+  -p, --port <port>          port (default ${DEFAULT_PORT})
+      --token <token>        require "Authorization: Bearer <token>" (default: $VTP_SERVER_TOKEN)
+  -e, --engine <name>        ${engineNames().join(' | ')} (default ${getDefaultEngineName()})
+      --model-dir <path>     load models from this directory only (no downloads)
+      --vad                  skip silence in uploads
+      --max-upload-mb <n>    largest accepted upload (default 100)
+  -j, --concurrency <n>      transcriptions run at once (default 1)
+      --recordings-dir <dir> where streamed recordings are kept (default ${getRecordingConfig().directory})
+  -h, --help                 show this help
+
+Endpoints:
+  GET  /health
+  GET  /v1/models
+  POST /v1/audio/transcriptions   OpenAI-compatible (multipart: file, model, language, response_format...)
+  POST /v1/audio/translations
+  WS   /v1/stream                 streamed recording, see src/server/stream.ts`;
+
+/** Resolves with the exit code once the server has stopped (SIGINT / SIGTERM) */
+export async function runServeCommand(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        host: { type: 'string' },
+        port: { type: 'string', short: 'p' },
+        token: { type: 'string' },
+        engine: { type: 'string', short: 'e' },
+        'model-dir': { type: 'string' },
+        vad: { type: 'boolean' },
+        'max-upload-mb': { type: 'string' },
+        concurrency: { type: 'string', short: 'j' },
+        'recordings-dir': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err: any) {
+    console.error(`${err?.message ?? err}\n\n${SERVE_USAGE}`);
+    return 2;
+  }
+  const { values } = parsed;
+  if (values.help) {
+    console.log(SERVE_USAGE);
+    return 0;
+  }
+  const port = Number(values.port ?? DEFAULT_PORT);
+  const maxUploadMb = Number(values['max-upload-mb'] ?? 100);
+  const concurrency = Number(values.concurrency ?? 1);
+  const problems = [
+    !(Number.isInteger(port) && port >= 0 && port < 65536) && '--port must be a port number',
+    !(maxUploadMb > 0) && '--max-upload-mb must be a positive number',
+    !(Number.isInteger(concurrency) && concurrency > 0) && '--concurrency must be a positive integer',
+    values.engine && !engineNames().includes(values.engine) && `unknown engine: ${values.engine}`,
+  ].filter(Boolean);
+  if (problems.length) {
+    console.error(problems.join('\n'));
+    return 2;
+  }
+  if (values['model-dir']) configureModels({ localModelPath: path.resolve(process.cwd(), values['model-dir']) });
+  if (values['recordings-dir']) configureRecordings({ directory: path.resolve(process.cwd(), values['recordings-dir']) });
+
+  const token = values.token ?? process.env.VTP_SERVER_TOKEN;
+  let running;
+  try {
+    running = await startServer({
+      port,
+      concurrency,
+      maxUploadBytes: Math.round(maxUploadMb * 1024 * 1024),
+      defaults: {
+        ...(values.engine ? { engine: values.engine } : {}),
+        ...(values.vad ? { vad: true } : {}),
+      },
+      ...(values.host ? { host: values.host } : {}),
+      ...(token ? { token } : {}),
+    });
+  } catch (err: any) {
+    console.error(`cannot start the server: ${err?.message ?? err}`);
+    return 1;
+  }
+  console.log(`Listening on ${running.url} (engine ${values.engine ?? getDefaultEngineName()}${token ? ', token required' : ''})`);
+
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      console.log('Shutting down...');
+      void running.close().then(resolve);
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+  return 0;
+}
+
+export default { runServeCommand };
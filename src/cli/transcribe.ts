@@ -1,22 +1,292 @@
 #!/usr/bin/env node
-import { transcribeFile } from '../services/transcribe.js';
+import { checkPrompt, localTranscriber } from '../services/transcribe.js';
+import { configureWorkers, stopWorkers, workerTranscriber } from '../services/workers.js';
+import { formatTranscript, formatFromPath, isOutputFormat, OUTPUT_FORMATS, type OutputFormat } from '../services/formats.js';
+import { configureModels } from '../services/model-config.js';
+import { engineNames, getDefaultEngineName } from '../services/engines/index.js';
+import { normalizeLanguage } from '../services/languages.js';
+import { getSettingsConfig, loadSettings } from '../services/settings.js';
+import { parsePreprocess, PREPROCESS_PRESETS } from '../services/preprocess.js';
+import { describeAudioTrack, listAudioTracks } from '../services/audio.js';
+import { expandInputs } from './inputs.js';
+import { parseVocabulary, resolveRules, RULES_HELP } from './rules.js';
+import { planOutputs, isUpToDate, mapWithConcurrency } from './batch.js';
+import { createProgressLine } from './progress.js';
+import { isLibraryCommand, runLibraryCommand } from './library.js';
+import { runServeCommand } from './serve.js';
+import { runEvalCommand } from './eval.js';
+import { runWatchCommand } from './watch.js';
+import fs from 'fs/promises';
 import path from 'path';
+import { parseArgs } from 'util';
+
+const USAGE = `Usage: npm run transcribe -- [options] <file|dir|glob>...
+
+Options:
+  -e, --engine <name>      ${engineNames().join(' | ')} (default ${getDefaultEngineName()})
+  -m, --model <id>         model id (default: the engine's default model)
+      --model-dir <path>   load models from this directory only (no downloads)
+      --list-models        list models present on disk and exit
+  -l, --language <code>    source language (code or name), or 'auto' to detect it
+  -t, --translate          translate to English (uses a multilingual model)
+  -f, --format <list>      output formats, comma separated: ${OUTPUT_FORMATS.join(', ')}
+  -o, --output <path>      output directory, or output file for a single input
+  -j, --concurrency <n>    files transcribed in parallel (default 1, or the number of workers)
+  -w, --workers <n>        transcribe in <n> worker threads, each with its own copy of the model
+  -r, --recursive          descend into sub-directories
+      --words              word-level timestamps
+      --chunk-length <s>   window length for long audio in seconds, 0 disables (default 30)
+      --stride <s>         overlap between windows in seconds (default 5)
+      --vad                skip silence and transcribe detected speech only
+      --diarize            label segments by speaker (Speaker 1, Speaker 2, ...)
+      --speakers <n>       expected number of speakers (implies --diarize)
+  -p, --preprocess <list>  audio cleanup before transcription, comma separated presets and steps:
+                           ${Object.keys(PREPROCESS_PRESETS).join(', ')},
+                           highpass=<hz>, lowpass=<hz>, channel=<left|right|n>, tempo=<0.5-2>
+                           e.g. -p phone  or  -p normalize,highpass=150,tempo=1.25
+      --track <n>          audio track to transcribe in files with several, from 1 (default: ffmpeg's pick)
+      --list-tracks        list the audio tracks of the inputs and exit
+${RULES_HELP}
+      --force              transcribe even when outputs are up to date
+  -q, --quiet              only print errors and the summary
+  -v, --verbose            print service progress messages
+  -h, --help               show this help
+
+Inputs may be audio or video files (mp4, mkv, mov, webm...): only their audio is transcribed.
+With a single input and neither --output nor --format, the transcript is printed to stdout.
+Options left out fall back to the app settings (${getSettingsConfig().path}):
+engine, model, language, formats, output directory, chunk length, vad, preprocessing and rule set.
+A rules file holds the fields of a rule set, e.g.
+  { "vocabulary": ["Kubernetes"], "replacements": [{ "find": "cooper netties", "replace": "Kubernetes" }],
+    "fillers": true, "numbers": true, "mask": ["email", "phone"], "casing": "sentence" }
+
+Library commands (transcripts saved by the app): list, search <words...>, show <id>
+  e.g. npm run transcribe -- search budget meeting   (see: npm run transcribe -- list --help)
+
+Server mode (OpenAI-compatible API on localhost): serve   (see: npm run transcribe -- serve --help)
+
+Accuracy evaluation (WER / CER reports over audios/manifest.json): eval   (see: npm run transcribe -- eval --help)
+
+Watch a folder and transcribe new audio and video files as they arrive: watch <dir>   (see: npm run transcribe -- watch --help)`;
+
+type FileResult = { file: string; status: 'done' | 'skipped' | 'failed'; error?: string };
+
+function parseCli(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      engine: { type: 'string', short: 'e' },
+      model: { type: 'string', short: 'm' },
+      'model-dir': { type: 'string' },
+      'list-models': { type: 'boolean' },
+      language: { type: 'string', short: 'l' },
+      translate: { type: 'boolean', short: 't' },
+      format: { type: 'string', short: 'f' },
+      output: { type: 'string', short: 'o' },
+      concurrency: { type: 'string', short: 'j' },
+      workers: { type: 'string', short: 'w' },
+      recursive: { type: 'boolean', short: 'r' },
+      words: { type: 'boolean' },
+      'chunk-length': { type: 'string' },
+      stride: { type: 'string' },
+      vad: { type: 'boolean' },
+      diarize: { type: 'boolean' },
+      speakers: { type: 'string' },
+      preprocess: { type: 'string', short: 'p' },
+      track: { type: 'string' },
+      'list-tracks': { type: 'boolean' },
+      rules: { type: 'string' },
+      prompt: { type: 'string' },
+      vocabulary: { type: 'string' },
+      force: { type: 'boolean' },
+      quiet: { type: 'boolean', short: 'q' },
+      verbose: { type: 'boolean', short: 'v' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  const formats = (values.format ?? '').split(',').map((f) => f.trim().toLowerCase()).filter(Boolean);
+  const invalid = formats.filter((f) => !isOutputFormat(f));
+  if (invalid.length) throw new Error(`unknown format: ${invalid.join(', ')}`);
+  normalizeLanguage(values.language); // throws on unknown languages
+  if (values.engine && !engineNames().includes(values.engine)) throw new Error(`unknown engine: ${values.engine}`);
+  for (const key of ['chunk-length', 'stride'] as const) {
+    const v = values[key];
+    if (v !== undefined && !(Number(v) >= 0)) throw new Error(`--${key} must be a number of seconds`);
+  }
+  if (values.speakers !== undefined && !(Number.isInteger(Number(values.speakers)) && Number(values.speakers) >= 1)) {
+    throw new Error('--speakers must be a positive integer');
+  }
+  const preprocess = values.preprocess !== undefined ? parsePreprocess(values.preprocess) : undefined;
+  // 1-based like --list-tracks shows them; the services count from 0
+  const track = values.track !== undefined ? Number(values.track) - 1 : undefined;
+  if (track !== undefined && !(Number.isInteger(track) && track >= 0)) throw new Error('--track must be a positive integer');
+  const workers = values.workers !== undefined ? Number(values.workers) : undefined;
+  if (workers !== undefined && !(Number.isInteger(workers) && workers >= 1)) throw new Error('--workers must be a positive integer');
+  const concurrency = Number(values.concurrency ?? workers ?? 1);
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new Error('--concurrency must be a positive integer');
+  return { values, positionals, formats: formats as OutputFormat[], concurrency, workers, preprocess, track };
+}
 
 async function main() {
-  const arg = process.argv[2];
-  if (!arg) {
-    console.error('Usage: npm run transcribe -- <audio-file>');
+  const [command, ...rest] = process.argv.slice(2);
+  if (isLibraryCommand(command)) {
+    process.exitCode = await runLibraryCommand(command, rest);
+    return;
+  }
+  if (command === 'serve') {
+    process.exitCode = await runServeCommand(rest);
+    return;
+  }
+  if (command === 'eval') {
+    process.exitCode = await runEvalCommand(rest);
+    return;
+  }
+  if (command === 'watch') {
+    process.exitCode = await runWatchCommand(rest);
+    return;
+  }
+  let cli: ReturnType<typeof parseCli>;
+  try {
+    cli = parseCli(process.argv.slice(2));
+  } catch (err: any) {
+    console.error(`${err?.message ?? err}\n\n${USAGE}`);
     process.exit(2);
   }
-  const filePath = path.resolve(process.cwd(), arg);
+  const { values, positionals, concurrency, workers, preprocess, track } = cli;
+  let rules;
   try {
-    const text = await transcribeFile(filePath);
-    console.log('\n=== TRANSCRIPT ===\n');
-    console.log(text);
+    rules = await resolveRules(values.rules, parseVocabulary(values.vocabulary));
   } catch (err: any) {
-    console.error('Transcription failed:', err?.message ?? err);
+    console.error(err?.message ?? String(err));
+    process.exit(2);
+  }
+  if (values['model-dir']) configureModels({ localModelPath: path.resolve(process.cwd(), values['model-dir']) });
+  if (values['list-models']) {
+    // the model manager pulls in transformers.js, which transcribing with another engine does not need
+    const { listLocalModels } = await import('../services/models.js');
+    const models = await listLocalModels();
+    if (models.length === 0) console.log('No models found on disk.');
+    for (const m of models) console.log(`${m.id}\t${m.source}\t${m.path}`);
+    return;
+  }
+  if (values.help || positionals.length === 0) {
+    console[values.help ? 'log' : 'error'](USAGE);
+    process.exit(values.help ? 0 : 2);
+  }
+
+  const quiet = !!values.quiet;
+  const progress = createProgressLine();
+  const showProgress = progress.enabled && !quiet && !values.verbose;
+  const info = (...args: unknown[]) => { if (!quiet) progress.print(() => console.log(...args)); };
+  const error = (...args: unknown[]) => progress.print(() => console.error(...args));
+  const { files, missing } = await expandInputs(positionals, { recursive: !!values.recursive });
+  for (const m of missing) console.error(`No audio or video files match: ${m}`);
+  if (files.length === 0) {
     process.exitCode = 1;
+    return;
+  }
+  if (values['list-tracks']) {
+    for (const file of files) {
+      const name = path.relative(process.cwd(), file) || file;
+      try {
+        const tracks = await listAudioTracks(file);
+        console.log(`${name}:${tracks.length ? '' : ' no audio track'}`);
+        for (const t of tracks) console.log(`  ${describeAudioTrack(t)}${t.default ? ' (default)' : ''}`);
+      } catch (err: any) {
+        console.error(`${name}: ${err?.message ?? err}`);
+        process.exitCode = 1;
+      }
+    }
+    return;
   }
+
+  // worker threads keep inference off this thread, so several files really transcribe at once
+  if (workers) configureWorkers({ threads: workers });
+  const { transcribeFile } = workers ? workerTranscriber : localTranscriber;
+
+  const options = {
+    timestamps: values.words ? 'word' as const : 'segment' as const,
+    ...(values.engine ? { engine: values.engine } : {}),
+    ...(values.model ? { model: values.model } : {}),
+    ...(values.language ? { language: values.language } : {}),
+    ...(values.translate ? { task: 'translate' as const } : {}),
+    ...(values['chunk-length'] !== undefined ? { chunkSeconds: Number(values['chunk-length']) } : {}),
+    ...(values.stride !== undefined ? { strideSeconds: Number(values.stride) } : {}),
+    ...(values.vad ? { vad: true } : {}),
+    ...(values.speakers !== undefined ? { diarize: { speakers: Number(values.speakers) } } : values.diarize ? { diarize: true } : {}),
+    ...(preprocess ? { preprocess } : {}),
+    ...(track !== undefined ? { track } : {}),
+    ...(values.prompt ? { prompt: values.prompt } : {}),
+    ...(rules ? { rules } : {}),
+  };
+  // an engine without prompts would drop it silently; an unknown engine is reported by the transcription itself
+  const ignoredPrompt = await checkPrompt(options).catch(() => undefined);
+  if (ignoredPrompt) error(`Warning: ${ignoredPrompt}`);
+
+  // Legacy single-file mode: print the transcript instead of writing files
+  if (files.length === 1 && !values.output && cli.formats.length === 0) {
+    try {
+      const transcript = await transcribeFile(files[0]!, {
+        ...options,
+        log: values.verbose ? console.log : () => {},
+        ...(showProgress ? { onProgress: (p) => progress.update(path.basename(files[0]!), p) } : {}),
+      });
+      progress.done(path.basename(files[0]!));
+      info(`\n=== TRANSCRIPT${transcript.language ? ` (${transcript.language}${transcript.task === 'translate' ? ' → en' : ''})` : ''} ===\n`);
+      console.log(transcript.text);
+    } catch (err: any) {
+      error('Transcription failed:', err?.message ?? err);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  // An --output with a known transcript extension names the file itself; anything else is a directory
+  const output = values.output ? path.resolve(process.cwd(), values.output) : undefined;
+  const outFile = output && files.length === 1 && isOutputFormat(path.extname(output).slice(1).toLowerCase()) ? output : undefined;
+  const settings = await loadSettings();
+  const formats: OutputFormat[] = cli.formats.length ? cli.formats : outFile ? [formatFromPath(outFile)] : settings.outputFormats;
+  const outDir = output ? (outFile ? undefined : output) : settings.outputDirectory;
+  if (outDir) await fs.mkdir(outDir, { recursive: true });
+
+  const started = Date.now();
+  const results = await mapWithConcurrency(files, concurrency, async (file, i): Promise<FileResult> => {
+    const label = `[${i + 1}/${files.length}] ${path.relative(process.cwd(), file) || file}`;
+    const outputs = planOutputs(file, { formats, ...(outDir ? { outDir } : {}), ...(outFile ? { outFile } : {}) });
+    try {
+      if (!values.force && await isUpToDate(file, outputs)) {
+        info(`${label}: up to date, skipped`);
+        return { file, status: 'skipped' };
+      }
+      const transcript = await transcribeFile(file, {
+        ...options,
+        log: values.verbose ? (msg) => console.log(`${label}: ${msg}`) : () => {},
+        ...(showProgress ? { onProgress: (p) => progress.update(label, p) } : {}),
+      });
+      progress.done(label);
+      for (const out of outputs) {
+        await fs.writeFile(out.path, formatTranscript(transcript, out.format), 'utf8');
+      }
+      info(`${label}: wrote ${outputs.map((o) => path.relative(process.cwd(), o.path)).join(', ')}`);
+      return { file, status: 'done' };
+    } catch (err: any) {
+      progress.done(label);
+      error(`${label}: failed: ${err?.message ?? err}`);
+      return { file, status: 'failed', error: String(err?.message ?? err) };
+    }
+  });
+
+  const count = (status: FileResult['status']) => results.filter((r) => r.status === status).length;
+  const failed = results.filter((r) => r.status === 'failed');
+  console.log(`\nSummary: ${count('done')} transcribed, ${count('skipped')} skipped, ${failed.length} failed in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+  for (const f of failed) console.log(`  failed: ${f.file} (${f.error})`);
+  if (failed.length || missing.length) process.exitCode = 1;
+  if (workers) await stopWorkers();
 }
 
-main();
+// an error that escapes main (e.g. from a subcommand) ends the run with its message, not an unhandled rejection
+main().catch((err) => {
+  console.error(err?.message ?? err);
+  process.exitCode = 1;
+});
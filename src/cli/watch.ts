@@ -0,0 +1,183 @@
+import { parseArgs } from 'util';
+import path from 'path';
+import { configureModels } from '../services/model-config.js';
+import { engineNames, getDefaultEngineName } from '../services/engines/index.js';
+import { isOutputFormat, OUTPUT_FORMATS, type OutputFormat } from '../services/formats.js';
+import { normalizeLanguage } from '../services/languages.js';
+import { loadSettings } from '../services/settings.js';
+import { parsePreprocess, PREPROCESS_PRESETS } from '../services/preprocess.js';
+import { checkPrompt, localTranscriber } from '../services/transcribe.js';
+import { configureWorkers, stopWorkers, workerTranscriber } from '../services/workers.js';
+import { startWatching, type WatchEvent } from '../services/watch.js';
+import { parseVocabulary, resolveRules, RULES_HELP } from './rules.js';
+
+/**
+ * watch subcommand of the CLI: transcribes audio and video files as they appear in a folder until interrupted
+ * (see services/watch.ts)
+ */
+
+export const WATCH_USAGE = `Usage: npm run transcribe -- watch [options] <dir>
+
+Transcribes audio and video files added to <dir> (or changed) once they have finished writing, until Ctrl+C.
+
+Options:
+  -o, --output <dir>       transcript folder (default: the app's output directory, else <dir>/transcripts)
+  -f, --format <list>      output formats, comma separated: ${OUTPUT_FORMATS.join(', ')} (default: the app's formats)
+      --errors <dir>       where failed files are moved, with an errors.log (default <dir>/failed)
+      --state <file>       record of processed files (default <dir>/.transcribe-watch.json)
+  -r, --recursive          watch sub-directories too
+      --settle <s>         seconds a file must stay unchanged before it is transcribed (default 5)
+  -e, --engine <name>      ${engineNames().join(' | ')} (default ${getDefaultEngineName()})
+  -m, --model <id>         model id (default: the engine's default model)
+      --model-dir <path>   load models from this directory only (no downloads)
+  -l, --language <code>    source language (code or name), or 'auto' to detect it
+      --vad                skip silence and transcribe detected speech only
+  -p, --preprocess <list>  audio cleanup before transcription (${Object.keys(PREPROCESS_PRESETS).join(', ')}, highpass=<hz>...)
+${RULES_HELP}
+  -w, --workers <n>        transcribe in a worker thread (files are still taken one at a time)
+  -h, --help               show this help
+
+Files already listed in the state file are skipped, so a restart only picks up what is new.`;
+
+const stamp = () => new Date().toLocaleTimeString();
+
+/** Resolves with the exit code once the watcher stops: 0 after Ctrl+C, 2 on usage errors */
+export async function runWatchCommand(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: 'string', short: 'o' },
+        format: { type: 'string', short: 'f' },
+        errors: { type: 'string' },
+        state: { type: 'string' },
+        recursive: { type: 'boolean', short: 'r' },
+        settle: { type: 'string' },
+        engine: { type: 'string', short: 'e' },
+        model: { type: 'string', short: 'm' },
+        'model-dir': { type: 'string' },
+        language: { type: 'string', short: 'l' },
+        vad: { type: 'boolean' },
+        preprocess: { type: 'string', short: 'p' },
+        rules: { type: 'string' },
+        prompt: { type: 'string' },
+        vocabulary: { type: 'string' },
+        workers: { type: 'string', short: 'w' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err: any) {
+    console.error(`${err?.message ?? err}\n\n${WATCH_USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(WATCH_USAGE);
+    return 0;
+  }
+  const formats = (values.format ?? '').split(',').map((f) => f.trim().toLowerCase()).filter(Boolean);
+  const settle = values.settle !== undefined ? Number(values.settle) : undefined;
+  const workers = values.workers !== undefined ? Number(values.workers) : undefined;
+  const problems: string[] = [
+    positionals.length !== 1 ? 'expected a single folder to watch' : '',
+    formats.filter((f) => !isOutputFormat(f)).map((f) => `unknown format: ${f}`).join('\n'),
+    values.engine && !engineNames().includes(values.engine) ? `unknown engine: ${values.engine}` : '',
+    settle !== undefined && !(settle >= 0) ? '--settle must be a number of seconds' : '',
+    workers !== undefined && !(Number.isInteger(workers) && workers >= 1) ? '--workers must be a positive integer' : '',
+  ];
+  let preprocess;
+  let rules;
+  try {
+    normalizeLanguage(values.language);
+    if (values.preprocess !== undefined) preprocess = parsePreprocess(values.preprocess);
+    rules = await resolveRules(values.rules, parseVocabulary(values.vocabulary));
+  } catch (err: any) {
+    problems.push(err?.message ?? String(err));
+  }
+  if (problems.some(Boolean)) {
+    console.error(`${problems.filter(Boolean).join('\n')}\n\n${WATCH_USAGE}`);
+    return 2;
+  }
+  if (values['model-dir']) configureModels({ localModelPath: path.resolve(process.cwd(), values['model-dir']) });
+  if (workers) configureWorkers({ threads: workers });
+
+  const settings = await loadSettings();
+  const output = values.output ? path.resolve(process.cwd(), values.output) : settings.outputDirectory;
+  const log = (event: WatchEvent) => {
+    // relative to the working directory when under it, absolute otherwise
+    const rel = (file: string) => {
+      const relative = path.relative(process.cwd(), file);
+      return relative && !relative.startsWith('..') ? relative : file;
+    };
+    switch (event.type) {
+      case 'waiting':
+        console.log(`${stamp()} ${rel(event.file)}: waiting for it to finish writing`);
+        break;
+      case 'started':
+        console.log(`${stamp()} ${rel(event.file)}: transcribing`);
+        break;
+      case 'done':
+        console.log(`${stamp()} ${rel(event.file)}: wrote ${event.outputs.map(rel).join(', ')}`);
+        break;
+      case 'failed':
+        console.error(`${stamp()} ${rel(event.file)}: failed: ${event.error}${event.movedTo ? ` (moved to ${rel(event.movedTo)})` : ''}`);
+        break;
+      case 'cancelled':
+        console.log(`${stamp()} ${rel(event.file)}: cancelled`);
+        break;
+      case 'error':
+        console.error(`${stamp()} ${event.error}`);
+        break;
+    }
+  };
+
+  const options = {
+    ...(values.engine ? { engine: values.engine } : {}),
+    ...(values.model ? { model: values.model } : {}),
+    ...(values.language ? { language: values.language } : {}),
+    ...(values.vad ? { vad: true } : {}),
+    ...(preprocess ? { preprocess } : {}),
+    ...(values.prompt ? { prompt: values.prompt } : {}),
+    ...(rules ? { rules } : {}),
+  };
+  const ignoredPrompt = await checkPrompt(options).catch(() => undefined);
+  if (ignoredPrompt) console.error(`Warning: ${ignoredPrompt}`);
+
+  let watcher;
+  try {
+    watcher = await startWatching({
+      directory: path.resolve(process.cwd(), positionals[0]!),
+      ...(output ? { outputDirectory: output } : {}),
+      ...(values.errors ? { errorDirectory: path.resolve(process.cwd(), values.errors) } : {}),
+      ...(values.state ? { stateFile: path.resolve(process.cwd(), values.state) } : {}),
+      formats: formats.length ? formats as OutputFormat[] : settings.outputFormats,
+      recursive: !!values.recursive,
+      ...(settle !== undefined ? { settleMs: settle * 1000 } : {}),
+      transcribe: (workers ? workerTranscriber : localTranscriber).transcribeFile,
+      options,
+      onEvent: log,
+    });
+  } catch (err: any) {
+    console.error(err?.message ?? String(err));
+    return 2;
+  }
+  console.log(`Watching ${watcher.directory} (Ctrl+C to stop); transcripts go to ${watcher.outputDirectory}`);
+
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolve();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+  console.log('Stopping…');
+  await watcher.stop();
+  if (workers) await stopWorkers();
+  return 0;
+}
+
+export default { runWatchCommand };
@@ -0,0 +1,288 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { checkPreprocess, type PreprocessOptions } from '../services/preprocess.js';
+import type { TranscribeOptions } from '../services/transcribe.js';
+import type { Transcript } from '../services/types.js';
+import { characterErrorRate, combineErrorRates, wordErrorRate, type ErrorRate, type NormalizeOptions } from './metrics.js';
+
+/**
+ * Accuracy evaluation
+ * - A manifest (JSON) lists audio files with their reference transcripts, and optionally the configurations
+ *   to compare; paths are relative to the manifest
+ * - runEvaluation transcribes every item with every configuration and scores the text against the reference
+ *   (see metrics.ts); items without a reference are still timed but left unscored
+ * - Speed is the real-time factor (processing time / audio duration, below 1 is faster than real time) and the
+ *   model load time, measured separately so the first item does not carry it
+ * - The transcriber and the model loader are passed in, so the harness runs without models in tests
+ */
+
+export type EvalItem = {
+  /** label in reports; defaults to the audio file name */
+  id: string;
+  /** absolute path once loaded */
+  audio: string;
+  reference?: string;
+  /** source language of this item; overrides the configuration's */
+  language?: string;
+};
+
+/** One set of transcription settings to compare */
+export type EvalConfig = {
+  name: string;
+  engine?: string;
+  model?: string;
+  language?: string;
+  preprocess?: PreprocessOptions;
+  vad?: boolean;
+  chunkSeconds?: number;
+};
+
+export type EvalManifest = {
+  items: EvalItem[];
+  configs: EvalConfig[];
+  normalize: NormalizeOptions;
+};
+
+export type EvalDeps = {
+  transcribe: (filePath: string, options: TranscribeOptions) => Promise<Transcript>;
+  /**
+   * Pick and load the configuration's model ahead of the items; `loaded` is false when the engine loads
+   * on every call instead (no load time is reported then)
+   */
+  loadModel?: (config: EvalConfig) => Promise<{ model: string; loaded: boolean }>;
+  /** milliseconds; defaults to performance.now */
+  now?: () => number;
+  log?: (message: string) => void;
+};
+
+export type ItemResult = {
+  id: string;
+  audio: string;
+  /** seconds of audio, as reported by the transcriber */
+  duration?: number;
+  /** seconds spent transcribing */
+  processing: number;
+  model?: string;
+  realTimeFactor?: number;
+  hypothesis?: string;
+  wer?: ErrorRate;
+  cer?: ErrorRate;
+  error?: string;
+};
+
+export type ConfigResult = {
+  config: EvalConfig;
+  /** model reported by the loader or the transcripts */
+  model?: string;
+  /** seconds spent loading the model; left out when the engine cannot load ahead (e.g. whisper-cpp) */
+  loadTime?: number;
+  loadError?: string;
+  items: ItemResult[];
+  /** corpus rates over the scored items: summed edits / summed reference length */
+  wer?: ErrorRate;
+  cer?: ErrorRate;
+  /** total processing time / total audio duration of the transcribed items */
+  realTimeFactor?: number;
+  scored: number;
+  failed: number;
+};
+
+export type EvalReport = {
+  createdAt: string;
+  manifest?: string;
+  normalize: NormalizeOptions;
+  configs: ConfigResult[];
+};
+
+function fail(source: string, message: string): never {
+  throw new Error(`${source}: ${message}`);
+}
+
+function optionalString(value: unknown, name: string, source: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !value.trim()) fail(source, `${name} must be a non-empty string`);
+  return value;
+}
+
+/** Validated configuration; `source` names it in error messages */
+export function checkEvalConfig(value: unknown, source = 'config'): EvalConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) fail(source, 'must be an object');
+  const input = value as Record<string, unknown>;
+  const name = optionalString(input.name, 'name', source);
+  const engine = optionalString(input.engine, 'engine', source);
+  const model = optionalString(input.model, 'model', source);
+  const language = optionalString(input.language, 'language', source);
+  if (input.vad !== undefined && typeof input.vad !== 'boolean') fail(source, 'vad must be true or false');
+  if (input.chunkSeconds !== undefined && !(typeof input.chunkSeconds === 'number' && input.chunkSeconds >= 0)) {
+    fail(source, 'chunkSeconds must be a number of seconds');
+  }
+  let preprocess: PreprocessOptions | undefined;
+  try {
+    preprocess = input.preprocess !== undefined ? checkPreprocess(input.preprocess) : undefined;
+  } catch (err: any) {
+    fail(source, err?.message ?? String(err));
+  }
+  return {
+    name: name ?? model ?? engine ?? 'default',
+    ...(engine ? { engine } : {}),
+    ...(model ? { model } : {}),
+    ...(language ? { language } : {}),
+    ...(preprocess ? { preprocess } : {}),
+    ...(input.vad !== undefined ? { vad: input.vad as boolean } : {}),
+    ...(input.chunkSeconds !== undefined ? { chunkSeconds: input.chunkSeconds as number } : {}),
+  };
+}
+
+/**
+ * Read a manifest:
+ *   { "items": [{ "audio": "sample-0.wav", "reference": "…" }, { "audio": "b.mp3", "referenceFile": "b.txt", "language": "fr" }],
+ *     "configs": [{ "name": "tiny", "model": "Xenova/whisper-tiny.en" }, { "name": "base", "model": "Xenova/whisper-base.en" }],
+ *     "normalize": { "removeDiacritics": false } }
+ * `configs` and `normalize` are optional; audio and reference files must exist
+ */
+export async function loadManifest(manifestPath: string): Promise<EvalManifest> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+  } catch (err: any) {
+    fail(manifestPath, err?.code === 'ENOENT' ? 'no such file' : `not a valid manifest (${err?.message ?? err})`);
+  }
+  if (typeof data !== 'object' || data === null || !Array.isArray((data as any).items)) fail(manifestPath, 'expected an "items" array');
+  const manifest = data as { items: unknown[]; configs?: unknown; normalize?: unknown };
+  const directory = path.dirname(path.resolve(manifestPath));
+
+  const items: EvalItem[] = [];
+  for (const [index, value] of manifest.items.entries()) {
+    const source = `${manifestPath}: items[${index}]`;
+    if (typeof value !== 'object' || value === null) fail(source, 'must be an object');
+    const entry = value as Record<string, unknown>;
+    const audio = optionalString(entry.audio, 'audio', source) ?? fail(source, 'audio is required');
+    const audioPath = path.resolve(directory, audio);
+    await fs.access(audioPath).catch(() => fail(source, `audio file not found: ${audioPath}`));
+    let reference: string | undefined;
+    if (entry.reference !== undefined) {
+      if (typeof entry.reference !== 'string') fail(source, 'reference must be a string');
+      reference = entry.reference;
+    } else if (entry.referenceFile !== undefined) {
+      const file = path.resolve(directory, optionalString(entry.referenceFile, 'referenceFile', source)!);
+      reference = await fs.readFile(file, 'utf8').catch(() => fail(source, `reference file not found: ${file}`));
+    }
+    const id = optionalString(entry.id, 'id', source) ?? path.basename(audio);
+    if (items.some((item) => item.id === id)) fail(source, `duplicate id: ${id}`);
+    const language = optionalString(entry.language, 'language', source);
+    items.push({ id, audio: audioPath, ...(reference !== undefined ? { reference } : {}), ...(language ? { language } : {}) });
+  }
+  if (items.length === 0) fail(manifestPath, 'no items');
+
+  if (manifest.configs !== undefined && !Array.isArray(manifest.configs)) fail(manifestPath, '"configs" must be an array');
+  const configs = ((manifest.configs ?? []) as unknown[]).map((c, index) => checkEvalConfig(c, `${manifestPath}: configs[${index}]`));
+  const names = configs.map((c) => c.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) fail(manifestPath, `duplicate config name: ${duplicate}`);
+
+  const normalize = manifest.normalize as { removeDiacritics?: unknown } | undefined;
+  if (normalize !== undefined && (typeof normalize !== 'object' || normalize === null)) fail(manifestPath, '"normalize" must be an object');
+  return { items, configs, normalize: normalize?.removeDiacritics === true ? { removeDiacritics: true } : {} };
+}
+
+async function evaluateItem(item: EvalItem, config: EvalConfig, deps: EvalDeps, normalize: NormalizeOptions): Promise<ItemResult> {
+  const now = deps.now ?? (() => performance.now());
+  const language = item.language ?? config.language;
+  const started = now();
+  try {
+    const transcript = await deps.transcribe(item.audio, {
+      ...(config.engine ? { engine: config.engine } : {}),
+      ...(config.model ? { model: config.model } : {}),
+      ...(language ? { language } : {}),
+      preprocess: config.preprocess ?? {},
+      vad: config.vad ?? false,
+      ...(config.chunkSeconds !== undefined ? { chunkSeconds: config.chunkSeconds } : {}),
+      // scoring words costs an extra pass on some engines and does not change the text
+      confidence: false,
+      log: () => {},
+    });
+    const processing = (now() - started) / 1000;
+    const duration = transcript.duration;
+    return {
+      id: item.id,
+      audio: item.audio,
+      ...(duration !== undefined ? { duration } : {}),
+      processing,
+      ...(transcript.model ? { model: transcript.model } : {}),
+      ...(duration ? { realTimeFactor: processing / duration } : {}),
+      hypothesis: transcript.text.trim(),
+      ...(item.reference !== undefined ? {
+        wer: wordErrorRate(item.reference, transcript.text, normalize),
+        cer: characterErrorRate(item.reference, transcript.text, normalize),
+      } : {}),
+    };
+  } catch (err: any) {
+    return { id: item.id, audio: item.audio, processing: (now() - started) / 1000, error: err?.message ?? String(err) };
+  }
+}
+
+/** Transcribe and score every item with each configuration in turn; failures are recorded, not thrown */
+export async function runEvaluation(items: EvalItem[], configs: EvalConfig[], deps: EvalDeps, options: { normalize?: NormalizeOptions; manifest?: string } = {}): Promise<EvalReport> {
+  const now = deps.now ?? (() => performance.now());
+  const log = deps.log ?? console.log;
+  const normalize = options.normalize ?? {};
+  const results: ConfigResult[] = [];
+  for (const config of configs) {
+    let model = config.model;
+    let loadTime: number | undefined;
+    let loadError: string | undefined;
+    if (deps.loadModel) {
+      log(`[${config.name}] loading model...`);
+      const started = now();
+      try {
+        const loaded = await deps.loadModel(config);
+        if (loaded.loaded) loadTime = (now() - started) / 1000;
+        model = loaded.model;
+      } catch (err: any) {
+        loadError = err?.message ?? String(err);
+        log(`[${config.name}] cannot load the model: ${loadError}`);
+      }
+    }
+    const itemResults: ItemResult[] = [];
+    for (const [index, item] of items.entries()) {
+      // a model that failed to load fails every item the same way; no need to try them
+      const result: ItemResult = loadError !== undefined
+        ? { id: item.id, audio: item.audio, processing: 0, error: loadError }
+        : await evaluateItem(item, config, deps, normalize);
+      const score = result.error ? `failed: ${result.error}` : result.wer ? `WER ${formatPercent(result.wer.rate)}` : 'no reference';
+      log(`[${config.name}] ${index + 1}/${items.length} ${item.id}: ${score}`);
+      itemResults.push(result);
+    }
+    model ??= itemResults.find((r) => r.model)?.model;
+    const done = itemResults.filter((r) => !r.error);
+    const scored = done.filter((r) => r.wer && r.cer);
+    const audioSeconds = done.reduce((sum, r) => sum + (r.duration ?? 0), 0);
+    const processing = done.reduce((sum, r) => sum + r.processing, 0);
+    results.push({
+      config,
+      ...(model ? { model } : {}),
+      ...(loadTime !== undefined ? { loadTime } : {}),
+      ...(loadError !== undefined ? { loadError } : {}),
+      items: itemResults,
+      ...(scored.length ? {
+        wer: combineErrorRates(scored.map((r) => r.wer!)),
+        cer: combineErrorRates(scored.map((r) => r.cer!)),
+      } : {}),
+      ...(audioSeconds > 0 ? { realTimeFactor: processing / audioSeconds } : {}),
+      scored: scored.length,
+      failed: itemResults.length - done.length,
+    });
+  }
+  return {
+    createdAt: new Date().toISOString(),
+    ...(options.manifest ? { manifest: options.manifest } : {}),
+    normalize,
+    configs: results,
+  };
+}
+
+export function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+export default { loadManifest, checkEvalConfig, runEvaluation };
@@ -0,0 +1,94 @@
+/**
+ * Accuracy metrics for the evaluation harness
+ * - normalizeText puts reference and hypothesis in the same form before comparing: case, punctuation and
+ *   whitespace are ignored; accents are kept unless `removeDiacritics` is set
+ * - Word error rate (WER) and character error rate (CER) are (substitutions + deletions + insertions) / reference
+ *   length, from a Levenshtein alignment; they can exceed 1 when the hypothesis is much longer
+ * - Corpus-level rates sum the edits and lengths of all items instead of averaging per-item rates
+ */
+
+export type NormalizeOptions = {
+  /** compare "élève" and "eleve" as equal */
+  removeDiacritics?: boolean;
+};
+
+export type ErrorCounts = {
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  /** length of the reference, in words or characters */
+  reference: number;
+};
+
+export type ErrorRate = ErrorCounts & {
+  /** (substitutions + deletions + insertions) / reference; 0 for an empty reference and hypothesis */
+  rate: number;
+};
+
+export function normalizeText(text: string, options: NormalizeOptions = {}): string {
+  let out = text.normalize('NFKC').toLowerCase();
+  if (options.removeDiacritics) out = out.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+  return out
+    // apostrophes are dropped rather than split on, so "don't" and "dont" compare equal
+    .replace(/['’ʼ`]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/** Edits that turn `reference` into `hypothesis` (Levenshtein, substitutions preferred on ties) */
+export function alignErrors<T>(reference: readonly T[], hypothesis: readonly T[]): ErrorCounts {
+  const n = reference.length;
+  const m = hypothesis.length;
+  // one row of costs at a time, each cell also keeping the edit counts along its best path
+  type Cell = { cost: number; s: number; d: number; i: number };
+  let previous: Cell[] = Array.from({ length: m + 1 }, (_, j) => ({ cost: j, s: 0, d: 0, i: j }));
+  for (let r = 1; r <= n; r++) {
+    const current: Cell[] = [{ cost: r, s: 0, d: r, i: 0 }];
+    for (let h = 1; h <= m; h++) {
+      const diagonal = previous[h - 1]!;
+      const up = previous[h]!;
+      const left = current[h - 1]!;
+      const same = reference[r - 1] === hypothesis[h - 1];
+      const substitute = diagonal.cost + (same ? 0 : 1);
+      const remove = up.cost + 1;
+      const insert = left.cost + 1;
+      if (substitute <= remove && substitute <= insert) {
+        current.push({ cost: substitute, s: diagonal.s + (same ? 0 : 1), d: diagonal.d, i: diagonal.i });
+      } else if (remove <= insert) {
+        current.push({ cost: remove, s: up.s, d: up.d + 1, i: up.i });
+      } else {
+        current.push({ cost: insert, s: left.s, d: left.d, i: left.i + 1 });
+      }
+    }
+    previous = current;
+  }
+  const last = previous[m]!;
+  return { substitutions: last.s, deletions: last.d, insertions: last.i, reference: n };
+}
+
+export function errorRate(counts: ErrorCounts): ErrorRate {
+  const edits = counts.substitutions + counts.deletions + counts.insertions;
+  return { ...counts, rate: counts.reference > 0 ? edits / counts.reference : edits > 0 ? 1 : 0 };
+}
+
+export function wordErrorRate(reference: string, hypothesis: string, options: NormalizeOptions = {}): ErrorRate {
+  const words = (text: string) => normalizeText(text, options).split(' ').filter(Boolean);
+  return errorRate(alignErrors(words(reference), words(hypothesis)));
+}
+
+/** On the normalized text, spaces included */
+export function characterErrorRate(reference: string, hypothesis: string, options: NormalizeOptions = {}): ErrorRate {
+  return errorRate(alignErrors([...normalizeText(reference, options)], [...normalizeText(hypothesis, options)]));
+}
+
+/** Corpus rate: summed edits over summed reference lengths */
+export function combineErrorRates(rates: ErrorCounts[]): ErrorRate {
+  return errorRate(rates.reduce<ErrorCounts>((sum, r) => ({
+    substitutions: sum.substitutions + r.substitutions,
+    deletions: sum.deletions + r.deletions,
+    insertions: sum.insertions + r.insertions,
+    reference: sum.reference + r.reference,
+  }), { substitutions: 0, deletions: 0, insertions: 0, reference: 0 }));
+}
+
+export default { normalizeText, alignErrors, errorRate, wordErrorRate, characterErrorRate, combineErrorRates };
@@ -0,0 +1,96 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { describePreprocess } from '../services/preprocess.js';
+import { formatPercent, type ConfigResult, type EvalReport } from './evaluate.js';
+
+/**
+ * Evaluation reports
+ * - writeReport saves the full results as <base>.json (every item, hypothesis and edit counts) and a readable
+ *   summary as <base>.txt
+ * - The summary has one row per configuration, then the WER of every item side by side
+ */
+
+function settingsOf(result: ConfigResult): string {
+  const { config } = result;
+  const parts = [
+    config.engine,
+    config.language && `lang=${config.language}`,
+    config.preprocess && describePreprocess(config.preprocess) !== 'none' && describePreprocess(config.preprocess),
+    config.vad && 'vad',
+    config.chunkSeconds !== undefined && `chunk=${config.chunkSeconds}`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(' ') : '-';
+}
+
+/** `textColumns` leading columns are left-aligned, the numbers after them right-aligned */
+function table(header: string[], rows: string[][], textColumns: number): string {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => (row[i] ?? '').length)));
+  const line = (cells: string[]) => cells
+    .map((cell, i) => (i < textColumns ? cell.padEnd(widths[i]!) : cell.padStart(widths[i]!)))
+    .join('  ')
+    .trimEnd();
+  return [line(header), widths.map((w) => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n');
+}
+
+const seconds = (value: number | undefined) => (value !== undefined ? `${value.toFixed(2)} s` : '-');
+
+/** Plain-text summary of a report */
+export function formatReportTable(report: EvalReport): string {
+  const summary = table(
+    ['Config', 'Model', 'Settings', 'WER', 'CER', 'RTF', 'Load', 'Scored', 'Failed'],
+    report.configs.map((result) => [
+      result.config.name,
+      result.model ?? '-',
+      settingsOf(result),
+      result.wer ? formatPercent(result.wer.rate) : '-',
+      result.cer ? formatPercent(result.cer.rate) : '-',
+      result.realTimeFactor !== undefined ? result.realTimeFactor.toFixed(2) : '-',
+      seconds(result.loadTime),
+      `${result.scored}/${result.items.length}`,
+      String(result.failed),
+    ]),
+    3,
+  );
+
+  const ids = [...new Set(report.configs.flatMap((result) => result.items.map((item) => item.id)))];
+  const perItem = table(
+    ['Item', 'Duration', ...report.configs.map((result) => result.config.name)],
+    ids.map((id) => {
+      const items = report.configs.map((result) => result.items.find((item) => item.id === id));
+      const duration = items.find((item) => item?.duration !== undefined)?.duration;
+      return [id, seconds(duration), ...items.map((item) => (
+        !item ? '-' : item.error ? 'failed' : item.wer ? formatPercent(item.wer.rate) : 'unscored'
+      ))];
+    }),
+    1,
+  );
+
+  const errors = report.configs.flatMap((result) => [
+    ...(result.loadError ? [`${result.config.name}: cannot load the model: ${result.loadError}`] : []),
+    ...(result.loadError ? [] : result.items.filter((item) => item.error).map((item) => `${result.config.name} / ${item.id}: ${item.error}`)),
+  ]);
+
+  return [
+    `Evaluation ${report.createdAt}${report.manifest ? ` (${report.manifest})` : ''}`,
+    'WER / CER: word / character error rate over the scored items; RTF: processing time / audio duration',
+    '',
+    summary,
+    '',
+    'Word error rate per item',
+    '',
+    perItem,
+    ...(errors.length ? ['', 'Errors', ...errors.map((e) => `  ${e}`)] : []),
+  ].join('\n') + '\n';
+}
+
+/** Write <base>.json and <base>.txt; resolves with both paths */
+export async function writeReport(report: EvalReport, base: string): Promise<{ json: string; text: string }> {
+  const json = `${base}.json`;
+  const text = `${base}.txt`;
+  await fs.mkdir(path.dirname(path.resolve(json)), { recursive: true });
+  await fs.writeFile(json, JSON.stringify(report, null, 2) + '\n', 'utf8');
+  await fs.writeFile(text, formatReportTable(report), 'utf8');
+  return { json, text };
+}
+
+export default { formatReportTable, writeReport };
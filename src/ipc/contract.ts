@@ -0,0 +1,261 @@
+import type { Transcript } from '../services/types.js';
+import type { TranscribeProgress } from '../services/transcribe.js';
+import type { LiveUpdate } from '../services/live.js';
+import type { ChunkResult, RecoverableSession } from '../services/recording.js';
+import type { JobSnapshot } from '../services/jobs.js';
+import type { LibraryEntry, SearchHit } from '../services/library.js';
+import type { LocalModel } from '../services/models.js';
+import type { AudioTrack } from '../services/audio.js';
+import { OUTPUT_FORMATS } from '../services/formats.js';
+import { THEMES, type Settings } from '../services/settings.js';
+import { PREPROCESS_LIMITS } from '../services/preprocess.js';
+import { CASING_MODES, MASK_KINDS, RULE_LIMITS } from '../services/postprocess.js';
+import {
+  arr, arrayBuffer, bool, num, obj, oneOf, optional, str,
+  type Check, type Infer, type IpcErrorCode, type Optional,
+} from './validate.js';
+
+/**
+ * IPC contract between the renderer and the Electron main process
+ * - IPC lists every method of window.electronAPI: its channel, argument checks and result type
+ *   - invoke: request/response; the promise resolves with `{ ok: true, ...result }` or `{ ok: false, error }`
+ *   - send: fire-and-forget, for high-rate data
+ *   - event: main → renderer notifications; the method registers a callback
+ * - The main process registers handlers against it (ipc/main.ts) and the preload builds the bridge from
+ *   bridgeSpec(), so a channel cannot be renamed or dropped on one side only
+ * - ElectronAPI is the renderer's view of the bridge, derived from the same definitions
+ */
+
+// 1 GB, the recording size limit
+const MAX_CHUNK_BYTES = 1024 * 1024 * 1024;
+
+const filePath = str({ max: 4096 });
+const sessionId = str({ max: 128, pattern: /^[\w.-]+$/ });
+const jobId = str({ max: 64, pattern: /^[\w-]+$/ });
+const libraryId = str({ max: 64, pattern: /^[\w-]+$/ });
+const track = num({ min: 0, max: 99, integer: true });
+
+// ranges are checked again, with the highpass < lowpass rule, by checkPreprocess
+const preprocessOptions = obj({
+  normalize: optional(bool()),
+  highpass: optional(num(PREPROCESS_LIMITS.highpass)),
+  lowpass: optional(num(PREPROCESS_LIMITS.lowpass)),
+  denoise: optional(bool()),
+  channel: optional(num({ ...PREPROCESS_LIMITS.channel, integer: true })),
+  tempo: optional(num(PREPROCESS_LIMITS.tempo)),
+});
+
+// regular expressions and duplicate names are checked again by checkRuleSets
+const ruleSet = obj({
+  name: str({ max: RULE_LIMITS.name }),
+  prompt: optional(str({ max: RULE_LIMITS.prompt })),
+  vocabulary: optional(arr(str({ max: RULE_LIMITS.term }), { max: RULE_LIMITS.terms })),
+  replacements: optional(arr(obj({
+    find: str({ max: RULE_LIMITS.pattern }),
+    replace: str({ max: RULE_LIMITS.pattern }),
+    regex: optional(bool()),
+    matchCase: optional(bool()),
+  }), { max: RULE_LIMITS.replacements })),
+  numbers: optional(bool()),
+  fillers: optional(bool()),
+  mask: optional(arr(oneOf(MASK_KINDS), { max: MASK_KINDS.length })),
+  casing: optional(oneOf(CASING_MODES)),
+});
+
+export const transcribeRequest = obj({
+  engine: optional(str({ max: 64 })),
+  model: optional(str({ max: 256 })),
+  language: optional(str({ max: 32 })),
+  task: optional(oneOf(['transcribe', 'translate'] as const)),
+  /** 'word' adds per-word timings, for the editor's highlighting and click-to-seek */
+  timestamps: optional(oneOf(['segment', 'word'] as const)),
+  vad: optional(bool()),
+  /** label speakers; `speakers` fixes their number, otherwise it is estimated */
+  diarize: optional(obj({ speakers: optional(num({ min: 1, max: 20, integer: true })) })),
+  /** replaces the preprocessing from the settings; `{}` for none */
+  preprocess: optional(preprocessOptions),
+  /** audio track of a file with several, 0-based; files only */
+  track: optional(track),
+  start: optional(num({ min: 0 })),
+  end: optional(num({ min: 0 })),
+});
+export type TranscribeRequest = Infer<typeof transcribeRequest>;
+
+export const streamRequest = obj({
+  engine: optional(str({ max: 64 })),
+  model: optional(str({ max: 256 })),
+  language: optional(str({ max: 32 })),
+  task: optional(oneOf(['transcribe', 'translate'] as const)),
+  vad: optional(bool()),
+  live: optional(bool()),
+});
+export type StreamRequest = Infer<typeof streamRequest>;
+
+/** a partial change; an empty string clears an optional setting */
+export const settingsPatch = obj({
+  engine: optional(str({ max: 64 })),
+  model: optional(str({ max: 256 })),
+  language: optional(str({ max: 32 })),
+  inputDeviceId: optional(str({ max: 512 })),
+  outputDirectory: optional(filePath),
+  watchDirectory: optional(filePath),
+  outputFormats: optional(arr(oneOf(OUTPUT_FORMATS), { max: OUTPUT_FORMATS.length })),
+  chunkSeconds: optional(num({ min: 0, max: 600 })),
+  vad: optional(bool()),
+  preprocess: optional(preprocessOptions),
+  ruleSets: optional(arr(ruleSet, { max: 100 })),
+  ruleSet: optional(str({ max: RULE_LIMITS.name })),
+  ui: optional(obj({
+    theme: optional(oneOf(THEMES)),
+    fontSize: optional(num({ min: 8, max: 48 })),
+    live: optional(bool()),
+    confidenceThreshold: optional(num({ min: 0, max: 1 })),
+  })),
+});
+export type SettingsPatch = Infer<typeof settingsPatch>;
+
+const confidence = optional(num({ min: 0, max: 1 }));
+const word = obj({ text: str(), start: num(), end: num(), confidence });
+const segment = obj({
+  id: num(),
+  start: num(),
+  end: num(),
+  text: str({ max: 100_000 }),
+  words: optional(arr(word)),
+  confidence,
+  wordScores: optional(arr(obj({ text: str(), confidence }))),
+  speaker: optional(str({ max: 64 })),
+});
+export const transcript: Check<Transcript> = obj({
+  text: str({ max: 50_000_000 }),
+  segments: arr(segment),
+  model: optional(str({ max: 256 })),
+  duration: optional(num({ min: 0 })),
+  language: optional(str({ max: 32 })),
+  task: optional(oneOf(['transcribe', 'translate'] as const)),
+  speakers: optional(arr(obj({ id: str({ max: 64 }), name: str({ max: 200 }) }), { max: 100 })),
+});
+
+export type SerializedIpcError = { code: IpcErrorCode; message: string };
+
+/** Error branch fields are all undefined, so `resp.jobs?.forEach` works without narrowing first */
+export type IpcResult<R> =
+  | ({ ok: true; error?: undefined } & R)
+  | ({ ok: false; error: SerializedIpcError } & { [K in keyof R]?: undefined });
+
+type InvokeDef<A extends Check<unknown>[], R> = { kind: 'invoke'; channel: string; args: A; log: boolean; result?: R };
+type SendDef<A extends Check<unknown>[]> = { kind: 'send'; channel: string; args: A; log: boolean };
+type EventDef<P extends unknown[]> = { kind: 'event'; channel: string; payload?: P };
+
+// invoke<Result>()(channel, args): the result type is given, the argument types come from the checks
+const invoke = <R extends object = {}>() =>
+  <const A extends Check<unknown>[]>(channel: string, args: A, options: { log?: boolean } = {}): InvokeDef<A, R> =>
+    ({ kind: 'invoke', channel, args, log: options.log ?? true });
+const send = <const A extends Check<unknown>[]>(channel: string, args: A): SendDef<A> =>
+  ({ kind: 'send', channel, args, log: false });
+const event = <P extends unknown[]>(channel: string): EventDef<P> => ({ kind: 'event', channel });
+
+type RecordingResult = { text: string; transcript: Transcript; audioPath: string; transcriptPath: string; libraryId?: string };
+
+export const IPC = {
+  /** `prompts`: the engines that pass a prompt on to the model */
+  listEngines: invoke<{ engines: string[]; defaultEngine: string; prompts: string[] }>()('list-engines', []),
+  listModels: invoke<{ models: LocalModel[] }>()('list-models', []),
+
+  openAudioFile: invoke<{ filePath: string | null }>()('open-audio-file', []),
+  openAudioFiles: invoke<{ filePaths: string[] }>()('open-audio-files', []),
+  /** the extension of `filePath` picks the format when a timed transcript is given */
+  saveTranscript: invoke<{ filePath: string }>()('save-transcript', [filePath, str({ max: 50_000_000 }), optional(transcript)]),
+
+  /** `promptIgnored` says why the prompt and vocabulary did not reach the engine */
+  transcribeFile: invoke<{ text: string; transcript: Transcript; jobId: string; libraryId?: string; promptIgnored?: string }>()(
+    'transcribe-file', [filePath, optional(transcribeRequest)]),
+  enqueueJobs: invoke<{ jobs: JobSnapshot[] }>()('enqueue-jobs', [arr(filePath, { max: 1000 }), optional(transcribeRequest)]),
+  listJobs: invoke<{ jobs: JobSnapshot[] }>()('list-jobs', [], { log: false }),
+  getJob: invoke<{ job: JobSnapshot & { transcript?: Transcript } }>()('get-job', [jobId], { log: false }),
+  cancelJob: invoke<{ cancelled: boolean }>()('cancel-job', [jobId]),
+  clearFinishedJobs: invoke<{ removed: number }>()('clear-finished-jobs', [], { log: false }),
+  /** the audio as the engine would get it with these preprocessing steps, as a temporary WAV to play */
+  previewPreprocess: invoke<{ filePath: string }>()('preview-preprocess', [filePath, preprocessOptions, optional(track)]),
+  /**
+   * the audio of any audio or video file as a temporary 16 kHz WAV, for the waveform, and its audio tracks;
+   * `track` is the one extracted when the file has several
+   */
+  extractAudio: invoke<{ filePath: string; tracks: (AudioTrack & { label: string })[]; track?: number }>()(
+    'extract-audio', [filePath, optional(track)]),
+
+  startStream: invoke()('stream-start', [optional(sessionId), optional(streamRequest)]),
+  sendStreamChunk: invoke<ChunkResult>()('stream-chunk', [sessionId, arrayBuffer({ max: MAX_CHUNK_BYTES })]),
+  /** 16 kHz mono Float32 PCM for live transcription, several times a second */
+  sendStreamPcm: send('stream-pcm', [sessionId, arrayBuffer({ max: MAX_CHUNK_BYTES })]),
+  pauseStream: invoke()('stream-pause', [sessionId]),
+  resumeStream: invoke()('stream-resume', [sessionId]),
+  endStream: invoke<RecordingResult>()('stream-end', [optional(sessionId), optional(transcribeRequest)]),
+  listRecoverableSessions: invoke<{ sessions: RecoverableSession[] }>()('list-recoverable-sessions', []),
+  recoverSession: invoke<RecordingResult>()('recover-session', [sessionId, optional(transcribeRequest)]),
+  discardSession: invoke()('discard-session', [sessionId]),
+
+  listLibrary: invoke<{ entries: LibraryEntry[] }>()('library-list', [], { log: false }),
+  searchLibrary: invoke<{ hits: SearchHit[] }>()('library-search', [str({ max: 500 })], { log: false }),
+  getLibraryEntry: invoke<{ entry: LibraryEntry; transcript: Transcript }>()('library-get', [libraryId]),
+  renameLibraryEntry: invoke<{ entry: LibraryEntry }>()('library-rename', [libraryId, str({ max: 500 })]),
+  updateLibraryEntry: invoke<{ entry: LibraryEntry }>()('library-update', [libraryId, transcript], { log: false }),
+  deleteLibraryEntry: invoke()('library-delete', [libraryId]),
+
+  getSettings: invoke<{ settings: Settings; path: string }>()('settings-get', [], { log: false }),
+  updateSettings: invoke<{ settings: Settings }>()('settings-update', [settingsPatch]),
+  resetSettings: invoke<{ settings: Settings }>()('settings-reset', []),
+  /** folder picker for the output folder; grants nothing until the settings are saved */
+  chooseFolder: invoke<{ folder: string | null }>()('choose-folder', []),
+
+  onProgress: event<[sourceId: string, progress: TranscribeProgress]>('transcription-progress'),
+  onPartial: event<[sessionId: string, update: LiveUpdate]>('transcription-partial'),
+  onTranscription: event<[sessionId: string, text: string, transcript: Transcript, audioPath: string]>('transcription-result'),
+  onJobUpdate: event<[job: JobSnapshot]>('job-update'),
+  onLibraryChanged: event<[]>('library-changed'),
+  onSettingsChanged: event<[settings: Settings]>('settings-changed'),
+};
+
+export type IpcContract = typeof IPC;
+export type IpcMethod = keyof IpcContract;
+export type InvokeMethod = { [K in IpcMethod]: IpcContract[K] extends InvokeDef<any, any> ? K : never }[IpcMethod];
+export type SendMethod = { [K in IpcMethod]: IpcContract[K] extends SendDef<any> ? K : never }[IpcMethod];
+export type EventMethod = { [K in IpcMethod]: IpcContract[K] extends EventDef<any> ? K : never }[IpcMethod];
+
+/** Argument list of a method; trailing optional checks become optional parameters */
+export type IpcArgs<A> = A extends [infer Head, ...infer Tail]
+  ? Head extends Optional<infer V>
+    ? [arg?: Exclude<V, undefined>, ...IpcArgs<Tail>]
+    : [Infer<Head>, ...IpcArgs<Tail>]
+  : [];
+
+export type InvokeArgs<K extends InvokeMethod | SendMethod> = IpcArgs<IpcContract[K]['args']>;
+export type InvokeResult<K extends InvokeMethod> = IpcContract[K] extends InvokeDef<any, infer R> ? R : never;
+export type EventPayload<K extends EventMethod> = IpcContract[K] extends EventDef<infer P> ? P : never;
+
+export type ElectronAPI =
+  & { [K in InvokeMethod]: (...args: InvokeArgs<K>) => Promise<IpcResult<InvokeResult<K>>> }
+  & { [K in SendMethod]: (...args: InvokeArgs<K>) => void }
+  & { [K in EventMethod]: (callback: (...payload: EventPayload<K>) => void) => void }
+  & {
+    /** path of a dropped File; the main process may then read that file */
+    pathForFile: (file: File) => string;
+  };
+
+/** What the preload needs to build the bridge; plain data, sent over IPC at startup */
+export type BridgeSpec = { method: string; channel: string; kind: 'invoke' | 'send' | 'event'; log: boolean }[];
+
+export function bridgeSpec(): BridgeSpec {
+  return Object.entries(IPC).map(([method, def]) => ({
+    method,
+    channel: def.channel,
+    kind: def.kind,
+    log: 'log' in def ? def.log : true,
+  }));
+}
+
+/** Channels the preload uses for itself, outside window.electronAPI */
+export const BRIDGE_SPEC_CHANNEL = 'ipc-bridge-spec';
+export const GRANT_DROPPED_FILE_CHANNEL = 'grant-dropped-file';
+
+export default { IPC, bridgeSpec };
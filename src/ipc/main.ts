@@ -0,0 +1,90 @@
+import type { IpcMain, IpcMainEvent, IpcMainInvokeEvent, WebContents } from 'electron';
+import {
+  bridgeSpec, BRIDGE_SPEC_CHANNEL, IPC,
+  type EventMethod, type EventPayload, type InvokeArgs, type InvokeMethod, type InvokeResult, type SendMethod, type SerializedIpcError,
+} from './contract.js';
+import { IpcError, type Check } from './validate.js';
+
+export { GRANT_DROPPED_FILE_CHANNEL } from './contract.js';
+export { IpcError } from './validate.js';
+
+/**
+ * Main-process side of the IPC contract
+ * - registerIpc installs one handler per contract method; every invoke and send method needs one
+ *   (a missing or unknown handler throws at startup instead of failing at the first call)
+ * - Arguments are checked against the contract before the handler runs
+ * - Handlers return their result object or throw; the renderer receives `{ ok: true, ...result }`
+ *   or `{ ok: false, error: { code, message } }`
+ * - emit() sends a contract event to one renderer
+ */
+
+export type IpcHandlers =
+  & { [K in InvokeMethod]: (event: IpcMainInvokeEvent, ...args: InvokeArgs<K>) => Promise<InvokeResult<K>> | InvokeResult<K> }
+  & { [K in SendMethod]: (event: IpcMainEvent, ...args: InvokeArgs<K>) => void | Promise<void> };
+
+export function toIpcError(err: unknown): SerializedIpcError {
+  const message = String((err as any)?.message ?? err);
+  if (err instanceof IpcError) return { code: err.code, message };
+  if ((err as any)?.name === 'AccessDeniedError') return { code: 'access-denied', message };
+  if ((err as any)?.name === 'AbortError') return { code: 'cancelled', message: 'cancelled' };
+  if ((err as any)?.code === 'ENOENT') return { code: 'not-found', message };
+  return { code: 'internal', message };
+}
+
+function checkArgs(method: string, checks: readonly Check<unknown>[], args: unknown[]): unknown[] {
+  if (args.length > checks.length) {
+    throw new IpcError('invalid-argument', `${method}: expected at most ${checks.length} arguments, got ${args.length}`);
+  }
+  return checks.map((check, i) => check(args[i], `${method} argument ${i + 1}`));
+}
+
+// trailing undefined arguments are dropped, so handler parameter defaults still apply
+function trimArgs(args: unknown[]): unknown[] {
+  let end = args.length;
+  while (end > 0 && args[end - 1] === undefined) end--;
+  return args.slice(0, end);
+}
+
+export function registerIpc(ipcMain: IpcMain, handlers: IpcHandlers) {
+  const unknown = Object.keys(handlers).filter((method) => !(method in IPC) || IPC[method as keyof typeof IPC].kind === 'event');
+  if (unknown.length) throw new Error(`IPC handlers without a contract entry: ${unknown.join(', ')}`);
+
+  for (const [method, def] of Object.entries(IPC)) {
+    if (def.kind === 'event') continue;
+    const handler = (handlers as Record<string, (event: unknown, ...args: unknown[]) => unknown>)[method];
+    if (!handler) throw new Error(`no IPC handler for ${method} (${def.channel})`);
+
+    if (def.kind === 'send') {
+      ipcMain.on(def.channel, async (event, ...args) => {
+        try {
+          await handler(event, ...trimArgs(checkArgs(method, def.args, args)));
+        } catch (err) {
+          console.error(`${def.channel} error`, err);
+        }
+      });
+      continue;
+    }
+
+    ipcMain.handle(def.channel, async (event, ...args) => {
+      try {
+        const result = await handler(event, ...trimArgs(checkArgs(method, def.args, args)));
+        return { ok: true, ...(result as object | undefined) };
+      } catch (err) {
+        const error = toIpcError(err);
+        if (error.code === 'internal') console.error(`${def.channel} error`, err);
+        return { ok: false, error };
+      }
+    });
+  }
+
+  // the sandboxed preload cannot import the contract; it asks for the method list once at startup
+  ipcMain.on(BRIDGE_SPEC_CHANNEL, (event) => {
+    event.returnValue = bridgeSpec();
+  });
+}
+
+export function emit<K extends EventMethod>(target: WebContents, method: K, ...payload: EventPayload<K>) {
+  if (!target.isDestroyed()) target.send(IPC[method].channel, ...payload);
+}
+
+export default { registerIpc, emit, toIpcError };
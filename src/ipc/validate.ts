@@ -0,0 +1,100 @@
+/**
+ * Runtime argument checks for IPC
+ * - A Check<T> returns the value typed as T or throws an IpcError('invalid-argument') naming the bad argument
+ * - obj() keeps only the keys it declares, so a renderer cannot smuggle extra options into a service
+ * - Types are inferred from the checks (Infer<typeof check>), so the contract has one source of truth
+ */
+
+export type IpcErrorCode = 'invalid-argument' | 'access-denied' | 'not-found' | 'cancelled' | 'internal';
+
+export class IpcError extends Error {
+  constructor(readonly code: IpcErrorCode, message: string) {
+    super(message);
+    this.name = 'IpcError';
+  }
+}
+
+export type Check<T> = (value: unknown, at: string) => T;
+
+declare const optionalBrand: unique symbol;
+/** A check that also accepts undefined; object keys and trailing arguments using it are optional */
+export type Optional<T> = Check<T | undefined> & { readonly [optionalBrand]: true };
+
+export type Infer<C> = C extends Check<infer T> ? T : never;
+
+type Shape = Record<string, Check<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends Optional<unknown> ? K : never }[keyof S];
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+export type InferObject<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined> }
+>;
+
+function fail(at: string, expected: string, value: unknown): never {
+  const got = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  throw new IpcError('invalid-argument', `${at}: expected ${expected}, got ${got}`);
+}
+
+export function str(options: { max?: number; pattern?: RegExp } = {}): Check<string> {
+  return (value, at) => {
+    if (typeof value !== 'string') fail(at, 'a string', value);
+    if (value.length > (options.max ?? 4096)) throw new IpcError('invalid-argument', `${at}: longer than ${options.max ?? 4096} characters`);
+    if (options.pattern && !options.pattern.test(value)) throw new IpcError('invalid-argument', `${at}: invalid value ${JSON.stringify(value.slice(0, 64))}`);
+    return value;
+  };
+}
+
+export function num(options: { min?: number; max?: number; integer?: boolean } = {}): Check<number> {
+  return (value, at) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) fail(at, 'a finite number', value);
+    if (options.integer && !Number.isInteger(value)) fail(at, 'an integer', value);
+    if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+      throw new IpcError('invalid-argument', `${at}: ${value} is out of range`);
+    }
+    return value;
+  };
+}
+
+export function bool(): Check<boolean> {
+  return (value, at) => (typeof value === 'boolean' ? value : fail(at, 'a boolean', value));
+}
+
+export function oneOf<const T extends readonly (string | number | boolean)[]>(values: T): Check<T[number]> {
+  return (value, at) => {
+    if (!values.includes(value as T[number])) fail(at, `one of ${values.map((v) => JSON.stringify(v)).join(', ')}`, value);
+    return value as T[number];
+  };
+}
+
+export function arrayBuffer(options: { max?: number } = {}): Check<ArrayBuffer> {
+  return (value, at) => {
+    if (!(value instanceof ArrayBuffer)) fail(at, 'an ArrayBuffer', value);
+    if (options.max !== undefined && value.byteLength > options.max) throw new IpcError('invalid-argument', `${at}: larger than ${options.max} bytes`);
+    return value;
+  };
+}
+
+export function optional<T>(check: Check<T>): Optional<T> {
+  return ((value: unknown, at: string) => (value === undefined || value === null ? undefined : check(value, at))) as Optional<T>;
+}
+
+export function arr<T>(check: Check<T>, options: { max?: number } = {}): Check<T[]> {
+  return (value, at) => {
+    if (!Array.isArray(value)) fail(at, 'an array', value);
+    if (options.max !== undefined && value.length > options.max) throw new IpcError('invalid-argument', `${at}: more than ${options.max} items`);
+    return value.map((item, i) => check(item, `${at}[${i}]`));
+  };
+}
+
+export function obj<S extends Shape>(shape: S): Check<InferObject<S>> {
+  return (value, at) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) fail(at, 'an object', value);
+    const out: Record<string, unknown> = {};
+    for (const [key, check] of Object.entries(shape)) {
+      const checked = check((value as Record<string, unknown>)[key], `${at}.${key}`);
+      if (checked !== undefined) out[key] = checked;
+    }
+    return out as InferObject<S>;
+  };
+}
+
+export default { str, num, bool, oneOf, arrayBuffer, optional, arr, obj };
@@ -0,0 +1,101 @@
+import type { IncomingMessage } from 'http';
+
+/**
+ * multipart/form-data parsing for uploads
+ * - readBody collects a request body up to `maxBytes` (HttpError 413 beyond it)
+ * - parseMultipart splits a collected body into fields and files; enough for the audio API's
+ *   single file plus a few text fields, no streaming
+ */
+
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly code?: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export type MultipartPart = {
+  name: string;
+  filename?: string;
+  contentType?: string;
+  data: Buffer;
+};
+
+export function readBody(req: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const declared = Number(req.headers['content-length'] ?? 0);
+    if (declared > maxBytes) {
+      reject(new HttpError(413, `request body exceeds ${maxBytes} bytes`));
+      req.resume();
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, `request body exceeds ${maxBytes} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+export function boundaryOf(contentType: string | undefined): string {
+  const match = /^multipart\/form-data\s*;.*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType ?? '');
+  const boundary = match?.[1] ?? match?.[2];
+  if (!boundary) throw new HttpError(400, 'expected a multipart/form-data body', 'invalid_content_type');
+  return boundary;
+}
+
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of block.split('\r\n')) {
+    const at = line.indexOf(':');
+    if (at > 0) headers[line.slice(0, at).trim().toLowerCase()] = line.slice(at + 1).trim();
+  }
+  return headers;
+}
+
+function dispositionParam(disposition: string, param: string): string | undefined {
+  const match = new RegExp(`;\\s*${param}="((?:[^"\\\\]|\\\\.)*)"`, 'i').exec(disposition)
+    ?? new RegExp(`;\\s*${param}=([^;]+)`, 'i').exec(disposition);
+  return match?.[1]?.replace(/\\(.)/g, '$1').trim();
+}
+
+export function parseMultipart(body: Buffer, boundary: string): MultipartPart[] {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const parts: MultipartPart[] = [];
+  let pos = body.indexOf(delimiter);
+  if (pos < 0) throw new HttpError(400, 'multipart body has no parts', 'invalid_body');
+  while (true) {
+    pos += delimiter.length;
+    // "--" after a delimiter closes the body
+    if (body[pos] === 0x2d && body[pos + 1] === 0x2d) break;
+    const headerStart = pos + 2; // skip CRLF
+    const headerEnd = body.indexOf('\r\n\r\n', headerStart);
+    if (headerEnd < 0) throw new HttpError(400, 'malformed multipart part', 'invalid_body');
+    const next = body.indexOf(Buffer.concat([Buffer.from('\r\n'), delimiter]), headerEnd + 4);
+    if (next < 0) throw new HttpError(400, 'unterminated multipart body', 'invalid_body');
+    const headers = parseHeaders(body.subarray(headerStart, headerEnd).toString('utf8'));
+    const disposition = headers['content-disposition'] ?? '';
+    const name = dispositionParam(disposition, 'name');
+    if (name !== undefined) {
+      const filename = dispositionParam(disposition, 'filename');
+      parts.push({
+        name,
+        data: body.subarray(headerEnd + 4, next),
+        ...(filename !== undefined ? { filename } : {}),
+        ...(headers['content-type'] ? { contentType: headers['content-type'] } : {}),
+      });
+    }
+    pos = next + 2;
+  }
+  return parts;
+}
+
+export default { readBody, parseMultipart, boundaryOf };
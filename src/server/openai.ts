@@ -0,0 +1,77 @@
+import { toSrt, toVtt } from '../services/formats.js';
+import { languageName } from '../services/languages.js';
+import type { Transcript } from '../services/types.js';
+
+/**
+ * OpenAI audio API compatibility
+ * - RESPONSE_FORMATS are the `response_format` values of POST /v1/audio/transcriptions
+ * - formatResponse turns a Transcript into the body and content type OpenAI would send
+ * - errorBody builds the `{ error: { message, type, param, code } }` shape clients expect
+ */
+
+export const RESPONSE_FORMATS = ['json', 'text', 'srt', 'verbose_json', 'vtt'] as const;
+export type ResponseFormat = typeof RESPONSE_FORMATS[number];
+
+/** Model name OpenAI clients send by default; served by the configured engine's default model */
+export const OPENAI_MODEL_ALIAS = 'whisper-1';
+
+export function isResponseFormat(value: unknown): value is ResponseFormat {
+  return typeof value === 'string' && (RESPONSE_FORMATS as readonly string[]).includes(value);
+}
+
+const round = (seconds: number) => Math.round(seconds * 100) / 100;
+
+function verboseJson(transcript: Transcript, task: string, words: boolean) {
+  return {
+    task,
+    language: transcript.language ? languageName(transcript.language).toLowerCase() : 'english',
+    duration: round(transcript.duration ?? transcript.segments.at(-1)?.end ?? 0),
+    text: transcript.text.trim(),
+    segments: transcript.segments.map((s, i) => ({
+      id: i,
+      seek: 0,
+      start: round(s.start),
+      end: round(s.end),
+      text: s.text,
+      tokens: [],
+      temperature: 0,
+      // log of the mean word probability: close to Whisper's mean token log-probability
+      avg_logprob: s.confidence ? Math.log(s.confidence) : 0,
+      compression_ratio: 0,
+      no_speech_prob: 0,
+    })),
+    ...(words
+      ? { words: transcript.segments.flatMap((s) => s.words ?? []).map((w) => ({ word: w.text.trim(), start: round(w.start), end: round(w.end) })) }
+      : {}),
+  };
+}
+
+export function formatResponse(
+  transcript: Transcript,
+  format: ResponseFormat,
+  options: { task?: 'transcribe' | 'translate'; words?: boolean } = {},
+): { contentType: string; body: string } {
+  switch (format) {
+    case 'text': return { contentType: 'text/plain; charset=utf-8', body: transcript.text.trim() + '\n' };
+    case 'srt': return { contentType: 'text/plain; charset=utf-8', body: toSrt(transcript) };
+    case 'vtt': return { contentType: 'text/vtt; charset=utf-8', body: toVtt(transcript) };
+    case 'verbose_json': return {
+      contentType: 'application/json',
+      body: JSON.stringify(verboseJson(transcript, options.task === 'translate' ? 'translate' : 'transcribe', !!options.words)),
+    };
+    default: return { contentType: 'application/json', body: JSON.stringify({ text: transcript.text.trim() }) };
+  }
+}
+
+export function errorBody(message: string, options: { type?: string; param?: string; code?: string } = {}) {
+  return {
+    error: {
+      message,
+      type: options.type ?? 'invalid_request_error',
+      param: options.param ?? null,
+      code: options.code ?? null,
+    },
+  };
+}
+
+export default { formatResponse, errorBody, isResponseFormat };
@@ -0,0 +1,231 @@
+import http, { type IncomingMessage, type ServerResponse } from 'http';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { Duplex } from 'stream';
+import { tempFilePath } from '../services/audio.js';
+import { engineNames, getDefaultEngineName, getEngine } from '../services/engines/index.js';
+import { cancelJob, configureJobs, enqueueJob, removeJob, waitForJob } from '../services/jobs.js';
+import { normalizeLanguage } from '../services/languages.js';
+import type { TranscribeOptions } from '../services/transcribe.js';
+import { boundaryOf, HttpError, parseMultipart, readBody, type MultipartPart } from './multipart.js';
+import { errorBody, formatResponse, isResponseFormat, OPENAI_MODEL_ALIAS, RESPONSE_FORMATS } from './openai.js';
+import { acceptWebSocket, isWebSocketUpgrade, rejectUpgrade } from './websocket.js';
+import { createStreamHandler } from './stream.js';
+
+/**
+ * Local HTTP server
+ * - POST /v1/audio/transcriptions and /v1/audio/translations accept the same multipart fields and
+ *   return the same response formats as OpenAI's audio API, so existing clients only change their base URL
+ * - GET /health and GET /v1/models (engines' default models, models on disk, and the whisper-1 alias)
+ * - WebSocket /v1/stream streams a recording in (see stream.ts)
+ * - Uploads go through the job queue (jobs.ts), so `concurrency` bounds the work done at once;
+ *   a client that disconnects cancels its job
+ * - Binds to 127.0.0.1 by default; with `token` set every route but /health needs
+ *   `Authorization: Bearer <token>` (or `?token=` on the WebSocket URL, which browsers cannot set headers for)
+ */
+
+export type ServerConfig = {
+  host: string;
+  port: number;
+  token?: string;
+  /** largest accepted upload, in bytes */
+  maxUploadBytes: number;
+  /** transcriptions run at once; further requests wait in the queue */
+  concurrency: number;
+  /** options applied to every transcription (engine, vad...); request fields override them */
+  defaults: TranscribeOptions;
+  log: (message: string) => void;
+};
+
+export type RunningServer = {
+  server: http.Server;
+  /** base URL, e.g. http://127.0.0.1:8178 */
+  url: string;
+  close: () => Promise<void>;
+};
+
+export const DEFAULT_PORT = 8178;
+
+const LOOPBACK = new Set(['127.0.0.1', '::1', 'localhost']);
+
+function sendJson(res: ServerResponse, status: number, value: unknown) {
+  const body = JSON.stringify(value);
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) });
+  res.end(body);
+}
+
+function sendError(res: ServerResponse, err: unknown) {
+  const status = err instanceof HttpError ? err.status : 500;
+  const message = String((err as any)?.message ?? err);
+  sendJson(res, status, errorBody(message, {
+    type: status >= 500 ? 'server_error' : 'invalid_request_error',
+    ...(err instanceof HttpError && err.code ? { code: err.code } : {}),
+  }));
+}
+
+// constant-time comparison so the token cannot be guessed byte by byte
+function tokenMatches(given: string | undefined | null, token: string) {
+  if (!given) return false;
+  const a = crypto.createHash('sha256').update(given).digest();
+  const b = crypto.createHash('sha256').update(token).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+function authorized(req: IncomingMessage, url: URL, token: string | undefined, allowQuery = false) {
+  if (!token) return true;
+  const header = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '')?.[1];
+  return tokenMatches(header, token) || (allowQuery && tokenMatches(url.searchParams.get('token'), token));
+}
+
+async function listModels() {
+  const created = Math.floor(Date.now() / 1000);
+  const ids = new Set<string>([OPENAI_MODEL_ALIAS]);
+  for (const name of engineNames()) {
+    try {
+      const engine = await getEngine(name);
+      ids.add(engine.defaultModel);
+      if (engine.multilingualModel) ids.add(engine.multilingualModel);
+    } catch {
+      // engine that cannot load here (missing runtime): leave its models out
+    }
+  }
+  // loaded here, like the engines: the model manager pulls in transformers.js, which the server does not need otherwise
+  const models = await import('../services/models.js').then((m) => m.listLocalModels()).catch(() => []);
+  for (const model of models) ids.add(model.id);
+  return { object: 'list', data: [...ids].map((id) => ({ id, object: 'model', created, owned_by: 'local' })) };
+}
+
+function field(parts: MultipartPart[], name: string): string | undefined {
+  return parts.find((p) => p.name === name && p.filename === undefined)?.data.toString('utf8').trim() || undefined;
+}
+
+async function transcribeUpload(req: IncomingMessage, res: ServerResponse, config: ServerConfig, task: 'transcribe' | 'translate') {
+  const boundary = boundaryOf(req.headers['content-type']);
+  const parts = parseMultipart(await readBody(req, config.maxUploadBytes), boundary);
+  const file = parts.find((p) => p.name === 'file' && p.filename !== undefined);
+  if (!file || file.data.length === 0) throw new HttpError(400, 'missing audio upload in field "file"', 'missing_file');
+
+  const responseFormat = field(parts, 'response_format') ?? 'json';
+  if (!isResponseFormat(responseFormat)) {
+    throw new HttpError(400, `response_format must be one of ${RESPONSE_FORMATS.join(', ')}`, 'invalid_response_format');
+  }
+  const model = field(parts, 'model');
+  const language = field(parts, 'language');
+  // OpenAI's `prompt`: passed on as the initial prompt, for engines that take one
+  const prompt = field(parts, 'prompt');
+  try {
+    normalizeLanguage(language);
+  } catch (err: any) {
+    throw new HttpError(400, err.message, 'invalid_language');
+  }
+  // `timestamp_granularities[]=word` asks for word timings (verbose_json only, like OpenAI)
+  const words = parts.some((p) => /^timestamp_granularities(\[\])?$/.test(p.name) && p.data.toString('utf8').trim() === 'word');
+
+  const ext = path.extname(file.filename ?? '').slice(1).toLowerCase();
+  const uploadPath = tempFilePath('vtp_upload', /^[a-z0-9]{1,8}$/.test(ext) ? ext : 'bin');
+  await fs.writeFile(uploadPath, file.data);
+  const job = enqueueJob(uploadPath, {
+    ...config.defaults,
+    log: () => {},
+    timestamps: words && responseFormat === 'verbose_json' ? 'word' : 'segment',
+    ...(model && model !== OPENAI_MODEL_ALIAS ? { model } : {}),
+    ...(language ? { language } : {}),
+    ...(prompt ? { prompt } : {}),
+    ...(task === 'translate' ? { task } : {}),
+  });
+  // the client gave up: free the queue slot instead of transcribing for nobody
+  const onClose = () => { if (!res.writableFinished) cancelJob(job.id); };
+  res.on('close', onClose);
+  const started = Date.now();
+  try {
+    const transcript = await waitForJob(job.id);
+    const { contentType, body } = formatResponse(transcript, responseFormat, { task, words });
+    res.writeHead(200, { 'Content-Type': contentType, 'Content-Length': Buffer.byteLength(body) });
+    res.end(body);
+    config.log(`${task} ${file.filename ?? 'upload'}: ${transcript.duration?.toFixed(1) ?? '?'}s of audio in ${Date.now() - started} ms`);
+  } finally {
+    res.off('close', onClose);
+    removeJob(job.id);
+    await fs.unlink(uploadPath).catch(() => { /* ignore */ });
+  }
+}
+
+async function route(req: IncomingMessage, res: ServerResponse, config: ServerConfig) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (req.method === 'GET' && url.pathname === '/health') {
+    return sendJson(res, 200, { status: 'ok', engine: config.defaults.engine ?? getDefaultEngineName() });
+  }
+  if (!authorized(req, url, config.token)) {
+    return sendJson(res, 401, errorBody('missing or invalid API token', { code: 'invalid_api_key' }));
+  }
+  if (req.method === 'GET' && url.pathname === '/v1/models') return sendJson(res, 200, await listModels());
+  if (url.pathname === '/v1/audio/transcriptions' || url.pathname === '/v1/audio/translations') {
+    if (req.method !== 'POST') throw new HttpError(405, `${req.method} not allowed, use POST`);
+    return transcribeUpload(req, res, config, url.pathname.endsWith('translations') ? 'translate' : 'transcribe');
+  }
+  throw new HttpError(404, `no route for ${req.method} ${url.pathname}`);
+}
+
+export function startServer(options: Partial<ServerConfig> = {}): Promise<RunningServer> {
+  const config: ServerConfig = {
+    host: '127.0.0.1',
+    port: DEFAULT_PORT,
+    maxUploadBytes: 100 * 1024 * 1024,
+    concurrency: 1,
+    defaults: {},
+    log: console.log,
+    ...options,
+  };
+  configureJobs({ concurrency: config.concurrency });
+  if (!config.token && !LOOPBACK.has(config.host)) {
+    config.log(`warning: listening on ${config.host} without a token; anyone on the network can use this server`);
+  }
+
+  const server = http.createServer((req, res) => {
+    route(req, res, config).catch((err) => {
+      if (err?.name === 'AbortError') return; // cancelled because the client left
+      if (res.headersSent) res.destroy();
+      else sendError(res, err);
+    });
+  });
+
+  // upgraded sockets are no longer tracked by the HTTP server; close() ends them itself
+  const streams = new Set<Duplex>();
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== '/v1/stream' || !isWebSocketUpgrade(req)) {
+      return rejectUpgrade(socket, 404, JSON.stringify(errorBody(`no WebSocket endpoint at ${url.pathname}`)));
+    }
+    if (!authorized(req, url, config.token, true)) {
+      return rejectUpgrade(socket, 401, JSON.stringify(errorBody('missing or invalid API token', { code: 'invalid_api_key' })));
+    }
+    const stream = createStreamHandler(config.defaults, config.log);
+    const ws = acceptWebSocket(req, socket, head, { onMessage: stream.onMessage, onClose: stream.onClose });
+    if (!ws) return;
+    stream.attach(ws);
+    streams.add(socket);
+    socket.once('close', () => streams.delete(socket));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.port, config.host, () => {
+      server.off('error', reject);
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : config.port;
+      const host = config.host.includes(':') ? `[${config.host}]` : config.host;
+      resolve({
+        server,
+        url: `http://${host}:${port}`,
+        close: () => new Promise<void>((done) => {
+          server.close(() => done());
+          server.closeAllConnections();
+          for (const socket of streams) socket.destroy();
+        }),
+      });
+    });
+  });
+}
+
+export default { startServer };
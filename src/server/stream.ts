@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import { SAMPLE_RATE } from '../services/audio.js';
+import { cancelSession, endSession, pauseSession, pushChunk, pushPcm, resumeSession, startSession } from '../services/recording.js';
+import type { TranscribeOptions } from '../services/transcribe.js';
+import type { WebSocketConnection, WebSocketMessage } from './websocket.js';
+
+/**
+ * Streaming transcription over a WebSocket (/v1/stream), the network twin of the app's
+ * stream-start / stream-chunk / stream-end flow
+ * - Client → server text messages:
+ *     {"type":"start","format":"webm"|"ogg"|"wav"|"pcm_s16le","live":bool,"options":{...}}
+ *     {"type":"pause"} / {"type":"resume"} / {"type":"end"}
+ *   and binary messages carrying the audio (container chunks, or raw 16 kHz mono s16le PCM)
+ * - Server → client: {"type":"started"}, {"type":"partial",...} (live only), {"type":"limit"},
+ *   {"type":"result","text","transcript","audioPath"} and {"type":"error","message"}
+ * - A socket that closes before "end" cancels the session and deletes its audio
+ */
+
+const CONTAINER_FORMATS = ['webm', 'ogg', 'wav', 'mp3', 'm4a', 'flac'];
+const PCM_FORMAT = 'pcm_s16le';
+
+/** Options a client may set in its start message; everything else is ignored */
+const CLIENT_OPTIONS = ['engine', 'model', 'language', 'task', 'timestamps', 'vad', 'chunkSeconds', 'strideSeconds'] as const;
+
+// 44-byte WAV header for 16 kHz mono s16le with unknown length (ffmpeg reads to the end of the file)
+function streamingWavHeader(): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(0xffffffff, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(0xffffffff, 40);
+  return header;
+}
+
+function pcmToFloat32(data: Buffer): Float32Array {
+  const samples = new Float32Array(Math.floor(data.length / 2));
+  for (let i = 0; i < samples.length; i++) samples[i] = data.readInt16LE(i * 2) / 32768;
+  return samples;
+}
+
+function pickOptions(raw: unknown, defaults: TranscribeOptions): TranscribeOptions {
+  const options: Record<string, unknown> = { ...defaults };
+  if (raw && typeof raw === 'object') {
+    for (const key of CLIENT_OPTIONS) {
+      const value = (raw as Record<string, unknown>)[key];
+      if (value !== undefined) options[key] = value;
+    }
+  }
+  return options as TranscribeOptions;
+}
+
+let nextSession = 1;
+
+/** Wires one accepted socket to a recording session; returns the handlers for acceptWebSocket */
+export function createStreamHandler(defaults: TranscribeOptions, log: (message: string) => void) {
+  let ws: WebSocketConnection | null = null;
+  let sessionId: string | null = null;
+  let format = '';
+  let live = false;
+  let ended = false;
+  // messages are handled one at a time, in arrival order
+  let queue: Promise<void> = Promise.resolve();
+
+  const send = (value: unknown) => ws?.sendJson(value);
+  const fail = (err: unknown) => send({ type: 'error', message: String((err as any)?.message ?? err) });
+
+  async function start(message: Record<string, unknown>) {
+    if (sessionId) throw new Error('a session is already started on this socket');
+    format = String(message.format ?? 'webm').toLowerCase();
+    if (format !== PCM_FORMAT && !CONTAINER_FORMATS.includes(format)) {
+      throw new Error(`unsupported format: ${format} (use ${[...CONTAINER_FORMATS, PCM_FORMAT].join(', ')})`);
+    }
+    live = !!message.live;
+    // live partials need raw samples; containers are only decoded once the recording is finished
+    if (live && format !== PCM_FORMAT) throw new Error(`live transcription needs format ${PCM_FORMAT}`);
+    const options = pickOptions(message.options, defaults);
+    const id = `ws-${nextSession++}-${crypto.randomBytes(3).toString('hex')}`;
+    await startSession(id, {
+      extension: format === PCM_FORMAT ? 'wav' : format,
+      ...(live ? { live: { ...options, log: () => {}, onUpdate: (update) => send({ type: 'partial', ...update }) } } : {}),
+    });
+    sessionId = id;
+    if (format === PCM_FORMAT) await pushChunk(id, new Uint8Array(streamingWavHeader()).buffer);
+    log(`stream ${id} started (${format}${live ? ', live' : ''})`);
+    send({ type: 'started', sessionId: id });
+  }
+
+  async function audio(data: Buffer) {
+    if (!sessionId) throw new Error('send a start message before audio');
+    if (ended) return;
+    const result = await pushChunk(sessionId, data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+    if (result.limitReached) {
+      send({ type: 'limit', reason: result.limitReached, bytes: result.bytes, durationMs: result.durationMs });
+      return;
+    }
+    if (live) pushPcm(sessionId, pcmToFloat32(data));
+  }
+
+  async function end(message: Record<string, unknown>) {
+    if (!sessionId) throw new Error('no session started');
+    ended = true;
+    const id = sessionId;
+    const result = await endSession(id, pickOptions(message.options, { ...defaults, log: () => {} }));
+    sessionId = null;
+    log(`stream ${id} finished: ${result.audioPath}`);
+    send({ type: 'result', text: result.transcript.text, transcript: result.transcript, audioPath: result.audioPath });
+  }
+
+  async function handle(message: WebSocketMessage) {
+    if (message.binary) return audio(message.data);
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(message.data);
+    } catch {
+      throw new Error('text messages must be JSON');
+    }
+    switch (parsed.type) {
+      case 'start': return start(parsed);
+      case 'pause': if (sessionId) await pauseSession(sessionId); return;
+      case 'resume': if (sessionId) await resumeSession(sessionId); return;
+      case 'end': return end(parsed);
+      default: throw new Error(`unknown message type: ${String(parsed.type)}`);
+    }
+  }
+
+  return {
+    attach(connection: WebSocketConnection) {
+      ws = connection;
+    },
+    onMessage(message: WebSocketMessage) {
+      queue = queue.then(() => handle(message)).catch(fail);
+    },
+    onClose() {
+      queue = queue.then(async () => {
+        if (!sessionId || ended) return;
+        log(`stream ${sessionId} closed before end, discarding it`);
+        await cancelSession(sessionId).catch(() => { /* ignore */ });
+        sessionId = null;
+      });
+    },
+  };
+}
+
+export default { createStreamHandler };
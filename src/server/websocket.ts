@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import { STATUS_CODES, type IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+
+/**
+ * Minimal WebSocket server side (RFC 6455), enough for the streaming endpoint
+ * - acceptWebSocket completes the upgrade handshake and returns a connection; frames already read with the
+ *   request (`head`) are handled on the next tick, so handlers can use the connection for them
+ * - Text and binary messages (fragmented or not) are delivered whole to onMessage;
+ *   pings are answered, and a message larger than maxMessageBytes closes the socket (1009)
+ * - No extensions (permessage-deflate is declined by not answering it)
+ */
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+export type WebSocketMessage = { binary: false; data: string } | { binary: true; data: Buffer };
+
+export type WebSocketConnection = {
+  sendText: (text: string) => void;
+  sendJson: (value: unknown) => void;
+  sendBinary: (data: Buffer) => void;
+  close: (code?: number, reason?: string) => void;
+  readonly closed: boolean;
+};
+
+export type WebSocketHandlers = {
+  onMessage: (message: WebSocketMessage) => void;
+  /** called once, whichever side closed */
+  onClose?: (code: number) => void;
+  maxMessageBytes?: number;
+};
+
+export function isWebSocketUpgrade(req: IncomingMessage): boolean {
+  return (req.headers.upgrade ?? '').toLowerCase() === 'websocket';
+}
+
+/** Writes a plain HTTP response (a JSON body) on a socket that was about to be upgraded */
+export function rejectUpgrade(socket: Duplex, status: number, body: string) {
+  socket.end(
+    `HTTP/1.1 ${status} ${STATUS_CODES[status] ?? 'Error'}\r\n`
+    + 'Content-Type: application/json\r\n'
+    + `Content-Length: ${Buffer.byteLength(body)}\r\n`
+    + 'Connection: close\r\n\r\n'
+    + body,
+  );
+}
+
+function frame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+export function acceptWebSocket(req: IncomingMessage, socket: Duplex, head: Buffer, handlers: WebSocketHandlers): WebSocketConnection | null {
+  const key = req.headers['sec-websocket-key'];
+  if (typeof key !== 'string' || req.headers['sec-websocket-version'] !== '13') {
+    rejectUpgrade(socket, 400, JSON.stringify({ error: { message: 'expected a version 13 WebSocket handshake' } }));
+    return null;
+  }
+  const accept = crypto.createHash('sha1').update(key + GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n'
+    + 'Upgrade: websocket\r\n'
+    + 'Connection: Upgrade\r\n'
+    + `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+
+  const maxMessageBytes = handlers.maxMessageBytes ?? 16 * 1024 * 1024;
+  let buffer: Buffer = head.length ? Buffer.from(head) : Buffer.alloc(0);
+  // fragments of the message being received
+  let fragments: Buffer[] = [];
+  let fragmentsBytes = 0;
+  let fragmentOpcode = 0;
+  let closed = false;
+
+  const send = (opcode: number, payload: Buffer) => {
+    if (!closed && socket.writable) socket.write(frame(opcode, payload));
+  };
+
+  const finish = (code: number) => {
+    if (closed) return;
+    closed = true;
+    handlers.onClose?.(code);
+  };
+
+  const close = (code = 1000, reason = '') => {
+    if (closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    send(0x8, payload);
+    socket.end();
+    finish(code);
+  };
+
+  const deliver = (opcode: number, payload: Buffer) => {
+    try {
+      if (opcode === 0x1) handlers.onMessage({ binary: false, data: payload.toString('utf8') });
+      else handlers.onMessage({ binary: true, data: payload });
+    } catch (err) {
+      console.warn('websocket message handler failed', err);
+    }
+  };
+
+  const parse = () => {
+    while (!closed && buffer.length >= 2) {
+      const fin = (buffer[0]! & 0x80) !== 0;
+      const opcode = buffer[0]! & 0x0f;
+      const masked = (buffer[1]! & 0x80) !== 0;
+      let length = buffer[1]! & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        const big = buffer.readBigUInt64BE(2);
+        if (big > BigInt(maxMessageBytes)) return close(1009, 'message too big');
+        length = Number(big);
+        offset = 10;
+      }
+      // clients must mask every frame
+      if (!masked) return close(1002, 'unmasked frame');
+      if (length > maxMessageBytes) return close(1009, 'message too big');
+      if (buffer.length < offset + 4 + length) return;
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i]! ^= mask[i & 3]!;
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) {
+        send(0x8, payload.subarray(0, 2));
+        socket.end();
+        finish(payload.length >= 2 ? payload.readUInt16BE(0) : 1005);
+        return;
+      }
+      if (opcode === 0x9) {
+        send(0xa, payload);
+        continue;
+      }
+      if (opcode === 0xa) continue;
+
+      if (opcode === 0x1 || opcode === 0x2) {
+        if (fragments.length) return close(1002, 'new message inside a fragmented one');
+        if (fin) {
+          deliver(opcode, payload);
+          continue;
+        }
+        fragmentOpcode = opcode;
+      } else if (opcode !== 0x0 || !fragments.length) {
+        return close(1002, 'unexpected frame');
+      }
+      fragments.push(payload);
+      fragmentsBytes += payload.length;
+      if (fragmentsBytes > maxMessageBytes) return close(1009, 'message too big');
+      if (fin) {
+        const whole = Buffer.concat(fragments);
+        fragments = [];
+        fragmentsBytes = 0;
+        deliver(fragmentOpcode, whole);
+      }
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+    parse();
+  });
+  socket.on('close', () => finish(1006));
+  socket.on('error', () => finish(1006));
+  // frames that came with the upgrade request wait until the caller holds the connection
+  if (buffer.length) process.nextTick(parse);
+
+  return {
+    sendText: (text) => send(0x1, Buffer.from(text, 'utf8')),
+    sendJson: (value) => send(0x1, Buffer.from(JSON.stringify(value), 'utf8')),
+    sendBinary: (data) => send(0x2, data),
+    close,
+    get closed() {
+      return closed;
+    },
+  };
+}
+
+export default { acceptWebSocket, isWebSocketUpgrade, rejectUpgrade };
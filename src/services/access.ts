@@ -0,0 +1,106 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * File access policy for paths coming from the renderer (Electron main process)
+ * - A path may be read when the user picked it (open dialog, drag-and-drop, a library entry's source)
+ *   or when it lies inside a configured folder (recordings, VTP_ALLOWED_DIRS)
+ * - Writes are limited to configured folders and to transcript files next to a picked file:
+ *   same folder and name, extension txt / srt / vtt / json
+ * - Paths are compared after resolving symlinks, so a link inside an allowed folder cannot reach outside it
+ * - Refusals throw an AccessDeniedError
+ */
+
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+export type AccessConfig = {
+  /** folders whose whole content may be read and written */
+  folders: string[];
+};
+
+export const TRANSCRIPT_EXTENSIONS = ['txt', 'srt', 'vtt', 'json'];
+
+const config: AccessConfig = {
+  folders: (process.env.VTP_ALLOWED_DIRS ?? '').split(path.delimiter).filter(Boolean),
+};
+
+// real paths of files the user picked during this run
+const granted = new Set<string>();
+// checks wait for grants still being resolved, so a grant followed by a read is never refused
+let granting: Promise<void> = Promise.resolve();
+
+export function configureAccess(options: Partial<AccessConfig>) {
+  Object.assign(config, options);
+}
+
+export function allowFolder(folder: string) {
+  if (!config.folders.includes(folder)) config.folders.push(folder);
+}
+
+async function realPath(filePath: string): Promise<string> {
+  try {
+    return await fs.realpath(filePath);
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') throw err;
+    // a file about to be written: resolve its folder instead
+    return path.join(await fs.realpath(path.dirname(filePath)), path.basename(filePath));
+  }
+}
+
+function checkAbsolute(filePath: string) {
+  if (!path.isAbsolute(filePath)) throw new AccessDeniedError(`not an absolute path: ${filePath}`);
+}
+
+/** Record files the user picked */
+export function grantPaths(filePaths: string[]): Promise<void> {
+  for (const filePath of filePaths) checkAbsolute(filePath);
+  const done = granting.then(async () => {
+    for (const filePath of filePaths) granted.add(await realPath(filePath).catch(() => path.resolve(filePath)));
+  });
+  granting = done.catch(() => {});
+  return done;
+}
+
+async function inAllowedFolder(real: string): Promise<boolean> {
+  for (const folder of config.folders) {
+    const root = await fs.realpath(folder).catch(() => path.resolve(folder));
+    const rel = path.relative(root, real);
+    if (rel && !rel.startsWith('..') && !path.isAbsolute(rel)) return true;
+  }
+  return false;
+}
+
+function isTranscriptOfGranted(real: string): boolean {
+  const ext = path.extname(real).slice(1).toLowerCase();
+  if (!TRANSCRIPT_EXTENSIONS.includes(ext)) return false;
+  const stem = real.slice(0, -(ext.length + 1));
+  for (const file of granted) {
+    if (file !== real && file.slice(0, file.length - path.extname(file).length) === stem) return true;
+  }
+  return false;
+}
+
+/** Throws unless the renderer may read `filePath` */
+export async function checkReadable(filePath: string): Promise<void> {
+  checkAbsolute(filePath);
+  await granting;
+  const real = await realPath(filePath);
+  if (granted.has(real) || await inAllowedFolder(real)) return;
+  throw new AccessDeniedError(`not allowed to read ${filePath}: open it through the file dialog first`);
+}
+
+/** Throws unless the renderer may write `filePath` */
+export async function checkWritable(filePath: string): Promise<void> {
+  checkAbsolute(filePath);
+  await granting;
+  const real = await realPath(filePath);
+  if (isTranscriptOfGranted(real) || await inAllowedFolder(real)) return;
+  throw new AccessDeniedError(`not allowed to write ${filePath}`);
+}
+
+export default { configureAccess, allowFolder, grantPaths, checkReadable, checkWritable };
@@ -0,0 +1,228 @@
+import fs from 'fs/promises';
+import wavDecoder from 'wav-decoder';
+import { spawn } from 'child_process';
+import path from 'path';
+import os from 'os';
+import { ffmpegFilters, type PreprocessOptions } from './preprocess.js';
+
+/**
+ * Audio helpers shared by the transcription engines
+ * - runFfmpegTo16kMono converts any input ffmpeg understands to a temporary 16 kHz mono WAV,
+ *   optionally only a time range of it, with the preprocessing steps of preprocess.ts applied
+ * - decodeWavToFloat32 / loadAudio16k turn that WAV into Float32 samples; mixdownChannels averages the
+ *   channels or keeps the selected one
+ * - encodeWav writes samples back to a 16-bit PCM WAV (for engines that need a file)
+ * - Video files and other containers go through the same path: only their audio is decoded. listAudioTracks
+ *   lists the audio streams of a file and `track` picks one of them (ffmpeg's choice otherwise)
+ * - isMediaFile recognizes the inputs picked up from folders (CLI inputs, watched folders) by extension
+ */
+
+export const SAMPLE_RATE = 16000;
+
+export const AUDIO_EXTENSIONS = ['wav', 'mp3', 'flac', 'm4a', 'ogg', 'opus', 'webm', 'aac', 'wma', 'mka', 'aiff', 'amr'];
+export const VIDEO_EXTENSIONS = ['mp4', 'mkv', 'mov', 'm4v', 'avi', 'wmv', 'mpg', 'mpeg', 'ts', '3gp'];
+export const MEDIA_EXTENSIONS = [...AUDIO_EXTENSIONS, ...VIDEO_EXTENSIONS];
+
+/** Audio or video file, by extension */
+export function isMediaFile(filePath: string): boolean {
+  return MEDIA_EXTENSIONS.includes(path.extname(filePath).slice(1).toLowerCase());
+}
+
+export function tempFilePath(prefix: string, ext: string) {
+  // unique name so concurrent jobs never share a temp file
+  return path.join(os.tmpdir(), `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.${ext}`);
+}
+
+export async function resolveFfmpeg(): Promise<string> {
+  let ffmpegExec = 'ffmpeg';
+  try {
+    const ffmpegStatic = await import('ffmpeg-static');
+    ffmpegExec = (ffmpegStatic && (ffmpegStatic.default || ffmpegStatic)) as unknown as string;
+  } catch (e) {
+    // fallback to system ffmpeg
+  }
+  return ffmpegExec;
+}
+
+/** Start/end offsets in seconds; either may be left out */
+export type AudioRange = { start?: number; end?: number };
+
+export type DecodeOptions = AudioRange & {
+  preprocess?: PreprocessOptions;
+  /** 0-based index among the file's audio streams (see listAudioTracks); left out, ffmpeg picks the main one */
+  track?: number;
+};
+
+export type AudioTrack = {
+  /** 0-based index among the audio streams, the value of `track` */
+  index: number;
+  codec: string;
+  /** channel layout as ffmpeg names it: mono, stereo, 5.1... */
+  layout?: string;
+  sampleRate?: number;
+  /** ISO 639-2 code from the container, e.g. eng */
+  language?: string;
+  title?: string;
+  /** the container marks it as the track to play */
+  default: boolean;
+};
+
+// ffmpeg's own messages end up in the error, so a failure says what was wrong with the file
+function runFfmpeg(ffmpegExec: string, args: string[], signal?: AbortSignal): Promise<{ code: number | null; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const ff = spawn(ffmpegExec, ['-hide_banner', ...args], { stdio: ['ignore', 'ignore', 'pipe'], ...(signal ? { signal } : {}) });
+    let stderr = '';
+    ff.stderr.setEncoding('utf8');
+    ff.stderr.on('data', (chunk: string) => { stderr = (stderr + chunk).slice(-1024 * 1024); });
+    ff.on('close', (code) => resolve({ code, stderr }));
+    ff.on('error', reject);
+  });
+}
+
+const lastLine = (text: string) => text.trim().split('\n').pop()?.trim() ?? '';
+
+/**
+ * Aborting `signal` kills ffmpeg and rejects with an AbortError.
+ * With a channel selected the WAV keeps every channel, for mixdownChannels to pick from
+ */
+export async function runFfmpegTo16kMono(inputPath: string, range: DecodeOptions = {}, signal?: AbortSignal): Promise<string> {
+  const tmp = tempFilePath('vtp_tmp', 'wav');
+  const ffmpegExec = await resolveFfmpeg();
+  // -ss before -i seeks the input directly instead of decoding up to the start
+  const seek = range.start ? ['-ss', String(range.start)] : [];
+  const length = range.end !== undefined ? ['-t', String(range.end - (range.start ?? 0))] : [];
+  // video, subtitles and data streams are never decoded
+  const streams = range.track !== undefined ? ['-map', `0:a:${range.track}`] : ['-vn', '-sn', '-dn'];
+  const filters = ffmpegFilters(range.preprocess ?? {});
+  const channels = range.preprocess?.channel !== undefined ? [] : ['-ac', '1'];
+
+  try {
+    const { code, stderr } = await runFfmpeg(ffmpegExec, ['-loglevel', 'error', '-y', ...seek, '-i', inputPath, ...streams, ...length, ...(filters.length ? ['-af', filters.join(',')] : []), '-ar', String(SAMPLE_RATE), ...channels, '-c:a', 'pcm_s16le', tmp], signal);
+    if (code !== 0) {
+      const reason = /matches no streams|does not contain any stream/.test(stderr)
+        ? range.track !== undefined ? `no audio track ${range.track + 1}` : 'no audio track'
+        : lastLine(stderr);
+      throw new Error(`ffmpeg exit ${code}${reason ? `: ${reason}` : ''}`);
+    }
+  } catch (err) {
+    await fs.unlink(tmp).catch(() => { /* ignore */ });
+    throw err;
+  }
+  return tmp;
+}
+
+// "  Stream #0:1[0x2](eng): Audio: aac (LC) (mp4a / 0x6134706D), 48000 Hz, stereo, fltp, 128 kb/s (default)"
+const STREAM_LINE = /^\s*Stream #\d+:\d+(?:\[\w+\])?(?:\((\w+)\))?: (\w+): (.*)$/;
+
+/** The audio streams of a file, in the order `track` counts them; throws when ffmpeg cannot read the file */
+export async function listAudioTracks(filePath: string, signal?: AbortSignal): Promise<AudioTrack[]> {
+  // without an output ffmpeg only describes the input (and exits with an error)
+  const { stderr } = await runFfmpeg(await resolveFfmpeg(), ['-i', filePath], signal);
+  // ffmpeg's message names the file: "<file>: Invalid data found when processing input"
+  if (!/^Input #0/m.test(stderr)) throw new Error(lastLine(stderr) || `cannot read ${filePath}`);
+  const tracks: AudioTrack[] = [];
+  let current: AudioTrack | null = null;
+  for (const line of stderr.split(/\r?\n/)) {
+    const stream = STREAM_LINE.exec(line);
+    if (stream) {
+      current = null;
+      if (stream[2] !== 'Audio') continue;
+      const [codec = '', ...details] = stream[3]!.replace(/\s*\(default\)/g, '').split(', ');
+      const rate = details.findIndex((part) => / Hz$/.test(part));
+      current = {
+        index: tracks.length,
+        codec: codec.split(' ')[0]!,
+        ...(rate >= 0 ? { sampleRate: parseInt(details[rate]!, 10) } : {}),
+        ...(rate >= 0 && details[rate + 1] ? { layout: details[rate + 1]! } : {}),
+        ...(stream[1] && stream[1] !== 'und' ? { language: stream[1] } : {}),
+        default: /\(default\)/.test(stream[3]!),
+      };
+      tracks.push(current);
+      continue;
+    }
+    const title = /^\s+title\s*:\s*(.+)$/.exec(line);
+    if (current && title) current.title = title[1]!.trim();
+  }
+  return tracks;
+}
+
+/** "Track 2: eng, 5.1 (ac3) – Commentary" */
+export function describeAudioTrack(track: AudioTrack): string {
+  const details = [track.language, track.layout].filter(Boolean).join(', ');
+  return `Track ${track.index + 1}: ${details ? `${details} ` : ''}(${track.codec})${track.title ? ` – ${track.title}` : ''}`;
+}
+
+/** Average the channels, or keep only `channel` (the last one when there are fewer) */
+export function mixdownChannels(channelData: Float32Array[] | undefined, channel?: number): Float32Array {
+  // If no channel data, return empty samples
+  if (!channelData || channelData.length === 0) return new Float32Array(0);
+  if (channel !== undefined) return channelData[Math.min(channel, channelData.length - 1)] ?? new Float32Array(0);
+  if (channelData.length === 1) return channelData[0] ?? new Float32Array(0);
+  const len = channelData[0]!.length;
+  const out = new Float32Array(len);
+  for (let c = 0; c < channelData.length; c++) {
+    const ch = channelData[c];
+    if (!ch) continue;
+    const chArr = ch as Float32Array;
+    for (let i = 0; i < len; i++) out[i] = (out[i] ?? 0) + (chArr[i] ?? 0);
+  }
+  // Avoid division by zero — count only non-empty channels
+  const channels = channelData.filter((c) => !!c).length || 1;
+  for (let i = 0; i < len; i++) out[i] = (out[i] ?? 0) / channels;
+  return out;
+}
+
+export async function decodeWavToFloat32(filePath: string, channel?: number): Promise<{ samples: Float32Array; sampleRate: number; }> {
+  const buf = await fs.readFile(filePath);
+  const audioData = await wavDecoder.decode(Buffer.from(buf));
+  const sampleRate = audioData.sampleRate;
+  // Normalize channelData shape: wav-decoder typings may include undefined channels
+  const rawChannels = (audioData as any).channelData as (Float32Array | undefined)[] | undefined;
+  const normalized = (rawChannels ?? []).map((c) => c ?? new Float32Array(0));
+  const samples = mixdownChannels(normalized.length ? normalized : undefined, channel);
+  return { samples, sampleRate };
+}
+
+/** Decode any ffmpeg-readable file (or a range of it) to 16 kHz mono samples, preprocessed as asked */
+export async function loadAudio16k(filePath: string, range: DecodeOptions = {}, signal?: AbortSignal): Promise<Float32Array> {
+  const tmpPath = await runFfmpegTo16kMono(filePath, range, signal);
+  try {
+    const { samples } = await decodeWavToFloat32(tmpPath, range.preprocess?.channel);
+    return samples;
+  } finally {
+    await fs.unlink(tmpPath).catch(() => { /* ignore */ });
+  }
+}
+
+/** Write the audio the engine would get (16 kHz mono, preprocessed) to a temporary WAV, e.g. to listen to it */
+export async function preprocessToWav(filePath: string, options: DecodeOptions = {}, signal?: AbortSignal): Promise<string> {
+  const samples = await loadAudio16k(filePath, options, signal);
+  const tmp = tempFilePath('vtp_preview', 'wav');
+  await fs.writeFile(tmp, encodeWav(samples));
+  return tmp;
+}
+
+/** Encode mono Float32 samples as a 16-bit PCM WAV buffer */
+export function encodeWav(samples: Float32Array, sampleRate = SAMPLE_RATE): Buffer {
+  const buf = Buffer.alloc(44 + samples.length * 2);
+  buf.write('RIFF', 0, 'ascii');
+  buf.writeUInt32LE(36 + samples.length * 2, 4);
+  buf.write('WAVE', 8, 'ascii');
+  buf.write('fmt ', 12, 'ascii');
+  buf.writeUInt32LE(16, 16);
+  buf.writeUInt16LE(1, 20); // PCM
+  buf.writeUInt16LE(1, 22); // mono
+  buf.writeUInt32LE(sampleRate, 24);
+  buf.writeUInt32LE(sampleRate * 2, 28);
+  buf.writeUInt16LE(2, 32);
+  buf.writeUInt16LE(16, 34);
+  buf.write('data', 36, 'ascii');
+  buf.writeUInt32LE(samples.length * 2, 40);
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.max(-1, Math.min(1, samples[i] ?? 0));
+    buf.writeInt16LE(Math.round(v < 0 ? v * 0x8000 : v * 0x7fff), 44 + i * 2);
+  }
+  return buf;
+}
+
+export default { isMediaFile, listAudioTracks, describeAudioTrack, runFfmpegTo16kMono, decodeWavToFloat32, loadAudio16k, preprocessToWav, encodeWav, mixdownChannels };
@@ -0,0 +1,130 @@
+import { SAMPLE_RATE } from './audio.js';
+import { withSegmentConfidence } from './confidence.js';
+import type { Transcript, TranscriptSegment, TranscriptWord } from './types.js';
+
+/**
+ * Long-audio chunking
+ * - planChunks splits samples into windows of `chunkSeconds` that overlap by `strideSeconds`
+ * - stitchChunks shifts each window's transcript to file time and drops the duplicated overlap:
+ *   a word (or segment) is kept only by the window whose "owned" range contains its midpoint,
+ *   owned ranges meeting in the middle of each overlap
+ * - mergeOverlappingText removes repeated words at a text boundary when no timings exist; such a window's new
+ *   words become one segment over the range it owns
+ * - Windows that do not overlap (voice-activity utterances) are only shifted, never merged by text
+ */
+
+export type ChunkOptions = {
+  chunkSeconds?: number;
+  strideSeconds?: number;
+};
+
+export type AudioChunk = {
+  index: number;
+  /** window bounds in samples */
+  start: number;
+  end: number;
+  /** part of the window this chunk is responsible for, in seconds of file time */
+  ownStart: number;
+  ownEnd: number;
+};
+
+export const DEFAULT_CHUNK_SECONDS = 30;
+export const DEFAULT_STRIDE_SECONDS = 5;
+
+export function planChunks(totalSamples: number, options: ChunkOptions = {}): AudioChunk[] {
+  const chunkSeconds = options.chunkSeconds ?? DEFAULT_CHUNK_SECONDS;
+  const strideSeconds = Math.min(options.strideSeconds ?? DEFAULT_STRIDE_SECONDS, chunkSeconds / 2);
+  const duration = totalSamples / SAMPLE_RATE;
+  if (chunkSeconds <= 0 || duration <= chunkSeconds) {
+    return [{ index: 0, start: 0, end: totalSamples, ownStart: 0, ownEnd: duration }];
+  }
+  const step = chunkSeconds - strideSeconds;
+  const chunks: AudioChunk[] = [];
+  for (let t = 0; ; t += step) {
+    const end = Math.min(duration, t + chunkSeconds);
+    chunks.push({
+      index: chunks.length,
+      start: Math.floor(t * SAMPLE_RATE),
+      end: Math.min(totalSamples, Math.ceil(end * SAMPLE_RATE)),
+      ownStart: t === 0 ? 0 : t + strideSeconds / 2,
+      ownEnd: end >= duration ? duration : end - strideSeconds / 2,
+    });
+    if (end >= duration) break;
+  }
+  return chunks;
+}
+
+const normalizeWord = (w: string) => w.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+/** Join two texts, dropping the longest run of words that ends `a` and starts `b` */
+export function mergeOverlappingText(a: string, b: string, maxOverlap = 20): string {
+  const left = a.trim().split(/\s+/).filter(Boolean);
+  const right = b.trim().split(/\s+/).filter(Boolean);
+  const limit = Math.min(maxOverlap, left.length, right.length);
+  for (let k = limit; k >= 2; k--) {
+    const tail = left.slice(left.length - k).map(normalizeWord).join(' ');
+    const head = right.slice(0, k).map(normalizeWord).join(' ');
+    if (tail === head) return [...left, ...right.slice(k)].join(' ');
+  }
+  return [...left, ...right].join(' ');
+}
+
+// A single segment spanning the whole window means the engine gave no real timings
+function hasTimings(transcript: Transcript, windowSeconds: number): boolean {
+  const segs = transcript.segments;
+  if (segs.length !== 1) return segs.length > 1;
+  const only = segs[0]!;
+  return !!only.words || only.start > 0 || only.end < windowSeconds;
+}
+
+export function stitchChunks(parts: { chunk: AudioChunk; transcript: Transcript }[], duration: number): Transcript {
+  const segments: TranscriptSegment[] = [];
+  // built window by window, so untimed windows keep their place between timed ones
+  let text = '';
+  const lastIndex = parts.length - 1;
+  for (const [i, { chunk, transcript }] of parts.entries()) {
+    const offset = chunk.start / SAMPLE_RATE;
+    const owned = (start: number, end: number) => {
+      const mid = (start + end) / 2;
+      return mid >= chunk.ownStart && (mid < chunk.ownEnd || i === lastIndex);
+    };
+    const overlapping = (parts[i - 1]?.chunk.end ?? 0) > chunk.start || (parts[i + 1]?.chunk.start ?? Infinity) < chunk.end;
+    if (overlapping && !hasTimings(transcript, (chunk.end - chunk.start) / SAMPLE_RATE)) {
+      // no usable timings: fall back to text overlap detection; the new words span the window's own range
+      const before = text ? text.split(' ').length : 0;
+      text = text ? mergeOverlappingText(text, transcript.text) : transcript.text.trim().replace(/\s+/g, ' ');
+      const added = text.split(' ').slice(before).join(' ');
+      if (added) segments.push({ id: segments.length, start: chunk.ownStart, end: i === lastIndex ? duration : chunk.ownEnd, text: added });
+      continue;
+    }
+    for (const seg of transcript.segments) {
+      let shifted: TranscriptSegment = { id: segments.length, start: seg.start + offset, end: seg.end + offset, text: seg.text };
+      if (seg.words) {
+        const words: TranscriptWord[] = seg.words
+          .map((w) => ({ ...w, start: w.start + offset, end: w.end + offset }))
+          .filter((w) => owned(w.start, w.end));
+        if (words.length === 0) continue;
+        shifted.words = words;
+        shifted.start = words[0]!.start;
+        shifted.end = words[words.length - 1]!.end;
+        shifted.text = words.map((w) => w.text).join('').trim();
+        shifted = withSegmentConfidence(shifted);
+      } else if (!owned(shifted.start, shifted.end)) {
+        continue;
+      } else if (seg.wordScores) {
+        shifted.wordScores = seg.wordScores;
+        if (seg.confidence !== undefined) shifted.confidence = seg.confidence;
+      }
+      segments.push(shifted);
+      text = `${text} ${shifted.text}`.replace(/\s+/g, ' ').trim();
+    }
+  }
+  const first = parts[0]?.transcript;
+  const out: Transcript = { text, segments, duration };
+  if (first?.model) out.model = first.model;
+  if (first?.language) out.language = first.language;
+  if (first?.task) out.task = first.task;
+  return out;
+}
+
+export default { planChunks, stitchChunks, mergeOverlappingText };
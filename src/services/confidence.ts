@@ -0,0 +1,64 @@
+import type { Transcript, TranscriptSegment, WordScore } from './types.js';
+
+/**
+ * Confidence scores
+ * - Engines score every token with the model's probability for it (0-1); a word scores the mean of its tokens and
+ *   a segment the mean of its words
+ * - Words with timings carry their score (`words[i].confidence`); segments without word timings list their
+ *   words and scores in `wordScores`
+ * - Pure functions, shared by the engines, the services and the renderer
+ */
+
+/** words scoring below this are flagged for review */
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.5;
+
+export function meanConfidence(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** Join token pieces into words (a new word starts at a piece with leading whitespace); word score = mean token probability */
+export function groupTokensIntoWords(tokens: { text: string; probability: number }[]): WordScore[] {
+  const words: { text: string; probabilities: number[] }[] = [];
+  for (const token of tokens) {
+    const last = words[words.length - 1];
+    if (!last || /^\s/.test(token.text) || !last.text.trim()) {
+      words.push({ text: token.text, probabilities: [token.probability] });
+    } else {
+      last.text += token.text;
+      last.probabilities.push(token.probability);
+    }
+  }
+  return words
+    .filter((w) => w.text.trim())
+    .map((w) => ({ text: w.text.trim(), confidence: meanConfidence(w.probabilities)! }));
+}
+
+/** Score of every word of a segment, in text order; empty when the engine gave no scores */
+export function wordConfidences(seg: TranscriptSegment): WordScore[] {
+  if (seg.words) return seg.words.map((w) => ({ text: w.text.trim(), ...(w.confidence !== undefined ? { confidence: w.confidence } : {}) }));
+  return seg.wordScores ?? [];
+}
+
+/** Set `confidence` from the word scores (left out when there are none) */
+export function withSegmentConfidence(seg: TranscriptSegment): TranscriptSegment {
+  const { confidence: _old, ...rest } = seg;
+  const mean = meanConfidence(wordConfidences(seg).flatMap((w) => (w.confidence !== undefined ? [w.confidence] : [])));
+  return mean !== undefined ? { ...rest, confidence: mean } : rest;
+}
+
+export type UncertainWord = {
+  segment: number;
+  /** index in wordConfidences(segment) */
+  word: number;
+  text: string;
+  confidence: number;
+};
+
+/** Words scoring below `threshold`, in transcript order */
+export function uncertainWords(transcript: Transcript, threshold = DEFAULT_CONFIDENCE_THRESHOLD): UncertainWord[] {
+  return transcript.segments.flatMap((seg, segment) => wordConfidences(seg).flatMap((w, word) =>
+    w.confidence !== undefined && w.confidence < threshold ? [{ segment, word, text: w.text, confidence: w.confidence }] : []));
+}
+
+export default { groupTokensIntoWords, wordConfidences, withSegmentConfidence, uncertainWords, meanConfidence };
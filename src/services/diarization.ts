@@ -0,0 +1,300 @@
+import { detectSpeech, type SpeechRegion, type VadOptions } from './vad.js';
+import type { Transcript, TranscriptSpeaker } from './types.js';
+
+/**
+ * Speaker diarization
+ * - Runs locally on the 16 kHz mono samples: speech found by the VAD is cut into windows of about 3 s, each window
+ *   gets a voice embedding (mean and variance of its MFCCs) and the windows are clustered bottom-up
+ * - The closest clusters merge while one voice explains their frames about as well as two (voiceDistance below
+ *   `threshold`); with `speakers` they merge down to that count instead, which is more reliable when known
+ * - diarize returns speaker turns; assignSpeakers labels transcript segments by overlap, and numbers speakers
+ *   in order of first appearance ("Speaker 1", "Speaker 2", ...)
+ * - Pure functions on Float32 samples (no Node APIs), like vad.ts
+ */
+
+export type DiarizationOptions = {
+  /** expected number of speakers; found by the distance threshold when left out */
+  speakers?: number;
+  /** upper bound when the count is not given; default 8 */
+  maxSpeakers?: number;
+  /** voice distance at which clusters stay apart; higher finds fewer speakers; default 1.1 */
+  threshold?: number;
+  /** analysis window in seconds; default 3 (grows for long audio, see MAX_WINDOWS) */
+  windowSeconds?: number;
+  vad?: VadOptions;
+};
+
+export type SpeakerTurn = SpeechRegion & {
+  /** 0-based cluster index, numbered by first appearance */
+  speaker: number;
+};
+
+const DEFAULT_SAMPLE_RATE = 16000;
+// clustering is quadratic in memory and cubic in time; long recordings get longer windows instead
+const MAX_WINDOWS = 600;
+const MIN_WINDOW_SECONDS = 0.5;
+
+const FRAME_SECONDS = 0.025;
+const FRAME_HOP_SECONDS = 0.01;
+const MEL_FILTERS = 26;
+const CEPSTRA = 20;
+
+// In-place radix-2 FFT on separate real / imaginary arrays (length must be a power of two)
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j]!, re[i]!];
+      [im[i], im[j]] = [im[j]!, im[i]!];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wr = Math.cos(angle);
+    const wi = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let cr = 1;
+      let ci = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b]! * cr - im[b]! * ci;
+        const ti = re[b]! * ci + im[b]! * cr;
+        re[b] = re[a]! - tr;
+        im[b] = im[a]! - ti;
+        re[a] = re[a]! + tr;
+        im[a] = im[a]! + ti;
+        const next = cr * wr - ci * wi;
+        ci = cr * wi + ci * wr;
+        cr = next;
+      }
+    }
+  }
+}
+
+function melFilterbank(fftSize: number, sampleRate: number): Float64Array[] {
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+  const fromMel = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+  const low = toMel(60);
+  const high = toMel(Math.min(7600, sampleRate / 2));
+  const bins = Array.from({ length: MEL_FILTERS + 2 }, (_, i) =>
+    Math.floor(((fftSize + 1) * fromMel(low + ((high - low) * i) / (MEL_FILTERS + 1))) / sampleRate));
+  return Array.from({ length: MEL_FILTERS }, (_, m) => {
+    const filter = new Float64Array(fftSize / 2 + 1);
+    const [left, center, right] = [bins[m]!, bins[m + 1]!, bins[m + 2]!];
+    for (let k = left; k < center; k++) filter[k] = (k - left) / Math.max(1, center - left);
+    for (let k = center; k < right; k++) filter[k] = (right - k) / Math.max(1, right - center);
+    return filter;
+  });
+}
+
+/** MFCCs c1..c19 of every 25 ms frame (10 ms hop); c0 is left out so the loudness does not matter */
+export function mfcc(samples: Float32Array, sampleRate = DEFAULT_SAMPLE_RATE): Float64Array[] {
+  const frame = Math.round(sampleRate * FRAME_SECONDS);
+  const hop = Math.round(sampleRate * FRAME_HOP_SECONDS);
+  let fftSize = 1;
+  while (fftSize < frame) fftSize <<= 1;
+  const filters = melFilterbank(fftSize, sampleRate);
+  const window = Float64Array.from({ length: frame }, (_, i) => 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (frame - 1)));
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  const energies = new Float64Array(MEL_FILTERS);
+  const frames: Float64Array[] = [];
+  for (let start = 0; start + frame <= samples.length; start += hop) {
+    re.fill(0);
+    im.fill(0);
+    for (let i = 0; i < frame; i++) {
+      // pre-emphasis lifts the higher formants, which carry most of the voice identity
+      const v = samples[start + i]! - 0.97 * (samples[start + i - 1] ?? 0);
+      re[i] = v * window[i]!;
+    }
+    fft(re, im);
+    for (let m = 0; m < MEL_FILTERS; m++) {
+      const filter = filters[m]!;
+      let sum = 0;
+      for (let k = 0; k < filter.length; k++) {
+        if (filter[k]) sum += filter[k]! * (re[k]! * re[k]! + im[k]! * im[k]!);
+      }
+      energies[m] = Math.log(sum + 1e-10);
+    }
+    const coeffs = new Float64Array(CEPSTRA - 1);
+    for (let c = 1; c < CEPSTRA; c++) {
+      let sum = 0;
+      for (let m = 0; m < MEL_FILTERS; m++) sum += energies[m]! * Math.cos((Math.PI * c * (m + 0.5)) / MEL_FILTERS);
+      coeffs[c - 1] = sum * Math.sqrt(2 / MEL_FILTERS);
+    }
+    frames.push(coeffs);
+  }
+  return frames;
+}
+
+/** Gaussian summary of a window's MFCC frames: count, per-coefficient sums and sums of squares */
+type VoiceStats = { n: number; sum: Float64Array; sumSq: Float64Array };
+
+function voiceStats(frames: Float64Array[]): VoiceStats {
+  const dims = CEPSTRA - 1;
+  const stats = { n: frames.length, sum: new Float64Array(dims), sumSq: new Float64Array(dims) };
+  for (const f of frames) {
+    for (let d = 0; d < dims; d++) {
+      stats.sum[d] = stats.sum[d]! + f[d]!;
+      stats.sumSq[d] = stats.sumSq[d]! + f[d]! * f[d]!;
+    }
+  }
+  return stats;
+}
+
+function mergeStats(a: VoiceStats, b: VoiceStats): VoiceStats {
+  return {
+    n: a.n + b.n,
+    sum: a.sum.map((v, d) => v + b.sum[d]!),
+    sumSq: a.sumSq.map((v, d) => v + b.sumSq[d]!),
+  };
+}
+
+// n·log|Σ| of a diagonal Gaussian fitted to the frames
+function logDet(stats: VoiceStats): number {
+  let sum = 0;
+  for (let d = 0; d < stats.sum.length; d++) {
+    const mean = stats.sum[d]! / stats.n;
+    sum += Math.log(Math.max(stats.sumSq[d]! / stats.n - mean * mean, 1e-6));
+  }
+  return stats.n * sum;
+}
+
+/**
+ * How much better two Gaussians fit the frames of two clusters than one, per frame (a generalized likelihood
+ * ratio); near 0 for one voice, larger for two. Per frame, so it does not grow with the length of the clusters
+ */
+function voiceDistance(a: VoiceStats, b: VoiceStats): number {
+  const merged = mergeStats(a, b);
+  return (0.5 * (logDet(merged) - logDet(a) - logDet(b))) / merged.n;
+}
+
+/** Consecutive windows over the speech regions; a region shorter than a window still gets one (if long enough to judge) */
+function planWindows(regions: SpeechRegion[], windowSeconds: number): SpeechRegion[] {
+  const windows: SpeechRegion[] = [];
+  for (const region of regions) {
+    const count = Math.max(1, Math.round((region.end - region.start) / windowSeconds));
+    const length = (region.end - region.start) / count;
+    if (length < MIN_WINDOW_SECONDS) continue;
+    for (let i = 0; i < count; i++) windows.push({ start: region.start + i * length, end: region.start + (i + 1) * length });
+  }
+  return windows;
+}
+
+/** Agglomerative clustering by voice distance; returns a cluster index per window */
+function cluster(items: VoiceStats[], options: { count?: number; maxCount: number; threshold: number }): number[] {
+  const n = items.length;
+  const stats = [...items];
+  const score = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) score[i * n + j] = voiceDistance(stats[i]!, stats[j]!);
+  }
+  const alive = new Array<boolean>(n).fill(true);
+  const parent = Array.from({ length: n }, (_, i) => i);
+  let clusters = n;
+  const target = options.count ?? 1;
+  while (clusters > target) {
+    let best = Infinity;
+    let bi = -1;
+    let bj = -1;
+    for (let i = 0; i < n; i++) {
+      if (!alive[i]) continue;
+      for (let j = i + 1; j < n; j++) {
+        if (alive[j] && score[i * n + j]! < best) {
+          best = score[i * n + j]!;
+          bi = i;
+          bj = j;
+        }
+      }
+    }
+    if (options.count === undefined && best > options.threshold && clusters <= options.maxCount) break;
+    stats[bi] = mergeStats(stats[bi]!, stats[bj]!);
+    alive[bj] = false;
+    parent[bj] = bi;
+    clusters--;
+    for (let k = 0; k < n; k++) {
+      if (!alive[k] || k === bi) continue;
+      const value = voiceDistance(stats[bi]!, stats[k]!);
+      score[Math.min(bi, k) * n + Math.max(bi, k)] = value;
+    }
+  }
+  const root = (i: number): number => (parent[i] === i ? i : root(parent[i]!));
+  return items.map((_, i) => root(i));
+}
+
+/** Who speaks when; an empty list when there is no speech */
+export function diarize(samples: Float32Array, sampleRate = DEFAULT_SAMPLE_RATE, options: DiarizationOptions = {}): SpeakerTurn[] {
+  const regions = detectSpeech(samples, sampleRate, options.vad);
+  let windowSeconds = options.windowSeconds ?? 3;
+  let windows = planWindows(regions, windowSeconds);
+  while (windows.length > MAX_WINDOWS) {
+    windowSeconds *= windows.length / MAX_WINDOWS;
+    windows = planWindows(regions, windowSeconds);
+  }
+  if (windows.length === 0) return [];
+
+  const stats = windows.map((w) =>
+    voiceStats(mfcc(samples.subarray(Math.floor(w.start * sampleRate), Math.ceil(w.end * sampleRate)), sampleRate)));
+  const labels = cluster(stats, {
+    ...(options.speakers ? { count: Math.min(options.speakers, windows.length) } : {}),
+    maxCount: options.maxSpeakers ?? 8,
+    threshold: options.threshold ?? 1.1,
+  });
+
+  const turns: SpeakerTurn[] = [];
+  const numbers = new Map<number, number>();
+  windows.forEach((w, i) => {
+    const label = labels[i]!;
+    if (!numbers.has(label)) numbers.set(label, numbers.size);
+    const speaker = numbers.get(label)!;
+    const last = turns[turns.length - 1];
+    // the same voice across a short pause is one turn
+    if (last && last.speaker === speaker && w.start - last.end < 1) last.end = w.end;
+    else turns.push({ start: w.start, end: w.end, speaker });
+  });
+  return turns;
+}
+
+export function speakerName(index: number): string {
+  return `Speaker ${index + 1}`;
+}
+
+/** Label each segment with the speaker it overlaps most; speakers are numbered in order of appearance */
+export function assignSpeakers(transcript: Transcript, turns: SpeakerTurn[]): Transcript {
+  if (turns.length === 0) return transcript;
+  const ids = new Map<number, string>();
+  const speakers: TranscriptSpeaker[] = [];
+  const segments = transcript.segments.map((seg) => {
+    const overlap = new Map<number, number>();
+    for (const turn of turns) {
+      const shared = Math.min(seg.end, turn.end) - Math.max(seg.start, turn.start);
+      if (shared > 0) overlap.set(turn.speaker, (overlap.get(turn.speaker) ?? 0) + shared);
+    }
+    let speaker: number | undefined;
+    for (const [s, seconds] of overlap) if (speaker === undefined || seconds > overlap.get(speaker)!) speaker = s;
+    // a segment between turns belongs to the nearest one
+    if (speaker === undefined) {
+      const middle = (seg.start + seg.end) / 2;
+      speaker = turns.reduce((a, b) => (Math.abs((a.start + a.end) / 2 - middle) <= Math.abs((b.start + b.end) / 2 - middle) ? a : b)).speaker;
+    }
+    if (!ids.has(speaker)) {
+      const id = `S${ids.size + 1}`;
+      ids.set(speaker, id);
+      speakers.push({ id, name: speakerName(ids.size - 1) });
+    }
+    return { ...seg, speaker: ids.get(speaker)! };
+  });
+  return { ...transcript, segments, speakers };
+}
+
+/** Display name of a segment's speaker, if the transcript was diarized */
+export function speakerLabel(transcript: Transcript, speakerId: string | undefined): string | undefined {
+  if (!speakerId) return undefined;
+  return transcript.speakers?.find((s) => s.id === speakerId)?.name ?? speakerId;
+}
+
+export default { diarize, assignSpeakers, speakerLabel, mfcc };
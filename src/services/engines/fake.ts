@@ -0,0 +1,43 @@
+import { SAMPLE_RATE } from '../audio.js';
+import type { Transcript, TranscriptSegment } from '../types.js';
+import type { EngineOptions, TranscriptionEngine } from './types.js';
+
+/**
+ * Deterministic fake engine for tests and offline UI work
+ * - Emits one segment per `segmentSeconds` of audio, text depends only on the input length
+ * - Never loads a model, so the full flow can run under Jest
+ */
+
+export type FakeEngineOptions = {
+  segmentSeconds?: number;
+  /** text for segment `i`; defaults to "segment <i + 1>" */
+  textFor?: (index: number) => string;
+};
+
+export function createFakeEngine(fakeOptions: FakeEngineOptions = {}): TranscriptionEngine {
+  const segmentSeconds = fakeOptions.segmentSeconds ?? 5;
+  const textFor = fakeOptions.textFor ?? ((i: number) => `segment ${i + 1}`);
+  return {
+    name: 'fake',
+    defaultModel: 'fake',
+    async transcribe(samples: Float32Array, options: EngineOptions): Promise<Transcript> {
+      const duration = samples.length / SAMPLE_RATE;
+      const segments: TranscriptSegment[] = [];
+      for (let start = 0, id = 0; start < duration; start += segmentSeconds, id++) {
+        const end = Math.min(duration, start + segmentSeconds);
+        const text = textFor(id);
+        const segment: TranscriptSegment = { id, start, end, text };
+        if (options.timestamps === 'word') {
+          const parts = text.split(/\s+/).filter(Boolean);
+          const step = (end - start) / Math.max(1, parts.length);
+          segment.words = parts.map((w, i) => ({ text: ' ' + w, start: start + i * step, end: start + (i + 1) * step }));
+        }
+        segments.push(segment);
+      }
+      const language = !options.language || options.language === 'auto' ? 'en' : options.language;
+      return { text: segments.map((s) => s.text).join(' '), segments, duration, model: options.model, language, task: options.task };
+    },
+  };
+}
+
+export default createFakeEngine();
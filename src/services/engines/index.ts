@@ -0,0 +1,54 @@
+import type { TranscriptionEngine } from './types.js';
+
+/**
+ * Engine registry
+ * - Engines are loaded lazily so e.g. the fake engine never pulls in the ONNX runtime: only xenova.ts imports
+ *   the model manager (models.ts) and transformers.js; the CLI and the worker pool configure models through
+ *   model-config.ts
+ * - The default engine comes from configureEngines() or VTP_ENGINE, falling back to xenova
+ */
+
+export type { TranscriptionEngine, EngineOptions } from './types.js';
+
+const loaders: Record<string, () => Promise<TranscriptionEngine>> = {
+  'xenova': () => import('./xenova.js').then((m) => m.default),
+  'whisper-cpp': () => import('./whisper-cpp.js').then((m) => m.default),
+  'fake': () => import('./fake.js').then((m) => m.default),
+};
+
+const instances = new Map<string, TranscriptionEngine>();
+
+let defaultEngine = process.env.VTP_ENGINE || 'xenova';
+
+export function engineNames(): string[] {
+  return Object.keys(loaders);
+}
+
+/** Add or replace an engine, e.g. a configured fake engine in tests */
+export function registerEngine(engine: TranscriptionEngine) {
+  instances.set(engine.name, engine);
+  if (!loaders[engine.name]) loaders[engine.name] = async () => engine;
+}
+
+export function configureEngines(options: { defaultEngine?: string }) {
+  if (options.defaultEngine) {
+    if (!loaders[options.defaultEngine]) throw new Error(`unknown engine: ${options.defaultEngine}`);
+    defaultEngine = options.defaultEngine;
+  }
+}
+
+export function getDefaultEngineName(): string {
+  return defaultEngine;
+}
+
+export async function getEngine(name = defaultEngine): Promise<TranscriptionEngine> {
+  const cached = instances.get(name);
+  if (cached) return cached;
+  const load = loaders[name];
+  if (!load) throw new Error(`unknown engine: ${name} (available: ${engineNames().join(', ')})`);
+  const engine = await load();
+  instances.set(name, engine);
+  return engine;
+}
+
+export default { getEngine, registerEngine, configureEngines, engineNames, getDefaultEngineName };
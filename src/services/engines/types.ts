@@ -0,0 +1,34 @@
+import type { TimestampMode, Transcript } from '../types.js';
+import type { TranscribeTask } from '../languages.js';
+
+/**
+ * Transcription engine contract
+ * - Engines receive 16 kHz mono samples and return a Transcript
+ * - Audio decoding stays in the transcription service so every engine sees the same input
+ */
+
+export type EngineOptions = {
+  model: string;
+  /** language code, or 'auto' to detect it; omitted means the model's default (English for *.en models) */
+  language?: string;
+  task: TranscribeTask;
+  timestamps: TimestampMode;
+  /** score words with the model's probabilities (see confidence.ts); may cost an extra pass */
+  confidence?: boolean;
+  /** text the model continues from (Whisper's initial prompt): names and spellings to expect; engines without `prompts` ignore it */
+  prompt?: string;
+  /** aborting stops the work as soon as the engine can: child processes are killed, in-process models stop before the next call */
+  signal?: AbortSignal;
+};
+
+export interface TranscriptionEngine {
+  readonly name: string;
+  readonly defaultModel: string;
+  /** model used when a language other than English, detection or translation is requested without a model */
+  readonly multilingualModel?: string;
+  /** true when the engine passes `prompt` on to the model */
+  readonly prompts?: boolean;
+  transcribe(samples: Float32Array, options: EngineOptions): Promise<Transcript>;
+  /** load the model ahead of the first call, when the engine keeps models in memory */
+  preload?(model: string): Promise<void>;
+}
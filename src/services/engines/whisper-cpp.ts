@@ -0,0 +1,123 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { spawn } from 'child_process';
+import { encodeWav, tempFilePath, SAMPLE_RATE } from '../audio.js';
+import { groupWordsIntoSegments } from '../segments.js';
+import { groupTokensIntoWords, withSegmentConfidence } from '../confidence.js';
+import type { Transcript, TranscriptSegment } from '../types.js';
+import type { EngineOptions, TranscriptionEngine } from './types.js';
+
+/**
+ * whisper.cpp engine
+ * - Shells out to a local whisper.cpp binary (`whisper-cli`, formerly `main`) with a ggml model
+ * - Models are either a path to a .bin file or a name resolved as <modelDir>/ggml-<name>.bin
+ * - Reads the JSON output (-oj); word timings come from one-word segments (-ml 1 -sow)
+ * - With confidence, the full JSON (-ojf) also lists each token with its probability `p`
+ * - A prompt is passed as --prompt, the initial prompt of every window
+ */
+
+export type WhisperCppConfig = {
+  binary: string;
+  modelDir: string;
+  threads?: number;
+};
+
+const config: WhisperCppConfig = {
+  binary: process.env.VTP_WHISPER_CPP_BIN || 'whisper-cli',
+  modelDir: process.env.VTP_WHISPER_CPP_MODELS || path.join(process.cwd(), 'models', 'whisper.cpp'),
+  ...(process.env.VTP_WHISPER_CPP_THREADS ? { threads: Number(process.env.VTP_WHISPER_CPP_THREADS) } : {}),
+};
+
+export function configureWhisperCpp(options: Partial<WhisperCppConfig>) {
+  Object.assign(config, options);
+}
+
+export function resolveModelPath(model: string): string {
+  if (model.endsWith('.bin') || model.includes('/') || model.includes('\\')) return path.resolve(model);
+  return path.join(config.modelDir, `ggml-${model}.bin`);
+}
+
+export type WhisperCppJson = {
+  result?: { language?: string };
+  transcription?: {
+    offsets?: { from: number; to: number };
+    text?: string;
+    tokens?: { text?: string; p?: number }[];
+  }[];
+};
+
+// [_BEG_], [_TT_150], <|endoftext|>...: timestamps and control tokens, not text
+const isSpecialToken = (text: string) => /^\[_|^<\|/.test(text);
+
+/** The transcript in whisper.cpp's JSON output (-oj / -ojf) of `duration` seconds of audio */
+export function parseWhisperCppJson(json: WhisperCppJson, options: Pick<EngineOptions, 'model' | 'language' | 'task' | 'timestamps'>, duration: number): Transcript {
+  const pieces = (json.transcription ?? []).map((t) => {
+    const tokens = (t.tokens ?? [])
+      .filter((token) => token.text && !isSpecialToken(token.text) && typeof token.p === 'number')
+      .map((token) => ({ text: token.text!, probability: token.p! }));
+    return {
+      start: (t.offsets?.from ?? 0) / 1000,
+      end: (t.offsets?.to ?? 0) / 1000,
+      text: t.text ?? '',
+      ...(tokens.length ? { scores: groupTokensIntoWords(tokens) } : {}),
+    };
+  });
+  const segments: TranscriptSegment[] = options.timestamps === 'word'
+    // one-word pieces: the word's score is the mean of its tokens
+    ? groupWordsIntoSegments(pieces.filter((p) => p.text.trim()).map(({ scores, ...word }) => {
+      const confidence = scores?.length === 1 ? scores[0]!.confidence : undefined;
+      return confidence !== undefined ? { ...word, confidence } : word;
+    })).map(withSegmentConfidence)
+    : pieces.map(({ scores, ...p }, id) => {
+      const segment: TranscriptSegment = { id, start: p.start, end: p.end, text: p.text.trim() };
+      // the scores only describe the text when the words line up
+      const aligned = scores && scores.map((w) => w.text).join(' ') === segment.text.split(/\s+/).filter(Boolean).join(' ');
+      return aligned ? withSegmentConfidence({ ...segment, wordScores: scores }) : segment;
+    });
+  const text = options.timestamps === 'word'
+    ? pieces.map((p) => p.text).join('').trim()
+    : segments.map((s) => s.text).join(' ').trim();
+  const language = options.language && options.language !== 'auto' ? options.language : (json.result?.language ?? 'en');
+  return { text, segments, duration, model: options.model, language, task: options.task };
+}
+
+function run(args: string[], signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    // with a signal, spawn kills the process on abort and reports an AbortError
+    const proc = spawn(config.binary, args, { stdio: ['ignore', 'ignore', 'pipe'], ...(signal ? { signal } : {}) });
+    let stderr = '';
+    proc.stderr?.on('data', (d) => { stderr = (stderr + d.toString()).slice(-4000); });
+    proc.on('exit', (code) => code === 0 ? resolve() : reject(new Error(`whisper.cpp exit ${code}: ${stderr.trim().split('\n').pop() ?? ''}`)));
+    proc.on('error', reject);
+  });
+}
+
+const whisperCppEngine: TranscriptionEngine = {
+  name: 'whisper-cpp',
+  defaultModel: 'base.en',
+  multilingualModel: 'base',
+  prompts: true,
+  async transcribe(samples: Float32Array, options: EngineOptions): Promise<Transcript> {
+    const modelPath = resolveModelPath(options.model);
+    await fs.access(modelPath).catch(() => { throw new Error(`whisper.cpp model not found: ${modelPath}`); });
+    const wavPath = tempFilePath('vtp_wcpp', 'wav');
+    const outBase = wavPath.replace(/\.wav$/, '');
+    await fs.writeFile(wavPath, encodeWav(samples));
+    try {
+      const args = ['-m', modelPath, '-f', wavPath, options.confidence ? '-ojf' : '-oj', '-of', outBase, '-np'];
+      if (options.language) args.push('-l', options.language);
+      if (options.task === 'translate') args.push('-tr');
+      if (options.prompt) args.push('--prompt', options.prompt);
+      if (config.threads) args.push('-t', String(config.threads));
+      if (options.timestamps === 'word') args.push('-ml', '1', '-sow');
+      await run(args, options.signal);
+      const json = JSON.parse(await fs.readFile(outBase + '.json', 'utf8')) as WhisperCppJson;
+      return parseWhisperCppJson(json, options, samples.length / SAMPLE_RATE);
+    } finally {
+      await fs.unlink(wavPath).catch(() => { /* ignore */ });
+      await fs.unlink(outBase + '.json').catch(() => { /* ignore */ });
+    }
+  },
+};
+
+export default whisperCppEngine;
@@ -0,0 +1,175 @@
+import { Tensor } from '@xenova/transformers';
+import { withPipeline, preloadModel } from '../models.js';
+import { groupWordsIntoSegments } from '../segments.js';
+import type { TimestampMode, Transcript } from '../types.js';
+import type { EngineOptions, TranscriptionEngine } from './types.js';
+import { SAMPLE_RATE } from '../audio.js';
+import { AUTO_LANGUAGE } from '../languages.js';
+import { meanConfidence, withSegmentConfidence } from '../confidence.js';
+
+/**
+ * Xenova (transformers.js) Whisper engine
+ * - Runs ONNX models in-process through the model manager's cached pipelines
+ * - Language detection scores the language tokens after <|startoftranscript|> on the first 30 s
+ * - Confidence: the pipeline decodes greedily and keeps no probabilities, so the words it returned are scored
+ *   in one more decoder pass over the same audio (teacher forcing, see scoreTranscript)
+ * - No prompt, deliberately (no `prompts` flag, so callers are told it is dropped, see checkPrompt): transformers.js 2
+ *   `generate` takes no prompt_ids, and starting the decoder at <|startofprev|> + prompt would break the pipeline's
+ *   forced language/task tokens, timestamp rules and word alignment, which all assume the output begins at
+ *   <|startoftranscript|>. Conditioning needs a decoding loop of our own or a transformers.js with prompt support;
+ *   until then the vocabulary reaches xenova transcripts through the text rules only (see postprocess.ts)
+ */
+
+/** Pick the most likely language code for multilingual models; returns probabilities too */
+export async function detectLanguage(asr: any, samples: Float32Array): Promise<{ language: string; probability: number }> {
+  const tokensToIds: Map<string, number> = asr.tokenizer.model.tokens_to_ids;
+  const sot = tokensToIds.get('<|startoftranscript|>');
+  if (sot === undefined) throw new Error('model has no <|startoftranscript|> token');
+  const { input_features } = await asr.processor(samples.subarray(0, 30 * SAMPLE_RATE));
+  const decoder_input_ids = new Tensor('int64', BigInt64Array.from([BigInt(sot)]), [1, 1]);
+  const { logits } = await asr.model.forward({ input_features, decoder_input_ids });
+  const scores = logits.data as Float32Array;
+  const candidates = [...tokensToIds.entries()]
+    .map(([token, id]) => [/^<\|([a-z]{2,3})\|>$/.exec(token)?.[1], id] as const)
+    .filter((c): c is readonly [string, number] => !!c[0])
+    .map(([code, id]) => ({ code, score: scores[id] ?? -Infinity }));
+  if (candidates.length === 0) throw new Error('model has no language tokens (English-only model?)');
+  const max = Math.max(...candidates.map((c) => c.score));
+  const total = candidates.reduce((sum, c) => sum + Math.exp(c.score - max), 0);
+  const best = candidates.reduce((a, b) => (b.score > a.score ? b : a));
+  return { language: best.code, probability: 1 / total };
+}
+
+type RawChunk = { text?: string; timestamp?: [number | null, number | null] };
+
+function chunkTimes(chunk: RawChunk, fallbackStart: number, duration: number): [number, number] {
+  const start = chunk.timestamp?.[0] ?? fallbackStart;
+  // the last chunk of a file may have an open end
+  const end = chunk.timestamp?.[1] ?? Math.max(start, duration);
+  return [start, end];
+}
+
+/** Normalize the different shapes returned by the Xenova ASR pipeline into a Transcript */
+export function toTranscript(result: unknown, mode: TimestampMode, duration: number): Transcript {
+  const outputs = (Array.isArray(result) ? result : [result]) as any[];
+  const text = outputs
+    .map((r) => (typeof r === 'string' ? r : (r?.text ?? JSON.stringify(r))))
+    .join('\n')
+    .trim();
+  const chunks: RawChunk[] = outputs.flatMap((r) => (Array.isArray(r?.chunks) ? r.chunks : []));
+
+  if (!mode || chunks.length === 0) {
+    return { text, segments: text ? [{ id: 0, start: 0, end: duration, text }] : [], duration };
+  }
+
+  if (mode === 'word') {
+    let cursor = 0;
+    const words = chunks.map((c) => {
+      const [start, end] = chunkTimes(c, cursor, duration);
+      cursor = end;
+      return { text: c.text ?? '', start, end };
+    });
+    return { text, segments: groupWordsIntoSegments(words), duration };
+  }
+
+  let cursor = 0;
+  const segments = chunks.map((c, id) => {
+    const [start, end] = chunkTimes(c, cursor, duration);
+    cursor = end;
+    return { id, start, end, text: (c.text ?? '').trim() };
+  });
+  return { text, segments, duration };
+}
+
+/** log(sum(exp(row))) of one row of logits */
+function logSumExp(data: Float32Array, offset: number, length: number): number {
+  let max = -Infinity;
+  for (let i = 0; i < length; i++) max = Math.max(max, data[offset + i]!);
+  let sum = 0;
+  for (let i = 0; i < length; i++) sum += Math.exp(data[offset + i]! - max);
+  return max + Math.log(sum);
+}
+
+/**
+ * Add confidence scores to a transcript of `samples` (at most 30 s, one model window).
+ * `prefix` holds the special tokens the text was decoded after, e.g. <|startoftranscript|><|fr|><|transcribe|>.
+ * Each word is encoded on its own with its leading space, which gives the same tokens as the whole text
+ * since the tokenizer splits words before merging; words past the decoder's length limit stay unscored
+ */
+export async function scoreTranscript(asr: any, samples: Float32Array, transcript: Transcript, prefix: string[]): Promise<Transcript> {
+  const tokensToIds: Map<string, number> = asr.tokenizer.model.tokens_to_ids;
+  const prefixIds = prefix.map((token) => tokensToIds.get(token)).filter((id): id is number => id !== undefined);
+  // timed words, or the words of a segment's text
+  const words = transcript.segments.map((seg) => (seg.words ?? seg.text.split(/\s+/).filter(Boolean).map((text) => ({ text }))).map((w) => w.text.trim()));
+  const ids: number[] = [];
+  const owners: [segment: number, word: number][] = [];
+  const room = (asr.model.config?.max_target_positions ?? 448) - prefixIds.length;
+  words.forEach((segmentWords, s) => segmentWords.forEach((text, w) => {
+    for (const id of asr.tokenizer.encode(` ${text}`, null, { add_special_tokens: false }) as number[]) {
+      if (ids.length >= room) return;
+      ids.push(id);
+      owners.push([s, w]);
+    }
+  }));
+  if (ids.length === 0) return transcript;
+
+  const input = [...prefixIds, ...ids];
+  const { input_features } = await asr.processor(samples.subarray(0, 30 * SAMPLE_RATE));
+  const decoder_input_ids = new Tensor('int64', BigInt64Array.from(input.map((id) => BigInt(id))), [1, input.length]);
+  const { logits } = await asr.model.forward({ input_features, decoder_input_ids });
+  const data = logits.data as Float32Array;
+  const vocab = logits.dims[2] as number;
+  // the logits at position p predict the token at p + 1
+  const probabilities = words.map((segmentWords) => segmentWords.map((): number[] => []));
+  ids.forEach((id, i) => {
+    const row = (prefixIds.length + i - 1) * vocab;
+    const [s, w] = owners[i]!;
+    probabilities[s]![w]!.push(Math.exp(data[row + id]! - logSumExp(data, row, vocab)));
+  });
+
+  const segments = transcript.segments.map((seg, s) => {
+    const scores = probabilities[s]!.map((p) => meanConfidence(p));
+    if (seg.words) {
+      return withSegmentConfidence({
+        ...seg,
+        words: seg.words.map((word, w) => (scores[w] !== undefined ? { ...word, confidence: scores[w]! } : word)),
+      });
+    }
+    const wordScores = words[s]!.flatMap((text, w) => (scores[w] !== undefined ? [{ text, confidence: scores[w]! }] : []));
+    // a partly scored segment keeps no word list: its texts would no longer add up to the segment text
+    return wordScores.length === words[s]!.length && wordScores.length ? withSegmentConfidence({ ...seg, wordScores }) : seg;
+  });
+  return { ...transcript, segments };
+}
+
+const xenovaEngine: TranscriptionEngine = {
+  name: 'xenova',
+  defaultModel: 'Xenova/whisper-small.en',
+  multilingualModel: 'Xenova/whisper-small',
+  async transcribe(samples: Float32Array, options: EngineOptions): Promise<Transcript> {
+    const asrOptions: Record<string, unknown> = {};
+    if (options.timestamps) asrOptions.return_timestamps = options.timestamps === 'word' ? 'word' : true;
+    return withPipeline(options.model, async (asr) => {
+      // English-only models get no language/task tokens; the service already checked the request
+      let language = options.language ?? 'en';
+      if (options.language) {
+        if (language === AUTO_LANGUAGE) language = (await detectLanguage(asr, samples)).language;
+        asrOptions.language = language;
+        asrOptions.task = options.task;
+      }
+      // a running pipeline call cannot be interrupted; stop before starting one
+      options.signal?.throwIfAborted();
+      const result = await asr(samples, asrOptions);
+      let transcript: Transcript = { ...toTranscript(result, options.timestamps, samples.length / SAMPLE_RATE), model: options.model, language, task: options.task };
+      if (options.confidence) {
+        options.signal?.throwIfAborted();
+        const prefix = ['<|startoftranscript|>', ...(options.language ? [`<|${language}|>`, `<|${options.task}|>`] : []), '<|notimestamps|>'];
+        transcript = await scoreTranscript(asr, samples, transcript, prefix);
+      }
+      return transcript;
+    });
+  },
+  preload: preloadModel,
+};
+
+export default xenovaEngine;
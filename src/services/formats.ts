@@ -0,0 +1,87 @@
+import path from 'path';
+import { speakerLabel } from './diarization.js';
+import type { Transcript, TranscriptSegment } from './types.js';
+
+/**
+ * Transcript output formats
+ * - txt: plain text, json: the full Transcript, srt / vtt: subtitle files built from segments
+ * - Diarized transcripts carry speaker names: one "Name: text" paragraph per speaker turn in txt, a "Name: "
+ *   prefix in srt and a voice tag (<v Name>) in vtt; json keeps the ids and the speaker list
+ */
+
+export const OUTPUT_FORMATS = ['txt', 'srt', 'vtt', 'json'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return typeof value === 'string' && (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/** Guess the output format from a file extension, defaulting to plain text */
+export function formatFromPath(filePath: string): OutputFormat {
+  const ext = path.extname(filePath).slice(1).toLowerCase();
+  return isOutputFormat(ext) ? ext : 'txt';
+}
+
+/** Format seconds as HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT) */
+export function formatTimestamp(seconds: number, separator: ',' | '.' = ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const ms = totalMs % 1000;
+  const totalSec = Math.floor(totalMs / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(totalSec / 3600))}:${pad(Math.floor(totalSec / 60) % 60)}:${pad(totalSec % 60)}${separator}${pad(ms, 3)}`;
+}
+
+export function toSrt(transcript: Transcript): string {
+  const cueText = (s: TranscriptSegment) => {
+    const speaker = speakerLabel(transcript, s.speaker);
+    return speaker ? `${speaker}: ${s.text.trim()}` : s.text.trim();
+  };
+  return transcript.segments
+    .filter((s) => s.text.trim())
+    .map((s, i) => `${i + 1}\n${formatTimestamp(s.start)} --> ${formatTimestamp(s.end)}\n${cueText(s)}\n`)
+    .join('\n');
+}
+
+/** WebVTT cue text is markup: a literal < or & would start a tag or a character reference, and cue text may not contain --> */
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function toVtt(transcript: Transcript): string {
+  const cueText = (s: TranscriptSegment) => {
+    const speaker = speakerLabel(transcript, s.speaker);
+    const text = escapeVtt(s.text.trim());
+    return speaker ? `<v ${escapeVtt(speaker)}>${text}` : text;
+  };
+  const cues = transcript.segments
+    .filter((s) => s.text.trim())
+    .map((s) => `${formatTimestamp(s.start, '.')} --> ${formatTimestamp(s.end, '.')}\n${cueText(s)}\n`);
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+export function toText(transcript: Transcript): string {
+  if (!transcript.speakers?.length) return transcript.text.trim() + '\n';
+  // consecutive segments of the same speaker form one paragraph
+  const turns: { speaker: string | undefined; text: string[] }[] = [];
+  for (const seg of transcript.segments) {
+    if (!seg.text.trim()) continue;
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === seg.speaker) last.text.push(seg.text.trim());
+    else turns.push({ speaker: seg.speaker, text: [seg.text.trim()] });
+  }
+  return turns.map((t) => {
+    const speaker = speakerLabel(transcript, t.speaker);
+    return speaker ? `${speaker}: ${t.text.join(' ')}` : t.text.join(' ');
+  }).join('\n\n') + '\n';
+}
+
+export function formatTranscript(transcript: Transcript, format: OutputFormat): string {
+  switch (format) {
+    case 'srt': return toSrt(transcript);
+    case 'vtt': return toVtt(transcript);
+    case 'json': return JSON.stringify(transcript, null, 2) + '\n';
+    default: return toText(transcript);
+  }
+}
+
+export default { formatTranscript, formatFromPath, formatTimestamp, toSrt, toVtt, toText };
@@ -0,0 +1,193 @@
+import path from 'path';
+import { localTranscriber, type Transcriber, type TranscribeOptions, type TranscribeProgress } from './transcribe.js';
+import type { Transcript } from './types.js';
+
+/**
+ * Transcription job queue (Electron main process)
+ * - enqueueJob adds a file; up to `concurrency` jobs run at once, the rest wait in order
+ * - Every job owns an AbortController: cancelJob drops a queued job or aborts a running one
+ *   (ffmpeg / engine processes are killed, inference stops before its next window)
+ * - onJobUpdate listeners receive a snapshot whenever a job changes state or reports progress
+ * - Jobs run through the configured `transcriber`: this thread by default, worker threads in the app (workers.ts)
+ */
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type JobSnapshot = {
+  id: string;
+  filePath: string;
+  name: string;
+  status: JobStatus;
+  /** engine requested for the job; unset means the configured default */
+  engine?: string;
+  /** set when only part of the file is transcribed */
+  range?: { start?: number; end?: number };
+  progress?: TranscribeProgress;
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+};
+
+export type JobsConfig = {
+  concurrency: number;
+  /** runs the jobs; defaults to this thread (the Electron main process hands them to workers.ts) */
+  transcriber: Transcriber;
+};
+
+type Job = JobSnapshot & {
+  options: TranscribeOptions;
+  controller: AbortController;
+  transcript?: Transcript;
+  done: Promise<Transcript>;
+  settle: { resolve: (t: Transcript) => void; reject: (err: unknown) => void };
+};
+
+const config: JobsConfig = { concurrency: 1, transcriber: localTranscriber };
+const jobs = new Map<string, Job>();
+const listeners = new Set<(job: JobSnapshot) => void>();
+let nextId = 1;
+let running = 0;
+
+export function configureJobs(options: Partial<JobsConfig>) {
+  Object.assign(config, options);
+  pump();
+}
+
+function snapshot(job: Job): JobSnapshot {
+  const { options, controller, transcript, done, settle, ...rest } = job;
+  return { ...rest };
+}
+
+function emit(job: Job) {
+  const snap = snapshot(job);
+  for (const listener of listeners) {
+    try {
+      listener(snap);
+    } catch (err) {
+      console.warn('job listener failed', err);
+    }
+  }
+}
+
+/** Returns a function that removes the listener */
+export function onJobUpdate(listener: (job: JobSnapshot) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function enqueueJob(filePath: string, options: TranscribeOptions = {}): JobSnapshot {
+  let settle!: Job['settle'];
+  const done = new Promise<Transcript>((resolve, reject) => { settle = { resolve, reject }; });
+  // callers that only follow updates never await `done`; keep its rejection from going unhandled
+  done.catch(() => {});
+  const range = {
+    ...(options.start !== undefined ? { start: options.start } : {}),
+    ...(options.end !== undefined ? { end: options.end } : {}),
+  };
+  const job: Job = {
+    id: `job-${nextId++}`,
+    filePath,
+    name: path.basename(filePath),
+    status: 'queued',
+    createdAt: Date.now(),
+    ...(options.engine ? { engine: options.engine } : {}),
+    ...(Object.keys(range).length ? { range } : {}),
+    options,
+    controller: new AbortController(),
+    done,
+    settle,
+  };
+  jobs.set(job.id, job);
+  emit(job);
+  pump();
+  return snapshot(job);
+}
+
+function pump() {
+  for (const job of jobs.values()) {
+    if (running >= config.concurrency) return;
+    if (job.status === 'queued') void run(job);
+  }
+}
+
+async function run(job: Job) {
+  running++;
+  job.status = 'running';
+  job.startedAt = Date.now();
+  emit(job);
+  try {
+    const transcript = await config.transcriber.transcribeFile(job.filePath, {
+      ...job.options,
+      signal: job.controller.signal,
+      onProgress: (progress) => {
+        job.progress = progress;
+        job.options.onProgress?.(progress);
+        emit(job);
+      },
+    });
+    job.status = 'done';
+    job.transcript = transcript;
+    job.settle.resolve(transcript);
+  } catch (err: any) {
+    job.status = job.controller.signal.aborted ? 'cancelled' : 'failed';
+    if (job.status === 'failed') job.error = String(err?.message ?? err);
+    job.settle.reject(err);
+  } finally {
+    job.finishedAt = Date.now();
+    running--;
+    emit(job);
+    pump();
+  }
+}
+
+/** Returns false when the job is unknown or already finished */
+export function cancelJob(id: string): boolean {
+  const job = jobs.get(id);
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) return false;
+  job.controller.abort();
+  if (job.status === 'queued') {
+    job.status = 'cancelled';
+    job.finishedAt = Date.now();
+    job.settle.reject(job.controller.signal.reason);
+    emit(job);
+  }
+  return true;
+}
+
+export function listJobs(): JobSnapshot[] {
+  return [...jobs.values()].map(snapshot);
+}
+
+export function getJob(id: string): (JobSnapshot & { transcript?: Transcript }) | undefined {
+  const job = jobs.get(id);
+  if (!job) return undefined;
+  return job.transcript ? { ...snapshot(job), transcript: job.transcript } : snapshot(job);
+}
+
+/** Resolves with the transcript, rejects when the job fails or is cancelled */
+export function waitForJob(id: string): Promise<Transcript> {
+  const job = jobs.get(id);
+  if (!job) return Promise.reject(new Error(`unknown job: ${id}`));
+  return job.done;
+}
+
+/** Forget one finished job; returns false when it is unknown or still queued/running */
+export function removeJob(id: string): boolean {
+  const job = jobs.get(id);
+  if (!job || job.status === 'queued' || job.status === 'running') return false;
+  return jobs.delete(id);
+}
+
+/** Forget finished jobs (done, failed, cancelled); returns how many were removed */
+export function clearFinishedJobs(): number {
+  let removed = 0;
+  for (const [id, job] of jobs) {
+    if (job.status === 'queued' || job.status === 'running') continue;
+    jobs.delete(id);
+    removed++;
+  }
+  return removed;
+}
+
+export default { configureJobs, enqueueJob, cancelJob, listJobs, getJob, waitForJob, removeJob, clearFinishedJobs, onJobUpdate };
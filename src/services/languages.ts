@@ -0,0 +1,63 @@
+/**
+ * Whisper languages
+ * - Codes and display names for the 99 languages multilingual Whisper models know
+ * - normalizeLanguage accepts a code, an English name or a common alias (Castilian, Flemish...) and returns the code
+ */
+
+export const WHISPER_LANGUAGES: [code: string, name: string][] = [
+  ['en', 'English'], ['zh', 'Chinese'], ['de', 'German'], ['es', 'Spanish'],
+  ['ru', 'Russian'], ['ko', 'Korean'], ['fr', 'French'], ['ja', 'Japanese'],
+  ['pt', 'Portuguese'], ['tr', 'Turkish'], ['pl', 'Polish'], ['ca', 'Catalan'],
+  ['nl', 'Dutch'], ['ar', 'Arabic'], ['sv', 'Swedish'], ['it', 'Italian'],
+  ['id', 'Indonesian'], ['hi', 'Hindi'], ['fi', 'Finnish'], ['vi', 'Vietnamese'],
+  ['he', 'Hebrew'], ['uk', 'Ukrainian'], ['el', 'Greek'], ['ms', 'Malay'],
+  ['cs', 'Czech'], ['ro', 'Romanian'], ['da', 'Danish'], ['hu', 'Hungarian'],
+  ['ta', 'Tamil'], ['no', 'Norwegian'], ['th', 'Thai'], ['ur', 'Urdu'],
+  ['hr', 'Croatian'], ['bg', 'Bulgarian'], ['lt', 'Lithuanian'], ['la', 'Latin'],
+  ['mi', 'Maori'], ['ml', 'Malayalam'], ['cy', 'Welsh'], ['sk', 'Slovak'],
+  ['te', 'Telugu'], ['fa', 'Persian'], ['lv', 'Latvian'], ['bn', 'Bengali'],
+  ['sr', 'Serbian'], ['az', 'Azerbaijani'], ['sl', 'Slovenian'], ['kn', 'Kannada'],
+  ['et', 'Estonian'], ['mk', 'Macedonian'], ['br', 'Breton'], ['eu', 'Basque'],
+  ['is', 'Icelandic'], ['hy', 'Armenian'], ['ne', 'Nepali'], ['mn', 'Mongolian'],
+  ['bs', 'Bosnian'], ['kk', 'Kazakh'], ['sq', 'Albanian'], ['sw', 'Swahili'],
+  ['gl', 'Galician'], ['mr', 'Marathi'], ['pa', 'Punjabi'], ['si', 'Sinhala'],
+  ['km', 'Khmer'], ['sn', 'Shona'], ['yo', 'Yoruba'], ['so', 'Somali'],
+  ['af', 'Afrikaans'], ['oc', 'Occitan'], ['ka', 'Georgian'], ['be', 'Belarusian'],
+  ['tg', 'Tajik'], ['sd', 'Sindhi'], ['gu', 'Gujarati'], ['am', 'Amharic'],
+  ['yi', 'Yiddish'], ['lo', 'Lao'], ['uz', 'Uzbek'], ['fo', 'Faroese'],
+  ['ht', 'Haitian Creole'], ['ps', 'Pashto'], ['tk', 'Turkmen'], ['nn', 'Nynorsk'],
+  ['mt', 'Maltese'], ['sa', 'Sanskrit'], ['lb', 'Luxembourgish'], ['my', 'Myanmar'],
+  ['bo', 'Tibetan'], ['tl', 'Tagalog'], ['mg', 'Malagasy'], ['as', 'Assamese'],
+  ['tt', 'Tatar'], ['haw', 'Hawaiian'], ['ln', 'Lingala'], ['ha', 'Hausa'],
+  ['ba', 'Bashkir'], ['jw', 'Javanese'], ['su', 'Sundanese'],
+];
+
+/** Other English names Whisper accepts, by code; normalizeLanguage only, the pickers list WHISPER_LANGUAGES */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  burmese: 'my', valencian: 'ca', flemish: 'nl', haitian: 'ht', letzeburgesch: 'lb', pushto: 'ps',
+  panjabi: 'pa', moldavian: 'ro', moldovan: 'ro', sinhalese: 'si', castilian: 'es', mandarin: 'zh',
+};
+
+/** Pseudo-language asking the engine to detect the spoken language */
+export const AUTO_LANGUAGE = 'auto';
+
+export type TranscribeTask = 'transcribe' | 'translate';
+
+export function normalizeLanguage(language: string | undefined): string | undefined {
+  if (!language) return undefined;
+  const value = language.trim().toLowerCase().replace(/\s+/g, '');
+  if (value === AUTO_LANGUAGE) return AUTO_LANGUAGE;
+  const match = WHISPER_LANGUAGES.find(([code, name]) => code === value || name.toLowerCase().replace(/\s+/g, '') === value);
+  const code = match?.[0] ?? LANGUAGE_ALIASES[value];
+  if (!code) throw new Error(`unsupported language: ${language}`);
+  return code;
+}
+
+export function languageName(code: string): string {
+  return WHISPER_LANGUAGES.find(([c]) => c === code)?.[1] ?? code;
+}
+
+/** English-only checkpoints (whisper-*.en, ggml-*.en) cannot detect, transcribe other languages or translate */
+export function isEnglishOnlyModel(model: string): boolean {
+  return /\.en(\.bin)?$/i.test(model);
+}
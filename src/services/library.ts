@@ -0,0 +1,231 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { userDataDirectory } from './settings.js';
+import type { Transcript } from './types.js';
+
+/**
+ * Transcript library
+ * - Every finished transcription is kept under <directory>: index.json lists the entries,
+ *   <id>.json holds each full transcript (segments included)
+ * - The directory defaults to the Electron user-data folder, so the app and the CLI read the same store
+ *   (VTP_LIBRARY_DIR overrides it)
+ * - searchLibrary matches all query words case-insensitively against titles and segment text
+ */
+
+export type LibraryEntry = {
+  id: string;
+  title: string;
+  sourcePath: string;
+  createdAt: number;
+  updatedAt: number;
+  duration?: number;
+  model?: string;
+  language?: string;
+  engine?: string;
+  segments: number;
+  /** first words of the transcript, for lists */
+  preview: string;
+};
+
+export type LibraryConfig = {
+  directory: string;
+};
+
+export type SearchMatch = {
+  segment: number;
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type SearchHit = {
+  entry: LibraryEntry;
+  matches: SearchMatch[];
+};
+
+export function defaultLibraryDirectory(appName?: string): string {
+  return path.join(userDataDirectory(appName), 'library');
+}
+
+const config: LibraryConfig = {
+  directory: process.env.VTP_LIBRARY_DIR || defaultLibraryDirectory(),
+};
+
+let index: LibraryEntry[] | null = null;
+// serializes index writes so concurrent jobs never lose each other's entries
+let writing: Promise<void> = Promise.resolve();
+
+export function configureLibrary(options: Partial<LibraryConfig>) {
+  Object.assign(config, options);
+  index = null;
+}
+
+export function getLibraryConfig(): Readonly<LibraryConfig> {
+  return config;
+}
+
+const indexPath = () => path.join(config.directory, 'index.json');
+const entryPath = (id: string) => path.join(config.directory, `${id}.json`);
+
+function checkId(id: string) {
+  if (!/^[\w-]+$/.test(id)) throw new Error(`invalid library id: ${id}`);
+}
+
+async function loadIndex(): Promise<LibraryEntry[]> {
+  if (index) return index;
+  try {
+    index = JSON.parse(await fs.readFile(indexPath(), 'utf8')) as LibraryEntry[];
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') throw new Error(`cannot read library index ${indexPath()}: ${err?.message ?? err}`);
+    index = [];
+  }
+  return index;
+}
+
+// write to a temp file and rename, so a crash never leaves a half-written file behind
+async function writeJson(filePath: string, value: unknown) {
+  await fs.mkdir(config.directory, { recursive: true });
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), 'utf8');
+  await fs.rename(tmp, filePath);
+}
+
+function update<T>(fn: (entries: LibraryEntry[]) => Promise<T>): Promise<T> {
+  const result = writing.then(async () => {
+    const entries = await loadIndex();
+    const value = await fn(entries);
+    await writeJson(indexPath(), entries);
+    return value;
+  });
+  writing = result.then(() => {}, () => {});
+  return result;
+}
+
+function describe(transcript: Transcript) {
+  const text = transcript.text.replace(/\s+/g, ' ').trim();
+  return {
+    segments: transcript.segments.length,
+    preview: text.length > 160 ? `${text.slice(0, 157)}...` : text,
+    ...(transcript.duration !== undefined ? { duration: transcript.duration } : {}),
+    ...(transcript.model ? { model: transcript.model } : {}),
+    ...(transcript.language ? { language: transcript.language } : {}),
+  };
+}
+
+export async function addTranscript(
+  transcript: Transcript,
+  source: { sourcePath: string; title?: string; engine?: string },
+): Promise<LibraryEntry> {
+  const now = Date.now();
+  const entry: LibraryEntry = {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    title: source.title || path.basename(source.sourcePath),
+    sourcePath: source.sourcePath,
+    createdAt: now,
+    updatedAt: now,
+    ...(source.engine ? { engine: source.engine } : {}),
+    ...describe(transcript),
+  };
+  return update(async (entries) => {
+    await writeJson(entryPath(entry.id), transcript);
+    entries.push(entry);
+    return entry;
+  });
+}
+
+/** Newest first */
+export async function listEntries(): Promise<LibraryEntry[]> {
+  await writing;
+  return [...(await loadIndex())].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getEntry(id: string): Promise<{ entry: LibraryEntry; transcript: Transcript }> {
+  checkId(id);
+  await writing;
+  const entry = (await loadIndex()).find((e) => e.id === id);
+  if (!entry) throw new Error(`no library entry ${id}`);
+  const transcript = JSON.parse(await fs.readFile(entryPath(id), 'utf8')) as Transcript;
+  return { entry, transcript };
+}
+
+/** Accepts a full id or a unique prefix of one (handy in the CLI) */
+export async function resolveEntryId(idOrPrefix: string): Promise<string> {
+  const matches = (await listEntries()).filter((e) => e.id.startsWith(idOrPrefix));
+  if (matches.length === 1) return matches[0]!.id;
+  throw new Error(matches.length ? `ambiguous library id: ${idOrPrefix}` : `no library entry ${idOrPrefix}`);
+}
+
+function modify(id: string, fn: (entry: LibraryEntry) => Promise<void> | void): Promise<LibraryEntry> {
+  checkId(id);
+  return update(async (entries) => {
+    const entry = entries.find((e) => e.id === id);
+    if (!entry) throw new Error(`no library entry ${id}`);
+    await fn(entry);
+    entry.updatedAt = Date.now();
+    return entry;
+  });
+}
+
+export function renameEntry(id: string, title: string): Promise<LibraryEntry> {
+  const trimmed = title.trim();
+  if (!trimmed) return Promise.reject(new Error('title must not be empty'));
+  return modify(id, (entry) => { entry.title = trimmed; });
+}
+
+/** Replace the stored transcript, e.g. after edits in the transcript editor */
+export function updateTranscript(id: string, transcript: Transcript): Promise<LibraryEntry> {
+  return modify(id, async (entry) => {
+    await writeJson(entryPath(id), transcript);
+    Object.assign(entry, describe(transcript));
+  });
+}
+
+export async function deleteEntry(id: string): Promise<void> {
+  checkId(id);
+  await update(async (entries) => {
+    const at = entries.findIndex((e) => e.id === id);
+    if (at < 0) throw new Error(`no library entry ${id}`);
+    entries.splice(at, 1);
+    await fs.unlink(entryPath(id)).catch(() => { /* ignore */ });
+  });
+}
+
+const normalize = (s: string) => s.toLocaleLowerCase().normalize('NFKD').replace(/\p{M}/gu, '');
+
+export async function searchLibrary(query: string, options: { limit?: number; maxMatches?: number } = {}): Promise<SearchHit[]> {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+  const hits: SearchHit[] = [];
+  for (const entry of await listEntries()) {
+    let transcript: Transcript;
+    try {
+      transcript = (await getEntry(entry.id)).transcript;
+    } catch {
+      continue; // index entry without its transcript file
+    }
+    const haystack = normalize(`${entry.title} ${transcript.text}`);
+    if (!terms.every((t) => haystack.includes(t))) continue;
+    const matches: SearchMatch[] = [];
+    for (const [i, seg] of transcript.segments.entries()) {
+      const text = normalize(seg.text);
+      if (!terms.some((t) => text.includes(t))) continue;
+      matches.push({ segment: i, start: seg.start, end: seg.end, text: seg.text.trim() });
+      if (matches.length >= (options.maxMatches ?? 5)) break;
+    }
+    hits.push({ entry, matches });
+    if (options.limit && hits.length >= options.limit) break;
+  }
+  return hits;
+}
+
+export default {
+  configureLibrary,
+  addTranscript,
+  listEntries,
+  getEntry,
+  resolveEntryId,
+  renameEntry,
+  updateTranscript,
+  deleteEntry,
+  searchLibrary,
+};
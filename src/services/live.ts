@@ -0,0 +1,196 @@
+import { SAMPLE_RATE } from './audio.js';
+import { localTranscriber, type Transcriber, type TranscribeOptions } from './transcribe.js';
+import { AUTO_LANGUAGE } from './languages.js';
+import type { Transcript, TranscriptSegment } from './types.js';
+
+/**
+ * Live transcription of a recording in progress
+ * - Receives 16 kHz mono PCM while the user records and re-transcribes the not-yet-final tail
+ * - Segments that end well before the newest audio are committed as final and their audio dropped;
+ *   the rest is reported as provisional text and may still change
+ * - finishLive() transcribes whatever is left and returns the complete transcript; it rejects when that last
+ *   pass fails, as the transcript would lack the end of the recording
+ */
+
+export type LiveUpdate = {
+  sessionId: string;
+  finalText: string;
+  partialText: string;
+  /** committed segments, in recording time */
+  segments: TranscriptSegment[];
+  /** provisional segments, in recording time */
+  partial: TranscriptSegment[];
+};
+
+export type LiveOptions = TranscribeOptions & {
+  /** new audio needed before the tail is transcribed again, in seconds */
+  stepSeconds?: number;
+  /** a segment is final once it ends this long before the newest audio */
+  stableMarginSeconds?: number;
+  /** longest tail kept provisional before everything but the last segment is committed */
+  maxWindowSeconds?: number;
+  onUpdate?: (update: LiveUpdate) => void;
+  /** runs the passes; defaults to this thread (the Electron main process hands them to workers.ts) */
+  transcriber?: Transcriber;
+};
+
+type LiveSession = {
+  id: string;
+  options: LiveOptions;
+  /** audio after the last committed segment */
+  pending: Float32Array;
+  pendingLength: number;
+  /** recording time of pending[0], in seconds */
+  committedTime: number;
+  /** pendingLength when the tail was last transcribed */
+  transcribedLength: number;
+  segments: TranscriptSegment[];
+  partial: TranscriptSegment[];
+  language?: string;
+  busy: Promise<void> | null;
+  closed: boolean;
+};
+
+const sessions = new Map<string, LiveSession>();
+
+export function startLive(sessionId: string, options: LiveOptions = {}) {
+  sessions.set(sessionId, {
+    id: sessionId,
+    options,
+    pending: new Float32Array(SAMPLE_RATE * 10),
+    pendingLength: 0,
+    committedTime: 0,
+    transcribedLength: 0,
+    segments: [],
+    partial: [],
+    busy: null,
+    closed: false,
+  });
+}
+
+export function hasLive(sessionId: string): boolean {
+  return sessions.has(sessionId);
+}
+
+export function pushPcm(sessionId: string, samples: Float32Array) {
+  const s = sessions.get(sessionId);
+  if (!s || s.closed) return;
+  if (s.pendingLength + samples.length > s.pending.length) {
+    const grown = new Float32Array(Math.max(s.pending.length * 2, s.pendingLength + samples.length));
+    grown.set(s.pending.subarray(0, s.pendingLength));
+    s.pending = grown;
+  }
+  s.pending.set(samples, s.pendingLength);
+  s.pendingLength += samples.length;
+  const step = (s.options.stepSeconds ?? 2) * SAMPLE_RATE;
+  if (!s.busy && s.pendingLength - s.transcribedLength >= step) {
+    s.busy = transcribeTail(s, false).finally(() => { s.busy = null; });
+  }
+}
+
+function dropPending(s: LiveSession, seconds: number) {
+  const cut = Math.min(s.pendingLength, Math.round(seconds * SAMPLE_RATE));
+  s.pending.copyWithin(0, cut, s.pendingLength);
+  s.pendingLength -= cut;
+  s.transcribedLength = Math.max(0, s.transcribedLength - cut);
+  s.committedTime += cut / SAMPLE_RATE;
+}
+
+function emit(s: LiveSession) {
+  s.options.onUpdate?.({
+    sessionId: s.id,
+    finalText: s.segments.map((seg) => seg.text).join(' ').trim(),
+    partialText: s.partial.map((seg) => seg.text).join(' ').trim(),
+    segments: s.segments,
+    partial: s.partial,
+  });
+}
+
+async function transcribeTail(s: LiveSession, final: boolean) {
+  const length = s.pendingLength;
+  if (length === 0) return;
+  const audio = s.pending.slice(0, length);
+  const { onUpdate, stepSeconds, stableMarginSeconds, maxWindowSeconds, transcriber = localTranscriber, ...transcribeOptions } = s.options;
+  let transcript: Transcript;
+  try {
+    transcript = await transcriber.transcribeSamples(audio, {
+      log: () => {},
+      ...transcribeOptions,
+      ...(s.language && transcribeOptions.language === AUTO_LANGUAGE ? { language: s.language } : {}),
+      timestamps: 'segment',
+      chunkSeconds: 0,
+      // speakers are identified once on the whole recording, not on every pass
+      diarize: false,
+      // scoring costs one more model pass, too slow to keep up with live audio
+      confidence: false,
+    });
+  } catch (err) {
+    // nothing retries the last pass: without it the transcript would silently miss the end of the recording
+    if (final) throw err;
+    // a failed pass only delays the update; the next chunk retries
+    console.warn('live transcription failed', err);
+    return;
+  }
+  if (s.closed && !final) return;
+  s.transcribedLength = length;
+  // reuse the first reported language so later passes skip detection and stay consistent
+  if (!s.language && transcript.language) s.language = transcript.language;
+
+  const duration = length / SAMPLE_RATE;
+  const segs = transcript.segments.filter((seg) => seg.text.trim());
+  let stable = 0;
+  if (final) {
+    stable = segs.length;
+  } else {
+    const margin = stableMarginSeconds ?? 1.5;
+    // never commit the last segment mid-recording: it may still be cut off
+    while (stable < segs.length - 1 && segs[stable]!.end <= duration - margin) stable++;
+    if (stable === 0 && duration > (maxWindowSeconds ?? 20) && segs.length > 1) stable = segs.length - 1;
+  }
+
+  const base = s.committedTime;
+  const toRecordingTime = (seg: TranscriptSegment, id: number): TranscriptSegment =>
+    ({ id, start: seg.start + base, end: seg.end + base, text: seg.text.trim() });
+  s.segments.push(...segs.slice(0, stable).map((seg, i) => toRecordingTime(seg, s.segments.length + i)));
+  s.partial = segs.slice(stable).map((seg, i) => toRecordingTime(seg, s.segments.length + i));
+  if (stable > 0) {
+    dropPending(s, segs[stable - 1]!.end);
+  } else if (segs.length === 0 && duration > (maxWindowSeconds ?? 20)) {
+    // long stretch without speech: keep only the last few seconds
+    dropPending(s, duration - 5);
+  }
+  emit(s);
+}
+
+/** Stop live updates, transcribe the remaining audio and return the whole transcript; rejects if that last pass fails */
+export async function finishLive(sessionId: string): Promise<Transcript | null> {
+  const s = sessions.get(sessionId);
+  if (!s) return null;
+  s.closed = true;
+  if (s.busy) await s.busy;
+  try {
+    await transcribeTail(s, true);
+  } finally {
+    sessions.delete(sessionId);
+  }
+  s.partial = [];
+  emit(s);
+  const duration = s.committedTime + s.pendingLength / SAMPLE_RATE;
+  const transcript: Transcript = {
+    text: s.segments.map((seg) => seg.text).join(' ').trim(),
+    segments: s.segments,
+    duration,
+  };
+  if (s.options.model) transcript.model = s.options.model;
+  if (s.language) transcript.language = s.language;
+  if (s.options.task) transcript.task = s.options.task;
+  return transcript;
+}
+
+export function stopLive(sessionId: string) {
+  const s = sessions.get(sessionId);
+  if (s) s.closed = true;
+  sessions.delete(sessionId);
+}
+
+export default { startLive, pushPcm, finishLive, stopLive, hasLive };
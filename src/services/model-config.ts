@@ -0,0 +1,40 @@
+/**
+ * Model manager configuration
+ * - Where models are found and how many stay loaded; models.ts applies it to transformers.js when it loads or
+ *   lists models
+ * - Kept apart from the model manager so the CLI and the worker pool can set and pass it on without pulling in
+ *   transformers.js and the ONNX runtime (only the xenova engine needs them)
+ */
+
+export type ModelManagerConfig = {
+  /** directory holding <org>/<model>/ folders; setting it turns remote downloads off unless allowRemote is true */
+  localModelPath?: string;
+  /** download cache for remote models */
+  cacheDir?: string;
+  allowRemote?: boolean;
+  maxLoaded: number;
+  idleTimeoutMs: number;
+};
+
+const config: ModelManagerConfig = {
+  maxLoaded: 2,
+  idleTimeoutMs: 10 * 60 * 1000,
+};
+
+export function configureModels(options: Partial<ModelManagerConfig>) {
+  Object.assign(config, options);
+}
+
+// Environment defaults, so the CLI and Electron share the same offline setup
+if (process.env.VTP_MODEL_DIR) {
+  configureModels({
+    localModelPath: process.env.VTP_MODEL_DIR,
+    ...(process.env.VTP_ALLOW_REMOTE_MODELS ? { allowRemote: process.env.VTP_ALLOW_REMOTE_MODELS === '1' } : {}),
+  });
+}
+
+export function getModelConfig(): Readonly<ModelManagerConfig> {
+  return config;
+}
+
+export default { configureModels, getModelConfig };
@@ -0,0 +1,159 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { pipeline, env, type AutomaticSpeechRecognitionPipeline } from '@xenova/transformers';
+import { configureModels, getModelConfig } from './model-config.js';
+
+/**
+ * Model manager
+ * - Keeps one loaded ASR pipeline per model id so repeated transcriptions skip the load cost
+ * - preloadModel() warms a model in the background (e.g. at app start)
+ * - Idle models are disposed after `idleTimeoutMs`; at most `maxLoaded` stay in memory (LRU)
+ * - With a local model directory, remote downloads are disabled so offline machines work reliably; the settings
+ *   live in model-config.ts, re-exported here
+ */
+
+export { configureModels, getModelConfig, type ModelManagerConfig } from './model-config.js';
+
+export type LocalModel = {
+  id: string;
+  path: string;
+  source: 'local' | 'cache';
+  loaded: boolean;
+};
+
+type AsrPipeline = AutomaticSpeechRecognitionPipeline;
+
+type Entry = {
+  promise: Promise<AsrPipeline>;
+  lastUsed: number;
+  inUse: number;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+const loaded = new Map<string, Entry>();
+
+const config = getModelConfig();
+
+/** Point transformers.js at the configured directories; runs before every load or listing, as the config may change */
+function applyConfig() {
+  if (config.localModelPath) {
+    env.localModelPath = path.resolve(config.localModelPath);
+    env.allowLocalModels = true;
+  }
+  if (config.cacheDir) env.cacheDir = path.resolve(config.cacheDir);
+  env.allowRemoteModels = config.allowRemote ?? !config.localModelPath;
+}
+
+async function dispose(modelId: string) {
+  const entry = loaded.get(modelId);
+  if (!entry) return;
+  loaded.delete(modelId);
+  if (entry.timer) clearTimeout(entry.timer);
+  try {
+    const pipe = await entry.promise;
+    await (pipe as any).dispose?.();
+  } catch {
+    // a failed load has nothing to release
+  }
+}
+
+function scheduleIdleEviction(modelId: string, entry: Entry) {
+  if (entry.timer) clearTimeout(entry.timer);
+  if (!Number.isFinite(config.idleTimeoutMs) || config.idleTimeoutMs <= 0) return;
+  entry.timer = setTimeout(() => {
+    if (entry.inUse === 0 && loaded.get(modelId) === entry) void dispose(modelId);
+  }, config.idleTimeoutMs);
+  // an idle model must not keep a CLI process alive
+  entry.timer.unref?.();
+}
+
+async function enforceLimit(keep: string) {
+  const idle = [...loaded.entries()]
+    .filter(([id, e]) => id !== keep && e.inUse === 0)
+    .sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+  while (loaded.size > config.maxLoaded && idle.length) {
+    const [id] = idle.shift()!;
+    await dispose(id);
+  }
+}
+
+function acquire(modelId: string): Entry {
+  let entry = loaded.get(modelId);
+  if (!entry) {
+    applyConfig();
+    const promise = pipeline('automatic-speech-recognition', modelId);
+    entry = { promise, lastUsed: Date.now(), inUse: 0 };
+    loaded.set(modelId, entry);
+    // drop failed loads so the next call retries
+    promise.catch(() => { if (loaded.get(modelId) === entry) loaded.delete(modelId); });
+    void enforceLimit(modelId);
+  }
+  entry.lastUsed = Date.now();
+  return entry;
+}
+
+/** Load a model without using it; resolves once it is ready */
+export async function preloadModel(modelId: string): Promise<void> {
+  const entry = acquire(modelId);
+  await entry.promise;
+  scheduleIdleEviction(modelId, entry);
+}
+
+/** Run `fn` with the cached pipeline for `modelId`, loading it first if needed */
+export async function withPipeline<T>(modelId: string, fn: (asr: AsrPipeline) => Promise<T>): Promise<T> {
+  const entry = acquire(modelId);
+  entry.inUse++;
+  if (entry.timer) clearTimeout(entry.timer);
+  try {
+    return await fn(await entry.promise);
+  } finally {
+    entry.inUse--;
+    entry.lastUsed = Date.now();
+    if (entry.inUse === 0) scheduleIdleEviction(modelId, entry);
+  }
+}
+
+export function loadedModels(): string[] {
+  return [...loaded.keys()];
+}
+
+export async function unloadModel(modelId?: string) {
+  const ids = modelId ? [modelId] : [...loaded.keys()];
+  for (const id of ids) await dispose(id);
+}
+
+async function findModelDirs(root: string, source: LocalModel['source']): Promise<LocalModel[]> {
+  const found: LocalModel[] = [];
+  const orgs = await fs.readdir(root, { withFileTypes: true }).catch(() => []);
+  for (const org of orgs) {
+    if (!org.isDirectory()) continue;
+    const models = await fs.readdir(path.join(root, org.name), { withFileTypes: true }).catch(() => []);
+    for (const m of models) {
+      const dir = path.join(root, org.name, m.name);
+      if (!m.isDirectory()) continue;
+      const hasConfig = await fs.stat(path.join(dir, 'config.json')).then(() => true, () => false);
+      if (hasConfig) found.push({ id: `${org.name}/${m.name}`, path: dir, source, loaded: loaded.has(`${org.name}/${m.name}`) });
+    }
+  }
+  return found;
+}
+
+/** Report models present on disk, in the local model directory first and then the download cache */
+export async function listLocalModels(): Promise<LocalModel[]> {
+  applyConfig();
+  const roots: [string, LocalModel['source']][] = [];
+  if (config.localModelPath) roots.push([path.resolve(config.localModelPath), 'local']);
+  if (env.cacheDir) roots.push([path.resolve(env.cacheDir), 'cache']);
+  const seen = new Set<string>();
+  const out: LocalModel[] = [];
+  for (const [root, source] of roots) {
+    for (const model of await findModelDirs(root, source)) {
+      if (seen.has(model.id)) continue;
+      seen.add(model.id);
+      out.push(model);
+    }
+  }
+  return out;
+}
+
+export default { configureModels, preloadModel, withPipeline, loadedModels, unloadModel, listLocalModels };
@@ -0,0 +1,537 @@
+import { withSegmentConfidence } from './confidence.js';
+import type { Transcript, TranscriptSegment, TranscriptWord, WordScore } from './types.js';
+
+/**
+ * Transcript post-processing
+ * - Text rules fix what the model gets wrong in a given domain. A rule set names a group of them; rule sets are kept
+ *   in the settings (edited in Preferences, picked with --rules in the CLI) or in a JSON file
+ * - `prompt` and `vocabulary` are handed to the model as its initial prompt, for engines that take one (see
+ *   enginePrompt); everything else rewrites the text of the result, in this order: filler words removed,
+ *   find/replace rules, vocabulary spelling, spoken numbers as digits, masking, casing
+ * - Rules apply segment by segment. Word timings and scores follow the words they came from, and a changed word
+ *   loses its score like a word corrected in the editor; segments left empty are removed
+ * - No Node APIs, so the renderer can use the same validation
+ */
+
+export type Replacement = {
+  find: string;
+  replace: string;
+  /** `find` is a regular expression (JavaScript syntax) and `replace` may refer to its groups ($1); otherwise whole words are matched */
+  regex?: boolean;
+  /** match case exactly; rules ignore case by default */
+  matchCase?: boolean;
+};
+
+export const MASK_KINDS = ['profanity', 'email', 'phone'] as const;
+export type MaskKind = typeof MASK_KINDS[number];
+
+export const CASING_MODES = ['sentence', 'lower', 'upper'] as const;
+export type CasingMode = typeof CASING_MODES[number];
+
+export type TextRules = {
+  /** context the model continues from: topic, names, the punctuation style to follow */
+  prompt?: string;
+  /** product names and jargon: added to the prompt, and their spelling and capitals restored in the text */
+  vocabulary?: string[];
+  /** glossary of corrections, applied in order */
+  replacements?: Replacement[];
+  /** spoken English numbers as digits: "twenty five" → 25; single words below ten are left alone */
+  numbers?: boolean;
+  /** remove hesitations (um, uh, er, hmm, euh...) */
+  fillers?: boolean;
+  /** profanity keeps its first letter (f***), e-mail addresses and phone numbers become [email] and [phone] */
+  mask?: MaskKind[];
+  /** 'sentence' capitalizes sentence starts and "I"; 'lower' and 'upper' change every letter */
+  casing?: CasingMode;
+};
+
+export type RuleSet = TextRules & { name: string };
+
+export const RULE_LIMITS = {
+  name: 64,
+  prompt: 1000,
+  terms: 500,
+  term: 100,
+  replacements: 500,
+  pattern: 500,
+} as const;
+
+const WORD_START = '(?<![\\p{L}\\p{N}_])';
+const WORD_END = '(?![\\p{L}\\p{N}_])';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function checkString(name: string, value: unknown, max: number, required = false): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    if (required) throw new Error(`${name} is required`);
+    return undefined;
+  }
+  if (typeof value !== 'string') throw new Error(`${name} must be a string`);
+  if (value.length > max) throw new Error(`${name} must be at most ${max} characters`);
+  return value;
+}
+
+function checkReplacement(value: unknown, at: string): Replacement {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`${at} must be an object`);
+  const input = value as Record<string, unknown>;
+  const find = checkString(`${at}.find`, input.find, RULE_LIMITS.pattern, true)!;
+  const replace = checkString(`${at}.replace`, input.replace, RULE_LIMITS.pattern) ?? '';
+  for (const key of ['regex', 'matchCase'] as const) {
+    if (input[key] !== undefined && typeof input[key] !== 'boolean') throw new Error(`${at}.${key} must be true or false`);
+  }
+  const rule: Replacement = { find, replace };
+  if (input.regex) {
+    try {
+      new RegExp(find, 'gu');
+    } catch (err: any) {
+      throw new Error(`${at}.find is not a valid regular expression: ${err?.message ?? err}`);
+    }
+    rule.regex = true;
+  }
+  if (input.matchCase) rule.matchCase = true;
+  return rule;
+}
+
+/** Validated copy with empty rules left out; throws on the first invalid value */
+export function checkTextRules(value: unknown): TextRules {
+  if (value === null || value === undefined) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) throw new Error('rules must be an object');
+  const input = value as Record<string, unknown>;
+  const unknown = Object.keys(input).find((key) => !['name', 'prompt', 'vocabulary', 'replacements', 'numbers', 'fillers', 'mask', 'casing'].includes(key));
+  if (unknown) throw new Error(`unknown rule: ${unknown}`);
+  const rules: TextRules = {};
+  const prompt = checkString('prompt', input.prompt, RULE_LIMITS.prompt)?.trim();
+  if (prompt) rules.prompt = prompt;
+  if (input.vocabulary !== undefined) {
+    if (!Array.isArray(input.vocabulary) || input.vocabulary.length > RULE_LIMITS.terms) {
+      throw new Error(`vocabulary must list at most ${RULE_LIMITS.terms} terms`);
+    }
+    const terms = input.vocabulary.map((term, i) => checkString(`vocabulary[${i}]`, term, RULE_LIMITS.term)?.trim() ?? '').filter(Boolean);
+    if (terms.length) rules.vocabulary = [...new Set(terms)];
+  }
+  if (input.replacements !== undefined) {
+    if (!Array.isArray(input.replacements) || input.replacements.length > RULE_LIMITS.replacements) {
+      throw new Error(`replacements must list at most ${RULE_LIMITS.replacements} rules`);
+    }
+    if (input.replacements.length) rules.replacements = input.replacements.map((rule, i) => checkReplacement(rule, `replacements[${i}]`));
+  }
+  for (const key of ['numbers', 'fillers'] as const) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== 'boolean') throw new Error(`${key} must be true or false`);
+    if (input[key]) rules[key] = true;
+  }
+  if (input.mask !== undefined) {
+    if (!Array.isArray(input.mask) || !input.mask.every((kind) => (MASK_KINDS as readonly unknown[]).includes(kind))) {
+      throw new Error(`mask must list some of ${MASK_KINDS.join(', ')}`);
+    }
+    if (input.mask.length) rules.mask = [...new Set(input.mask as MaskKind[])];
+  }
+  if (input.casing !== undefined && input.casing !== null && input.casing !== '') {
+    if (!(CASING_MODES as readonly unknown[]).includes(input.casing)) throw new Error(`casing must be one of ${CASING_MODES.join(', ')}`);
+    rules.casing = input.casing as CasingMode;
+  }
+  return rules;
+}
+
+export function checkRuleSet(value: unknown): RuleSet {
+  const name = checkString('name', (value as Record<string, unknown> | null)?.name, RULE_LIMITS.name, true)!.trim();
+  if (!name) throw new Error('name is required');
+  return { name, ...checkTextRules(value) };
+}
+
+/** A list of rule sets with distinct names */
+export function checkRuleSets(value: unknown): RuleSet[] {
+  if (!Array.isArray(value)) throw new Error('ruleSets must be a list');
+  const sets = value.map((set, i) => {
+    try {
+      return checkRuleSet(set);
+    } catch (err: any) {
+      throw new Error(`ruleSets[${i}]: ${err?.message ?? err}`);
+    }
+  });
+  const names = sets.map((set) => set.name.toLowerCase());
+  const duplicate = sets.find((_, i) => names.indexOf(names[i]!) !== i);
+  if (duplicate) throw new Error(`two rule sets are named ${duplicate.name}`);
+  return sets;
+}
+
+export function isTextRulesEmpty(rules: TextRules | undefined): boolean {
+  return !rules || Object.keys(checkTextRules({ ...rules, name: undefined })).length === 0;
+}
+
+/** Whether the rules change the text of a result (the prompt only steers the model) */
+export function rewritesText(rules: TextRules): boolean {
+  return !!(rules.fillers || rules.numbers || rules.casing || rules.replacements?.length || rules.vocabulary?.length || rules.mask?.length);
+}
+
+/** The initial prompt for the model: the rule set's prompt (or `prompt`) followed by the vocabulary */
+export function enginePrompt(rules: TextRules, prompt = rules.prompt): string | undefined {
+  const parts = [
+    prompt?.trim(),
+    rules.vocabulary?.length ? `${rules.vocabulary.join(', ')}.` : '',
+  ].filter(Boolean);
+  return parts.length ? parts.join(' ') : undefined;
+}
+
+/** Short summary for logs and labels */
+export function describeTextRules(rules: TextRules): string {
+  const parts: string[] = [];
+  if (rules.prompt) parts.push('prompt');
+  if (rules.vocabulary?.length) parts.push(`${rules.vocabulary.length} term(s)`);
+  if (rules.replacements?.length) parts.push(`${rules.replacements.length} replacement(s)`);
+  if (rules.fillers) parts.push('fillers');
+  if (rules.numbers) parts.push('numbers');
+  if (rules.mask?.length) parts.push(`mask ${rules.mask.join('+')}`);
+  if (rules.casing) parts.push(`${rules.casing} case`);
+  return parts.length ? parts.join(', ') : 'none';
+}
+
+// --- filler words
+
+const FILLERS = ['u+h+m*', 'u+m+', 'e+r+m*', 'a+h+', 'h+m+', 'mm+', 'euh+', 'hein'];
+// the comma or ellipsis after a hesitation goes with it
+const FILLER_PATTERN = new RegExp(`${WORD_START}(?:${FILLERS.join('|')})${WORD_END}(?:\\s*(?:,|\\.\\.\\.|…))?\\s*`, 'giu');
+
+function removeFillers(text: string): string {
+  const capitals: number[] = [];
+  let removed = 0;
+  const result = text.replace(FILLER_PATTERN, (match: string, offset: number) => {
+    // a hesitation that started a sentence hands its capital on: "Um, so we..." → "So we..."
+    if (/^\p{Lu}/u.test(match) && /(^|[.!?…]\s*)$/u.test(text.slice(0, offset))) capitals.push(offset - removed);
+    removed += match.length;
+    return '';
+  });
+  return capitals.reduce((out, at) => out.slice(0, at) + out.charAt(at).toUpperCase() + out.slice(at + 1), result);
+}
+
+// --- find / replace
+
+function replacementPattern(rule: Replacement): RegExp {
+  const flags = rule.matchCase ? 'gu' : 'giu';
+  if (rule.regex) return new RegExp(rule.find, flags);
+  const words = rule.find.trim().split(/\s+/).map(escapeRegExp);
+  // word boundaries only where the text itself starts or ends with a letter or digit
+  const start = /^[\p{L}\p{N}_]/u.test(rule.find.trim()) ? WORD_START : '';
+  const end = /[\p{L}\p{N}_]$/u.test(rule.find.trim()) ? WORD_END : '';
+  return new RegExp(`${start}${words.join('\\s+')}${end}`, flags);
+}
+
+function applyReplacements(text: string, rules: Replacement[]): string {
+  return rules.reduce((result, rule) => {
+    const pattern = replacementPattern(rule);
+    return rule.regex ? result.replace(pattern, rule.replace) : result.replace(pattern, () => rule.replace);
+  }, text);
+}
+
+// --- vocabulary
+
+/** "GitHub" also matches "github", "git hub" and "git-hub" */
+function vocabularyPattern(term: string): RegExp {
+  const parts = term
+    .split(/[\s-]+|(?<=\p{Ll})(?=\p{Lu})|(?<=\p{L})(?=\p{N})|(?<=\p{N})(?=\p{L})/u)
+    .filter(Boolean)
+    .map(escapeRegExp);
+  return new RegExp(`${WORD_START}${parts.join('[\\s-]?')}${WORD_END}`, 'giu');
+}
+
+function applyVocabulary(text: string, terms: string[]): string {
+  // longer terms first, so "Visual Studio Code" wins over "Visual Studio"
+  return [...terms].sort((a, b) => b.length - a.length).reduce((result, term) => result.replace(vocabularyPattern(term), () => term), text);
+}
+
+// --- spoken numbers
+
+const UNITS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+const TEENS = ['ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9 };
+
+type NumberWord = { kind: 'unit' | 'teen' | 'tens' | 'hundred' | 'scale'; value: number };
+
+function numberWord(word: string): NumberWord | undefined {
+  const lower = word.toLowerCase();
+  if (UNITS.includes(lower)) return { kind: 'unit', value: UNITS.indexOf(lower) };
+  if (TEENS.includes(lower)) return { kind: 'teen', value: 10 + TEENS.indexOf(lower) };
+  if (TENS.includes(lower) && lower) return { kind: 'tens', value: 10 * TENS.indexOf(lower) };
+  if (lower === 'hundred') return { kind: 'hundred', value: 100 };
+  if (SCALES[lower]) return { kind: 'scale', value: SCALES[lower]! };
+  return undefined;
+}
+
+const NUMBER_WORDS = [...UNITS, ...TEENS, ...TENS.filter(Boolean), 'hundred', ...Object.keys(SCALES)];
+const NUMBER_RUN = new RegExp(
+  `${WORD_START}(?:${NUMBER_WORDS.join('|')})(?:(?:\\s+|-|\\s+and\\s+)(?:${NUMBER_WORDS.join('|')}))*${WORD_END}(\\s*percent${WORD_END})?`,
+  'giu',
+);
+
+type NumberGroup = { words: string[]; total: number; small: number; last?: NumberWord };
+
+/** Whether `word` carries on the number read so far: "twenty" + "five", "two hundred" + "thousand" */
+function continuesGroup(group: NumberGroup, word: NumberWord): boolean {
+  const { last } = group;
+  // "zero" stands alone
+  if (!last || last.value === 0) return false;
+  const afterHundreds = (last.kind === 'hundred' || last.kind === 'scale') && group.small % 100 === 0;
+  switch (word.kind) {
+    case 'unit':
+      return word.value !== 0 && (last.kind === 'tens' || afterHundreds);
+    case 'teen':
+    case 'tens':
+      return afterHundreds;
+    case 'hundred':
+      return (last.kind === 'unit' || last.kind === 'teen') && group.small < 100;
+    case 'scale':
+      return last.kind !== 'scale' && group.total % (word.value * 1000) === 0 && (group.total === 0 || group.total > word.value);
+  }
+}
+
+/** Split a run of number words into numbers: "nineteen eighty four" is two, "one two three" three; a stray "and" has no value */
+function parseNumbers(words: string[]): { words: string[]; value?: number }[] {
+  const items: { words: string[]; value?: number }[] = [];
+  let group: NumberGroup | undefined;
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i]!;
+    const parsed = numberWord(word);
+    if (!parsed) {
+      // "two hundred and five": only between hundreds or a scale and what carries on from them
+      const next = numberWord(words[i + 1] ?? '');
+      if (group && next && (group.last?.kind === 'hundred' || group.last?.kind === 'scale') && continuesGroup(group, next)) {
+        group.words.push(word);
+        continue;
+      }
+      if (group) items.push({ words: group.words, value: group.total + group.small });
+      group = undefined;
+      items.push({ words: [word] });
+      continue;
+    }
+    if (!group || !continuesGroup(group, parsed)) {
+      if (group) items.push({ words: group.words, value: group.total + group.small });
+      group = { words: [], total: 0, small: 0 };
+    }
+    group.words.push(word);
+    if (parsed.kind === 'hundred') {
+      group.small = (group.small || 1) * 100;
+    } else if (parsed.kind === 'scale') {
+      group.total += (group.small || 1) * parsed.value;
+      group.small = 0;
+    } else {
+      group.small += parsed.value;
+    }
+    group.last = parsed;
+  }
+  if (group) items.push({ words: group.words, value: group.total + group.small });
+  return items;
+}
+
+// "one of them", "three days" and "a hundred people" read better as words
+const keepAsWords = (item: { words: string[]; value?: number }) => item.value === undefined
+  || (item.words.length === 1 && item.value < 10)
+  || ['hundred', 'scale'].includes(numberWord(item.words[0]!)?.kind ?? '');
+
+/** Years 1700-2099 are read in pairs: "nineteen eighty four" is 1984, "twenty twenty" 2020 */
+function joinYears(items: { words: string[]; value?: number }[]): { words: string[]; value?: number }[] {
+  const joined: { words: string[]; value?: number }[] = [];
+  for (const item of items) {
+    const previous = joined[joined.length - 1];
+    if (previous?.value !== undefined && previous.words.length === 1 && previous.value >= 17 && previous.value <= 20
+      && item.value !== undefined && item.value >= 10 && item.value <= 99 && numberWord(item.words[0]!)?.kind !== 'unit') {
+      joined[joined.length - 1] = { words: [...previous.words, ...item.words], value: previous.value * 100 + item.value };
+    } else {
+      joined.push(item);
+    }
+  }
+  return joined;
+}
+
+function spokenNumbersToDigits(text: string): string {
+  return text.replace(NUMBER_RUN, (run: string, percent: string | undefined) => {
+    const items = joinYears(parseNumbers((percent ? run.slice(0, run.length - percent.length) : run).split(/[\s-]+/).filter(Boolean)));
+    const last = items[items.length - 1];
+    const digits = items.map((item) => (keepAsWords(item) ? item.words.join(' ') : String(item.value))).join(' ');
+    return `${digits}${percent ? (last && !keepAsWords(last) ? '%' : percent) : ''}`;
+  });
+}
+
+// --- masking
+
+const PROFANITY = [
+  'fuck', 'fucks', 'fucked', 'fucker', 'fuckers', 'fucking', 'motherfucker', 'motherfuckers', 'fuckin',
+  'shit', 'shits', 'shitty', 'bullshit', 'bitch', 'bitches', 'bastard', 'bastards', 'asshole', 'assholes',
+  'dick', 'dicks', 'cunt', 'cunts', 'piss', 'pissed', 'damn', 'goddamn', 'crap',
+  'merde', 'putain', 'connard', 'connards', 'connasse', 'salope', 'enculé', 'enculés', 'bordel',
+];
+const PROFANITY_PATTERN = new RegExp(`${WORD_START}(?:${PROFANITY.join('|')})${WORD_END}`, 'giu');
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu;
+// dictated addresses: "john dot smith at example dot com"
+const SPOKEN_EMAIL_PATTERN = /(?<![\p{L}\p{N}])[\p{L}\p{N}_]+(?:\s+dot\s+[\p{L}\p{N}_]+)*\s+at\s+[\p{L}\p{N}-]+(?:\s+dot\s+[\p{L}\p{N}-]+)*\s+dot\s+(?:com|org|net|edu|gov|io|co|fr|de|uk|ca|eu|be|ch)(?![\p{L}\p{N}])/giu;
+// written numbers must look like one: an international +33 6 12 34 56 78, an area code in brackets (555) 123-4567,
+// or national groups starting with a trunk 0 (06 12 34 56 78, 020 7946 0958) or shaped 555-123-4567;
+// plain digit runs, ranges and amounts (12345678, 2019 - 2020, 1 250 000, 1.250.000) are left alone
+const PHONE_SHAPES = [
+  String.raw`\+\d{1,3}(?:[ .-]?(?:\(\d{1,4}\)|\d{1,4})){2,}`,
+  String.raw`\(\d{2,5}\) ?\d{2,4}(?:[ .-]?\d{2,4})+`,
+  String.raw`0\d{1,4}(?:[ .-]\d{2,4}){2,}`,
+  String.raw`\d{3}([ .-])\d{3}\1\d{4}`,
+];
+const PHONE_PATTERN = new RegExp(`(?<![\\p{L}\\p{N}+(])(?:${PHONE_SHAPES.join('|')})(?![\\p{L}\\p{N}])`, 'gu');
+const DIGIT_WORD = '(?:zero|oh|one|two|three|four|five|six|seven|eight|nine)';
+const SPOKEN_PHONE_PATTERN = new RegExp(`${WORD_START}(?:${DIGIT_WORD}[\\s,-]+){6,}${DIGIT_WORD}${WORD_END}`, 'giu');
+
+function mask(text: string, kinds: MaskKind[]): string {
+  let result = text;
+  if (kinds.includes('email')) result = result.replace(EMAIL_PATTERN, '[email]').replace(SPOKEN_EMAIL_PATTERN, '[email]');
+  if (kinds.includes('phone')) {
+    result = result
+      // at least 7 digits, so short codes are left alone
+      .replace(PHONE_PATTERN, (match) => ((match.match(/\d/g)?.length ?? 0) >= 7 ? '[phone]' : match))
+      .replace(SPOKEN_PHONE_PATTERN, '[phone]');
+  }
+  if (kinds.includes('profanity')) result = result.replace(PROFANITY_PATTERN, (word) => `${word[0]}${'*'.repeat(word.length - 1)}`);
+  return result;
+}
+
+// --- casing
+
+function applyCasing(text: string, casing: CasingMode, sentenceStart: boolean): string {
+  if (casing === 'lower') return text.toLowerCase();
+  if (casing === 'upper') return text.toUpperCase();
+  const capitalize = (_: string, before: string, letter: string) => before + letter.toUpperCase();
+  const result = text
+    .replace(/(?<![\p{L}\p{N}_'’])i(?=(?:['’](?:m|ve|ll|d))?(?![\p{L}\p{N}_]|\.\p{L}))/gu, 'I')
+    .replace(/([.!?…]\s+["“«(]?)(\p{Ll})/gu, capitalize);
+  return sentenceStart ? result.replace(/^(["“«(]?)(\p{Ll})/u, capitalize) : result;
+}
+
+function tidy(text: string): string {
+  const result = text
+    .replace(/\s+/g, ' ')
+    // the full stop of a removed "Hmm."
+    .replace(/([.!?…])\s+[.!?,]+(?=\s|$)/g, '$1')
+    .replace(/\s+([,.!?;:…%])/g, '$1')
+    .replace(/^[\s,.;:!?]+/, '')
+    .replace(/,(?=[.!?])/g, '')
+    .trim();
+  return /[\p{L}\p{N}]/u.test(result) ? result : '';
+}
+
+/**
+ * Apply the text rules to one piece of text. `sentenceStart` says whether it begins a sentence (sentence casing
+ * capitalizes its first letter)
+ */
+export function applyTextRules(text: string, rules: TextRules, options: { sentenceStart?: boolean } = {}): string {
+  let result = text;
+  if (rules.fillers) result = removeFillers(result);
+  if (rules.replacements?.length) result = applyReplacements(result, rules.replacements);
+  if (rules.vocabulary?.length) result = applyVocabulary(result, rules.vocabulary);
+  if (rules.numbers) result = spokenNumbersToDigits(result);
+  if (rules.mask?.length) result = mask(result, rules.mask);
+  result = tidy(result);
+  if (rules.casing) result = applyCasing(result, rules.casing, options.sentenceStart ?? true);
+  return result;
+}
+
+type WordOrigin = {
+  /** indexes of the previous words this one comes from; empty for an inserted word */
+  from: number[];
+  changed: boolean;
+  /** this word's share of the time of `from`, when a changed run has a different number of words */
+  part: number;
+  parts: number;
+};
+
+/**
+ * Pair the words of `next` with those of `previous` (longest common subsequence). Unchanged words keep their
+ * source; a changed run of as many words takes them one to one, otherwise it shares out the words it replaces
+ */
+function alignWords(previous: string[], next: string[]): WordOrigin[] {
+  const lengths = Array.from({ length: previous.length + 1 }, () => new Array<number>(next.length + 1).fill(0));
+  for (let i = previous.length - 1; i >= 0; i--) {
+    for (let j = next.length - 1; j >= 0; j--) {
+      lengths[i]![j] = previous[i] === next[j] ? lengths[i + 1]![j + 1]! + 1 : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+  const origins: WordOrigin[] = [];
+  let removed: number[] = [];
+  let added = 0;
+  const flush = () => {
+    for (let k = 0; k < added; k++) {
+      origins.push(removed.length === added
+        ? { from: [removed[k]!], changed: true, part: 0, parts: 1 }
+        : { from: removed, changed: true, part: k, parts: added });
+    }
+    removed = [];
+    added = 0;
+  };
+  let i = 0;
+  let j = 0;
+  while (i < previous.length || j < next.length) {
+    if (i < previous.length && j < next.length && previous[i] === next[j]) {
+      flush();
+      origins.push({ from: [i], changed: false, part: 0, parts: 1 });
+      i++;
+      j++;
+    } else if (j < next.length && (i >= previous.length || lengths[i]![j + 1]! >= lengths[i + 1]![j]!)) {
+      added++;
+      j++;
+    } else {
+      removed.push(i);
+      i++;
+    }
+  }
+  flush();
+  return origins;
+}
+
+function retimeWords(words: TranscriptWord[], tokens: string[], segment: TranscriptSegment): TranscriptWord[] {
+  let cursor = segment.start;
+  return alignWords(words.map((w) => w.text.trim()), tokens).map(({ from, changed, part, parts }, k) => {
+    const first = words[from[0]!];
+    const last = words[from[from.length - 1]!];
+    // an inserted word takes no time, where the previous word ended
+    const spanStart = first?.start ?? cursor;
+    const spanEnd = last?.end ?? cursor;
+    const start = spanStart + ((spanEnd - spanStart) * part) / parts;
+    const end = spanStart + ((spanEnd - spanStart) * (part + 1)) / parts;
+    cursor = end;
+    return {
+      text: (first?.text.match(/^\s*/)?.[0] || ' ') + tokens[k],
+      start,
+      end,
+      ...(!changed && first?.confidence !== undefined ? { confidence: first.confidence } : {}),
+    };
+  });
+}
+
+function rescoreWords(scores: WordScore[], tokens: string[]): WordScore[] {
+  return alignWords(scores.map((w) => w.text), tokens).map(({ from, changed }, k) =>
+    (changed ? { text: tokens[k]! } : { ...scores[from[0]!]!, text: tokens[k]! }));
+}
+
+/** The segment with new text; word timings and scores are carried over (see alignWords) */
+function rewriteSegment(segment: TranscriptSegment, text: string): TranscriptSegment {
+  if (text === segment.text.trim()) return segment;
+  const { words, wordScores, confidence: _confidence, ...rest } = segment;
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const rewritten: TranscriptSegment = { ...rest, text };
+  if (words) rewritten.words = retimeWords(words, tokens, segment);
+  if (wordScores) rewritten.wordScores = rescoreWords(wordScores, tokens);
+  return withSegmentConfidence(rewritten);
+}
+
+/** Apply the text rules to every segment of a transcript (the prompt and vocabulary hint are for the engine) */
+export function postprocessTranscript(transcript: Transcript, rules: TextRules): Transcript {
+  if (!rewritesText(rules)) return transcript;
+  if (transcript.segments.length === 0) return { ...transcript, text: applyTextRules(transcript.text, rules) };
+  let previous: TranscriptSegment | undefined;
+  const segments: TranscriptSegment[] = [];
+  for (const segment of transcript.segments) {
+    const sentenceStart = !previous || /[.!?…]["”»)]?$/.test(previous.text.trim()) || previous.speaker !== segment.speaker;
+    const text = applyTextRules(segment.text, rules, { sentenceStart });
+    if (!text) continue;
+    previous = rewriteSegment(segment, text);
+    segments.push({ ...previous, id: segments.length });
+  }
+  return { ...transcript, segments, text: segments.map((s) => s.text.trim()).join(' ') };
+}
+
+export default { applyTextRules, postprocessTranscript, checkTextRules, checkRuleSet, checkRuleSets, enginePrompt, describeTextRules };
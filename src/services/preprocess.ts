@@ -0,0 +1,134 @@
+/**
+ * Audio preprocessing applied while decoding, before the audio reaches the engine
+ * - Each step is optional and they combine: channel selection, high-pass / low-pass filtering, noise
+ *   reduction, loudness normalization and tempo change
+ * - Filters run in ffmpeg (see ffmpegFilters); channel selection replaces the averaging in mixdownChannels
+ * - Presets are named sets of steps; parsePreprocess reads a list like "phone,tempo=1.25" (CLI, settings)
+ * - A tempo other than 1 changes timings: transcribeFile scales them back to the original audio
+ * - No Node APIs, so the renderer can use the same validation and descriptions
+ */
+
+export type PreprocessOptions = {
+  /** EBU R128 loudness normalization to -16 LUFS */
+  normalize?: boolean;
+  /** cut below this frequency, in Hz */
+  highpass?: number;
+  /** cut above this frequency, in Hz */
+  lowpass?: number;
+  /** FFT noise reduction, for steady background noise (hiss, hum, fans) */
+  denoise?: boolean;
+  /** keep one channel (0 = left, 1 = right) instead of averaging them; a file with fewer channels uses its last one */
+  channel?: number;
+  /** playback speed, 0.5-2; above 1 is faster and shorter */
+  tempo?: number;
+};
+
+export const PREPROCESS_LIMITS = {
+  highpass: { min: 20, max: 4000 },
+  lowpass: { min: 500, max: 8000 },
+  channel: { min: 0, max: 31 },
+  tempo: { min: 0.5, max: 2 },
+} as const;
+
+export const PREPROCESS_PRESETS: Readonly<Record<string, Readonly<PreprocessOptions>>> = {
+  /** telephone and VoIP recordings: keep the voice band, remove line noise, even out the level */
+  phone: { highpass: 200, lowpass: 3400, denoise: true, normalize: true },
+  /** general cleanup of a voice recording: rumble filter and level */
+  speech: { highpass: 80, normalize: true },
+  normalize: { normalize: true },
+  denoise: { denoise: true },
+  highpass: { highpass: 100 },
+  lowpass: { lowpass: 4000 },
+  left: { channel: 0 },
+  right: { channel: 1 },
+  none: {},
+};
+
+export function isPreprocessEmpty(options: PreprocessOptions | undefined): boolean {
+  return !options || Object.keys(checkPreprocess(options)).length === 0;
+}
+
+function checkNumber(name: keyof typeof PREPROCESS_LIMITS, value: unknown, integer = false): number {
+  const { min, max } = PREPROCESS_LIMITS[name];
+  if (typeof value !== 'number' || !(value >= min && value <= max) || (integer && !Number.isInteger(value))) {
+    throw new Error(`${name} must be ${integer ? 'an integer ' : ''}between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/** Validated copy with steps that do nothing left out; throws on the first invalid value */
+export function checkPreprocess(value: unknown): PreprocessOptions {
+  if (value === null || value === undefined) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) throw new Error('preprocess must be an object');
+  const input = value as Record<string, unknown>;
+  const unknown = Object.keys(input).find((key) => !['normalize', 'highpass', 'lowpass', 'denoise', 'channel', 'tempo'].includes(key));
+  if (unknown) throw new Error(`unknown preprocessing step: ${unknown}`);
+  const options: PreprocessOptions = {};
+  for (const key of ['normalize', 'denoise'] as const) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== 'boolean') throw new Error(`${key} must be true or false`);
+    if (input[key]) options[key] = true;
+  }
+  if (input.highpass !== undefined) options.highpass = checkNumber('highpass', input.highpass);
+  if (input.lowpass !== undefined) options.lowpass = checkNumber('lowpass', input.lowpass);
+  if (options.highpass !== undefined && options.lowpass !== undefined && options.highpass >= options.lowpass) {
+    throw new Error('highpass must be below lowpass');
+  }
+  if (input.channel !== undefined) options.channel = checkNumber('channel', input.channel, true);
+  if (input.tempo !== undefined && input.tempo !== 1) options.tempo = checkNumber('tempo', input.tempo);
+  return options;
+}
+
+/**
+ * Parse a comma-separated list of presets and steps, later items overriding earlier ones:
+ * "phone", "normalize,highpass=150", "speech,channel=right,tempo=1.2", "none"
+ */
+export function parsePreprocess(spec: string): PreprocessOptions {
+  let options: Record<string, unknown> = {};
+  for (const item of spec.split(',').map((s) => s.trim()).filter(Boolean)) {
+    const [name = '', value] = item.split('=', 2).map((s) => s.trim());
+    if (value === undefined) {
+      const preset = PREPROCESS_PRESETS[name];
+      if (!preset) throw new Error(`unknown preprocessing preset: ${name} (expected ${Object.keys(PREPROCESS_PRESETS).join(', ')})`);
+      options = name === 'none' ? {} : { ...options, ...preset };
+    } else if (name === 'normalize' || name === 'denoise') {
+      if (value !== 'true' && value !== 'false') throw new Error(`${name} must be true or false`);
+      options[name] = value === 'true';
+    } else if (name === 'channel') {
+      options.channel = value === 'left' ? 0 : value === 'right' ? 1 : value === 'mix' ? undefined : Number(value);
+    } else if (name === 'highpass' || name === 'lowpass' || name === 'tempo') {
+      options[name] = Number(value);
+    } else {
+      throw new Error(`unknown preprocessing step: ${name}`);
+    }
+  }
+  return checkPreprocess(options);
+}
+
+/** The inverse of parsePreprocess, for logs and labels */
+export function describePreprocess(options: PreprocessOptions): string {
+  const steps: string[] = [];
+  if (options.channel !== undefined) steps.push(`channel=${options.channel === 0 ? 'left' : options.channel === 1 ? 'right' : options.channel}`);
+  if (options.highpass !== undefined) steps.push(`highpass=${options.highpass}`);
+  if (options.lowpass !== undefined) steps.push(`lowpass=${options.lowpass}`);
+  if (options.denoise) steps.push('denoise');
+  if (options.normalize) steps.push('normalize');
+  if (options.tempo !== undefined && options.tempo !== 1) steps.push(`tempo=${options.tempo}`);
+  return steps.length ? steps.join(',') : 'none';
+}
+
+/**
+ * ffmpeg audio filters for the steps, in processing order: filtering first so the noise estimate and the
+ * loudness measurement only see the band that is kept, tempo last
+ */
+export function ffmpegFilters(options: PreprocessOptions): string[] {
+  const filters: string[] = [];
+  if (options.highpass !== undefined) filters.push(`highpass=f=${options.highpass}`);
+  if (options.lowpass !== undefined) filters.push(`lowpass=f=${options.lowpass}`);
+  if (options.denoise) filters.push('afftdn=nf=-25');
+  if (options.normalize) filters.push('loudnorm=I=-16:TP=-1.5:LRA=11');
+  if (options.tempo !== undefined && options.tempo !== 1) filters.push(`atempo=${options.tempo}`);
+  return filters;
+}
+
+export default { parsePreprocess, checkPreprocess, describePreprocess, ffmpegFilters, isPreprocessEmpty, PREPROCESS_PRESETS };
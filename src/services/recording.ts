@@ -1,52 +1,271 @@
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
+import { labelSpeakers, localTranscriber, type Transcriber, type TranscribeOptions } from './transcribe.js';
+import { loadAudio16k } from './audio.js';
+import { startLive, pushPcm as pushLivePcm, finishLive, stopLive, type LiveOptions } from './live.js';
+import { toText } from './formats.js';
+import type { Transcript } from './types.js';
 
-type Session = { chunks: Buffer[] };
+/**
+ * Recording sessions
+ * - Chunks are appended to <directory>/.incomplete/<id>.webm as they arrive, next to a small
+ *   <id>.json state file, so a crash loses at most the chunk being written
+ * - Unfinished sessions are listed at startup and can be recovered (finalized + transcribed) or discarded
+ * - Finished recordings are moved to <directory>/recording-<date>.webm with the transcript beside them
+ * - Sessions can be paused/resumed and stop accepting audio past maxBytes / maxDurationMs
+ * - Chunks are stored as-is; `extension` names the container they form (webm from MediaRecorder by default)
+ */
+
+export type RecordingConfig = {
+  directory: string;
+  maxBytes: number;
+  maxDurationMs: number;
+  /** transcribes finished recordings and live passes; defaults to this thread */
+  transcriber: Transcriber;
+};
+
+export type SessionState = 'recording' | 'paused';
+
+export type SessionMeta = {
+  id: string;
+  startedAt: number;
+  state: SessionState;
+  /** total time spent paused, not counting a pause in progress */
+  pausedMs: number;
+  pausedAt?: number;
+  /** file extension of the audio, without the dot; 'webm' when missing */
+  extension?: string;
+};
+
+export type RecoverableSession = SessionMeta & { bytes: number; audioPath: string };
+
+export type RecordingResult = {
+  transcript: Transcript;
+  audioPath: string;
+  transcriptPath: string;
+};
+
+export type ChunkResult = {
+  bytes: number;
+  durationMs: number;
+  /** set once the session hit a limit; further chunks are refused */
+  limitReached?: 'size' | 'duration';
+};
+
+type Session = {
+  meta: SessionMeta;
+  bytes: number;
+  /** serializes appends so chunks land in arrival order */
+  writing: Promise<void>;
+  limitReached?: 'size' | 'duration';
+};
+
+const config: RecordingConfig = {
+  directory: process.env.VTP_RECORDINGS_DIR || path.join(os.homedir(), 'Recordings'),
+  maxBytes: 1024 * 1024 * 1024,
+  maxDurationMs: 4 * 60 * 60 * 1000,
+  transcriber: localTranscriber,
+};
 
 const sessions = new Map<string, Session>();
 
-export function startSession(sessionId = 'default') {
-  sessions.set(sessionId, { chunks: [] });
+export function configureRecordings(options: Partial<RecordingConfig>) {
+  Object.assign(config, options);
 }
 
-export function pushChunk(sessionId = 'default', arrayBuffer: ArrayBuffer) {
-  const s = sessions.get(sessionId);
-  if (!s) throw new Error('session not started');
-  s.chunks.push(Buffer.from(arrayBuffer));
+export function getRecordingConfig(): Readonly<RecordingConfig> {
+  return config;
+}
+
+const incompleteDir = () => path.join(config.directory, '.incomplete');
+const partPath = (id: string, extension = 'webm') => path.join(incompleteDir(), `${id}.${extension}`);
+const metaPath = (id: string) => path.join(incompleteDir(), `${id}.json`);
+
+// session ids come from the renderer; keep them usable as file names
+function checkId(sessionId: string) {
+  if (!/^[\w.-]+$/.test(sessionId)) throw new Error(`invalid session id: ${sessionId}`);
 }
 
-export async function endSession(sessionId = 'default'): Promise<string> {
+function getSession(sessionId: string): Session {
   const s = sessions.get(sessionId);
   if (!s) throw new Error('session not started');
-  const outDir = os.tmpdir();
-  const outPath = path.join(outDir, `vtp_recording_${sessionId}_${Date.now()}.webm`);
-  const buf = Buffer.concat(s.chunks);
-  await fs.writeFile(outPath, buf);
-  // cleanup session
-  sessions.delete(sessionId);
+  return s;
+}
+
+async function writeMeta(meta: SessionMeta) {
+  await fs.writeFile(metaPath(meta.id), JSON.stringify(meta, null, 2), 'utf8');
+}
+
+function activeDurationMs(meta: SessionMeta, now = Date.now()) {
+  const pausing = meta.state === 'paused' && meta.pausedAt ? now - meta.pausedAt : 0;
+  return now - meta.startedAt - meta.pausedMs - pausing;
+}
+
+/** With `live`, 16 kHz PCM sent through pushPcm is transcribed while recording */
+export async function startSession(sessionId = 'default', options: { live?: LiveOptions; extension?: string } = {}) {
+  checkId(sessionId);
+  if (options.extension !== undefined && !/^[a-z0-9]{1,8}$/i.test(options.extension)) throw new Error(`invalid extension: ${options.extension}`);
+  await fs.mkdir(incompleteDir(), { recursive: true });
+  const meta: SessionMeta = { id: sessionId, startedAt: Date.now(), state: 'recording', pausedMs: 0 };
+  if (options.extension) meta.extension = options.extension.toLowerCase();
+  await fs.writeFile(partPath(sessionId, meta.extension), Buffer.alloc(0));
+  await writeMeta(meta);
+  sessions.set(sessionId, { meta, bytes: 0, writing: Promise.resolve() });
+  stopLive(sessionId);
+  if (options.live) startLive(sessionId, { transcriber: config.transcriber, ...options.live });
+}
 
-  // call transcribe service (dynamic import)
-  // We expect the compiled JS to exist at src/services/transcribe.js after building
-  const svcPath = path.join(process.cwd(), 'src', 'services', 'transcribe.js');
+export function pushPcm(sessionId = 'default', samples: Float32Array) {
+  const s = getSession(sessionId);
+  if (s.meta.state === 'paused' || s.limitReached) return;
+  pushLivePcm(sessionId, samples);
+}
+
+export async function pushChunk(sessionId = 'default', arrayBuffer: ArrayBuffer): Promise<ChunkResult> {
+  const s = getSession(sessionId);
+  const durationMs = activeDurationMs(s.meta);
+  if (!s.limitReached) {
+    if (s.bytes + arrayBuffer.byteLength > config.maxBytes) s.limitReached = 'size';
+    else if (durationMs > config.maxDurationMs) s.limitReached = 'duration';
+  }
+  if (s.limitReached) return { bytes: s.bytes, durationMs, limitReached: s.limitReached };
+  s.bytes += arrayBuffer.byteLength;
+  const buf = Buffer.from(arrayBuffer);
+  // a failed append was reported to its own caller; the next chunks are still written
+  const write = s.writing.catch(() => {}).then(() => fs.appendFile(partPath(sessionId, s.meta.extension), buf));
+  s.writing = write;
   try {
-    // Convert to file:// URL for dynamic import in ESM contexts
-    const fileUrl = pathToFileURL(svcPath);
-    const mod = await import(fileUrl.href);
-    if (!mod || !mod.transcribeFile) throw new Error('transcribe service not found');
-    const text = await mod.transcribeFile(outPath);
-    return text;
+    await write;
   } catch (err) {
-    // Propagate the error to caller
+    s.bytes -= buf.length;
     throw err;
   }
+  return { bytes: s.bytes, durationMs };
 }
 
-function pathToFileURL(p: string) {
-  let resolved = path.resolve(p);
-  // Node's file URL on Windows needs a leading slash
-  if (process.platform === 'win32') resolved = '/' + resolved.replace(/\\/g, '/');
-  return new URL('file://' + resolved);
+export async function pauseSession(sessionId = 'default') {
+  const s = getSession(sessionId);
+  if (s.meta.state === 'paused') return;
+  s.meta.state = 'paused';
+  s.meta.pausedAt = Date.now();
+  await writeMeta(s.meta);
+}
+
+export async function resumeSession(sessionId = 'default') {
+  const s = getSession(sessionId);
+  if (s.meta.state !== 'paused') return;
+  s.meta.pausedMs += Date.now() - (s.meta.pausedAt ?? Date.now());
+  s.meta.state = 'recording';
+  delete s.meta.pausedAt;
+  await writeMeta(s.meta);
+}
+
+function finalName(startedAt: number) {
+  const d = new Date(startedAt);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `recording-${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}_${pad(d.getHours())}-${pad(d.getMinutes())}-${pad(d.getSeconds())}`;
+}
+
+/** Move the part file to the recordings folder under a dated, non-clashing name */
+async function finalizeAudio(meta: SessionMeta): Promise<string> {
+  const base = finalName(meta.startedAt);
+  const ext = meta.extension ?? 'webm';
+  let outPath = path.join(config.directory, `${base}.${ext}`);
+  for (let n = 2; await fs.stat(outPath).then(() => true, () => false); n++) {
+    outPath = path.join(config.directory, `${base}-${n}.${ext}`);
+  }
+  await fs.rename(partPath(meta.id, meta.extension), outPath);
+  await fs.unlink(metaPath(meta.id)).catch(() => { /* ignore */ });
+  return outPath;
+}
+
+async function saveTranscript(audioPath: string, transcript: Transcript): Promise<string> {
+  const transcriptPath = audioPath.replace(/\.[^/.]+$/, '') + '.txt';
+  await fs.writeFile(transcriptPath, toText(transcript), 'utf8');
+  return transcriptPath;
+}
+
+export async function endSession(sessionId = 'default', options: TranscribeOptions = {}): Promise<RecordingResult> {
+  const s = getSession(sessionId);
+  // the chunk writes settle first; their failures were reported by pushChunk
+  await s.writing.catch(() => {});
+  // cleanup session
+  sessions.delete(sessionId);
+  const audioPath = await finalizeAudio(s.meta);
+
+  // a live session already holds final segments; only its tail is left to transcribe.
+  // When that last pass fails, the whole recording is transcribed instead of saving a truncated transcript
+  const live = await finishLive(sessionId).catch((err) => {
+    options.log?.(`live transcription of the end failed, transcribing the whole recording: ${err?.message ?? err}`);
+    return null;
+  });
+  // otherwise transcribe through the configured engine (or the one requested by the caller)
+  let transcript = live && live.segments.length > 0 ? live : await config.transcriber.transcribeFile(audioPath, options);
+  // live passes never identify speakers; that is done once on the finished recording
+  if (transcript === live && options.diarize) {
+    transcript = labelSpeakers(transcript, await loadAudio16k(audioPath, {}, options.signal), options.diarize, options.log);
+  }
+  const transcriptPath = await saveTranscript(audioPath, transcript);
+  return { transcript, audioPath, transcriptPath };
+}
+
+/** Sessions left behind by a crash or forced quit (not the ones currently recording) */
+export async function listRecoverableSessions(): Promise<RecoverableSession[]> {
+  const names = await fs.readdir(incompleteDir()).catch(() => [] as string[]);
+  const found: RecoverableSession[] = [];
+  for (const name of names) {
+    if (!name.endsWith('.json')) continue;
+    const id = name.slice(0, -'.json'.length);
+    if (sessions.has(id)) continue;
+    try {
+      const meta = JSON.parse(await fs.readFile(metaPath(id), 'utf8')) as SessionMeta;
+      const stat = await fs.stat(partPath(id, meta.extension));
+      found.push({ ...meta, id, bytes: stat.size, audioPath: partPath(id, meta.extension) });
+    } catch {
+      // meta without audio: nothing to recover
+    }
+  }
+  return found.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+export async function recoverSession(sessionId: string, options: TranscribeOptions = {}): Promise<RecordingResult> {
+  checkId(sessionId);
+  if (sessions.has(sessionId)) throw new Error('session is still recording');
+  const meta = JSON.parse(await fs.readFile(metaPath(sessionId), 'utf8')) as SessionMeta;
+  const audioPath = await finalizeAudio({ ...meta, id: sessionId });
+  const transcript = await config.transcriber.transcribeFile(audioPath, options);
+  const transcriptPath = await saveTranscript(audioPath, transcript);
+  return { transcript, audioPath, transcriptPath };
+}
+
+export async function discardSession(sessionId: string) {
+  checkId(sessionId);
+  if (sessions.has(sessionId)) throw new Error('session is still recording');
+  const meta = await fs.readFile(metaPath(sessionId), 'utf8').then((json) => JSON.parse(json) as SessionMeta, () => null);
+  await fs.unlink(partPath(sessionId, meta?.extension)).catch(() => { /* ignore */ });
+  await fs.unlink(metaPath(sessionId)).catch(() => { /* ignore */ });
+}
+
+/** Stop a session that is still recording and delete its audio (e.g. its client went away) */
+export async function cancelSession(sessionId: string) {
+  const s = getSession(sessionId);
+  sessions.delete(sessionId);
+  stopLive(sessionId);
+  await s.writing.catch(() => { /* ignore */ });
+  await discardSession(sessionId);
 }
 
-export default { startSession, pushChunk, endSession };
+export default {
+  configureRecordings,
+  startSession,
+  pushChunk,
+  pushPcm,
+  pauseSession,
+  resumeSession,
+  endSession,
+  listRecoverableSessions,
+  recoverSession,
+  discardSession,
+  cancelSession,
+};
@@ -0,0 +1,41 @@
+import type { TranscriptSegment, TranscriptWord } from './types.js';
+
+/**
+ * Segment helpers shared by the engines
+ * - groupWordsIntoSegments turns word timings into subtitle-sized segments
+ */
+
+// Break on sentence punctuation, long pauses or length
+const MAX_SEGMENT_SECONDS = 7;
+const MAX_SEGMENT_CHARS = 84;
+const SEGMENT_PAUSE_SECONDS = 0.8;
+
+export function groupWordsIntoSegments(words: TranscriptWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptWord[] = [];
+  const flush = () => {
+    if (current.length === 0) return;
+    segments.push({
+      id: segments.length,
+      start: current[0]!.start,
+      end: current[current.length - 1]!.end,
+      text: current.map((w) => w.text).join('').trim(),
+      words: current,
+    });
+    current = [];
+  };
+  for (const word of words) {
+    const prev = current[current.length - 1];
+    if (prev) {
+      const tooLong = word.end - current[0]!.start > MAX_SEGMENT_SECONDS
+        || current.reduce((n, w) => n + w.text.length, 0) + word.text.length > MAX_SEGMENT_CHARS;
+      if (tooLong || word.start - prev.end > SEGMENT_PAUSE_SECONDS) flush();
+    }
+    current.push(word);
+    if (/[.!?]["')\]]?$/.test(word.text.trim())) flush();
+  }
+  flush();
+  return segments;
+}
+
+export default { groupWordsIntoSegments };
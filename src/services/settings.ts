@@ -0,0 +1,277 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { isOutputFormat, type OutputFormat } from './formats.js';
+import { normalizeLanguage } from './languages.js';
+import { checkPreprocess, type PreprocessOptions } from './preprocess.js';
+import { checkRuleSets, type RuleSet } from './postprocess.js';
+import { DEFAULT_CONFIDENCE_THRESHOLD } from './confidence.js';
+
+/**
+ * User settings
+ * - One JSON file in the Electron user-data folder (settings.json, or VTP_SETTINGS_FILE), shared by the app,
+ *   the services and the CLI
+ * - loadSettings reads it once and caches it; updateSettings validates a partial change, writes the file
+ *   and notifies onSettingsChange listeners, so a running app applies changes without a restart
+ * - Invalid or unknown values in the file are dropped with a warning instead of failing startup
+ * - Explicit options (CLI flags, UI controls) always win over settings; settings win over built-in defaults
+ */
+
+export const THEMES = ['system', 'light', 'dark'] as const;
+export type Theme = typeof THEMES[number];
+
+export type UiSettings = {
+  theme: Theme;
+  /** transcript font size, in px */
+  fontSize: number;
+  /** start recordings with live transcription on */
+  live: boolean;
+  /** 0-1: transcript words scoring below it are highlighted for review */
+  confidenceThreshold: number;
+};
+
+export type Settings = {
+  /** engine used when none is requested */
+  engine?: string;
+  /** model used with that engine when none is requested */
+  model?: string;
+  /** spoken language code, or 'auto' */
+  language?: string;
+  /** microphone (MediaDeviceInfo.deviceId); unset means the system default */
+  inputDeviceId?: string;
+  /** where saved transcripts go; unset means next to the audio */
+  outputDirectory?: string;
+  /** folder the app watches for new audio files to transcribe (see watch.ts); unset means none */
+  watchDirectory?: string;
+  /** formats written by the CLI in batch mode and offered first when saving */
+  outputFormats: OutputFormat[];
+  /** window length for long audio in seconds, 0 disables chunking */
+  chunkSeconds: number;
+  /** skip silence by default */
+  vad: boolean;
+  /** preprocessing applied to files before transcription; replaced as a whole by an update */
+  preprocess: PreprocessOptions;
+  /** named vocabulary and text rules (see postprocess.ts); replaced as a whole by an update */
+  ruleSets: RuleSet[];
+  /** name of the rule set applied when none is requested; unset means none */
+  ruleSet?: string;
+  ui: UiSettings;
+};
+
+export type SettingsPatch = Partial<Omit<Settings, 'ui'>> & { ui?: Partial<UiSettings> };
+
+export type SettingsConfig = {
+  /** the settings file */
+  path: string;
+};
+
+export const DEFAULT_SETTINGS: Readonly<Settings> = {
+  outputFormats: ['txt'],
+  chunkSeconds: 30,
+  vad: false,
+  preprocess: {},
+  ruleSets: [],
+  ui: { theme: 'system', fontSize: 14, live: true, confidenceThreshold: DEFAULT_CONFIDENCE_THRESHOLD },
+};
+
+// Same folder Electron's app.getPath('userData') gives for this package
+export function userDataDirectory(appName = 'veille_techno_projet'): string {
+  const home = os.homedir();
+  const appData = process.platform === 'win32'
+    ? process.env.APPDATA || path.join(home, 'AppData', 'Roaming')
+    : process.platform === 'darwin'
+      ? path.join(home, 'Library', 'Application Support')
+      : process.env.XDG_CONFIG_HOME || path.join(home, '.config');
+  return path.join(appData, appName);
+}
+
+const config: SettingsConfig = {
+  path: process.env.VTP_SETTINGS_FILE || path.join(userDataDirectory(), 'settings.json'),
+};
+
+let current: Settings | null = null;
+let writing: Promise<void> = Promise.resolve();
+const listeners = new Set<(settings: Settings) => void>();
+
+export function configureSettings(options: Partial<SettingsConfig>) {
+  Object.assign(config, options);
+  current = null;
+}
+
+export function getSettingsConfig(): Readonly<SettingsConfig> {
+  return config;
+}
+
+const clone = (settings: Readonly<Settings>): Settings => ({
+  ...settings,
+  outputFormats: [...settings.outputFormats],
+  preprocess: { ...settings.preprocess },
+  ruleSets: settings.ruleSets.map((set) => structuredClone(set)),
+  ui: { ...settings.ui },
+});
+
+/** Apply `patch` to `base`; throws on the first invalid value. `null` or '' clears an optional setting */
+function merge(base: Settings, patch: Record<string, unknown>): Settings {
+  const next = clone(base);
+  const text = (key: 'engine' | 'model' | 'language' | 'inputDeviceId' | 'outputDirectory' | 'watchDirectory', check?: (value: string) => string) => {
+    if (!(key in patch)) return;
+    const value = patch[key];
+    if (value === null || value === undefined || value === '') {
+      delete next[key];
+      return;
+    }
+    if (typeof value !== 'string') throw new Error(`${key} must be a string`);
+    next[key] = check ? check(value) : value;
+  };
+  text('engine');
+  text('model');
+  text('language', (value) => normalizeLanguage(value)!);
+  text('inputDeviceId');
+  for (const key of ['outputDirectory', 'watchDirectory'] as const) {
+    text(key, (value) => {
+      if (!path.isAbsolute(value)) throw new Error(`${key} must be an absolute path`);
+      return path.normalize(value);
+    });
+  }
+  if ('outputFormats' in patch) {
+    const formats = patch.outputFormats;
+    if (!Array.isArray(formats) || formats.length === 0 || !formats.every(isOutputFormat)) {
+      throw new Error('outputFormats must list at least one of txt, srt, vtt, json');
+    }
+    next.outputFormats = [...new Set(formats)];
+  }
+  if ('chunkSeconds' in patch) {
+    const value = patch.chunkSeconds;
+    if (typeof value !== 'number' || !(value >= 0 && value <= 600)) throw new Error('chunkSeconds must be between 0 and 600');
+    next.chunkSeconds = value;
+  }
+  if ('vad' in patch) {
+    if (typeof patch.vad !== 'boolean') throw new Error('vad must be true or false');
+    next.vad = patch.vad;
+  }
+  if ('preprocess' in patch) next.preprocess = checkPreprocess(patch.preprocess);
+  if ('ruleSets' in patch) {
+    next.ruleSets = checkRuleSets(patch.ruleSets);
+    // a rule set that was removed stops being the default
+    if (next.ruleSet && !findRuleSet(next, next.ruleSet)) delete next.ruleSet;
+  }
+  if ('ruleSet' in patch) {
+    const name = patch.ruleSet;
+    if (name === null || name === undefined || name === '') {
+      delete next.ruleSet;
+    } else {
+      const set = typeof name === 'string' ? findRuleSet(next, name) : undefined;
+      if (!set) throw new Error(`ruleSet must name one of the rule sets${next.ruleSets.length ? ` (${next.ruleSets.map((s) => s.name).join(', ')})` : ''}`);
+      next.ruleSet = set.name;
+    }
+  }
+  const ui = patch.ui as Record<string, unknown> | undefined;
+  if (ui && typeof ui === 'object') {
+    if ('theme' in ui) {
+      if (!(THEMES as readonly unknown[]).includes(ui.theme)) throw new Error(`ui.theme must be one of ${THEMES.join(', ')}`);
+      next.ui.theme = ui.theme as Theme;
+    }
+    if ('fontSize' in ui) {
+      if (typeof ui.fontSize !== 'number' || !(ui.fontSize >= 8 && ui.fontSize <= 48)) throw new Error('ui.fontSize must be between 8 and 48');
+      next.ui.fontSize = ui.fontSize;
+    }
+    if ('live' in ui) {
+      if (typeof ui.live !== 'boolean') throw new Error('ui.live must be true or false');
+      next.ui.live = ui.live;
+    }
+    if ('confidenceThreshold' in ui) {
+      const value = ui.confidenceThreshold;
+      if (typeof value !== 'number' || !(value >= 0 && value <= 1)) throw new Error('ui.confidenceThreshold must be between 0 and 1');
+      next.ui.confidenceThreshold = value;
+    }
+  }
+  return next;
+}
+
+/** The rule set called `name`, ignoring case */
+export function findRuleSet(settings: Pick<Settings, 'ruleSets'>, name: string | undefined): RuleSet | undefined {
+  if (!name) return undefined;
+  return settings.ruleSets.find((set) => set.name.toLowerCase() === name.toLowerCase());
+}
+
+// a hand-edited file may hold anything: keep every value that is valid on its own
+function sanitize(raw: unknown): Settings {
+  let settings = clone(DEFAULT_SETTINGS);
+  if (!raw || typeof raw !== 'object') return settings;
+  const entries = Object.entries(raw as Record<string, unknown>).flatMap(([key, value]) =>
+    key === 'ui' && value && typeof value === 'object'
+      ? Object.entries(value).map(([uiKey, uiValue]) => ({ ui: { [uiKey]: uiValue } }))
+      : [{ [key]: value }]);
+  // the default rule set is checked against the list, so it comes after it
+  entries.sort((a, b) => Number('ruleSet' in a) - Number('ruleSet' in b));
+  for (const patch of entries) {
+    try {
+      settings = merge(settings, patch);
+    } catch (err: any) {
+      console.warn(`settings: ignoring invalid value in ${config.path}: ${err?.message ?? err}`);
+    }
+  }
+  return settings;
+}
+
+export async function loadSettings(): Promise<Settings> {
+  if (current) return current;
+  try {
+    current = sanitize(JSON.parse(await fs.readFile(config.path, 'utf8')));
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') console.warn(`settings: cannot read ${config.path}, using defaults: ${err?.message ?? err}`);
+    current = clone(DEFAULT_SETTINGS);
+  }
+  return current;
+}
+
+async function save(settings: Settings) {
+  await fs.mkdir(path.dirname(config.path), { recursive: true });
+  // write to a temp file and rename, so a crash never leaves a half-written file behind
+  const tmp = `${config.path}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(settings, null, 2), 'utf8');
+  await fs.rename(tmp, config.path);
+}
+
+function notify(settings: Settings) {
+  for (const listener of listeners) {
+    try {
+      listener(settings);
+    } catch (err) {
+      console.warn('settings listener failed', err);
+    }
+  }
+}
+
+/** Validates and stores a partial change; rejects without changing anything when a value is invalid */
+export function updateSettings(patch: SettingsPatch): Promise<Settings> {
+  const result = writing.then(async () => {
+    const next = merge(await loadSettings(), patch as Record<string, unknown>);
+    await save(next);
+    current = next;
+    notify(next);
+    return next;
+  });
+  writing = result.then(() => {}, () => {});
+  return result;
+}
+
+export function resetSettings(): Promise<Settings> {
+  const result = writing.then(async () => {
+    const next = clone(DEFAULT_SETTINGS);
+    await save(next);
+    current = next;
+    notify(next);
+    return next;
+  });
+  writing = result.then(() => {}, () => {});
+  return result;
+}
+
+/** Returns a function that removes the listener */
+export function onSettingsChange(listener: (settings: Settings) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export default { configureSettings, loadSettings, updateSettings, resetSettings, onSettingsChange, findRuleSet, userDataDirectory };
@@ -0,0 +1,91 @@
+import { parentPort, workerData } from 'worker_threads';
+import { configureEngines, getEngine } from './engines/index.js';
+import { configureModels } from './model-config.js';
+import { configureSettings, loadSettings } from './settings.js';
+import { transcribeFile, transcribeSamples, type TranscribeOptions } from './transcribe.js';
+import type { WorkerData, WorkerRequest, WorkerResponse } from './workers.js';
+
+/**
+ * Entry point of a transcription worker thread (started by workers.ts)
+ * - Runs one transcribe request at a time as the pool sends them, forwarding progress and log messages
+ * - Preload requests load a model alongside; a transcription of the same model waits for that load
+ * - A cancel request aborts the matching transcription, which answers with an AbortError
+ */
+
+const port = parentPort;
+if (!port) throw new Error('transcribe-worker.ts runs in a worker thread (see workers.ts)');
+
+const data = workerData as WorkerData;
+configureSettings({ path: data.settingsPath });
+configureModels(data.models);
+configureEngines({ defaultEngine: data.defaultEngine });
+
+const running = new Map<number, AbortController>();
+
+function send(message: WorkerResponse) {
+  port!.postMessage(message);
+}
+
+function fail(id: number, err: any) {
+  send({
+    type: 'error',
+    id,
+    error: {
+      message: err?.message ?? String(err),
+      ...(err?.name ? { name: String(err.name) } : {}),
+      ...(err?.code ? { code: String(err.code) } : {}),
+    },
+  });
+}
+
+async function transcribe(request: Extract<WorkerRequest, { type: 'transcribe-file' | 'transcribe-samples' }>) {
+  const { id } = request;
+  const controller = new AbortController();
+  running.set(id, controller);
+  const options: TranscribeOptions = {
+    ...request.options,
+    signal: controller.signal,
+    log: (message) => send({ type: 'log', id, message }),
+    ...(request.progress ? { onProgress: (progress) => send({ type: 'progress', id, progress }) } : {}),
+  };
+  try {
+    const transcript = request.type === 'transcribe-file'
+      ? await transcribeFile(request.filePath, options)
+      : await transcribeSamples(request.samples, options);
+    send({ type: 'done', id, transcript });
+  } catch (err) {
+    fail(id, err);
+  } finally {
+    running.delete(id);
+  }
+}
+
+async function preload(request: Extract<WorkerRequest, { type: 'preload' }>) {
+  try {
+    const settings = await loadSettings();
+    const engine = await getEngine(request.engine ?? settings.engine);
+    await engine.preload?.(request.model ?? engine.defaultModel);
+    send({ type: 'done', id: request.id });
+  } catch (err) {
+    fail(request.id, err);
+  }
+}
+
+port.on('message', (request: WorkerRequest) => {
+  switch (request.type) {
+    case 'transcribe-file':
+    case 'transcribe-samples':
+      void transcribe(request);
+      break;
+    case 'preload':
+      void preload(request);
+      break;
+    case 'cancel':
+      running.get(request.id)?.abort();
+      break;
+    case 'settings-changed':
+      // drops the cached copy; the next request reads the file again
+      configureSettings({ path: data.settingsPath });
+      break;
+  }
+});
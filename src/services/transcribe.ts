@@ -1,87 +1,275 @@
-import fs from 'fs/promises';
-import { pipeline } from '@xenova/transformers';
-import wavDecoder from 'wav-decoder';
-import { spawn } from 'child_process';
-import path from 'path';
-import os from 'os';
+import { loadAudio16k, SAMPLE_RATE } from './audio.js';
+import { planChunks, stitchChunks, type AudioChunk } from './chunking.js';
+import { getDefaultEngineName, getEngine } from './engines/index.js';
+import { AUTO_LANGUAGE, isEnglishOnlyModel, normalizeLanguage, type TranscribeTask } from './languages.js';
+import { findRuleSet, loadSettings } from './settings.js';
+import { detectSpeech, planUtterances, speechDuration, type VadOptions } from './vad.js';
+import { assignSpeakers, diarize, type DiarizationOptions } from './diarization.js';
+import { describePreprocess, isPreprocessEmpty, type PreprocessOptions } from './preprocess.js';
+import { describeTextRules, enginePrompt, postprocessTranscript, rewritesText, type TextRules } from './postprocess.js';
+import type { TimestampMode, Transcript } from './types.js';
 
 /**
  * Transcription service
- * - Exports transcribeFile(filePath, modelId?) which returns transcript string
- * - Uses ffmpeg (system or ffmpeg-static) to create a 16k mono WAV, decodes and runs Xenova pipeline
+ * - Exports transcribeFile(filePath, options?) which returns a Transcript (text + timed segments)
+ * - Uses ffmpeg (system or ffmpeg-static) to create 16k mono samples, then runs the selected engine
+ * - transcribeSamples() does the same for audio that is already decoded
+ * - Long audio is split into overlapping windows (see chunking.ts) and reported through onProgress
+ * - With `vad`, silence is skipped and each detected utterance is transcribed as its own window
+ * - Words are scored with the model's confidence unless `confidence` is false
+ * - With `diarize`, segments are labelled with speakers found in the same samples (see diarization.ts)
+ * - transcribeFile can be limited to a `start`/`end` range; timings stay relative to the whole file
+ * - transcribeFile takes any file ffmpeg reads, video included; `track` picks one of several audio tracks
+ * - transcribeFile applies the `preprocess` steps while decoding (see preprocess.ts); a tempo change is undone
+ *   on the timings
+ * - `prompt` and the vocabulary of the text `rules` are handed to engines that take a prompt; the other rules
+ *   rewrite the result (see postprocess.ts). checkPrompt() tells callers up front when the engine would drop the prompt
+ * - An aborted `signal` kills ffmpeg / engine processes and stops before the next window (rejects with an AbortError)
+ * - workers.ts runs the same functions in worker threads; services that transcribe take a Transcriber so the
+ *   Electron main process can hand the work to them
+ * - Options left out are taken from the user settings (engine, model, language, chunk length, vad, preprocessing,
+ *   rule set), then built-in defaults
  */
 
-async function runFfmpegTo16kMono(inputPath: string): Promise<string> {
-  const tmp = path.join(os.tmpdir(), `vtp_tmp_${Date.now()}.wav`);
-  let ffmpegExec = 'ffmpeg';
-  try {
-    const ffmpegStatic = await import('ffmpeg-static');
-    ffmpegExec = (ffmpegStatic && (ffmpegStatic.default || ffmpegStatic)) as unknown as string;
-  } catch (e) {
-    // fallback to system ffmpeg
-  }
+export type TranscribeProgress = {
+  stage: 'decoding' | 'transcribing' | 'done';
+  /** 0-100, by audio duration processed */
+  percent: number;
+  /** 1-based index of the window being transcribed */
+  chunk: number;
+  chunks: number;
+  elapsedMs: number;
+  /** estimated time left, once the first window has finished */
+  etaMs?: number;
+};
+
+export type TranscribeOptions = {
+  /** engine name (xenova, whisper-cpp, fake); defaults to the settings, then the configured engine */
+  engine?: string;
+  /** model id for the engine; defaults to the settings (for the same engine), then the engine's own default */
+  model?: string;
+  /** source language code or name (e.g. 'fr' or 'french'), or 'auto' to detect it */
+  language?: string;
+  /** 'translate' produces English text from any source language */
+  task?: TranscribeTask;
+  timestamps?: TimestampMode;
+  /** window length for long audio in seconds (0 disables chunking); default 30 */
+  chunkSeconds?: number;
+  /** overlap between consecutive windows in seconds; default 5 */
+  strideSeconds?: number;
+  /** score words with the model's probabilities (see confidence.ts); default true */
+  confidence?: boolean;
+  /** skip silence and transcribe speech regions only (see vad.ts) */
+  vad?: boolean | VadOptions;
+  /** label segments by speaker; pass `{ speakers }` when the number of speakers is known */
+  diarize?: boolean | DiarizationOptions;
+  /** transcribeFile only: filters, channel and tempo applied while decoding; `{}` for none */
+  preprocess?: PreprocessOptions;
+  /** initial prompt for the model, in place of the rule set's */
+  prompt?: string;
+  /** vocabulary and text rules (see postprocess.ts); defaults to the settings' rule set, `{}` for none */
+  rules?: TextRules;
+  /** transcribeFile only: 0-based audio track (see listAudioTracks); defaults to ffmpeg's pick */
+  track?: number;
+  /** transcribeFile only: range of the file to transcribe, in seconds */
+  start?: number;
+  end?: number;
+  /** receives progress messages; defaults to console.log */
+  log?: (message: string) => void;
+  onProgress?: (progress: TranscribeProgress) => void;
+  signal?: AbortSignal;
+};
+
+/** transcribeFile and transcribeSamples, or stand-ins that run them elsewhere (see workers.ts) */
+export type Transcriber = {
+  transcribeFile: (filePath: string, options?: TranscribeOptions) => Promise<Transcript>;
+  transcribeSamples: (samples: Float32Array, options?: TranscribeOptions) => Promise<Transcript>;
+};
+
+function ignoredPromptMessage(engine: string, ignored: boolean): string | undefined {
+  return ignored ? `${engine} does not take a prompt: the prompt and vocabulary are not sent to the model, only the text rules apply (vocabulary spellings are still restored); use the whisper-cpp engine for the model to see them` : undefined;
+}
 
-  await new Promise<void>((resolve, reject) => {
-    const ff = spawn(ffmpegExec, ['-y', '-i', inputPath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', tmp], { stdio: 'inherit' });
-    ff.on('exit', (code) => code === 0 ? resolve() : reject(new Error(`ffmpeg exit ${code}`)));
-    ff.on('error', reject);
-  });
-  return tmp;
+/**
+ * Warning to show before transcribing when `options` (or the default rule set) carry a prompt the engine would
+ * not get; undefined when the engine takes it or there is none
+ */
+export async function checkPrompt(options: Pick<TranscribeOptions, 'engine' | 'prompt' | 'rules'> = {}): Promise<string | undefined> {
+  const settings = await loadSettings();
+  const engine = await getEngine(options.engine ?? settings.engine);
+  const rules = options.rules ?? findRuleSet(settings, settings.ruleSet) ?? {};
+  return ignoredPromptMessage(engine.name, !!enginePrompt(rules, options.prompt ?? rules.prompt) && !engine.prompts);
 }
 
-function mixdownChannels(channelData: Float32Array[] | undefined): Float32Array {
-  // If no channel data, return empty samples
-  if (!channelData || channelData.length === 0) return new Float32Array(0);
-  if (channelData.length === 1) return channelData[0] ?? new Float32Array(0);
-  const len = channelData[0]!.length;
-  const out = new Float32Array(len);
-  for (let c = 0; c < channelData.length; c++) {
-    const ch = channelData[c];
-    if (!ch) continue;
-    const chArr = ch as Float32Array;
-    for (let i = 0; i < len; i++) out[i] = (out[i] ?? 0) + (chArr[i] ?? 0);
+export async function transcribeSamples(samples: Float32Array, input: TranscribeOptions = {}): Promise<Transcript> {
+  const settings = await loadSettings();
+  const options: TranscribeOptions = {
+    ...(settings.language ? { language: settings.language } : {}),
+    chunkSeconds: settings.chunkSeconds,
+    vad: settings.vad,
+    ...input,
+  };
+  const engine = await getEngine(options.engine ?? settings.engine);
+  const log = options.log ?? console.log;
+  const task = options.task ?? 'transcribe';
+  const language = normalizeLanguage(options.language);
+  // Anything beyond English transcription needs a multilingual checkpoint
+  const multilingual = task === 'translate' || (language !== undefined && language !== 'en');
+  // a model from the settings belongs to the engine from the settings; an English-only one gives way when needed
+  const settingsModel = settings.model && (settings.engine ?? getDefaultEngineName()) === engine.name
+    && !(multilingual && isEnglishOnlyModel(settings.model)) ? settings.model : undefined;
+  const model = options.model ?? settingsModel ?? (multilingual ? engine.multilingualModel ?? engine.defaultModel : engine.defaultModel);
+  if (isEnglishOnlyModel(model) && multilingual) {
+    throw new Error(`${model} is an English-only model; choose a multilingual model for ${task === 'translate' ? 'translation' : `language "${language}"`}`);
+  }
+  // Multilingual models detect the language unless told; English-only models take no language at all
+  const engineLanguage = isEnglishOnlyModel(model) ? undefined : (language ?? AUTO_LANGUAGE);
+  const rules = options.rules ?? findRuleSet(settings, settings.ruleSet) ?? {};
+  const prompt = enginePrompt(rules, options.prompt ?? rules.prompt);
+  const ignored = ignoredPromptMessage(engine.name, !!prompt && !engine.prompts);
+  if (ignored) log(ignored);
+  log(`Loading model and transcribing with ${engine.name} (may take a while)...`);
+
+  const started = Date.now();
+  const duration = samples.length / SAMPLE_RATE;
+  const chunks = options.vad
+    ? utteranceChunks(samples, options.vad === true ? {} : options.vad, options.chunkSeconds, log)
+    : planChunks(samples.length, {
+      ...(options.chunkSeconds !== undefined ? { chunkSeconds: options.chunkSeconds } : {}),
+      ...(options.strideSeconds !== undefined ? { strideSeconds: options.strideSeconds } : {}),
+    });
+  if (chunks.length === 0) {
+    log('No speech detected.');
+    options.onProgress?.({ stage: 'done', percent: 100, chunk: 0, chunks: 0, elapsedMs: Date.now() - started });
+    const empty: Transcript = { text: '', segments: [], duration, model, task };
+    if (language) empty.language = language;
+    return empty;
+  }
+  // stitching needs timings, so windows always get at least segment timestamps
+  const timestamps = chunks.length > 1 ? (options.timestamps || 'segment') : (options.timestamps ?? 'segment');
+  const report = (stage: TranscribeProgress['stage'], chunk: number, doneSeconds: number) => {
+    if (!options.onProgress) return;
+    const elapsedMs = Date.now() - started;
+    const progress: TranscribeProgress = {
+      stage,
+      percent: duration > 0 ? Math.min(100, (doneSeconds / duration) * 100) : 100,
+      chunk,
+      chunks: chunks.length,
+      elapsedMs,
+    };
+    if (doneSeconds > 0 && stage !== 'done') progress.etaMs = (elapsedMs / doneSeconds) * (duration - doneSeconds);
+    options.onProgress(progress);
+  };
+
+  let windowLanguage = engineLanguage;
+  const parts: { chunk: AudioChunk; transcript: Transcript }[] = [];
+  for (const chunk of chunks) {
+    options.signal?.throwIfAborted();
+    report('transcribing', chunk.index + 1, chunk.start / SAMPLE_RATE);
+    if (chunks.length > 1) log(`Transcribing window ${chunk.index + 1}/${chunks.length}...`);
+    const transcript = await engine.transcribe(samples.subarray(chunk.start, chunk.end), {
+      model,
+      task,
+      timestamps,
+      confidence: options.confidence ?? true,
+      ...(windowLanguage ? { language: windowLanguage } : {}),
+      ...(prompt ? { prompt } : {}),
+      ...(options.signal ? { signal: options.signal } : {}),
+    });
+    // keep the language detected on the first window for the rest of the file
+    if (windowLanguage === AUTO_LANGUAGE && transcript.language) {
+      log(`Detected language: ${transcript.language}`);
+      windowLanguage = transcript.language;
+    }
+    parts.push({ chunk, transcript });
   }
-  // Avoid division by zero — count only non-empty channels
-  const channels = channelData.filter((c) => !!c).length || 1;
-  for (let i = 0; i < len; i++) out[i] = (out[i] ?? 0) / channels;
-  return out;
+  const transcript = parts.length === 1 && parts[0]!.chunk.start === 0
+    ? { ...parts[0]!.transcript, duration }
+    : stitchChunks(parts, duration);
+  const labelled = options.diarize ? labelSpeakers(transcript, samples, options.diarize, log) : transcript;
+  // after diarization, so sentence casing knows where each speaker starts
+  if (rewritesText(rules)) log(`Applying text rules: ${describeTextRules(rules)}`);
+  const result = postprocessTranscript(labelled, rules);
+  report('done', chunks.length, duration);
+  return result;
 }
 
-async function decodeWavToFloat32(filePath: string): Promise<{ samples: Float32Array; sampleRate: number; }> {
-  const buf = await fs.readFile(filePath);
-  const audioData = await wavDecoder.decode(Buffer.from(buf));
-  const sampleRate = audioData.sampleRate;
-  // Normalize channelData shape: wav-decoder typings may include undefined channels
-  const rawChannels = (audioData as any).channelData as (Float32Array | undefined)[] | undefined;
-  const normalized = (rawChannels ?? []).map((c) => c ?? new Float32Array(0));
-  const samples = mixdownChannels(normalized.length ? normalized : undefined);
-  return { samples, sampleRate };
+/** Label the segments of a transcript of `samples` by speaker */
+export function labelSpeakers(transcript: Transcript, samples: Float32Array, options: true | DiarizationOptions, log: (message: string) => void = console.log): Transcript {
+  log('Identifying speakers...');
+  const turns = diarize(samples, SAMPLE_RATE, options === true ? {} : options);
+  const labelled = assignSpeakers(transcript, turns);
+  log(`Speakers: ${labelled.speakers?.length ?? 0}`);
+  return labelled;
 }
 
-export async function transcribeFile(filePath: string, modelId = 'Xenova/whisper-small.en') {
-  console.log('Preparing audio (resample to 16k mono if needed)...');
-  const tmpPath = await runFfmpegTo16kMono(filePath);
-
-  try {
-    console.log('Decoding WAV...');
-    const { samples } = await decodeWavToFloat32(tmpPath);
-
-    console.log('Loading model and transcribing (may take a while)...');
-    const asr = await pipeline('automatic-speech-recognition', modelId);
-    const result = await asr(samples);
-    let text: string;
-    if (typeof result === 'string') {
-      text = result;
-    } else if (Array.isArray(result)) {
-      // Join multiple segments/outputs
-      text = result.map((r: any) => (r?.text ?? JSON.stringify(r))).join('\n');
-    } else {
-      text = (result?.text ?? JSON.stringify(result));
-    }
-    return text;
-  } finally {
-    await fs.unlink(tmpPath).catch(() => { /* ignore */ });
+// Utterances never overlap; each window owns the silence up to its neighbours so edge timings are kept
+function utteranceChunks(samples: Float32Array, vad: VadOptions, chunkSeconds: number | undefined, log: (message: string) => void): AudioChunk[] {
+  const regions = detectSpeech(samples, SAMPLE_RATE, vad);
+  const utterances = planUtterances(samples, regions, SAMPLE_RATE, { maxSeconds: chunkSeconds || 30 });
+  const duration = samples.length / SAMPLE_RATE;
+  log(`Voice activity: ${speechDuration(regions).toFixed(1)} s of speech in ${duration.toFixed(1)} s, ${utterances.length} utterance(s)`);
+  return utterances.map((u, index) => ({
+    index,
+    start: Math.floor(u.start * SAMPLE_RATE),
+    end: Math.min(samples.length, Math.ceil(u.end * SAMPLE_RATE)),
+    ownStart: index === 0 ? 0 : utterances[index - 1]!.end,
+    ownEnd: utterances[index + 1]?.start ?? duration,
+  }));
+}
+
+/** Multiply every timing by `factor`, e.g. the tempo the audio was played at */
+export function scaleTranscript(transcript: Transcript, factor: number): Transcript {
+  if (factor === 1) return transcript;
+  return {
+    ...transcript,
+    ...(transcript.duration !== undefined ? { duration: transcript.duration * factor } : {}),
+    segments: transcript.segments.map((seg) => ({
+      ...seg,
+      start: seg.start * factor,
+      end: seg.end * factor,
+      ...(seg.words ? { words: seg.words.map((w) => ({ ...w, start: w.start * factor, end: w.end * factor })) } : {}),
+    })),
+  };
+}
+
+/** Move every timing by `offset` seconds */
+export function offsetTranscript(transcript: Transcript, offset: number): Transcript {
+  if (!offset) return transcript;
+  return {
+    ...transcript,
+    segments: transcript.segments.map((seg) => ({
+      ...seg,
+      start: seg.start + offset,
+      end: seg.end + offset,
+      ...(seg.words ? { words: seg.words.map((w) => ({ ...w, start: w.start + offset, end: w.end + offset })) } : {}),
+    })),
+  };
+}
+
+export async function transcribeFile(filePath: string, options: TranscribeOptions = {}): Promise<Transcript> {
+  const log = options.log ?? console.log;
+  const { start, end, track } = options;
+  if ((start !== undefined && !(start >= 0)) || (end !== undefined && !(end > (start ?? 0)))) {
+    throw new Error(`invalid range: ${start ?? 0}-${end ?? 'end'}`);
   }
+  const preprocess = options.preprocess ?? (await loadSettings()).preprocess;
+  log(isPreprocessEmpty(preprocess)
+    ? 'Preparing audio (resample to 16k mono if needed)...'
+    : `Preparing audio (16k mono, preprocessing: ${describePreprocess(preprocess)})...`);
+  options.onProgress?.({ stage: 'decoding', percent: 0, chunk: 0, chunks: 0, elapsedMs: 0 });
+  const samples = await loadAudio16k(filePath, {
+    ...(start !== undefined ? { start } : {}),
+    ...(end !== undefined ? { end } : {}),
+    ...(track !== undefined ? { track } : {}),
+    preprocess,
+  }, options.signal);
+  options.signal?.throwIfAborted();
+  const transcript = await transcribeSamples(samples, options);
+  return offsetTranscript(scaleTranscript(transcript, preprocess.tempo ?? 1), start ?? 0);
 }
 
-export default { transcribeFile };
+/** Transcription in the calling thread */
+export const localTranscriber: Transcriber = { transcribeFile, transcribeSamples };
+
+export default { transcribeFile, transcribeSamples, checkPrompt, offsetTranscript, scaleTranscript, labelSpeakers, localTranscriber };
@@ -0,0 +1,61 @@
+import type { TranscribeTask } from './languages.js';
+
+/**
+ * Shared transcript types
+ * - Times are in seconds from the start of the transcribed audio (of the file, when only a range of it was transcribed)
+ * - `words` is only filled when word-level timestamps were requested
+ * - `confidence` values are model probabilities (0-1) and only set when the engine can score its output;
+ *   without word timings the per-word scores are in `wordScores` (see confidence.ts)
+ * - `speaker` and `speakers` are only set on diarized transcripts; segments refer to speakers by id so a rename
+ *   only touches `speakers`
+ */
+
+export type TranscriptWord = {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+};
+
+/** a word of a segment without word timings, with its score */
+export type WordScore = {
+  text: string;
+  /** left out for a word the user corrected */
+  confidence?: number;
+};
+
+export type TranscriptSegment = {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  words?: TranscriptWord[];
+  /** mean score of the words */
+  confidence?: number;
+  /** per-word scores when there are no `words`; their texts joined by spaces give `text` */
+  wordScores?: WordScore[];
+  /** id of an entry in Transcript.speakers */
+  speaker?: string;
+};
+
+export type TranscriptSpeaker = {
+  /** stable id ('S1', 'S2', ...) */
+  id: string;
+  /** display name, "Speaker 1" until renamed */
+  name: string;
+};
+
+export type Transcript = {
+  text: string;
+  segments: TranscriptSegment[];
+  model?: string;
+  duration?: number;
+  /** spoken language code, as given by the caller or detected by the engine */
+  language?: string;
+  /** 'translate' means `text` is an English translation of `language` audio */
+  task?: TranscribeTask;
+  speakers?: TranscriptSpeaker[];
+};
+
+/** `false` disables timestamps, `'segment'` gives sentence-like chunks, `'word'` adds per-word timings */
+export type TimestampMode = false | 'segment' | 'word';
@@ -0,0 +1,153 @@
+/**
+ * Voice activity detection
+ * - Energy based: frames louder than the recording's own noise floor (plus a margin) count as speech
+ * - detectSpeech returns padded speech regions, with short pauses bridged and short blips dropped
+ * - planUtterances merges nearby regions and splits long ones so each piece fits one model window
+ * - Pure functions on Float32 samples (no Node APIs), so the renderer can use them for its overlay
+ */
+
+export type SpeechRegion = {
+  /** seconds from the start of the samples */
+  start: number;
+  end: number;
+};
+
+export type VadOptions = {
+  /** analysis frame length in milliseconds; default 30 */
+  frameMs?: number;
+  /** how far above the noise floor a frame must be to count as speech, in dB; default 10 */
+  thresholdDb?: number;
+  /** frames quieter than this are never speech, in dBFS; default -55 */
+  minLevelDb?: number;
+  /** speech shorter than this is dropped as a click or breath; default 150 */
+  minSpeechMs?: number;
+  /** pauses shorter than this stay inside the surrounding region; default 500 */
+  minSilenceMs?: number;
+  /** silence kept around each region so word edges are not clipped; default 200 */
+  paddingMs?: number;
+};
+
+export type UtteranceOptions = {
+  /** longest utterance in seconds; longer speech is split at its quietest point; default 30 */
+  maxSeconds?: number;
+  /** regions closer than this are joined into one utterance while it stays under maxSeconds; default 1 */
+  mergeGapSeconds?: number;
+  frameMs?: number;
+};
+
+// Whisper's native rate; callers with other rates pass theirs explicitly
+const DEFAULT_SAMPLE_RATE = 16000;
+
+/** Level of each frame in dBFS */
+export function frameLevels(samples: Float32Array, sampleRate = DEFAULT_SAMPLE_RATE, frameMs = 30): Float32Array {
+  const frame = Math.max(1, Math.round((sampleRate * frameMs) / 1000));
+  const levels = new Float32Array(Math.ceil(samples.length / frame));
+  for (let f = 0; f < levels.length; f++) {
+    const start = f * frame;
+    const end = Math.min(samples.length, start + frame);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      const v = samples[i] ?? 0;
+      sum += v * v;
+    }
+    const rms = Math.sqrt(sum / Math.max(1, end - start));
+    levels[f] = 20 * Math.log10(rms + 1e-10);
+  }
+  return levels;
+}
+
+function percentile(values: Float32Array, p: number): number {
+  if (values.length === 0) return -Infinity;
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]!;
+}
+
+export function detectSpeech(samples: Float32Array, sampleRate = DEFAULT_SAMPLE_RATE, options: VadOptions = {}): SpeechRegion[] {
+  const frameMs = options.frameMs ?? 30;
+  const levels = frameLevels(samples, sampleRate, frameMs);
+  if (levels.length === 0) return [];
+  const frameSeconds = frameMs / 1000;
+  const duration = samples.length / sampleRate;
+
+  // Noise floor from the quietest frames; audio without real pauses has a floor close to its peak,
+  // so the threshold is also capped below the peak and such audio counts as speech throughout
+  const floor = percentile(levels, 0.1);
+  const peak = percentile(levels, 0.98);
+  const threshold = Math.max(options.minLevelDb ?? -55, Math.min(floor + (options.thresholdDb ?? 10), peak - 20));
+
+  const raw: SpeechRegion[] = [];
+  let startFrame = -1;
+  for (let f = 0; f <= levels.length; f++) {
+    const speech = f < levels.length && levels[f]! >= threshold;
+    if (speech && startFrame < 0) startFrame = f;
+    if (!speech && startFrame >= 0) {
+      raw.push({ start: startFrame * frameSeconds, end: Math.min(duration, f * frameSeconds) });
+      startFrame = -1;
+    }
+  }
+
+  // bridge short pauses first, so a word split by a stop consonant is not dropped as a blip
+  const minSilence = (options.minSilenceMs ?? 500) / 1000;
+  const bridged: SpeechRegion[] = [];
+  for (const region of raw) {
+    const last = bridged[bridged.length - 1];
+    if (last && region.start - last.end < minSilence) last.end = region.end;
+    else bridged.push({ ...region });
+  }
+
+  const minSpeech = (options.minSpeechMs ?? 150) / 1000;
+  const padding = (options.paddingMs ?? 200) / 1000;
+  const regions: SpeechRegion[] = [];
+  for (const region of bridged) {
+    if (region.end - region.start < minSpeech) continue;
+    const padded = { start: Math.max(0, region.start - padding), end: Math.min(duration, region.end + padding) };
+    const last = regions[regions.length - 1];
+    if (last && padded.start <= last.end) last.end = padded.end;
+    else regions.push(padded);
+  }
+  return regions;
+}
+
+/** Group speech regions into utterances of at most `maxSeconds`, cutting long speech where it is quietest */
+export function planUtterances(
+  samples: Float32Array,
+  regions: SpeechRegion[],
+  sampleRate = DEFAULT_SAMPLE_RATE,
+  options: UtteranceOptions = {},
+): SpeechRegion[] {
+  const maxSeconds = options.maxSeconds ?? 30;
+  const mergeGap = options.mergeGapSeconds ?? 1;
+  const frameMs = options.frameMs ?? 30;
+
+  const pieces: SpeechRegion[] = [];
+  for (const region of regions) {
+    let start = region.start;
+    while (region.end - start > maxSeconds) {
+      // search the second half of the window for the quietest frame
+      const from = Math.floor((start + maxSeconds / 2) * sampleRate);
+      const to = Math.floor((start + maxSeconds) * sampleRate);
+      const levels = frameLevels(samples.subarray(from, to), sampleRate, frameMs);
+      let quietest = levels.length - 1;
+      for (let f = 0; f < levels.length; f++) if (levels[f]! < levels[quietest]!) quietest = f;
+      const cut = Math.min(start + maxSeconds, from / sampleRate + ((quietest + 0.5) * frameMs) / 1000);
+      pieces.push({ start, end: cut });
+      start = cut;
+    }
+    pieces.push({ start, end: region.end });
+  }
+
+  const utterances: SpeechRegion[] = [];
+  for (const piece of pieces) {
+    const last = utterances[utterances.length - 1];
+    if (last && piece.start - last.end <= mergeGap && piece.end - last.start <= maxSeconds) last.end = piece.end;
+    else utterances.push({ ...piece });
+  }
+  return utterances;
+}
+
+/** Seconds of speech in `regions` */
+export function speechDuration(regions: SpeechRegion[]): number {
+  return regions.reduce((sum, r) => sum + (r.end - r.start), 0);
+}
+
+export default { detectSpeech, planUtterances, frameLevels, speechDuration };
@@ -0,0 +1,311 @@
+import fs from 'fs/promises';
+import { watch as watchFs, type FSWatcher } from 'fs';
+import path from 'path';
+import { isMediaFile } from './audio.js';
+import { formatTranscript, type OutputFormat } from './formats.js';
+import { localTranscriber, type TranscribeOptions } from './transcribe.js';
+import type { Transcript } from './types.js';
+
+/**
+ * Watched folders
+ * - startWatching scans a folder (and optionally its sub-folders) for audio and video files, on a timer and
+ *   whenever the file system reports a change, and transcribes new or changed files one at a time
+ * - A file is only picked up once its size and modification time have stayed the same for `settleMs`, so
+ *   recorders and copies still writing it are left alone
+ * - Transcripts go to the output folder (default <folder>/transcripts), keeping sub-folders, named after the whole
+ *   file name: talk.mp4 gives talk.mp4.txt
+ * - A state file (default <folder>/.transcribe-watch.json) records every processed file with its size and date,
+ *   so a restart skips what is already done and a file that changes afterwards is transcribed again
+ * - A file that fails is moved to the error folder (default <folder>/failed) and the reason appended to its
+ *   errors.log; stopping the watcher mid-transcription leaves the file to the next start, and a transcription
+ *   cancelled from elsewhere leaves the file in place until it changes
+ */
+
+export type WatchOptions = {
+  directory: string;
+  outputDirectory?: string;
+  errorDirectory?: string;
+  stateFile?: string;
+  /** default txt */
+  formats?: OutputFormat[];
+  /** include sub-folders */
+  recursive?: boolean;
+  /** how long a file must stay unchanged before it is transcribed; default 5 s */
+  settleMs?: number;
+  /** time between scans; file system events trigger one sooner. Default 2 s */
+  pollMs?: number;
+  /** options for every file; `signal` and `log` are set by the watcher */
+  options?: TranscribeOptions;
+  /** runs a transcription; defaults to transcribeFile in this thread */
+  transcribe?: (filePath: string, options: TranscribeOptions) => Promise<Transcript>;
+  onEvent?: (event: WatchEvent) => void;
+};
+
+export type WatchEvent =
+  | { type: 'waiting'; file: string }
+  | { type: 'started'; file: string }
+  | { type: 'done'; file: string; outputs: string[] }
+  | { type: 'failed'; file: string; error: string; movedTo?: string }
+  | { type: 'cancelled'; file: string }
+  | { type: 'error'; error: string };
+
+export type Watcher = {
+  directory: string;
+  outputDirectory: string;
+  errorDirectory: string;
+  stateFile: string;
+  /** scan now instead of at the next tick */
+  scan: () => Promise<void>;
+  /** stop watching; a transcription in progress is cancelled and left for the next start */
+  stop: () => Promise<void>;
+};
+
+type FileRecord = {
+  size: number;
+  mtimeMs: number;
+  status: 'done' | 'failed' | 'cancelled';
+  finishedAt: number;
+  outputs?: string[];
+  error?: string;
+};
+
+type WatchState = { version: 1; files: Record<string, FileRecord> };
+
+type Candidate = { size: number; mtimeMs: number; since: number };
+
+const IGNORED = /^\.|\.(part|partial|tmp|crdownload|download)$/i;
+
+async function readState(stateFile: string): Promise<WatchState> {
+  try {
+    const data = JSON.parse(await fs.readFile(stateFile, 'utf8'));
+    if (data && typeof data === 'object' && data.files && typeof data.files === 'object') return { version: 1, files: data.files };
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') console.warn(`watch: cannot read ${stateFile}, starting afresh: ${err?.message ?? err}`);
+  }
+  return { version: 1, files: {} };
+}
+
+async function writeState(stateFile: string, state: WatchState) {
+  await fs.mkdir(path.dirname(stateFile), { recursive: true });
+  // write to a temp file and rename, so a crash never leaves a half-written file behind
+  const tmp = `${stateFile}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(state, null, 2), 'utf8');
+  await fs.rename(tmp, stateFile);
+}
+
+const inside = (child: string, parent: string) => {
+  const rel = path.relative(parent, child);
+  return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+};
+
+/** A name in `directory` that is not taken yet: name.ext, name-1.ext, name-2.ext... */
+async function freeName(directory: string, name: string): Promise<string> {
+  const ext = path.extname(name);
+  const base = name.slice(0, name.length - ext.length);
+  for (let i = 0; ; i++) {
+    const candidate = path.join(directory, i ? `${base}-${i}${ext}` : name);
+    if (!await fs.stat(candidate).then(() => true, () => false)) return candidate;
+  }
+}
+
+async function moveFile(from: string, to: string) {
+  try {
+    await fs.rename(from, to);
+  } catch (err: any) {
+    // the error folder may be on another drive
+    if (err?.code !== 'EXDEV') throw err;
+    await fs.copyFile(from, to);
+    await fs.unlink(from);
+  }
+}
+
+export async function startWatching(input: WatchOptions): Promise<Watcher> {
+  const directory = path.resolve(input.directory);
+  const stat = await fs.stat(directory).catch(() => null);
+  if (!stat?.isDirectory()) throw new Error(`not a folder: ${directory}`);
+  const outputDirectory = path.resolve(input.outputDirectory ?? path.join(directory, 'transcripts'));
+  const errorDirectory = path.resolve(input.errorDirectory ?? path.join(directory, 'failed'));
+  const stateFile = path.resolve(input.stateFile ?? path.join(directory, '.transcribe-watch.json'));
+  const formats = input.formats?.length ? input.formats : ['txt' as const];
+  const settleMs = input.settleMs ?? 5000;
+  const pollMs = input.pollMs ?? 2000;
+  const transcribe = input.transcribe ?? localTranscriber.transcribeFile;
+  const emit = (event: WatchEvent) => {
+    try {
+      input.onEvent?.(event);
+    } catch (err) {
+      console.warn('watch listener failed', err);
+    }
+  };
+
+  const state = await readState(stateFile);
+  const candidates = new Map<string, Candidate>();
+  const queue: string[] = [];
+  let current: { key: string; controller: AbortController; done: Promise<void> } | null = null;
+  let scanning: Promise<void> | null = null;
+  let rescan = false;
+  let stopped = false;
+  let saving = Promise.resolve();
+
+  const save = () => {
+    saving = saving.then(() => writeState(stateFile, state)).catch((err) => emit({ type: 'error', error: `cannot save ${stateFile}: ${err?.message ?? err}` }));
+    return saving;
+  };
+
+  async function listFiles(dir: string): Promise<string[]> {
+    // transcripts and failed files may live inside the watched folder; never pick them up again
+    if (inside(dir, outputDirectory) || inside(dir, errorDirectory)) return [];
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries) {
+      if (IGNORED.test(entry.name)) continue;
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (input.recursive) files.push(...await listFiles(full));
+      } else if (entry.isFile() && isMediaFile(entry.name)) {
+        files.push(full);
+      }
+    }
+    return files;
+  }
+
+  async function scanOnce() {
+    const now = Date.now();
+    const seen = new Set<string>();
+    for (const file of await listFiles(directory)) {
+      const key = path.relative(directory, file).split(path.sep).join('/');
+      seen.add(key);
+      if (current?.key === key || queue.includes(key)) continue;
+      const info = await fs.stat(file).catch(() => null);
+      if (!info) continue;
+      const record = state.files[key];
+      if (record && record.size === info.size && record.mtimeMs === info.mtimeMs) continue;
+      const candidate = candidates.get(key);
+      if (!candidate || candidate.size !== info.size || candidate.mtimeMs !== info.mtimeMs) {
+        if (!candidate) emit({ type: 'waiting', file });
+        candidates.set(key, { size: info.size, mtimeMs: info.mtimeMs, since: now });
+        continue;
+      }
+      if (info.size > 0 && now - candidate.since >= settleMs) {
+        candidates.delete(key);
+        queue.push(key);
+      }
+    }
+    for (const key of candidates.keys()) if (!seen.has(key)) candidates.delete(key);
+    pump();
+  }
+
+  function scan(): Promise<void> {
+    if (stopped) return Promise.resolve();
+    if (scanning) {
+      rescan = true;
+      return scanning;
+    }
+    scanning = (async () => {
+      do {
+        rescan = false;
+        try {
+          await scanOnce();
+        } catch (err: any) {
+          emit({ type: 'error', error: `cannot scan ${directory}: ${err?.message ?? err}` });
+        }
+      } while (rescan && !stopped);
+      scanning = null;
+    })();
+    return scanning;
+  }
+
+  function pump() {
+    if (current || stopped) return;
+    const key = queue.shift();
+    if (key === undefined) return;
+    const controller = new AbortController();
+    current = { key, controller, done: processFile(key, controller.signal).finally(() => { current = null; pump(); }) };
+  }
+
+  async function processFile(key: string, signal: AbortSignal) {
+    const file = path.join(directory, ...key.split('/'));
+    const info = await fs.stat(file).catch(() => null);
+    if (!info) return;
+    emit({ type: 'started', file });
+    try {
+      const transcript = await transcribe(file, { ...input.options, signal, log: () => {} });
+      const relDir = path.dirname(key.split('/').join(path.sep));
+      // the source extension stays in the name, so talk.wav and talk.mp3 do not overwrite each other's transcripts
+      const base = path.basename(key);
+      const outDir = path.join(outputDirectory, relDir);
+      await fs.mkdir(outDir, { recursive: true });
+      const outputs: string[] = [];
+      for (const format of formats) {
+        const out = path.join(outDir, `${base}.${format}`);
+        await fs.writeFile(out, formatTranscript(transcript, format), 'utf8');
+        outputs.push(out);
+      }
+      state.files[key] = { size: info.size, mtimeMs: info.mtimeMs, status: 'done', finishedAt: Date.now(), outputs };
+      emit({ type: 'done', file, outputs });
+    } catch (err: any) {
+      if (signal.aborted) return;
+      // cancelled by someone else (the app's queue panel): left where it is, and only retried once it changes
+      if (err?.name === 'AbortError') {
+        state.files[key] = { size: info.size, mtimeMs: info.mtimeMs, status: 'cancelled', finishedAt: Date.now() };
+        emit({ type: 'cancelled', file });
+        await save();
+        return;
+      }
+      const error = String(err?.message ?? err);
+      let movedTo: string | undefined;
+      try {
+        const target = path.join(errorDirectory, path.dirname(key.split('/').join(path.sep)));
+        await fs.mkdir(target, { recursive: true });
+        movedTo = await freeName(target, path.basename(file));
+        await moveFile(file, movedTo);
+        await fs.appendFile(path.join(errorDirectory, 'errors.log'), `${new Date().toISOString()}\t${key}\t${movedTo}\t${error.replace(/\s+/g, ' ')}\n`, 'utf8');
+      } catch (moveErr: any) {
+        emit({ type: 'error', error: `cannot move ${file} to ${errorDirectory}: ${moveErr?.message ?? moveErr}` });
+        movedTo = undefined;
+      }
+      state.files[key] = { size: info.size, mtimeMs: info.mtimeMs, status: 'failed', finishedAt: Date.now(), error };
+      emit({ type: 'failed', file, error, ...(movedTo ? { movedTo } : {}) });
+    }
+    await save();
+  }
+
+  let fsWatcher: FSWatcher | null = null;
+  let soon: ReturnType<typeof setTimeout> | null = null;
+  try {
+    // events only hurry the next scan along; scans on the timer catch anything they miss
+    fsWatcher = watchFs(directory, { recursive: !!input.recursive }, () => {
+      if (soon || stopped) return;
+      soon = setTimeout(() => { soon = null; void scan(); }, 250);
+    });
+    fsWatcher.on('error', () => { fsWatcher?.close(); fsWatcher = null; });
+  } catch {
+    // some file systems (network shares) cannot be watched: polling alone still works
+  }
+  const timer = setInterval(() => void scan(), pollMs);
+  void scan();
+
+  return {
+    directory,
+    outputDirectory,
+    errorDirectory,
+    stateFile,
+    scan,
+    async stop() {
+      if (stopped) return;
+      stopped = true;
+      clearInterval(timer);
+      if (soon) clearTimeout(soon);
+      fsWatcher?.close();
+      queue.length = 0;
+      if (current) {
+        current.controller.abort();
+        await current.done;
+      }
+      await scanning;
+      await saving;
+    },
+  };
+}
+
+export default { startWatching };
@@ -0,0 +1,281 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import { getDefaultEngineName } from './engines/index.js';
+import { getModelConfig, type ModelManagerConfig } from './model-config.js';
+import { getSettingsConfig, onSettingsChange } from './settings.js';
+import type { Transcriber, TranscribeOptions, TranscribeProgress } from './transcribe.js';
+import type { Transcript } from './types.js';
+
+/**
+ * Transcription worker pool
+ * - Runs transcribeFile / transcribeSamples in `threads` worker threads (transcribe-worker.ts), so inference
+ *   never blocks the process that asked for it (the Electron main process, or the CLI running files in parallel)
+ * - Each worker transcribes one request at a time and keeps its own loaded models; requests wait in order
+ *   for a free worker. Workers start on first use and do not keep an otherwise finished process alive
+ * - Messages: the pool sends transcribe / preload / cancel requests, the worker answers with progress and log
+ *   messages and one done or error message per request (see WorkerRequest, WorkerResponse)
+ * - A worker that crashes fails the request it was running and is replaced by a fresh one; queued requests
+ *   carry on. Aborting a request's `signal` cancels it, queued or running
+ * - Workers get the main thread's settings file, model directories and default engine when they start, and
+ *   re-read the settings whenever they change
+ */
+
+export type WorkerConfig = {
+  /** number of worker threads, i.e. transcriptions that run at the same time */
+  threads: number;
+};
+
+/** What a worker needs to see the same configuration as the thread that started it */
+export type WorkerData = {
+  settingsPath: string;
+  models: ModelManagerConfig;
+  defaultEngine: string;
+};
+
+/** TranscribeOptions without the callbacks and the signal, which cannot cross threads */
+export type WorkerTranscribeOptions = Omit<TranscribeOptions, 'log' | 'onProgress' | 'signal'>;
+
+export type WorkerRequest =
+  | { type: 'transcribe-file'; id: number; filePath: string; options: WorkerTranscribeOptions; progress: boolean }
+  | { type: 'transcribe-samples'; id: number; samples: Float32Array; options: WorkerTranscribeOptions; progress: boolean }
+  | { type: 'preload'; id: number; engine?: string; model?: string }
+  | { type: 'cancel'; id: number }
+  | { type: 'settings-changed' };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: TranscribeProgress }
+  | { type: 'log'; id: number; message: string }
+  | { type: 'done'; id: number; transcript?: Transcript }
+  | { type: 'error'; id: number; error: { message: string; name?: string; code?: string } };
+
+type Call = {
+  id: number;
+  resolve: (transcript: Transcript | undefined) => void;
+  reject: (err: unknown) => void;
+  log: (message: string) => void;
+  onProgress?: (progress: TranscribeProgress) => void;
+  signal?: AbortSignal;
+  removeAbortListener?: () => void;
+};
+
+type Task = Call & { request: Extract<WorkerRequest, { type: 'transcribe-file' | 'transcribe-samples' }> };
+
+type TaskInput = { type: 'transcribe-file'; filePath: string } | { type: 'transcribe-samples'; samples: Float32Array };
+
+type Slot = {
+  worker: Worker;
+  task?: Task;
+  /** preload requests sent to this worker, answered outside the task order */
+  preloads: Map<number, Call>;
+  stopping: boolean;
+};
+
+const config: WorkerConfig = {
+  threads: Math.max(1, Math.floor(Number(process.env.VTP_WORKER_THREADS)) || 1),
+};
+
+const slots: Slot[] = [];
+const queue: Task[] = [];
+let nextId = 1;
+/** the last preload, repeated on workers started later (more threads, or a restart after a crash) */
+let lastPreload: { engine?: string; model?: string } | undefined;
+let watchingSettings = false;
+
+/** Changing `threads` applies to workers started from then on; extra idle workers are stopped */
+export function configureWorkers(options: Partial<WorkerConfig>) {
+  if (options.threads !== undefined && !(Number.isInteger(options.threads) && options.threads >= 1)) {
+    throw new Error('threads must be a positive integer');
+  }
+  Object.assign(config, options);
+  for (const slot of slots.filter((s) => !s.task).slice(0, Math.max(0, slots.length - config.threads))) stopSlot(slot);
+  pump();
+}
+
+export function getWorkerConfig(): Readonly<WorkerConfig> {
+  return config;
+}
+
+// the worker runs from the same place as this module: compiled .js next to it, or .ts under ts-node
+function workerUrl(): URL {
+  const extension = path.extname(fileURLToPath(import.meta.url));
+  return new URL(`./transcribe-worker${extension}`, import.meta.url);
+}
+
+function serializeError(err: any): Error {
+  const error = new Error(err?.message ?? String(err));
+  if (err?.name) error.name = err.name;
+  if (err?.code) (error as any).code = err.code;
+  return error;
+}
+
+function startSlot(): Slot {
+  if (!watchingSettings) {
+    watchingSettings = true;
+    onSettingsChange(() => { for (const slot of slots) slot.worker.postMessage({ type: 'settings-changed' } satisfies WorkerRequest); });
+  }
+  const workerData: WorkerData = {
+    settingsPath: getSettingsConfig().path,
+    models: { ...getModelConfig() },
+    defaultEngine: getDefaultEngineName(),
+  };
+  const slot: Slot = { worker: new Worker(workerUrl(), { workerData }), preloads: new Map(), stopping: false };
+  slot.worker.unref();
+  slot.worker.on('message', (message: WorkerResponse) => onMessage(slot, message));
+  slot.worker.on('error', (err) => console.warn('transcription worker failed:', err));
+  slot.worker.on('exit', (code) => onExit(slot, code));
+  slots.push(slot);
+  if (lastPreload) sendPreload(slot, lastPreload).catch(() => {});
+  return slot;
+}
+
+function stopSlot(slot: Slot) {
+  slot.stopping = true;
+  slots.splice(slots.indexOf(slot), 1);
+  void slot.worker.terminate();
+}
+
+function callFor(slot: Slot, id: number): Call | undefined {
+  return slot.task?.id === id ? slot.task : slot.preloads.get(id);
+}
+
+function onMessage(slot: Slot, message: WorkerResponse) {
+  const call = callFor(slot, message.id);
+  if (!call) return;
+  switch (message.type) {
+    case 'progress':
+      call.onProgress?.(message.progress);
+      return;
+    case 'log':
+      call.log(message.message);
+      return;
+    case 'done':
+    case 'error':
+      finish(slot, call);
+      if (message.type === 'done') call.resolve(message.transcript);
+      // a cancelled request rejects with the caller's own abort reason
+      else call.reject(message.error.name === 'AbortError' && call.signal?.aborted ? call.signal.reason : serializeError(message.error));
+      pump();
+  }
+}
+
+function finish(slot: Slot, call: Call) {
+  call.removeAbortListener?.();
+  if (slot.task === call) {
+    delete slot.task;
+    slot.worker.unref();
+  } else {
+    slot.preloads.delete(call.id);
+  }
+}
+
+function onExit(slot: Slot, code: number) {
+  const index = slots.indexOf(slot);
+  if (index >= 0) slots.splice(index, 1);
+  if (!slot.stopping) console.warn(`transcription worker exited unexpectedly (code ${code})`);
+  for (const call of [...(slot.task ? [slot.task] : []), ...slot.preloads.values()]) {
+    finish(slot, call);
+    call.reject(call.signal?.aborted ? call.signal.reason : new Error(slot.stopping
+      ? 'transcription workers were stopped'
+      : `the transcription worker crashed (exit code ${code}); a new worker takes the next transcription`));
+  }
+  // replacements start on demand, so a worker that keeps crashing only fails the requests that reach it
+  pump();
+}
+
+function pump() {
+  while (queue.length) {
+    let slot = slots.find((s) => !s.task && !s.stopping);
+    if (!slot && slots.length < config.threads) slot = startSlot();
+    if (!slot) return;
+    const task = queue.shift()!;
+    slot.task = task;
+    slot.worker.ref();
+    // the samples are the task's own copy: hand the buffer over instead of copying it again
+    slot.worker.postMessage(task.request, task.request.type === 'transcribe-samples' ? [task.request.samples.buffer as ArrayBuffer] : []);
+  }
+}
+
+function watchAbort(call: Call, onAbort: () => void) {
+  if (!call.signal) return;
+  call.signal.addEventListener('abort', onAbort, { once: true });
+  call.removeAbortListener = () => call.signal!.removeEventListener('abort', onAbort);
+}
+
+function submit(input: TaskInput, options: TranscribeOptions): Promise<Transcript> {
+  const { log, onProgress, signal, ...rest } = options;
+  return new Promise<Transcript | undefined>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const id = nextId++;
+    const task: Task = {
+      id,
+      request: { ...input, id, options: rest, progress: !!onProgress },
+      resolve,
+      reject,
+      log: log ?? console.log,
+      ...(onProgress ? { onProgress } : {}),
+      ...(signal ? { signal } : {}),
+    };
+    watchAbort(task, () => {
+      const queued = queue.indexOf(task);
+      if (queued >= 0) {
+        queue.splice(queued, 1);
+        task.removeAbortListener?.();
+        reject(signal!.reason);
+        return;
+      }
+      // the worker stops before its next window and answers with an AbortError
+      slots.find((s) => s.task === task)?.worker.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+    });
+    queue.push(task);
+    pump();
+  }).then((transcript) => transcript!);
+}
+
+/** transcribeFile in a worker thread; same options and result */
+export function transcribeFileInWorker(filePath: string, options: TranscribeOptions = {}): Promise<Transcript> {
+  return submit({ type: 'transcribe-file', filePath }, options);
+}
+
+/** transcribeSamples in a worker thread; the samples are copied, the caller's array is left alone */
+export function transcribeSamplesInWorker(samples: Float32Array, options: TranscribeOptions = {}): Promise<Transcript> {
+  return submit({ type: 'transcribe-samples', samples: samples.slice() }, options);
+}
+
+/** The pool as a drop-in for transcribeFile / transcribeSamples (see jobs.ts, recording.ts, live.ts) */
+export const workerTranscriber: Transcriber = {
+  transcribeFile: transcribeFileInWorker,
+  transcribeSamples: transcribeSamplesInWorker,
+};
+
+function sendPreload(slot: Slot, target: { engine?: string; model?: string }): Promise<void> {
+  return new Promise<Transcript | undefined>((resolve, reject) => {
+    const id = nextId++;
+    slot.preloads.set(id, { id, resolve, reject, log: console.log });
+    slot.worker.postMessage({ type: 'preload', id, ...target } satisfies WorkerRequest);
+  }).then(() => {});
+}
+
+/**
+ * Load a model in every worker ahead of the first transcription (starting the workers); without `model`,
+ * the engine's default. Workers started later load it too
+ */
+export async function preloadWorkers(target: { engine?: string; model?: string } = {}): Promise<void> {
+  lastPreload = target;
+  while (slots.length < config.threads) startSlot();
+  await Promise.all(slots.map((slot) => sendPreload(slot, target)));
+}
+
+/** Terminate every worker; running and queued requests are rejected */
+export async function stopWorkers(): Promise<void> {
+  for (const task of queue.splice(0)) {
+    task.removeAbortListener?.();
+    task.reject(new Error('transcription workers were stopped'));
+  }
+  const stopping = [...slots];
+  for (const slot of stopping) slot.stopping = true;
+  slots.length = 0;
+  await Promise.all(stopping.map((slot) => slot.worker.terminate()));
+}
+
+export default { configureWorkers, transcribeFileInWorker, transcribeSamplesInWorker, preloadWorkers, stopWorkers, workerTranscriber };
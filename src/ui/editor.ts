@@ -0,0 +1,299 @@
+import type { Transcript, TranscriptSegment } from '../services/types.js';
+import { speakerLabel } from '../services/diarization.js';
+import { DEFAULT_CONFIDENCE_THRESHOLD, withSegmentConfidence } from '../services/confidence.js';
+
+/**
+ * Transcript editor
+ * - Renders a timed transcript as one editable paragraph per segment, with a span per word when word timings exist
+ * - highlight(seconds) marks the segment and word under the playhead; clicking a word (or a segment without words) seeks
+ * - An edit is applied when its segment loses focus: the segment keeps its timings, words keep theirs while the
+ *   word count is unchanged, and emptied segments are removed
+ * - With speaker labels, each change of speaker gets a heading; clicking it renames that speaker everywhere
+ * - Words scoring below the confidence threshold are marked `uncertain`; nextUncertain() walks through them and seeks
+ *   to each word's start (estimated within its segment when the word has a score but no timing).
+ *   A corrected word loses its score, so it is no longer flagged
+ */
+
+export type TranscriptEditorOptions = {
+  onSeek?: (seconds: number) => void;
+  onChange?: (transcript: Transcript) => void;
+};
+
+export type TranscriptEditor = {
+  render: (transcript: Transcript) => void;
+  highlight: (seconds: number) => void;
+  /** 0-1; words scoring below it are marked */
+  setConfidenceThreshold: (threshold: number) => void;
+  uncertainCount: () => number;
+  /** select (and seek to) the next marked word after the last one visited, wrapping around; null when there is none */
+  nextUncertain: () => { position: number; total: number } | null;
+  /** apply the edit in progress, if a segment has focus */
+  commit: () => void;
+  clear: () => void;
+};
+
+function formatTime(seconds: number) {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+}
+
+function findAt<T extends { start: number; end: number }>(items: T[], seconds: number): number {
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i]!;
+    if (seconds >= item.start && seconds < item.end) return i;
+  }
+  return -1;
+}
+
+/**
+ * Where the word of a span starts: its own timing, or for a scored word without timings an estimate
+ * from its share of the segment's text, assuming an even speaking rate
+ */
+function wordStart(seg: TranscriptSegment, span: HTMLElement): number {
+  const word = span.dataset.word !== undefined ? seg.words?.[Number(span.dataset.word)] : undefined;
+  if (word) return word.start;
+  const scores = span.dataset.score !== undefined ? seg.wordScores : undefined;
+  if (!scores) return seg.start;
+  const length = (w: { text: string }) => w.text.length + 1;
+  const before = scores.slice(0, Number(span.dataset.score)).reduce((sum, w) => sum + length(w), 0);
+  const total = scores.reduce((sum, w) => sum + length(w), 0);
+  return seg.start + ((seg.end - seg.start) * before) / total;
+}
+
+/**
+ * Apply edited text to a segment; word timings and scores survive only if the words still line up one to one,
+ * and a changed word keeps its timing but not its score
+ */
+function applyEdit(seg: TranscriptSegment, text: string): TranscriptSegment {
+  const edited: TranscriptSegment = { id: seg.id, start: seg.start, end: seg.end, text };
+  if (seg.speaker) edited.speaker = seg.speaker;
+  const tokens = text.split(/\s+/).filter(Boolean);
+  if (seg.words && seg.words.length === tokens.length) {
+    edited.words = seg.words.map(({ confidence, ...w }, i) => ({
+      ...w,
+      text: (w.text.match(/^\s*/)?.[0] ?? '') + tokens[i],
+      ...(confidence !== undefined && w.text.trim() === tokens[i] ? { confidence } : {}),
+    }));
+  }
+  if (seg.wordScores && seg.wordScores.length === tokens.length) {
+    edited.wordScores = seg.wordScores.map((w, i) => (w.text === tokens[i] ? w : { text: tokens[i]! }));
+  }
+  return withSegmentConfidence(edited);
+}
+
+export function createTranscriptEditor(container: HTMLElement, options: TranscriptEditorOptions = {}): TranscriptEditor {
+  let transcript: Transcript | null = null;
+  let segmentEls: HTMLElement[] = [];
+  let wordEls: HTMLElement[][] = [];
+  let activeSegment = -1;
+  let activeWord = -1;
+  let threshold = DEFAULT_CONFIDENCE_THRESHOLD;
+  let lastUncertain: HTMLElement | null = null;
+
+  function markConfidence(span: HTMLElement, confidence: number | undefined) {
+    if (confidence === undefined) return;
+    span.dataset.confidence = String(confidence);
+    span.title = `confidence ${Math.round(confidence * 100)}%`;
+    span.classList.toggle('uncertain', confidence < threshold);
+  }
+
+  function renderSegment(seg: TranscriptSegment, index: number): HTMLElement {
+    const p = document.createElement('p');
+    p.className = 'segment';
+    p.contentEditable = 'true';
+    p.dataset.index = String(index);
+    p.title = `${formatTime(seg.start)} – ${formatTime(seg.end)}`;
+    const words: HTMLElement[] = [];
+    if (seg.words?.length) {
+      for (const [i, w] of seg.words.entries()) {
+        const span = document.createElement('span');
+        span.className = 'word';
+        span.dataset.word = String(i);
+        span.textContent = i === 0 ? w.text.trimStart() : w.text;
+        markConfidence(span, w.confidence);
+        p.appendChild(span);
+        words.push(span);
+      }
+    } else if (seg.wordScores?.length) {
+      // scored words without timings: spans for the marks only
+      for (const [i, w] of seg.wordScores.entries()) {
+        const span = document.createElement('span');
+        span.className = 'scored';
+        span.dataset.score = String(i);
+        span.textContent = i === 0 ? w.text : ` ${w.text}`;
+        markConfidence(span, w.confidence);
+        p.appendChild(span);
+      }
+    } else {
+      p.textContent = seg.text.trim();
+    }
+    wordEls[index] = words;
+    return p;
+  }
+
+  function renderSpeaker(speakerId: string): HTMLElement {
+    const label = document.createElement('div');
+    label.className = 'speaker-label';
+    label.dataset.speaker = speakerId;
+    label.textContent = speakerLabel(transcript!, speakerId) ?? speakerId;
+    label.title = 'Click to rename this speaker';
+    label.addEventListener('click', () => startRename(label, speakerId));
+    return label;
+  }
+
+  function startRename(label: HTMLElement, speakerId: string) {
+    if (!transcript) return;
+    const previous = speakerLabel(transcript, speakerId) ?? speakerId;
+    const input = document.createElement('input');
+    input.className = 'speaker-rename';
+    input.value = previous;
+    label.replaceWith(input);
+    input.focus();
+    input.select();
+    let done = false;
+    const finish = (save: boolean) => {
+      if (done || !transcript) return;
+      done = true;
+      const name = input.value.trim();
+      if (save && name && name !== previous) {
+        const speakers = transcript.speakers ?? [];
+        const speaker = speakers.find((s) => s.id === speakerId);
+        if (speaker) speaker.name = name;
+        else speakers.push({ id: speakerId, name });
+        transcript.speakers = speakers;
+        render(transcript);
+        options.onChange?.(structuredClone(transcript));
+      } else {
+        input.replaceWith(renderSpeaker(speakerId));
+      }
+    };
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') finish(true);
+      if (e.key === 'Escape') finish(false);
+    });
+    input.addEventListener('blur', () => finish(true));
+  }
+
+  function render(next: Transcript) {
+    transcript = structuredClone(next);
+    container.textContent = '';
+    segmentEls = [];
+    wordEls = [];
+    activeSegment = -1;
+    activeWord = -1;
+    lastUncertain = null;
+    let speaker: string | undefined;
+    for (const [i, seg] of transcript.segments.entries()) {
+      if (seg.speaker && seg.speaker !== speaker) container.appendChild(renderSpeaker(seg.speaker));
+      speaker = seg.speaker;
+      const p = renderSegment(seg, i);
+      segmentEls.push(p);
+      container.appendChild(p);
+    }
+  }
+
+  function commitSegment(p: HTMLElement) {
+    if (!transcript) return;
+    const index = Number(p.dataset.index);
+    const seg = transcript.segments[index];
+    if (!seg) return;
+    const text = (p.textContent ?? '').replace(/\s+/g, ' ').trim();
+    if (text === seg.text.trim()) return;
+    if (text) {
+      transcript.segments[index] = applyEdit(seg, text);
+      const replacement = renderSegment(transcript.segments[index]!, index);
+      p.replaceWith(replacement);
+      segmentEls[index] = replacement;
+    } else {
+      transcript.segments.splice(index, 1);
+      transcript.segments.forEach((s, i) => { s.id = i; });
+      render(transcript);
+    }
+    transcript.text = transcript.segments.map((s) => s.text.trim()).join(' ');
+    options.onChange?.(structuredClone(transcript));
+  }
+
+  function highlight(seconds: number) {
+    if (!transcript) return;
+    const segIndex = findAt(transcript.segments, seconds);
+    if (segIndex !== activeSegment) {
+      segmentEls[activeSegment]?.classList.remove('active');
+      wordEls[activeSegment]?.[activeWord]?.classList.remove('active');
+      activeSegment = segIndex;
+      activeWord = -1;
+      const el = segmentEls[segIndex];
+      if (el) {
+        el.classList.add('active');
+        // follow playback without stealing the scroll position while the user edits
+        if (document.activeElement !== el) el.scrollIntoView({ block: 'nearest' });
+      }
+    }
+    const words = transcript.segments[segIndex]?.words;
+    const wordIndex = words ? findAt(words, seconds) : -1;
+    if (wordIndex !== activeWord) {
+      wordEls[activeSegment]?.[activeWord]?.classList.remove('active');
+      activeWord = wordIndex;
+      wordEls[activeSegment]?.[activeWord]?.classList.add('active');
+    }
+  }
+
+  container.addEventListener('click', (e) => {
+    if (!transcript) return;
+    const target = e.target as HTMLElement;
+    const p = target.closest<HTMLElement>('.segment');
+    const seg = p ? transcript.segments[Number(p.dataset.index)] : undefined;
+    if (!seg) return;
+    const wordEl = target.closest<HTMLElement>('.word');
+    const word = wordEl ? seg.words?.[Number(wordEl.dataset.word)] : undefined;
+    options.onSeek?.(word ? word.start : seg.start);
+  });
+
+  container.addEventListener('focusout', (e) => {
+    const p = (e.target as HTMLElement).closest<HTMLElement>('.segment');
+    if (p) commitSegment(p);
+  });
+
+  function setConfidenceThreshold(next: number) {
+    threshold = next;
+    for (const span of container.querySelectorAll<HTMLElement>('[data-confidence]')) {
+      span.classList.toggle('uncertain', Number(span.dataset.confidence) < threshold);
+    }
+  }
+
+  function nextUncertain() {
+    const marked = Array.from(container.querySelectorAll<HTMLElement>('.uncertain'));
+    if (marked.length === 0) return null;
+    const position = lastUncertain ? (marked.indexOf(lastUncertain) + 1) % marked.length : 0;
+    const span = marked[position]!;
+    lastUncertain?.classList.remove('current');
+    lastUncertain = span;
+    span.classList.add('current');
+    span.scrollIntoView({ block: 'center' });
+    const p = span.closest<HTMLElement>('.segment');
+    const seg = p ? transcript?.segments[Number(p.dataset.index)] : undefined;
+    if (seg) options.onSeek?.(wordStart(seg, span));
+    return { position: position + 1, total: marked.length };
+  }
+
+  return {
+    render,
+    highlight,
+    setConfidenceThreshold,
+    uncertainCount: () => container.querySelectorAll('.uncertain').length,
+    nextUncertain,
+    commit: () => {
+      const focused = document.activeElement?.closest<HTMLElement>('.segment');
+      if (focused && container.contains(focused)) commitSegment(focused);
+    },
+    clear: () => {
+      transcript = null;
+      segmentEls = [];
+      wordEls = [];
+      activeSegment = -1;
+      activeWord = -1;
+    },
+  };
+}
+
+export default { createTranscriptEditor };
@@ -0,0 +1,167 @@
+import type { LibraryEntry, SearchHit } from '../services/library.js';
+
+/**
+ * History sidebar
+ * - Lists library entries newest first; typing in the search box switches to full-text results with
+ *   matching segments, and clicking a match opens the entry at that time
+ * - Rename edits the title in place (Enter saves, Escape cancels); Delete asks first
+ * - Talks to the main process only through the callbacks it is given
+ */
+
+export type LibraryPanelOptions = {
+  list: () => Promise<LibraryEntry[]>;
+  search: (query: string) => Promise<SearchHit[]>;
+  open: (id: string, seconds?: number) => void;
+  rename: (id: string, title: string) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+};
+
+export type LibraryPanel = {
+  refresh: () => Promise<void>;
+  /** mark the entry shown in the editor */
+  setCurrent: (id: string | null) => void;
+};
+
+function formatDate(ms: number) {
+  return new Date(ms).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+}
+
+function formatTime(seconds: number) {
+  const m = Math.floor(seconds / 60);
+  return `${m}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+}
+
+export function createLibraryPanel(container: HTMLElement, options: LibraryPanelOptions): LibraryPanel {
+  const searchInput = document.createElement('input');
+  searchInput.type = 'search';
+  searchInput.placeholder = 'Search transcripts…';
+  searchInput.style.width = '100%';
+  const list = document.createElement('ul');
+  list.className = 'library-list';
+  container.append(searchInput, list);
+
+  let current: string | null = null;
+  let searchTimer: ReturnType<typeof setTimeout> | null = null;
+  // drop results of a request that a newer one has overtaken
+  let generation = 0;
+
+  function startRename(item: HTMLElement, entry: LibraryEntry) {
+    const input = document.createElement('input');
+    input.value = entry.title;
+    input.style.width = '100%';
+    const title = item.querySelector('.library-title')!;
+    title.replaceWith(input);
+    input.focus();
+    input.select();
+    let done = false;
+    const finish = async (save: boolean) => {
+      if (done) return;
+      done = true;
+      if (save && input.value.trim() && input.value.trim() !== entry.title) {
+        await options.rename(entry.id, input.value.trim()).catch((err) => alert(`Rename failed: ${err?.message ?? err}`));
+      }
+      await refresh();
+    };
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') void finish(true);
+      if (e.key === 'Escape') void finish(false);
+    });
+    input.addEventListener('blur', () => { void finish(true); });
+  }
+
+  function renderEntry(entry: LibraryEntry, matches: SearchHit['matches'] = []): HTMLElement {
+    const item = document.createElement('li');
+    item.className = 'library-entry' + (entry.id === current ? ' current' : '');
+    item.dataset.id = entry.id;
+    item.title = entry.sourcePath;
+
+    const title = document.createElement('div');
+    title.className = 'library-title';
+    title.textContent = entry.title;
+    const meta = document.createElement('div');
+    meta.className = 'library-meta';
+    meta.textContent = [
+      formatDate(entry.createdAt),
+      entry.duration !== undefined ? formatTime(entry.duration) : '',
+      entry.language ?? '',
+    ].filter(Boolean).join(' · ');
+    item.append(title, meta);
+
+    if (matches.length) {
+      for (const match of matches) {
+        const line = document.createElement('div');
+        line.className = 'library-match';
+        line.textContent = `${formatTime(match.start)} ${match.text}`;
+        line.addEventListener('click', (e) => {
+          e.stopPropagation();
+          options.open(entry.id, match.start);
+        });
+        item.appendChild(line);
+      }
+    } else if (entry.preview) {
+      const preview = document.createElement('div');
+      preview.className = 'library-preview';
+      preview.textContent = entry.preview;
+      item.appendChild(preview);
+    }
+
+    const actions = document.createElement('div');
+    const rename = document.createElement('button');
+    rename.textContent = 'Rename';
+    rename.addEventListener('click', (e) => {
+      e.stopPropagation();
+      startRename(item, entry);
+    });
+    const remove = document.createElement('button');
+    remove.textContent = 'Delete';
+    remove.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      if (!confirm(`Delete "${entry.title}" from the library? The audio file is kept.`)) return;
+      await options.remove(entry.id).catch((err) => alert(`Delete failed: ${err?.message ?? err}`));
+      await refresh();
+    });
+    actions.append(rename, remove);
+    item.appendChild(actions);
+
+    item.addEventListener('click', () => options.open(entry.id));
+    return item;
+  }
+
+  async function refresh() {
+    const query = searchInput.value.trim();
+    const mine = ++generation;
+    try {
+      const items = query
+        ? (await options.search(query)).map((hit) => renderEntry(hit.entry, hit.matches))
+        : (await options.list()).map((entry) => renderEntry(entry));
+      if (mine !== generation) return;
+      list.textContent = '';
+      if (items.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'library-empty';
+        empty.textContent = query ? 'No matches' : 'No transcripts yet';
+        list.appendChild(empty);
+      }
+      list.append(...items);
+    } catch (err) {
+      console.warn('library refresh failed', err);
+    }
+  }
+
+  searchInput.addEventListener('input', () => {
+    if (searchTimer) clearTimeout(searchTimer);
+    searchTimer = setTimeout(() => { void refresh(); }, 200);
+  });
+
+  return {
+    refresh,
+    setCurrent: (id) => {
+      current = id;
+      for (const item of list.querySelectorAll<HTMLElement>('.library-entry')) {
+        item.classList.toggle('current', item.dataset.id === id);
+      }
+    },
+  };
+}
+
+export default { createLibraryPanel };
@@ -0,0 +1,303 @@
+/**
+ * Microphone helpers
+ * - startPcmCapture runs the PCMProcessor AudioWorklet on a stream and hands its mono Float32 frames over
+ * - createDevicePicker fills a <select> with the audio inputs and follows devices being plugged in or removed;
+ *   a chosen device that disappears stays listed as unplugged while the system default is used
+ * - createLevelMeter shows the input level of those frames (RMS bar with a peak marker) and warns about
+ *   clipping and near-silent input; summary() rates a mic test
+ * - Levels are in dBFS: 0 is full scale
+ */
+
+export type PcmCapture = {
+  sampleRate: number;
+  stop: () => void;
+};
+
+const PCM_WORKLET = `class PCMProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    try {
+      const input = inputs[0];
+      if (input && input[0]) {
+        // copy to transferable Float32Array
+        const buffer = new Float32Array(input[0]);
+        this.port.postMessage(buffer, [buffer.buffer]);
+      }
+    } catch (e) {
+      // ignore
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-processor', PCMProcessor);`;
+
+/** Calls `onFrames` with each block of samples (first channel, at the context sample rate) until stopped */
+export async function startPcmCapture(stream: MediaStream, onFrames: (samples: Float32Array, sampleRate: number) => void): Promise<PcmCapture> {
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)() as AudioContext;
+  try {
+    const url = URL.createObjectURL(new Blob([PCM_WORKLET], { type: 'application/javascript' }));
+    try {
+      await context.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    const node = new AudioWorkletNode(context, 'pcm-processor');
+    node.port.onmessage = (ev: MessageEvent) => onFrames(ev.data as Float32Array, context.sampleRate);
+    // a silent output keeps the processor running
+    const gain = context.createGain();
+    gain.gain.value = 0;
+    gain.connect(context.destination);
+    const source = context.createMediaStreamSource(stream);
+    source.connect(node);
+    node.connect(gain);
+    return {
+      sampleRate: context.sampleRate,
+      stop: () => {
+        try { source.disconnect(); } catch (e) {}
+        try { node.port.close(); } catch (e) {}
+        try { node.disconnect(); } catch (e) {}
+        try { gain.disconnect(); } catch (e) {}
+        context.close().catch(() => {});
+      },
+    };
+  } catch (err) {
+    context.close().catch(() => {});
+    throw err;
+  }
+}
+
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  try {
+    // 'default' duplicates one of the real devices; the pickers offer "System default" themselves
+    return (await navigator.mediaDevices.enumerateDevices()).filter((d) => d.kind === 'audioinput' && d.deviceId !== 'default');
+  } catch (err) {
+    console.warn('cannot list microphones', err);
+    return [];
+  }
+}
+
+export type DevicePickerOptions = {
+  /** the user picked another device ('' for the system default) */
+  onChange: (deviceId: string) => void;
+  /** the chosen device was unplugged (false) or is back (true) */
+  onAvailabilityChange?: (available: boolean) => void;
+};
+
+export type DevicePicker = {
+  refresh: () => Promise<void>;
+  setSelected: (deviceId: string | undefined) => void;
+  /** false while the chosen device is unplugged */
+  isAvailable: () => boolean;
+};
+
+export function createDevicePicker(select: HTMLSelectElement, options: DevicePickerOptions): DevicePicker {
+  let selected = '';
+  let available = true;
+
+  function render(devices: MediaDeviceInfo[]) {
+    select.textContent = '';
+    const add = (value: string, label: string) => {
+      const opt = document.createElement('option');
+      opt.value = value;
+      opt.textContent = label;
+      select.appendChild(opt);
+    };
+    add('', 'System default');
+    // labels stay empty until the page has been allowed to use the microphone once
+    devices.forEach((d, i) => add(d.deviceId, d.label || `Microphone ${i + 1}`));
+    const present = !selected || devices.some((d) => d.deviceId === selected);
+    if (!present) add(selected, 'Unplugged microphone (using the default)');
+    select.value = selected;
+    if (present !== available) {
+      available = present;
+      options.onAvailabilityChange?.(present);
+    }
+  }
+
+  async function refresh() {
+    render(await listMicrophones());
+  }
+
+  select.addEventListener('change', () => {
+    selected = select.value;
+    options.onChange(selected);
+    void refresh();
+  });
+  navigator.mediaDevices?.addEventListener?.('devicechange', () => { void refresh(); });
+
+  return {
+    refresh,
+    setSelected: (deviceId) => {
+      if ((deviceId ?? '') === selected) return;
+      selected = deviceId ?? '';
+      void refresh();
+    },
+    isAvailable: () => available,
+  };
+}
+
+export const CLIP_LEVEL = 0.99;
+/** below this the input is treated as muted or disconnected */
+export const SILENT_DB = -80;
+/** the loudest moment of the last few seconds should reach this for usable speech */
+export const QUIET_DB = -50;
+
+const BLOCK_SECONDS = 0.05;
+const HISTORY_SECONDS = 4;
+const CLIP_WARNING_SECONDS = 2;
+
+export const toDb = (level: number) => (level > 0 ? 20 * Math.log10(level) : -Infinity);
+
+/** Linear RMS and peak of a block of samples */
+export function measureLevel(samples: Float32Array): { rms: number; peak: number } {
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const v = samples[i]!;
+    sum += v * v;
+    const a = Math.abs(v);
+    if (a > peak) peak = a;
+  }
+  return { rms: samples.length ? Math.sqrt(sum / samples.length) : 0, peak };
+}
+
+export type LevelWarning = 'clipping' | 'silent' | 'quiet';
+
+export type LevelSummary = {
+  peakDb: number;
+  /** loudest 50 ms block */
+  maxRmsDb: number;
+  clippedBlocks: number;
+  verdict: 'ok' | LevelWarning;
+};
+
+export type LevelMeter = {
+  push: (samples: Float32Array, sampleRate: number) => void;
+  /** clear the history and the display, e.g. when a recording or mic test starts */
+  reset: () => void;
+  warning: () => LevelWarning | null;
+  summary: () => LevelSummary;
+};
+
+const WARNING_TEXT: Record<LevelWarning, string> = {
+  clipping: 'Clipping: lower the input gain or move away from the mic',
+  silent: 'No signal: is the microphone muted or unplugged?',
+  quiet: 'Very low input: speak closer or raise the input gain',
+};
+
+export function createLevelMeter(container: HTMLElement, options: { onWarning?: (warning: LevelWarning | null) => void } = {}): LevelMeter {
+  const track = document.createElement('div');
+  track.className = 'level-track';
+  const bar = document.createElement('div');
+  bar.className = 'level-bar';
+  const peakMark = document.createElement('div');
+  peakMark.className = 'level-peak';
+  track.append(bar, peakMark);
+  const label = document.createElement('span');
+  label.className = 'level-warning';
+  container.append(track, label);
+
+  // 50 ms blocks: a steadier reading than the 128-sample worklet frames
+  let blockSum = 0;
+  let blockPeak = 0;
+  let blockLength = 0;
+  let blocks: { rms: number; peak: number }[] = [];
+  let seconds = 0;
+  let lastClipAt = -Infinity;
+  let shown = { rms: 0, peak: 0 };
+  let current: LevelWarning | null = null;
+  let totals: LevelSummary = { peakDb: -Infinity, maxRmsDb: -Infinity, clippedBlocks: 0, verdict: 'ok' };
+  let frame: number | null = null;
+
+  // -60..0 dBFS across the bar
+  const position = (level: number) => `${Math.max(0, Math.min(100, (toDb(level) + 60) / 60 * 100))}%`;
+
+  function draw() {
+    frame = null;
+    bar.style.width = position(shown.rms);
+    bar.classList.toggle('hot', toDb(shown.peak) > -3);
+    peakMark.style.left = position(shown.peak);
+    label.textContent = current ? WARNING_TEXT[current] : '';
+  }
+
+  function schedule() {
+    if (frame === null) frame = requestAnimationFrame(draw);
+  }
+
+  function evaluate(): LevelWarning | null {
+    if (seconds - lastClipAt < CLIP_WARNING_SECONDS) return 'clipping';
+    if (blocks.length * BLOCK_SECONDS < HISTORY_SECONDS - BLOCK_SECONDS) return null;
+    const loudest = Math.max(...blocks.map((b) => b.rms));
+    if (toDb(loudest) < SILENT_DB) return 'silent';
+    if (toDb(loudest) < QUIET_DB) return 'quiet';
+    return null;
+  }
+
+  function endBlock() {
+    const block = { rms: Math.sqrt(blockSum / blockLength), peak: blockPeak };
+    blockSum = 0;
+    blockPeak = 0;
+    blockLength = 0;
+    blocks.push(block);
+    if (blocks.length > HISTORY_SECONDS / BLOCK_SECONDS) blocks.shift();
+    if (block.peak >= CLIP_LEVEL) {
+      lastClipAt = seconds;
+      totals.clippedBlocks++;
+    }
+    totals.peakDb = Math.max(totals.peakDb, toDb(block.peak));
+    totals.maxRmsDb = Math.max(totals.maxRmsDb, toDb(block.rms));
+    // the bar follows the signal; the peak marker falls back slowly
+    shown = { rms: block.rms, peak: Math.max(block.peak, shown.peak * 0.9) };
+    const warning = evaluate();
+    if (warning !== current) {
+      current = warning;
+      options.onWarning?.(warning);
+    }
+    schedule();
+  }
+
+  function push(samples: Float32Array, sampleRate: number) {
+    const blockSize = Math.round(sampleRate * BLOCK_SECONDS);
+    for (let i = 0; i < samples.length; i++) {
+      const v = samples[i]!;
+      blockSum += v * v;
+      const a = Math.abs(v);
+      if (a > blockPeak) blockPeak = a;
+      blockLength++;
+      if (blockLength >= blockSize) {
+        seconds += blockLength / sampleRate;
+        endBlock();
+      }
+    }
+  }
+
+  function reset() {
+    blockSum = 0;
+    blockPeak = 0;
+    blockLength = 0;
+    blocks = [];
+    seconds = 0;
+    lastClipAt = -Infinity;
+    shown = { rms: 0, peak: 0 };
+    totals = { peakDb: -Infinity, maxRmsDb: -Infinity, clippedBlocks: 0, verdict: 'ok' };
+    if (current !== null) {
+      current = null;
+      options.onWarning?.(null);
+    }
+    schedule();
+  }
+
+  function summary(): LevelSummary {
+    const verdict = totals.clippedBlocks > 0 ? 'clipping'
+      : totals.maxRmsDb < SILENT_DB ? 'silent'
+        : totals.maxRmsDb < QUIET_DB ? 'quiet'
+          : 'ok';
+    return { ...totals, verdict };
+  }
+
+  return { push, reset, warning: () => current, summary };
+}
+
+export function describeLevel(summary: LevelSummary): string {
+  const peak = Number.isFinite(summary.peakDb) ? `peak ${summary.peakDb.toFixed(0)} dBFS` : 'no signal';
+  return summary.verdict === 'ok' ? `Microphone OK (${peak})` : `${WARNING_TEXT[summary.verdict]} (${peak})`;
+}
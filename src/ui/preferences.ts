@@ -0,0 +1,311 @@
+import type { Settings } from '../services/settings.js';
+import type { SettingsPatch } from '../ipc/contract.js';
+import { WHISPER_LANGUAGES } from '../services/languages.js';
+import { listMicrophones } from './microphone.js';
+import { createPreprocessControls } from './preprocess.js';
+import { createRuleSetEditor } from './rules.js';
+
+/**
+ * Preferences dialog
+ * - Edits the persistent settings: default engine and model, language, microphone, output folder and
+ *   formats, watched folder, chunk length, silence skipping, audio preprocessing, text rule sets and
+ *   display options
+ * - Save sends only the fields that changed; the main process stores them and every window applies them
+ *   through onSettingsChanged, so nothing needs a restart
+ * - The output and watched folders can only be picked through the folder dialog or cleared
+ * - Talks to the main process only through the callbacks it is given
+ */
+
+export type PreferencesOptions = {
+  load: () => Promise<{ settings: Settings; path: string }>;
+  /** `prompts`: the engines that pass a prompt on to the model */
+  engines: () => Promise<{ names: string[]; defaultEngine: string; prompts: string[] }>;
+  models: () => Promise<string[]>;
+  chooseFolder: () => Promise<string | null>;
+  save: (patch: SettingsPatch) => Promise<void>;
+  reset: () => Promise<void>;
+};
+
+export type PreferencesDialog = {
+  open: () => Promise<void>;
+};
+
+const FORMATS = [['txt', 'Text'], ['srt', 'SubRip'], ['vtt', 'WebVTT'], ['json', 'JSON']] as const;
+const THEMES = [['system', 'System'], ['light', 'Light'], ['dark', 'Dark']] as const;
+
+function option(value: string, label: string): HTMLOptionElement {
+  const opt = document.createElement('option');
+  opt.value = value;
+  opt.textContent = label;
+  return opt;
+}
+
+function row(label: string, ...controls: HTMLElement[]): HTMLElement {
+  const div = document.createElement('div');
+  div.className = 'pref-row';
+  const name = document.createElement('label');
+  name.textContent = label;
+  div.append(name, ...controls);
+  return div;
+}
+
+/** A read-only path with Choose… and Clear buttons */
+function folderPicker(placeholder: string) {
+  const input = document.createElement('input');
+  input.readOnly = true;
+  input.placeholder = placeholder;
+  const choose = document.createElement('button');
+  choose.type = 'button';
+  choose.textContent = 'Choose…';
+  const clear = document.createElement('button');
+  clear.type = 'button';
+  clear.textContent = 'Clear';
+  return { input, choose, clear };
+}
+
+export function createPreferencesDialog(dialog: HTMLDialogElement, options: PreferencesOptions): PreferencesDialog {
+  const form = document.createElement('form');
+  form.method = 'dialog';
+
+  const engine = document.createElement('select');
+  const model = document.createElement('input');
+  model.placeholder = "engine's default";
+  model.setAttribute('list', 'pref-models');
+  const modelList = document.createElement('datalist');
+  modelList.id = 'pref-models';
+  const language = document.createElement('select');
+  language.append(option('', 'English (default)'), option('auto', 'Auto-detect'));
+  for (const [code, name] of WHISPER_LANGUAGES) language.appendChild(option(code, name));
+  const device = document.createElement('select');
+  const folder = folderPicker('next to the audio file');
+  const watchFolder = folderPicker('none');
+  watchFolder.input.title = 'New audio files saved in this folder are transcribed automatically';
+  const formats = FORMATS.map(([value, label]) => {
+    const box = document.createElement('input');
+    box.type = 'checkbox';
+    box.value = value;
+    const wrap = document.createElement('label');
+    wrap.append(box, ` ${label}`);
+    return { box, wrap };
+  });
+  const chunk = document.createElement('input');
+  chunk.type = 'number';
+  chunk.min = '0';
+  chunk.max = '600';
+  chunk.title = 'Window length for long audio in seconds, 0 disables chunking';
+  const vad = document.createElement('input');
+  vad.type = 'checkbox';
+  const preprocessRow = document.createElement('span');
+  preprocessRow.className = 'preprocess-controls';
+  const preprocess = createPreprocessControls(preprocessRow);
+  const ruleSet = document.createElement('select');
+  ruleSet.title = 'Rules applied to every transcript unless another set is picked';
+  const rulesBox = document.createElement('div');
+  rulesBox.className = 'rules-editor';
+  let ruleNames: string[] = [];
+  const rules = createRuleSetEditor(rulesBox, {
+    onChange: (names) => {
+      // a renamed default follows its set; a removed one falls back to None
+      const index = ruleNames.findIndex((n) => n.toLowerCase() === ruleSet.value.toLowerCase());
+      const keep = names.length === ruleNames.length && index >= 0 ? names[index]! : ruleSet.value;
+      ruleNames = names;
+      ruleSet.textContent = '';
+      ruleSet.appendChild(option('', 'None'));
+      for (const name of names) if (name) ruleSet.appendChild(option(name, name));
+      ruleSet.value = names.includes(keep) ? keep : '';
+    },
+  });
+  const live = document.createElement('input');
+  live.type = 'checkbox';
+  const threshold = document.createElement('input');
+  threshold.type = 'number';
+  threshold.min = '0';
+  threshold.max = '100';
+  threshold.step = '5';
+  threshold.title = 'Transcript words the model is less sure of are highlighted';
+  const theme = document.createElement('select');
+  for (const [value, label] of THEMES) theme.appendChild(option(value, label));
+  const fontSize = document.createElement('input');
+  fontSize.type = 'number';
+  fontSize.min = '8';
+  fontSize.max = '48';
+
+  const status = document.createElement('div');
+  status.className = 'pref-status';
+  const fileInfo = document.createElement('small');
+  const saveBtn = document.createElement('button');
+  saveBtn.textContent = 'Save';
+  saveBtn.value = 'save';
+  const resetBtn = document.createElement('button');
+  resetBtn.type = 'button';
+  resetBtn.textContent = 'Reset to defaults';
+  const cancelBtn = document.createElement('button');
+  cancelBtn.type = 'button';
+  cancelBtn.textContent = 'Cancel';
+
+  const promptNote = document.createElement('div');
+  promptNote.className = 'rules-note';
+  rulesBox.appendChild(promptNote);
+  const rulesRow = row('Text rules', rulesBox);
+  rulesRow.classList.add('top');
+
+  const heading = document.createElement('h3');
+  heading.textContent = 'Preferences';
+  const actions = document.createElement('div');
+  actions.className = 'pref-actions';
+  actions.append(saveBtn, resetBtn, cancelBtn);
+  form.append(
+    heading,
+    row('Engine', engine),
+    row('Model', model, modelList),
+    row('Language', language),
+    row('Microphone', device),
+    row('Output folder', folder.input, folder.choose, folder.clear),
+    row('Output formats', ...formats.map((f) => f.wrap)),
+    row('Watched folder', watchFolder.input, watchFolder.choose, watchFolder.clear),
+    row('Chunk length (s)', chunk),
+    row('Skip silence', vad),
+    row('Preprocessing', preprocessRow),
+    row('Default rule set', ruleSet),
+    rulesRow,
+    row('Live transcription', live),
+    row('Flag words below (% confidence)', threshold),
+    row('Theme', theme),
+    row('Font size (px)', fontSize),
+    status,
+    actions,
+    fileInfo,
+  );
+  dialog.appendChild(form);
+
+  let loaded: Settings | null = null;
+  let engineInfo = { defaultEngine: '', prompts: [] as string[] };
+
+  // prompts typed for an engine that drops them would otherwise seem to have no effect
+  function showPromptNote() {
+    const name = engine.value || engineInfo.defaultEngine;
+    promptNote.textContent = name && !engineInfo.prompts.includes(name)
+      ? `${name} does not take a prompt: the prompt and vocabulary are not sent to the model, only the text rules apply (vocabulary spellings are still restored); use the whisper-cpp engine for the model to see them.`
+      : '';
+  }
+  engine.addEventListener('change', showPromptNote);
+
+  async function fill() {
+    const [{ settings, path }, engines, modelIds, devices] = await Promise.all([
+      options.load(), options.engines(), options.models(), listMicrophones(),
+    ]);
+    loaded = settings;
+    engineInfo = engines;
+    engine.textContent = '';
+    engine.appendChild(option('', 'Default'));
+    for (const name of engines.names) engine.appendChild(option(name, name));
+    engine.value = settings.engine ?? '';
+    showPromptNote();
+    modelList.textContent = '';
+    for (const id of modelIds) modelList.appendChild(option(id, id));
+    model.value = settings.model ?? '';
+    language.value = settings.language ?? '';
+    device.textContent = '';
+    device.appendChild(option('', 'System default'));
+    // labels stay empty until the page has been allowed to use the microphone once
+    devices.forEach((d, i) => device.appendChild(option(d.deviceId, d.label || `Microphone ${i + 1}`)));
+    if (settings.inputDeviceId && !devices.some((d) => d.deviceId === settings.inputDeviceId)) {
+      device.appendChild(option(settings.inputDeviceId, 'Unplugged microphone'));
+    }
+    device.value = settings.inputDeviceId ?? '';
+    folder.input.value = settings.outputDirectory ?? '';
+    watchFolder.input.value = settings.watchDirectory ?? '';
+    for (const { box } of formats) box.checked = settings.outputFormats.includes(box.value as Settings['outputFormats'][number]);
+    chunk.value = String(settings.chunkSeconds);
+    vad.checked = settings.vad;
+    preprocess.set(settings.preprocess);
+    ruleNames = [];
+    ruleSet.value = '';
+    rules.set(settings.ruleSets);
+    ruleSet.value = settings.ruleSet ?? '';
+    live.checked = settings.ui.live;
+    threshold.value = String(Math.round(settings.ui.confidenceThreshold * 100));
+    theme.value = settings.ui.theme;
+    fontSize.value = String(settings.ui.fontSize);
+    fileInfo.textContent = `Stored in ${path}`;
+    status.textContent = '';
+  }
+
+  // only what the user changed, so a save never overwrites a change made elsewhere in the meantime
+  function changes(): SettingsPatch {
+    const base = loaded!;
+    const patch: SettingsPatch = {};
+    if (engine.value !== (base.engine ?? '')) patch.engine = engine.value;
+    if (model.value.trim() !== (base.model ?? '')) patch.model = model.value.trim();
+    if (language.value !== (base.language ?? '')) patch.language = language.value;
+    if (device.value !== (base.inputDeviceId ?? '')) patch.inputDeviceId = device.value;
+    if (folder.input.value !== (base.outputDirectory ?? '')) patch.outputDirectory = folder.input.value;
+    if (watchFolder.input.value !== (base.watchDirectory ?? '')) patch.watchDirectory = watchFolder.input.value;
+    const picked = formats.filter((f) => f.box.checked).map((f) => f.box.value as Settings['outputFormats'][number]);
+    if (picked.join() !== base.outputFormats.join()) patch.outputFormats = picked;
+    if (Number(chunk.value) !== base.chunkSeconds) patch.chunkSeconds = Number(chunk.value);
+    if (vad.checked !== base.vad) patch.vad = vad.checked;
+    const steps = preprocess.get();
+    if (JSON.stringify(steps) !== JSON.stringify(base.preprocess)) patch.preprocess = steps;
+    const sets = rules.get();
+    if (JSON.stringify(sets) !== JSON.stringify(base.ruleSets)) patch.ruleSets = sets;
+    if (ruleSet.value !== (base.ruleSet ?? '')) patch.ruleSet = ruleSet.value;
+    const ui: NonNullable<SettingsPatch['ui']> = {};
+    if (live.checked !== base.ui.live) ui.live = live.checked;
+    if (Number(threshold.value) !== Math.round(base.ui.confidenceThreshold * 100)) ui.confidenceThreshold = Number(threshold.value) / 100;
+    if (theme.value !== base.ui.theme) ui.theme = theme.value as Settings['ui']['theme'];
+    if (Number(fontSize.value) !== base.ui.fontSize) ui.fontSize = Number(fontSize.value);
+    if (Object.keys(ui).length) patch.ui = ui;
+    return patch;
+  }
+
+  for (const picker of [folder, watchFolder]) {
+    picker.choose.addEventListener('click', async () => {
+      const picked = await options.chooseFolder().catch((err) => {
+        status.textContent = `Cannot choose a folder: ${err?.message ?? err}`;
+        return null;
+      });
+      if (picked) picker.input.value = picked;
+    });
+    picker.clear.addEventListener('click', () => { picker.input.value = ''; });
+  }
+  cancelBtn.addEventListener('click', () => dialog.close());
+
+  resetBtn.addEventListener('click', async () => {
+    if (!confirm('Reset all preferences to their defaults?')) return;
+    try {
+      await options.reset();
+      await fill();
+    } catch (err: any) {
+      status.textContent = `Reset failed: ${err?.message ?? err}`;
+    }
+  });
+
+  form.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    if (!form.reportValidity()) return;
+    if (!formats.some((f) => f.box.checked)) {
+      status.textContent = 'Pick at least one output format';
+      return;
+    }
+    try {
+      const patch = changes();
+      if (Object.keys(patch).length) await options.save(patch);
+      dialog.close();
+    } catch (err: any) {
+      status.textContent = `Save failed: ${err?.message ?? err}`;
+    }
+  });
+
+  async function open() {
+    try {
+      await fill();
+    } catch (err: any) {
+      alert(`Cannot load preferences: ${err?.message ?? err}`);
+      return;
+    }
+    dialog.showModal();
+  }
+
+  return { open };
+}
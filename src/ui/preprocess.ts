@@ -0,0 +1,109 @@
+import { PREPROCESS_LIMITS, PREPROCESS_PRESETS, checkPreprocess, type PreprocessOptions } from '../services/preprocess.js';
+
+/**
+ * Preprocessing controls
+ * - One row of inputs per step (preset, channel, high-pass, low-pass, noise reduction, normalization, tempo),
+ *   used by the main window for the next transcription and by the preferences dialog for the default
+ * - Picking a preset fills the inputs; any input can still be changed afterwards
+ * - get() returns only the steps that do something, or throws with the first invalid value
+ */
+
+export type PreprocessControls = {
+  get: () => PreprocessOptions;
+  set: (options: PreprocessOptions) => void;
+};
+
+const PRESET_LABELS: [string, string][] = [['', 'Preset…'], ['none', 'None'], ['speech', 'Speech cleanup'], ['phone', 'Phone call']];
+const CHANNELS: [string, string][] = [['', 'Mix channels'], ['0', 'Left channel'], ['1', 'Right channel']];
+
+function option(value: string, label: string): HTMLOptionElement {
+  const opt = document.createElement('option');
+  opt.value = value;
+  opt.textContent = label;
+  return opt;
+}
+
+function numberInput(limits: { min: number; max: number }, placeholder: string, title: string): HTMLInputElement {
+  const input = document.createElement('input');
+  input.type = 'number';
+  input.min = String(limits.min);
+  input.max = String(limits.max);
+  input.placeholder = placeholder;
+  input.title = title;
+  input.style.width = '5.5em';
+  return input;
+}
+
+function checkbox(label: string, title: string): { box: HTMLInputElement; wrap: HTMLLabelElement } {
+  const box = document.createElement('input');
+  box.type = 'checkbox';
+  const wrap = document.createElement('label');
+  wrap.title = title;
+  wrap.append(box, ` ${label}`);
+  return { box, wrap };
+}
+
+export function createPreprocessControls(container: HTMLElement, options: { onChange?: () => void } = {}): PreprocessControls {
+  const preset = document.createElement('select');
+  preset.title = 'Fill in a combination of steps';
+  for (const [value, label] of PRESET_LABELS) preset.appendChild(option(value, label));
+  const channel = document.createElement('select');
+  channel.title = 'Transcribe one channel of a stereo recording instead of their average';
+  for (const [value, label] of CHANNELS) channel.appendChild(option(value, label));
+  const highpass = numberInput(PREPROCESS_LIMITS.highpass, 'off', 'High-pass filter: cut rumble below this frequency (Hz)');
+  const lowpass = numberInput(PREPROCESS_LIMITS.lowpass, 'off', 'Low-pass filter: cut hiss above this frequency (Hz)');
+  const denoise = checkbox('Reduce noise', 'Remove steady background noise (hiss, hum, fans)');
+  const normalize = checkbox('Normalize', 'Even out the loudness (EBU R128)');
+  const tempo = numberInput(PREPROCESS_LIMITS.tempo, '1', 'Playback speed; timings are mapped back to the original audio');
+  tempo.step = '0.05';
+
+  const labelled = (text: string, input: HTMLElement) => {
+    const wrap = document.createElement('label');
+    wrap.append(`${text} `, input);
+    return wrap;
+  };
+  container.append(
+    preset, channel,
+    labelled('High-pass', highpass), labelled('Low-pass', lowpass),
+    denoise.wrap, normalize.wrap,
+    labelled('Tempo', tempo),
+  );
+
+  function set(next: PreprocessOptions) {
+    channel.value = next.channel !== undefined ? String(next.channel) : '';
+    // a channel the list does not offer (from the CLI or a hand-edited settings file)
+    if (channel.selectedIndex < 0) {
+      channel.appendChild(option(String(next.channel), `Channel ${next.channel! + 1}`));
+      channel.value = String(next.channel);
+    }
+    highpass.value = next.highpass !== undefined ? String(next.highpass) : '';
+    lowpass.value = next.lowpass !== undefined ? String(next.lowpass) : '';
+    denoise.box.checked = !!next.denoise;
+    normalize.box.checked = !!next.normalize;
+    tempo.value = next.tempo !== undefined ? String(next.tempo) : '';
+  }
+
+  function get(): PreprocessOptions {
+    return checkPreprocess({
+      ...(channel.value ? { channel: Number(channel.value) } : {}),
+      ...(highpass.value ? { highpass: Number(highpass.value) } : {}),
+      ...(lowpass.value ? { lowpass: Number(lowpass.value) } : {}),
+      denoise: denoise.box.checked,
+      normalize: normalize.box.checked,
+      ...(tempo.value ? { tempo: Number(tempo.value) } : {}),
+    });
+  }
+
+  preset.addEventListener('change', () => {
+    const picked = PREPROCESS_PRESETS[preset.value];
+    preset.value = '';
+    if (!picked) return;
+    set(picked);
+    options.onChange?.();
+  });
+  for (const input of [channel, highpass, lowpass, denoise.box, normalize.box, tempo]) {
+    input.addEventListener('change', () => options.onChange?.());
+  }
+
+  return { get, set };
+}
@@ -1,36 +1,80 @@
 /* Renderer for Electron transcription UI
-   - Opens local audio via preload API
-   - Decodes audio with WebAudio API to Float32Array
+   - Opens local audio and video files via preload API; the main process extracts their audio with ffmpeg
+     (the chosen track when there are several), decoded here with WebAudio API to Float32Array
    - Resamples to 16k if needed
-   - Draws waveform on canvas
+   - Draws waveform on canvas, with detected speech regions shaded; loaded files use the zoomable view (waveform.ts)
    - Runs Xenova whisper pipeline and shows transcript
+   - Plays the loaded audio with a playhead on the waveform, synced to the transcript editor (editor.ts)
    - Saves transcript back to disk
+   - Queue panel: files added through the dialog or by drag-and-drop become main-process jobs that can be cancelled
+   - History sidebar (library.ts) over the persistent transcript library; editor changes are saved back to it
+   - Preferences dialog (preferences.ts); saved settings are applied to the controls as soon as they change
+   - Microphone picker, input level meter and mic test (microphone.ts); the chosen device is kept in the settings
 */
 
+import type { Transcript } from '../services/types.js';
+import type { TranscribeProgress } from '../services/transcribe.js';
+import type { LiveUpdate } from '../services/live.js';
+import type { ElectronAPI, TranscribeRequest } from '../ipc/contract.js';
+import type { JobSnapshot } from '../services/jobs.js';
+import type { Settings } from '../services/settings.js';
+import { describePreprocess, type PreprocessOptions } from '../services/preprocess.js';
+import { WHISPER_LANGUAGES, languageName } from '../services/languages.js';
+import { detectSpeech, type SpeechRegion } from '../services/vad.js';
+import { createTranscriptEditor } from './editor.js';
+import { createWaveformView, formatRulerTime, type TimeRange } from './waveform.js';
+import { createLibraryPanel } from './library.js';
+import { createPreferencesDialog } from './preferences.js';
+import { createPreprocessControls } from './preprocess.js';
+import { createDevicePicker, createLevelMeter, describeLevel, startPcmCapture, type PcmCapture } from './microphone.js';
+
 declare global {
   interface Window {
-    electronAPI: {
-      openAudioFile: () => Promise<string | null>;
-      saveTranscript: (filePath: string, text: string) => Promise<boolean>;
-      transcribeFile: (filePath: string) => Promise<{ok: boolean; text?: string; error?: string}>;
-      startStream: (sessionId?: string) => Promise<any>;
-      sendStreamChunk: (sessionId: string, arrayBuffer: ArrayBuffer) => Promise<any>;
-      endStream: (sessionId?: string) => Promise<any>;
-      onTranscription: (cb: (sessionId: string, text: string) => void) => void;
-    };
+    electronAPI: ElectronAPI;
   }
 }
 
-const modelId = "Xenova/whisper-small.en"; // default model
-
 const openBtn = document.getElementById("openBtn") as HTMLButtonElement;
+const trackSelect = document.getElementById('trackSelect') as HTMLSelectElement | null;
 const saveBtn = document.getElementById("saveBtn") as HTMLButtonElement;
+const saveFormat = document.getElementById('saveFormat') as HTMLSelectElement | null;
+const engineSelect = document.getElementById('engineSelect') as HTMLSelectElement | null;
+const languageSelect = document.getElementById('languageSelect') as HTMLSelectElement | null;
+const translateToggle = document.getElementById('translateToggle') as HTMLInputElement | null;
+const languageInfo = document.getElementById('languageInfo') as HTMLElement | null;
+const promptNotice = document.getElementById('promptNotice') as HTMLElement | null;
+const progressBar = document.getElementById('progressBar') as HTMLProgressElement | null;
+const progressLabel = document.getElementById('progressLabel') as HTMLElement | null;
+const liveToggle = document.getElementById('liveToggle') as HTMLInputElement | null;
+const vadToggle = document.getElementById('vadToggle') as HTMLInputElement | null;
+const diarizeToggle = document.getElementById('diarizeToggle') as HTMLInputElement | null;
+const speakerCount = document.getElementById('speakerCount') as HTMLInputElement | null;
 const recordBtn = document.getElementById('recordBtn') as HTMLButtonElement;
+const pauseBtn = document.getElementById('pauseBtn') as HTMLButtonElement | null;
+const recoveryBanner = document.getElementById('recoveryBanner') as HTMLElement | null;
 const refreshBtn = document.getElementById('refreshBtn') as HTMLButtonElement | null;
 const recStatus = document.getElementById('recStatus') as HTMLElement;
+const jobList = document.getElementById('jobList') as HTMLElement | null;
+const addFilesBtn = document.getElementById('addFilesBtn') as HTMLButtonElement | null;
+const clearJobsBtn = document.getElementById('clearJobsBtn') as HTMLButtonElement | null;
+const libraryEl = document.getElementById('library') as HTMLElement | null;
 const transcriptEl = document.getElementById("transcript") as HTMLElement;
 const canvas = document.getElementById("waveCanvas") as HTMLCanvasElement;
 const ctx = canvas.getContext("2d")!;
+const player = document.getElementById('player') as HTMLAudioElement | null;
+const transcribeRangeBtn = document.getElementById('transcribeRangeBtn') as HTMLButtonElement | null;
+const selectionInfo = document.getElementById('selectionInfo') as HTMLElement | null;
+const micSelect = document.getElementById('micSelect') as HTMLSelectElement | null;
+const micTestBtn = document.getElementById('micTestBtn') as HTMLButtonElement | null;
+const levelMeterEl = document.getElementById('levelMeter') as HTMLElement | null;
+const preprocessControlsEl = document.getElementById('preprocessControls') as HTMLElement | null;
+const preprocessSummary = document.getElementById('preprocessSummary') as HTMLElement | null;
+const previewToggle = document.getElementById('previewToggle') as HTMLInputElement | null;
+const confidenceThreshold = document.getElementById('confidenceThreshold') as HTMLInputElement | null;
+const nextUncertainBtn = document.getElementById('nextUncertainBtn') as HTMLButtonElement | null;
+const uncertainInfo = document.getElementById('uncertainInfo') as HTMLElement | null;
+const preferencesBtn = document.getElementById('preferencesBtn') as HTMLButtonElement | null;
+const preferencesDialog = document.getElementById('preferencesDialog') as HTMLDialogElement | null;
 
 // Ensure canvas pixel size matches display size for crisp drawing
 function adjustCanvasSize() {
@@ -43,10 +87,38 @@ function adjustCanvasSize() {
   canvas.height = Math.max(1, Math.floor(h * ratio));
   ctx.scale(ratio, ratio);
 }
-window.addEventListener('resize', adjustCanvasSize);
+window.addEventListener('resize', () => {
+  adjustCanvasSize();
+  waveView.redraw();
+});
 adjustCanvasSize();
 
 let currentAudioPath: string | null = null;
+let settings: Settings | null = null;
+let currentTranscript: Transcript | null = null; // timed result used for subtitle exports
+let playheadFrame: number | null = null;
+// preprocessing for the next transcription: the last valid state of the preprocessing controls
+let preprocess: PreprocessOptions = {};
+// file loaded in the player, and the tempo it plays at (a processed preview may be faster or slower)
+let playerAudioPath: string | null = null;
+let playbackScale = 1;
+// what the player plays unprocessed: the file itself, or the audio ffmpeg extracted from it
+let playerSourceUrl: string | null = null;
+let extractedAudioUrl: string | null = null;
+// audio track of the loaded file, when it has several
+let currentTrack: number | undefined;
+const editor = createTranscriptEditor(transcriptEl, {
+  onSeek: (seconds) => seekTo(seconds),
+  onChange: (transcript) => {
+    currentTranscript = transcript;
+    showUncertainCount();
+    scheduleLibrarySave();
+  },
+});
+const waveView = createWaveformView(canvas, {
+  onSeek: (seconds) => seekTo(seconds),
+  onSelect: (selection) => showSelection(selection),
+});
 let mediaRecorder: MediaRecorder | null = null;
 let currentSessionId: string | null = null;
 
@@ -56,11 +128,17 @@ let liveSampleRate = 16000; // will be overwritten by decoded chunk sampleRate i
 let drawAnimationId: number | null = null;
 const MAX_LIVE_SECONDS = 6; // keep last N seconds for display
 let pendingDecodes = 0;
+let pendingChunkSends = 0;
 // AudioWorklet capture state (for reliable real-time PCM)
-let audioCtxCapture: AudioContext | null = null;
-let audioWorkletNode: AudioWorkletNode | null = null;
-let mediaStreamSource: MediaStreamAudioSourceNode | null = null;
-let captureGainNode: GainNode | null = null;
+let pcmCapture: PcmCapture | null = null;
+let pcmCaptureStarting = false;
+// stream opened for the capture alone (not shared with the MediaRecorder)
+let captureStream: MediaStream | null = null;
+// Live transcription: PCM frames at the capture rate, batched before resampling to 16 kHz
+let livePcmBatch: Float32Array[] = [];
+let livePcmBatchLength = 0;
+let liveSessionActive = false;
+const LIVE_PCM_BATCH_SECONDS = 0.25;
 
 
 function sleep(ms: number) {
@@ -82,6 +160,102 @@ if (!window.electronAPI) {
   if (el) el.textContent = msg;
 }
 
+// Options sent with every transcription request; an empty engine means the main process default.
+// Word timings are always asked for: the editor highlights the playing word and seeks to a clicked one
+function transcribeRequest(): TranscribeRequest {
+  const req: TranscribeRequest = { timestamps: 'word' };
+  if (engineSelect?.value) req.engine = engineSelect.value;
+  if (languageSelect?.value) req.language = languageSelect.value;
+  if (translateToggle?.checked) req.task = 'translate';
+  if (vadToggle?.checked) req.vad = true;
+  if (preprocessControls) req.preprocess = preprocess;
+  if (diarizeToggle?.checked) {
+    const count = Number(speakerCount?.value);
+    req.diarize = Number.isInteger(count) && count >= 1 ? { speakers: count } : {};
+  }
+  return req;
+}
+
+// Language selector: English keeps the fast English-only default model, anything else switches to multilingual
+function populateLanguages() {
+  if (!languageSelect) return;
+  const auto = document.createElement('option');
+  auto.value = 'auto';
+  auto.textContent = 'Auto-detect';
+  languageSelect.appendChild(auto);
+  for (const [code, name] of WHISPER_LANGUAGES) {
+    const opt = document.createElement('option');
+    opt.value = code;
+    opt.textContent = name;
+    opt.selected = code === 'en';
+    languageSelect.appendChild(opt);
+  }
+}
+populateLanguages();
+
+function showLanguage(transcript: Transcript | null) {
+  if (!languageInfo) return;
+  if (!transcript?.language) {
+    languageInfo.textContent = '';
+    return;
+  }
+  const name = languageName(transcript.language);
+  languageInfo.textContent = transcript.task === 'translate' ? `${name} → English` : name;
+}
+
+// The prompt of the rule set is dropped by engines that do not take one; say so above the transcript
+function showPromptNotice(message: string | undefined) {
+  if (!promptNotice) return;
+  promptNotice.textContent = message ? `${message}.` : '';
+  promptNotice.hidden = !message;
+}
+
+async function populateEngines() {
+  if (!engineSelect || !window.electronAPI?.listEngines) return;
+  try {
+    const resp = await window.electronAPI.listEngines();
+    if (!resp.ok || !resp.engines) return;
+    engineSelect.innerHTML = '';
+    for (const name of resp.engines) {
+      const opt = document.createElement('option');
+      opt.value = name;
+      opt.textContent = name === resp.defaultEngine ? `${name} (default)` : name;
+      opt.selected = name === (settings?.engine ?? resp.defaultEngine);
+      engineSelect.appendChild(opt);
+    }
+  } catch (err) {
+    console.warn('populateEngines failed', err);
+  }
+}
+populateEngines();
+
+function formatDuration(ms: number) {
+  const total = Math.round(ms / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return m > 0 ? `${m}m${String(s).padStart(2, '0')}s` : `${s}s`;
+}
+
+function showProgress(progress: TranscribeProgress | null) {
+  if (!progressBar || !progressLabel) return;
+  if (!progress || progress.stage === 'done') {
+    progressBar.hidden = true;
+    progressLabel.textContent = '';
+    return;
+  }
+  progressBar.hidden = false;
+  if (progress.stage === 'decoding') {
+    progressBar.removeAttribute('value'); // indeterminate while ffmpeg runs
+    progressLabel.textContent = 'Preparing audio...';
+    return;
+  }
+  progressBar.value = progress.percent;
+  const eta = progress.etaMs !== undefined ? `, ETA ${formatDuration(progress.etaMs)}` : '';
+  progressLabel.textContent = `${Math.floor(progress.percent)}% (chunk ${progress.chunk}/${progress.chunks}, ${formatDuration(progress.elapsedMs)} elapsed${eta})`;
+}
+
+window.electronAPI?.onProgress?.((_sourceId, progress) => showProgress(progress));
+
 function pathToFileUrl(path: string) {
   // Convert Windows backslashes and produce file:///C:/... style URL
   let p = path.replace(/\\/g, "/");
@@ -148,13 +322,22 @@ async function resampleFloat32Array(input: Float32Array, srcRate: number, dstRat
   return rendered.getChannelData(0) as Float32Array;
 }
 
-function drawWaveform(samples: Float32Array) {
+// Speech regions (in seconds) are shaded behind the waveform
+function drawWaveform(samples: Float32Array, regions: SpeechRegion[] = [], sampleRate = 16000) {
   const dpr = window.devicePixelRatio || 1;
   const w = Math.max(1, Math.floor(canvas.width / dpr));
   const h = Math.max(1, Math.floor(canvas.height / dpr));
   ctx.clearRect(0, 0, canvas.width, canvas.height);
   ctx.fillStyle = "#fff";
   ctx.fillRect(0,0,w,h);
+  const duration = samples.length / sampleRate;
+  if (duration > 0) {
+    ctx.fillStyle = 'rgba(76, 175, 80, 0.18)';
+    for (const r of regions) {
+      const x = (r.start / duration) * w;
+      ctx.fillRect(x, 0, Math.max(1, ((r.end - r.start) / duration) * w), h);
+    }
+  }
   ctx.strokeStyle = "#007acc";
   ctx.lineWidth = 1;
   ctx.beginPath();
@@ -175,6 +358,52 @@ function drawWaveform(samples: Float32Array) {
   ctx.stroke();
 }
 
+function updatePlayback() {
+  if (!player) return;
+  waveView.setPlayhead(player.currentTime * playbackScale);
+  editor.highlight(player.currentTime * playbackScale);
+}
+
+function showSelection(selection: TimeRange | null) {
+  if (transcribeRangeBtn) transcribeRangeBtn.disabled = !selection || !currentAudioPath;
+  if (selectionInfo) {
+    selectionInfo.textContent = selection
+      ? `${formatRulerTime(selection.start, 0.1)} – ${formatRulerTime(selection.end, 0.1)}`
+      : '';
+  }
+}
+
+// Replace what the current transcript has inside `range` with a fresh transcription of that range
+function mergeRangeTranscript(base: Transcript | null, part: Transcript, range: TimeRange): Transcript {
+  if (!base) return part;
+  const outside = base.segments.filter((seg) => {
+    const mid = (seg.start + seg.end) / 2;
+    return mid < range.start || mid >= range.end;
+  });
+  const segments = [...outside, ...part.segments]
+    .sort((a, b) => a.start - b.start)
+    .map((seg, id) => ({ ...seg, id }));
+  return { ...base, segments, text: segments.map((seg) => seg.text.trim()).join(' ') };
+}
+
+function seekTo(seconds: number) {
+  if (!player?.src) return;
+  player.currentTime = Math.max(0, seconds) / playbackScale;
+  updatePlayback();
+}
+
+// Playhead follows playback every frame; timeupdate alone only fires a few times per second
+player?.addEventListener('play', () => {
+  const loop = () => {
+    updatePlayback();
+    playheadFrame = player.paused ? null : requestAnimationFrame(loop);
+  };
+  if (playheadFrame === null) playheadFrame = requestAnimationFrame(loop);
+});
+player?.addEventListener('seeked', updatePlayback);
+player?.addEventListener('timeupdate', () => { if (playheadFrame === null) updatePlayback(); });
+
+
 // Build a single Float32Array from liveChunks (oldest -> newest), limited to maxSamples
 function concatLiveSamples(maxSamples: number): Float32Array {
   if (liveChunks.length === 0) return new Float32Array(0);
@@ -255,7 +484,7 @@ function drawLiveWaveform() {
     ctx.fillStyle = '#fff';
     ctx.fillRect(0, 0, w, h);
   } else {
-    drawWaveform(samples);
+    drawWaveform(samples, detectSpeech(samples, liveSampleRate), liveSampleRate);
   }
 }
 
@@ -276,49 +505,291 @@ function stopLiveDrawing() {
   // keep the last drawn frame so users can see the final waveform after stopping
 }
 
-async function transcribeFile(path: string) {
-  transcriptEl.textContent = "Loading audio...";
-  const ab = await fetchArrayBufferFromPath(path);
-  transcriptEl.textContent = "Decoding...";
+// Show a status line or plain text in the transcript pane (leaves the editor)
+function showStatus(text: string) {
+  editor.clear();
+  transcriptEl.textContent = text;
+  showUncertainCount();
+}
+
+// Timed transcripts open in the editor; anything else is shown as plain text
+function showTranscript(transcript: Transcript | null | undefined, text: string, libraryId: string | null = null) {
+  currentTranscript = transcript ?? null;
+  setLibraryEntry(libraryId);
+  showLanguage(currentTranscript);
+  if (currentTranscript?.segments.length) {
+    editor.render(currentTranscript);
+    showUncertainCount();
+    if (player?.src) editor.highlight(player.currentTime * playbackScale);
+  } else {
+    showStatus(text);
+  }
+}
+
+/** Decode a file for the waveform (at 16 kHz, like the transcriber sees it) and load it into the player */
+async function loadWaveform(path: string, track?: number) {
+  playerAudioPath = null;
+  playbackScale = 1;
+  if (previewToggle) previewToggle.checked = false;
+  const resp = await window.electronAPI.extractAudio(path, track);
+  if (!resp.ok) throw new Error(resp.error.message);
+  currentTrack = resp.track;
+  showTracks(resp.tracks, resp.track);
+  const ab = await fetchArrayBufferFromPath(resp.filePath);
   const { samples, sampleRate } = await decodeArrayBufferToFloat32(ab);
   const targetRate = 16000;
   let float32 = samples;
-  if (sampleRate !== targetRate) {
-    transcriptEl.textContent = `Resampling ${sampleRate} → ${targetRate}...`;
-    float32 = await resampleFloat32Array(samples, sampleRate, targetRate);
+  if (sampleRate !== targetRate) float32 = await resampleFloat32Array(samples, sampleRate, targetRate);
+  if (player) {
+    // the file itself sounds better, unless a track had to be picked (see the player's error handler for the rest)
+    extractedAudioUrl = pathToFileUrl(resp.filePath);
+    playerSourceUrl = resp.track !== undefined ? extractedAudioUrl : pathToFileUrl(path);
+    player.src = playerSourceUrl;
+    player.hidden = false;
+    playerAudioPath = path;
   }
-  drawWaveform(float32);
+  waveView.setAudio(float32, targetRate, detectSpeech(float32, targetRate));
+}
+
+// The track picker only shows for files with several audio tracks
+function showTracks(tracks: { index: number; label: string }[], track: number | undefined) {
+  if (!trackSelect) return;
+  trackSelect.textContent = '';
+  for (const { index, label } of tracks) {
+    const opt = document.createElement('option');
+    opt.value = String(index);
+    opt.textContent = label;
+    trackSelect.appendChild(opt);
+  }
+  trackSelect.hidden = tracks.length < 2;
+  if (track !== undefined) trackSelect.value = String(track);
+}
+
+// Chromium plays few containers and codecs: anything else plays from the extracted audio
+player?.addEventListener('error', () => {
+  if (!extractedAudioUrl || playerSourceUrl === extractedAudioUrl || previewToggle?.checked) return;
+  playerSourceUrl = extractedAudioUrl;
+  player.src = extractedAudioUrl;
+});
+
+async function transcribeFile(path: string, track?: number) {
+  showStatus("Loading audio...");
+  await loadWaveform(path, track);
 
-  transcriptEl.textContent = "Transcribing (running Node service)...";
-  const resp = await window.electronAPI.transcribeFile(path);
+  showStatus("Transcribing (running Node service)...");
+  currentTranscript = null;
+  const resp = await window.electronAPI.transcribeFile(path, { ...transcribeRequest(), ...(currentTrack !== undefined ? { track: currentTrack } : {}) });
   if (!resp || !resp.ok) {
-    transcriptEl.textContent = `Error: ${resp?.error ?? 'unknown'}`;
+    showProgress(null);
+    showStatus(resp?.error?.code === 'cancelled' ? 'Transcription cancelled' : `Error: ${resp?.error?.message ?? 'unknown'}`);
     return '';
   }
-  transcriptEl.textContent = resp.text ?? '';
+  showProgress(null);
+  showTranscript(resp.transcript, resp.text ?? '', resp.libraryId ?? null);
+  showPromptNotice(resp.promptIgnored);
   return resp.text ?? '';
 }
  
+// Linear-interpolation resampler; good enough for speech sent to the 16 kHz live transcriber
+function resampleLinear(input: Float32Array, srcRate: number, dstRate: number): Float32Array {
+  if (srcRate === dstRate) return input;
+  const ratio = srcRate / dstRate;
+  const out = new Float32Array(Math.floor(input.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * ratio;
+    const i0 = Math.floor(pos);
+    const frac = pos - i0;
+    const a = input[i0] ?? 0;
+    const b = input[i0 + 1] ?? a;
+    out[i] = a + (b - a) * frac;
+  }
+  return out;
+}
+
+function queueLivePcm(samples: Float32Array) {
+  livePcmBatch.push(samples);
+  livePcmBatchLength += samples.length;
+  if (livePcmBatchLength >= LIVE_PCM_BATCH_SECONDS * liveSampleRate) flushLivePcm();
+}
+
+function flushLivePcm() {
+  if (!currentSessionId || livePcmBatchLength === 0) return;
+  const joined = new Float32Array(livePcmBatchLength);
+  let off = 0;
+  for (const c of livePcmBatch) {
+    joined.set(c, off);
+    off += c.length;
+  }
+  livePcmBatch = [];
+  livePcmBatchLength = 0;
+  const pcm16k = resampleLinear(joined, liveSampleRate, 16000);
+  window.electronAPI.sendStreamPcm(currentSessionId, pcm16k.slice().buffer);
+}
+
+// Final text in normal style, provisional text greyed out until it stabilizes
+function showLiveTranscript(update: LiveUpdate) {
+  showStatus(update.finalText);
+  if (update.partialText) {
+    const partial = document.createElement('span');
+    partial.className = 'provisional';
+    partial.textContent = (update.finalText ? ' ' : '') + update.partialText;
+    transcriptEl.appendChild(partial);
+  }
+}
+
+window.electronAPI?.onPartial?.((sid, update) => {
+  if (sid === currentSessionId) showLiveTranscript(update);
+});
+
+// The microphone chosen in the picker, or the system default when it is unplugged
+async function openMicrophone(): Promise<MediaStream> {
+  const deviceId = settings?.inputDeviceId;
+  let stream: MediaStream | null = null;
+  if (deviceId && micPicker?.isAvailable() !== false) {
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: deviceId } } });
+    } catch (err) {
+      console.warn('preferred microphone unavailable, using the default one', err);
+    }
+  }
+  stream ??= await navigator.mediaDevices.getUserMedia({ audio: true });
+  // device names are only listed once the microphone has been allowed
+  void micPicker?.refresh();
+  return stream;
+}
+
+function stopTracks(stream: MediaStream | null | undefined) {
+  stream?.getTracks().forEach((track) => track.stop());
+}
+
+// Input level of whatever the capture worklet receives: recordings and mic tests
+const levelMeter = levelMeterEl ? createLevelMeter(levelMeterEl) : null;
+
+const micPicker = micSelect ? createDevicePicker(micSelect, {
+  onChange: async (deviceId) => {
+    const resp = await window.electronAPI.updateSettings({ inputDeviceId: deviceId });
+    if (!resp.ok) alert(`Could not save the microphone: ${resp.error.message}`);
+  },
+  onAvailabilityChange: (available) => {
+    if (mediaRecorder?.state === 'recording' || mediaRecorder?.state === 'paused') return;
+    if (recStatus) recStatus.textContent = available ? 'Microphone connected' : 'Microphone unplugged: the system default will be used';
+  },
+}) : null;
+void micPicker?.refresh();
+
+// Preprocessing panel: applies to the next transcription; the preview plays the audio as the engine will get it
+function showPreprocess(error?: string) {
+  if (!preprocessSummary) return;
+  preprocessSummary.textContent = error ? `(${error})` : `(${describePreprocess(preprocess)})`;
+  preprocessSummary.style.color = error ? '#c0392b' : '';
+}
+
+const preprocessControls = preprocessControlsEl ? createPreprocessControls(preprocessControlsEl, {
+  onChange: () => {
+    try {
+      preprocess = preprocessControls!.get();
+    } catch (err: any) {
+      showPreprocess(err?.message ?? String(err));
+      return;
+    }
+    showPreprocess();
+    if (previewToggle?.checked) void updatePreview();
+  },
+}) : null;
+showPreprocess();
+
+// Switch the player between the original and the processed audio, keeping the position and play state
+async function updatePreview() {
+  if (!player || !playerAudioPath) {
+    if (previewToggle) previewToggle.checked = false;
+    return;
+  }
+  const source = playerAudioPath;
+  const position = player.currentTime * playbackScale;
+  const playing = !player.paused;
+  let url = playerSourceUrl ?? pathToFileUrl(source);
+  let scale = 1;
+  if (previewToggle?.checked) {
+    previewToggle.disabled = true;
+    const resp = await window.electronAPI.previewPreprocess(source, preprocess, currentTrack);
+    previewToggle.disabled = false;
+    // another file was loaded, or the preview turned off, while this one was prepared
+    if (source !== playerAudioPath || !previewToggle.checked) return;
+    if (!resp.ok) {
+      previewToggle.checked = false;
+      alert(`Cannot preview the processed audio: ${resp.error.message}`);
+      return;
+    }
+    url = pathToFileUrl(resp.filePath);
+    scale = preprocess.tempo ?? 1;
+  }
+  playbackScale = scale;
+  player.src = url;
+  player.addEventListener('loadedmetadata', () => {
+    player.currentTime = position / scale;
+    if (playing) void player.play();
+  }, { once: true });
+}
+
+previewToggle?.addEventListener('change', () => { void updatePreview(); });
+
+// A few seconds of capture with the level meter, then a verdict, so a muted or wrong mic is caught before recording
+const MIC_TEST_SECONDS = 4;
+micTestBtn?.addEventListener('click', async () => {
+  if (mediaRecorder && mediaRecorder.state !== 'inactive') return;
+  micTestBtn.disabled = true;
+  recordBtn.disabled = true;
+  let stream: MediaStream | null = null;
+  let capture: PcmCapture | null = null;
+  try {
+    stream = await openMicrophone();
+    levelMeter?.reset();
+    capture = await startPcmCapture(stream, (samples, sampleRate) => levelMeter?.push(samples, sampleRate));
+    for (let left = MIC_TEST_SECONDS; left > 0; left--) {
+      if (recStatus) recStatus.textContent = `Testing microphone… speak now (${left})`;
+      await sleep(1000);
+    }
+    const label = stream.getAudioTracks()[0]?.label;
+    const verdict = levelMeter ? describeLevel(levelMeter.summary()) : 'Microphone test finished';
+    if (recStatus) recStatus.textContent = label ? `${verdict} – ${label}` : verdict;
+  } catch (err: any) {
+    if (recStatus) recStatus.textContent = `Microphone test failed: ${err?.message ?? err}`;
+  } finally {
+    capture?.stop();
+    stopTracks(stream);
+    micTestBtn.disabled = false;
+    recordBtn.disabled = false;
+  }
+});
+
 // AudioWorklet helper: start capturing PCM frames from the microphone stream.
 async function startAudioCaptureIfNeeded() {
-  if (audioCtxCapture) return;
+  if (pcmCapture || pcmCaptureStarting) return;
+  pcmCaptureStarting = true;
   try {
-    audioCtxCapture = new (window.AudioContext || (window as any).webkitAudioContext)();
-    // create a tiny worklet that posts input channel data to the main thread
-    const workletCode = `class PCMProcessor extends AudioWorkletProcessor {\n  process(inputs) {\n    try {\n      const input = inputs[0];\n      if (input && input[0]) {\n        // copy to transferable Float32Array
-        const buffer = new Float32Array(input[0]);\n        this.port.postMessage(buffer, [buffer.buffer]);\n      }\n    } catch (e) {\n      // ignore\n    }\n    return true;\n  }\n}\nregisterProcessor('pcm-processor', PCMProcessor);`;
-    const blob = new Blob([workletCode], { type: 'application/javascript' });
-    const url = URL.createObjectURL(blob);
-    await audioCtxCapture.audioWorklet.addModule(url);
-    audioWorkletNode = new AudioWorkletNode(audioCtxCapture, 'pcm-processor');
-    audioWorkletNode.port.onmessage = (ev: MessageEvent) => {
+    // To hook the stream source we need a media stream; try to reuse existing MediaRecorder's stream
+    // If MediaRecorder exists and has a stream, use it; otherwise, request a new stream
+    let streamForCapture: MediaStream | null = null;
+    if (mediaRecorder && mediaRecorder.state !== 'inactive') {
+      streamForCapture = mediaRecorder.stream;
+    }
+    if (!streamForCapture) {
+      try {
+        streamForCapture = captureStream = await openMicrophone();
+      } catch (err) {
+        console.warn('startAudioCapture: getUserMedia failed', err);
+        return;
+      }
+    }
+    pcmCapture = await startPcmCapture(streamForCapture, (data, sampleRate) => {
       try {
-        const data = ev.data as Float32Array;
         // ensure a concrete copy
         const samples = new Float32Array(data.length);
         samples.set(data);
-        liveSampleRate = audioCtxCapture?.sampleRate || liveSampleRate;
+        liveSampleRate = sampleRate || liveSampleRate;
+        levelMeter?.push(samples, liveSampleRate);
         liveChunks.push(samples);
+        if (liveSessionActive && mediaRecorder?.state === 'recording') queueLivePcm(samples);
         // trim
         const maxSamples = MAX_LIVE_SECONDS * liveSampleRate;
         let total = 0;
@@ -336,58 +807,20 @@ async function startAudioCaptureIfNeeded() {
       } catch (err) {
         console.warn('worklet onmessage error', err);
       }
-    };
-    // create a silent gain node to connect output so processor runs reliably
-    captureGainNode = audioCtxCapture.createGain();
-    captureGainNode.gain.value = 0;
-    captureGainNode.connect(audioCtxCapture.destination);
-    // To hook the stream source we need a media stream; try to reuse existing MediaRecorder's stream
-    // If MediaRecorder exists and has a stream, use it; otherwise, request a new stream
-    let streamForCapture: MediaStream | null = null;
-    if (mediaRecorder && (mediaRecorder as any).stream) {
-      streamForCapture = (mediaRecorder as any).stream as MediaStream;
-    }
-    if (!streamForCapture) {
-      try {
-        streamForCapture = await navigator.mediaDevices.getUserMedia({ audio: true });
-      } catch (err) {
-        console.warn('startAudioCapture: getUserMedia failed', err);
-        return;
-      }
-    }
-    mediaStreamSource = audioCtxCapture.createMediaStreamSource(streamForCapture);
-    mediaStreamSource.connect(audioWorkletNode);
-    audioWorkletNode.connect(captureGainNode);
+    });
   } catch (err) {
     console.warn('startAudioCapture failed', err);
-    // cleanup on failure
-    try { audioCtxCapture?.close(); } catch (e) {}
-    audioCtxCapture = null;
-    audioWorkletNode = null;
-    mediaStreamSource = null;
-    captureGainNode = null;
+  } finally {
+    pcmCaptureStarting = false;
   }
 }
 
 function stopAudioCaptureIfNeeded() {
   try {
-    if (mediaStreamSource) {
-      try { mediaStreamSource.disconnect(); } catch (e) {}
-      mediaStreamSource = null;
-    }
-    if (audioWorkletNode) {
-      try { audioWorkletNode.port.close(); } catch (e) {}
-      try { audioWorkletNode.disconnect(); } catch (e) {}
-      audioWorkletNode = null;
-    }
-    if (captureGainNode) {
-      try { captureGainNode.disconnect(); } catch (e) {}
-      captureGainNode = null;
-    }
-    if (audioCtxCapture) {
-      try { audioCtxCapture.close(); } catch (e) {}
-      audioCtxCapture = null;
-    }
+    pcmCapture?.stop();
+    pcmCapture = null;
+    stopTracks(captureStream);
+    captureStream = null;
   } catch (err) {
     console.warn('stopAudioCaptureIfNeeded error', err);
   }
@@ -396,10 +829,11 @@ function stopAudioCaptureIfNeeded() {
 openBtn.addEventListener('click', async () => {
   console.debug('renderer: openBtn clicked');
   try {
-    const path = await window.electronAPI.openAudioFile();
+    const resp = await window.electronAPI.openAudioFile();
+    const path = resp.filePath;
     console.debug('renderer: openAudioFile returned', path);
     if (!path) {
-      transcriptEl.textContent = 'Open cancelled';
+      showStatus('Open cancelled');
       return;
     }
     currentAudioPath = path;
@@ -407,37 +841,67 @@ openBtn.addEventListener('click', async () => {
       await transcribeFile(path);
     } catch (err: any) {
       console.error('renderer: transcribeFile error', err);
-      transcriptEl.textContent = `Error: ${err.message ?? err}`;
+      showStatus(`Error: ${err.message ?? err}`);
     }
   } catch (err: any) {
     console.error('renderer: openAudioFile invocation failed', err);
-    transcriptEl.textContent = `Error opening file: ${err?.message ?? err}`;
+    showStatus(`Error opening file: ${err?.message ?? err}`);
     alert(`Open failed: ${err?.message ?? err}`);
   }
 });
 
+// Another audio track of the open file: its waveform, and a transcription of it
+trackSelect?.addEventListener('change', async () => {
+  if (!currentAudioPath) return;
+  try {
+    await transcribeFile(currentAudioPath, Number(trackSelect.value));
+  } catch (err: any) {
+    console.error('renderer: transcribeFile error', err);
+    showStatus(`Error: ${err.message ?? err}`);
+  }
+});
+
 // Recording controls
 recordBtn.addEventListener('click', async () => {
   if (!recordBtn) return;
   try {
     if (!mediaRecorder || mediaRecorder.state === 'inactive') {
       // start
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await openMicrophone();
       mediaRecorder = new MediaRecorder(stream);
+      levelMeter?.reset();
+      // an unplugged microphone ends the track: finish the recording with what was captured
+      stream.getAudioTracks()[0]?.addEventListener('ended', () => {
+        if (!mediaRecorder || mediaRecorder.stream !== stream || mediaRecorder.state === 'inactive') return;
+        mediaRecorder.stop();
+        alert('The microphone was disconnected; the recording was stopped and saved.');
+      });
       currentSessionId = `s_${Date.now()}`;
       // notify main
-      await window.electronAPI.startStream(currentSessionId);
+      liveSessionActive = !!liveToggle?.checked;
+      livePcmBatch = [];
+      livePcmBatchLength = 0;
+      await window.electronAPI.startStream(currentSessionId, { ...transcribeRequest(), live: liveSessionActive });
+      if (liveSessionActive) showStatus('Listening...');
       mediaRecorder.ondataavailable = async (e: BlobEvent) => {
         if (!e.data || e.data.size === 0) return;
+        pendingChunkSends++;
         const ab = await e.data.arrayBuffer();
         try {
-          await window.electronAPI.sendStreamChunk(currentSessionId!, ab);
+          const resp = await window.electronAPI.sendStreamChunk(currentSessionId!, ab);
+          // the session refuses audio past its size/duration cap: finish it instead of losing data
+          if (resp?.limitReached && mediaRecorder && mediaRecorder.state !== 'inactive') {
+            mediaRecorder.stop();
+            alert(`Recording stopped: maximum ${resp.limitReached === 'size' ? 'size' : 'duration'} reached`);
+          }
         } catch (err) {
           console.error('sendStreamChunk error', err);
+        } finally {
+          pendingChunkSends = Math.max(0, pendingChunkSends - 1);
         }
         // If we have an AudioWorklet capturing PCM, it will feed `liveChunks` directly.
         // Skip decoding the recorded Blob to avoid format/codec decode errors in some engines.
-        if (audioWorkletNode) {
+        if (pcmCapture) {
           return;
         }
         // Also decode locally and add to live buffer for waveform visualization
@@ -471,6 +935,13 @@ recordBtn.addEventListener('click', async () => {
       mediaRecorder.onstart = () => {
         if (recStatus) recStatus.textContent = 'Recording...';
         recordBtn.textContent = 'Stop';
+        if (pauseBtn) {
+          pauseBtn.disabled = false;
+          pauseBtn.textContent = 'Pause';
+        }
+        // the canvas shows the live input until the recording is loaded for playback
+        player?.pause();
+        waveView.clear();
         // reset live buffer and start drawing
         liveChunks = [];
         drawAnimationId = null;
@@ -482,14 +953,26 @@ recordBtn.addEventListener('click', async () => {
       mediaRecorder.onstop = async () => {
         if (recStatus) recStatus.textContent = 'Finalizing...';
         recordBtn.textContent = 'Record';
+        if (pauseBtn) pauseBtn.disabled = true;
+        let recordedPath: string | undefined;
         try {
-          const resp = await window.electronAPI.endStream(currentSessionId!);
+          // every chunk must reach the session file before it is finalized
+          const waitStart = Date.now();
+          while (pendingChunkSends > 0 && Date.now() - waitStart < 2000) await sleep(30);
+          // hand the last buffered PCM to the live transcriber before finalizing
+          if (liveSessionActive) flushLivePcm();
+          liveSessionActive = false;
+          const resp = await window.electronAPI.endStream(currentSessionId!, transcribeRequest());
           if (!resp || !resp.ok) {
-            transcriptEl.textContent = `Error: ${resp?.error ?? 'unknown'}`;
+            showStatus(`Error: ${resp?.error?.message ?? 'unknown'}`);
+          } else if (resp.audioPath) {
+            currentAudioPath = resp.audioPath;
+            recordedPath = resp.audioPath;
+            setLibraryEntry(resp.libraryId ?? null);
           }
         } catch (err) {
           console.error('endStream error', err);
-          transcriptEl.textContent = `Error: ${err?.message ?? err}`;
+          showStatus(`Error: ${err?.message ?? err}`);
         } finally {
           // Give the browser a short moment to deliver the final `dataavailable` event
           // (some engines emit it after `stop` fires). Then wait for pending decodes.
@@ -506,9 +989,14 @@ recordBtn.addEventListener('click', async () => {
             console.warn('draw final waveform failed', err);
           }
           if (recStatus) recStatus.textContent = 'Idle';
+          showProgress(null);
           currentSessionId = null;
           stopAudioCaptureIfNeeded();
+          // release the microphone
+          stopTracks(mediaRecorder?.stream);
           stopLiveDrawing();
+          // replace the live view with the saved recording so it can be played back
+          if (recordedPath) await loadWaveform(recordedPath).catch((err) => console.warn('waveform load failed', err));
         }
       };
       mediaRecorder.start(250); // emit blobs every 250ms
@@ -522,22 +1010,365 @@ recordBtn.addEventListener('click', async () => {
 });
 
 // receive transcription results
-window.electronAPI.onTranscription((sid, text) => {
+window.electronAPI.onTranscription((sid, text, transcript, audioPath) => {
   // If this is the current session or no session specified, show text
-  transcriptEl.textContent = text ?? '';
+  showTranscript(transcript, text ?? '');
+  if (audioPath) currentAudioPath = audioPath;
+  showProgress(null);
   if (recStatus) recStatus.textContent = 'Idle';
 });
 
+transcribeRangeBtn?.addEventListener('click', async () => {
+  const range = waveView.getSelection();
+  if (!range || !currentAudioPath) return;
+  transcribeRangeBtn.disabled = true;
+  try {
+    editor.commit();
+    // speakers found in a short range would not match the labels of the rest of the transcript
+    const { diarize: _diarize, ...request } = transcribeRequest();
+    const resp = await window.electronAPI.transcribeFile(currentAudioPath, {
+      ...request,
+      ...(currentTrack !== undefined ? { track: currentTrack } : {}),
+      start: range.start,
+      end: range.end,
+    });
+    showProgress(null);
+    if (!resp.ok || !resp.transcript) {
+      alert(`Transcription failed: ${resp.error?.message ?? 'unknown'}`);
+      return;
+    }
+    const merged = mergeRangeTranscript(currentTranscript, resp.transcript, range);
+    showTranscript(merged, merged.text, currentLibraryId);
+    showPromptNotice(resp.promptIgnored);
+    scheduleLibrarySave();
+  } finally {
+    transcribeRangeBtn.disabled = !waveView.getSelection();
+  }
+});
+
+pauseBtn?.addEventListener('click', async () => {
+  if (!mediaRecorder || !currentSessionId) return;
+  try {
+    if (mediaRecorder.state === 'recording') {
+      mediaRecorder.pause();
+      await window.electronAPI.pauseStream(currentSessionId);
+      pauseBtn.textContent = 'Resume';
+      if (recStatus) recStatus.textContent = 'Paused';
+    } else if (mediaRecorder.state === 'paused') {
+      await window.electronAPI.resumeStream(currentSessionId);
+      mediaRecorder.resume();
+      pauseBtn.textContent = 'Pause';
+      if (recStatus) recStatus.textContent = 'Recording...';
+    }
+  } catch (err: any) {
+    console.error('pause/resume failed', err);
+  }
+});
+
+// Sessions interrupted by a crash are offered for recovery at startup
+async function checkRecoverableSessions() {
+  if (!recoveryBanner || !window.electronAPI?.listRecoverableSessions) return;
+  const resp = await window.electronAPI.listRecoverableSessions();
+  const list = resp.ok ? resp.sessions ?? [] : [];
+  recoveryBanner.innerHTML = '';
+  recoveryBanner.hidden = list.length === 0;
+  for (const session of list) {
+    const row = document.createElement('div');
+    const label = document.createElement('span');
+    label.textContent = `Unfinished recording from ${new Date(session.startedAt).toLocaleString()} (${(session.bytes / 1024 / 1024).toFixed(1)} MB) `;
+    const recover = document.createElement('button');
+    recover.textContent = 'Recover';
+    recover.addEventListener('click', async () => {
+      recover.disabled = true;
+      showStatus('Recovering recording...');
+      const result = await window.electronAPI.recoverSession(session.id, transcribeRequest());
+      showProgress(null);
+      if (!result.ok) {
+        showStatus(`Error: ${result.error?.message ?? 'unknown'}`);
+      } else {
+        currentAudioPath = result.audioPath ?? null;
+        showTranscript(result.transcript, result.text ?? '', result.libraryId ?? null);
+        if (currentAudioPath) await loadWaveform(currentAudioPath).catch((err) => console.warn('waveform load failed', err));
+      }
+      await checkRecoverableSessions();
+    });
+    const discard = document.createElement('button');
+    discard.textContent = 'Discard';
+    discard.addEventListener('click', async () => {
+      if (!confirm('Delete this unfinished recording?')) return;
+      await window.electronAPI.discardSession(session.id);
+      await checkRecoverableSessions();
+    });
+    row.append(label, recover, discard);
+    recoveryBanner.appendChild(row);
+  }
+}
+checkRecoverableSessions().catch((err) => console.warn('recovery check failed', err));
+
+// Review of low-confidence words: the threshold is a setting, changed here or in the preferences
+function showUncertainCount() {
+  if (!uncertainInfo) return;
+  const count = editor.uncertainCount();
+  uncertainInfo.textContent = count ? `${count} uncertain word${count === 1 ? '' : 's'}` : '';
+  if (nextUncertainBtn) nextUncertainBtn.disabled = count === 0;
+}
+
+function nextUncertain() {
+  editor.commit();
+  const found = editor.nextUncertain();
+  if (uncertainInfo && found) uncertainInfo.textContent = `${found.position} / ${found.total} uncertain`;
+}
+
+confidenceThreshold?.addEventListener('change', async () => {
+  const value = Number(confidenceThreshold.value);
+  if (!confidenceThreshold.checkValidity() || !(value >= 0 && value <= 100)) return;
+  editor.setConfidenceThreshold(value / 100);
+  showUncertainCount();
+  const resp = await window.electronAPI.updateSettings({ ui: { confidenceThreshold: value / 100 } });
+  if (!resp.ok) alert(`Could not save the threshold: ${resp.error.message}`);
+});
+nextUncertainBtn?.addEventListener('click', nextUncertain);
+document.addEventListener('keydown', (e) => {
+  if (e.key !== 'F8') return;
+  e.preventDefault();
+  nextUncertain();
+});
+
+// Transcripts go next to the audio unless an output folder is set in the preferences
+function transcriptPath(audioPath: string, format: string) {
+  const stem = audioPath.replace(/\.[^/.\\]+$/, '');
+  const folder = settings?.outputDirectory;
+  if (!folder) return `${stem}.${format}`;
+  const name = stem.split(/[\\/]/).pop();
+  const separator = folder.includes('\\') ? '\\' : '/';
+  return `${folder.replace(/[\\/]+$/, '')}${separator}${name}.${format}`;
+}
+
 saveBtn.addEventListener('click', async () => {
   if (!currentAudioPath) {
     alert('Open a file first');
     return;
   }
-  const text = transcriptEl.textContent || '';
-  const txtPath = currentAudioPath.replace(/\.[^/.]+$/, '') + '.txt';
-  await window.electronAPI.saveTranscript(txtPath, text);
-  alert('Saved: ' + txtPath);
+  // take the segment being edited into account before exporting
+  editor.commit();
+  const text = currentTranscript?.text ?? (transcriptEl.textContent || '');
+  // subtitle and JSON exports need segment timings; plain text works from the visible transcript
+  const format = currentTranscript ? (saveFormat?.value || 'txt') : 'txt';
+  const outPath = transcriptPath(currentAudioPath, format);
+  const resp = await window.electronAPI.saveTranscript(outPath, text, currentTranscript ?? undefined);
+  alert(resp.ok ? 'Saved: ' + outPath : `Save failed: ${resp.error.message}`);
+});
+
+// Job queue panel: one row per job, updated in place as the main process reports changes
+const jobRows = new Map<string, HTMLElement>();
+
+function describeJob(job: JobSnapshot) {
+  if (job.status === 'running' && job.progress) {
+    return job.progress.stage === 'decoding' ? 'decoding' : `${Math.floor(job.progress.percent)}%`;
+  }
+  if (job.status === 'failed') return `failed: ${job.error ?? 'unknown error'}`;
+  return job.status;
+}
+
+function showJob(job: JobSnapshot) {
+  if (!jobList) return;
+  let row = jobRows.get(job.id);
+  if (!row) {
+    row = document.createElement('li');
+    jobRows.set(job.id, row);
+    jobList.appendChild(row);
+  }
+  row.textContent = '';
+  row.className = `job job-${job.status}`;
+  row.title = job.filePath;
+  const label = document.createElement('span');
+  label.textContent = `${job.name} — ${describeJob(job)} `;
+  row.appendChild(label);
+  if (job.status === 'queued' || job.status === 'running') {
+    const cancel = document.createElement('button');
+    cancel.textContent = 'Cancel';
+    cancel.addEventListener('click', () => { void window.electronAPI.cancelJob(job.id); });
+    row.appendChild(cancel);
+  } else if (job.status === 'done') {
+    const open = document.createElement('button');
+    open.textContent = 'Open';
+    open.addEventListener('click', () => { void openJob(job.id); });
+    row.appendChild(open);
+  }
+}
+
+async function openJob(id: string) {
+  const resp = await window.electronAPI.getJob(id);
+  if (!resp.ok || !resp.job) {
+    alert(`Job not available: ${resp.error?.message ?? 'unknown'}`);
+    return;
+  }
+  currentAudioPath = resp.job.filePath;
+  await loadWaveform(resp.job.filePath).catch((err) => console.warn('waveform load failed', err));
+  showTranscript(resp.job.transcript, resp.job.transcript?.text ?? '');
+}
+
+async function enqueueFiles(filePaths: string[]) {
+  if (filePaths.length === 0) return;
+  const resp = await window.electronAPI.enqueueJobs(filePaths, transcribeRequest());
+  if (!resp.ok) alert(`Could not queue files: ${resp.error.message}`);
+}
+
+window.electronAPI?.onJobUpdate?.((job) => showJob(job));
+window.electronAPI?.listJobs?.().then((resp) => resp.jobs?.forEach(showJob)).catch((err) => console.warn('list jobs failed', err));
+
+addFilesBtn?.addEventListener('click', async () => {
+  await enqueueFiles((await window.electronAPI.openAudioFiles()).filePaths ?? []);
+});
+
+clearJobsBtn?.addEventListener('click', async () => {
+  await window.electronAPI.clearFinishedJobs();
+  const resp = await window.electronAPI.listJobs();
+  const keep = new Set((resp.jobs ?? []).map((job) => job.id));
+  for (const [id, row] of jobRows) {
+    if (keep.has(id)) continue;
+    row.remove();
+    jobRows.delete(id);
+  }
+});
+
+// Files dropped anywhere on the window are queued
+document.addEventListener('dragover', (e) => {
+  if (e.dataTransfer?.types.includes('Files')) e.preventDefault();
 });
+document.addEventListener('drop', (e) => {
+  const files = [...(e.dataTransfer?.files ?? [])];
+  if (files.length === 0) return;
+  e.preventDefault();
+  void enqueueFiles(files.map((file) => window.electronAPI.pathForFile(file)).filter(Boolean));
+});
+
+// History sidebar: the library entry shown in the editor receives its edits
+let currentLibraryId: string | null = null;
+let librarySaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+const libraryPanel = libraryEl ? createLibraryPanel(libraryEl, {
+  list: async () => {
+    const resp = await window.electronAPI.listLibrary();
+    if (!resp.ok) throw new Error(resp.error.message);
+    return resp.entries ?? [];
+  },
+  search: async (query) => {
+    const resp = await window.electronAPI.searchLibrary(query);
+    if (!resp.ok) throw new Error(resp.error.message);
+    return resp.hits ?? [];
+  },
+  open: (id, seconds) => { void openLibraryEntry(id, seconds); },
+  rename: async (id, title) => {
+    const resp = await window.electronAPI.renameLibraryEntry(id, title);
+    if (!resp.ok) throw new Error(resp.error.message);
+  },
+  remove: async (id) => {
+    const resp = await window.electronAPI.deleteLibraryEntry(id);
+    if (!resp.ok) throw new Error(resp.error.message);
+    if (id === currentLibraryId) setLibraryEntry(null);
+  },
+}) : null;
+
+function setLibraryEntry(id: string | null) {
+  currentLibraryId = id;
+  libraryPanel?.setCurrent(id);
+}
+
+function scheduleLibrarySave() {
+  if (!currentLibraryId) return;
+  if (librarySaveTimer) clearTimeout(librarySaveTimer);
+  librarySaveTimer = setTimeout(async () => {
+    librarySaveTimer = null;
+    if (!currentLibraryId || !currentTranscript) return;
+    const resp = await window.electronAPI.updateLibraryEntry(currentLibraryId, currentTranscript);
+    if (!resp.ok) console.warn('library update failed', resp.error.message);
+  }, 800);
+}
+
+async function openLibraryEntry(id: string, seconds?: number) {
+  const resp = await window.electronAPI.getLibraryEntry(id);
+  if (!resp.ok || !resp.entry) {
+    alert(`Could not open transcript: ${resp.error?.message ?? 'unknown'}`);
+    return;
+  }
+  currentAudioPath = resp.entry.sourcePath;
+  try {
+    await loadWaveform(resp.entry.sourcePath);
+  } catch (err) {
+    // the transcript is still useful when its audio was moved or deleted
+    console.warn('library: audio not available', err);
+    waveView.clear();
+    player?.removeAttribute('src');
+    if (player) player.hidden = true;
+  }
+  showTranscript(resp.transcript, resp.transcript?.text ?? '', id);
+  if (seconds !== undefined) seekTo(seconds);
+}
+
+window.electronAPI?.onLibraryChanged?.(() => { void libraryPanel?.refresh(); });
+void libraryPanel?.refresh();
+
+// Settings are applied to the controls when loaded and again whenever they are saved, from any window
+function applySettings(next: Settings) {
+  settings = next;
+  if (engineSelect && engineSelect.options.length) {
+    engineSelect.value = next.engine ?? '';
+    if (engineSelect.selectedIndex < 0) {
+      // no engine in the settings: back to the one marked as the main process default
+      const fallback = Array.from(engineSelect.options).find((o) => o.textContent?.endsWith('(default)'));
+      if (fallback) engineSelect.value = fallback.value;
+    }
+  }
+  if (languageSelect) languageSelect.value = next.language ?? 'en';
+  micPicker?.setSelected(next.inputDeviceId);
+  if (vadToggle) vadToggle.checked = next.vad;
+  if (preprocessControls && JSON.stringify(next.preprocess) !== JSON.stringify(preprocess)) {
+    preprocessControls.set(next.preprocess);
+    preprocess = next.preprocess;
+    showPreprocess();
+    if (previewToggle?.checked) void updatePreview();
+  }
+  if (liveToggle) liveToggle.checked = next.ui.live;
+  if (saveFormat && next.outputFormats[0]) saveFormat.value = next.outputFormats[0];
+  document.documentElement.dataset.theme = next.ui.theme;
+  transcriptEl.style.fontSize = `${next.ui.fontSize}px`;
+  if (confidenceThreshold) confidenceThreshold.value = String(Math.round(next.ui.confidenceThreshold * 100));
+  editor.setConfidenceThreshold(next.ui.confidenceThreshold);
+  showUncertainCount();
+}
+
+const preferences = preferencesDialog ? createPreferencesDialog(preferencesDialog, {
+  load: async () => {
+    const resp = await window.electronAPI.getSettings();
+    if (!resp.ok) throw new Error(resp.error.message);
+    return { settings: resp.settings, path: resp.path };
+  },
+  engines: async () => {
+    const resp = await window.electronAPI.listEngines();
+    return { names: resp.engines ?? [], defaultEngine: resp.defaultEngine ?? '', prompts: resp.prompts ?? [] };
+  },
+  models: async () => ((await window.electronAPI.listModels()).models ?? []).map((m) => m.id),
+  chooseFolder: async () => {
+    const resp = await window.electronAPI.chooseFolder();
+    if (!resp.ok) throw new Error(resp.error.message);
+    return resp.folder;
+  },
+  save: async (patch) => {
+    const resp = await window.electronAPI.updateSettings(patch);
+    if (!resp.ok) throw new Error(resp.error.message);
+  },
+  reset: async () => {
+    const resp = await window.electronAPI.resetSettings();
+    if (!resp.ok) throw new Error(resp.error.message);
+  },
+}) : null;
+preferencesBtn?.addEventListener('click', () => { void preferences?.open(); });
+
+window.electronAPI?.onSettingsChanged?.(applySettings);
+window.electronAPI?.getSettings?.().then((resp) => {
+  if (resp.ok) applySettings(resp.settings);
+}).catch((err) => console.warn('loading settings failed', err));
 
 // Manual refresh button: redraw the live waveform or re-render the opened file
 if (refreshBtn) {
@@ -549,7 +1380,7 @@ if (refreshBtn) {
         // stop live animation and draw the full concatenated recording buffer
         stopLiveDrawing();
         const full = concatAllLiveSamples();
-        if (full.length > 0) drawWaveform(full);
+        if (full.length > 0) drawWaveform(full, detectSpeech(full, liveSampleRate), liveSampleRate);
       } else if (currentAudioPath) {
         // re-decode and draw the opened file (this also updates transcript text)
         try {
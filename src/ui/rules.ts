@@ -0,0 +1,226 @@
+import { CASING_MODES, checkRuleSets, type Replacement, type RuleSet } from '../services/postprocess.js';
+
+/**
+ * Rule set editor (preferences dialog)
+ * - A list of named rule sets and the fields of the one picked: prompt, vocabulary (one term per line),
+ *   replacements (one "find => replace" per line), fillers, numbers, masking and casing
+ * - Replacement lines: `teh => the` replaces whole words whatever their case; `/v(\d+)/ => version $1` is a
+ *   regular expression that matches case exactly, `/.../i` ignores case. Lines starting with # are comments
+ * - get() returns every set, or throws with the first invalid value; onChange reports added, renamed and removed sets
+ */
+
+export type RuleSetEditor = {
+  get: () => RuleSet[];
+  set: (sets: RuleSet[]) => void;
+};
+
+const CASING_LABELS: Record<string, string> = { '': 'Keep as is', sentence: 'Sentence case', lower: 'lowercase', upper: 'UPPERCASE' };
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/** One line per rule, the inverse of parseReplacements */
+export function formatReplacements(rules: Replacement[]): string {
+  return rules.map((rule) => {
+    if (rule.regex) return `/${rule.find}/${rule.matchCase ? '' : 'i'} => ${rule.replace}`;
+    return rule.matchCase ? `/${escapeRegExp(rule.find)}/ => ${rule.replace}` : `${rule.find} => ${rule.replace}`;
+  }).join('\n');
+}
+
+export function parseReplacements(text: string): Replacement[] {
+  return text.split('\n').flatMap((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return [];
+    const regex = /^\/(.+)\/(i?)\s*=>\s?(.*)$/.exec(trimmed);
+    if (regex) return [{ find: regex[1]!, replace: regex[3]!, regex: true, ...(regex[2] ? {} : { matchCase: true }) }];
+    const literal = /^(.+?)\s*=>\s?(.*)$/.exec(trimmed);
+    if (!literal) throw new Error(`replacements, line ${i + 1}: expected "find => replace"`);
+    return [{ find: literal[1]!, replace: literal[2]! }];
+  });
+}
+
+function option(value: string, label: string): HTMLOptionElement {
+  const opt = document.createElement('option');
+  opt.value = value;
+  opt.textContent = label;
+  return opt;
+}
+
+function checkbox(label: string, title: string): { box: HTMLInputElement; wrap: HTMLLabelElement } {
+  const box = document.createElement('input');
+  box.type = 'checkbox';
+  const wrap = document.createElement('label');
+  wrap.title = title;
+  wrap.append(box, ` ${label}`);
+  return { box, wrap };
+}
+
+function textarea(rows: number, placeholder: string): HTMLTextAreaElement {
+  const area = document.createElement('textarea');
+  area.rows = rows;
+  area.placeholder = placeholder;
+  area.style.width = '100%';
+  return area;
+}
+
+function field(label: string, ...controls: HTMLElement[]): HTMLElement {
+  const div = document.createElement('div');
+  div.className = 'rules-field';
+  const name = document.createElement('label');
+  name.textContent = label;
+  div.append(name, ...controls);
+  return div;
+}
+
+export function createRuleSetEditor(container: HTMLElement, options: { onChange?: (names: string[]) => void } = {}): RuleSetEditor {
+  const picker = document.createElement('select');
+  picker.title = 'Rule set to edit';
+  const addBtn = document.createElement('button');
+  addBtn.type = 'button';
+  addBtn.textContent = 'New';
+  const removeBtn = document.createElement('button');
+  removeBtn.type = 'button';
+  removeBtn.textContent = 'Delete';
+  const toolbar = document.createElement('div');
+  toolbar.append(picker, addBtn, removeBtn);
+
+  const name = document.createElement('input');
+  name.maxLength = 64;
+  const prompt = textarea(2, 'e.g. Weekly sync about the Kubernetes migration with Anaïs and Joaquín.');
+  prompt.title = 'Text the model continues from (engines that take a prompt, such as whisper-cpp)';
+  const vocabulary = textarea(3, 'one term per line: Kubernetes, PostgreSQL...');
+  vocabulary.title = 'Sent with the prompt, and spelled as written here in the transcript';
+  const replacements = textarea(4, 'cooper netties => Kubernetes\n/\\bv(\\d+)/i => version $1');
+  replacements.title = 'One rule per line, applied in order';
+  const fillers = checkbox('Remove fillers', 'Drop hesitations: um, uh, er, hmm, euh...');
+  const numbers = checkbox('Numbers as digits', 'Spoken English numbers as digits: "twenty five" becomes 25');
+  const maskProfanity = checkbox('Profanity', 'Keep the first letter of swear words: f***');
+  const maskEmail = checkbox('E-mail addresses', 'Replace e-mail addresses with [email]');
+  const maskPhone = checkbox('Phone numbers', 'Replace phone numbers with [phone]');
+  const casing = document.createElement('select');
+  casing.appendChild(option('', CASING_LABELS['']!));
+  for (const mode of CASING_MODES) casing.appendChild(option(mode, CASING_LABELS[mode]!));
+
+  const fields = document.createElement('div');
+  fields.className = 'rules-fields';
+  fields.append(
+    field('Name', name),
+    field('Prompt', prompt),
+    field('Vocabulary', vocabulary),
+    field('Replacements', replacements),
+    field('Clean up', fillers.wrap, numbers.wrap),
+    field('Mask', maskProfanity.wrap, maskEmail.wrap, maskPhone.wrap),
+    field('Casing', casing),
+  );
+  container.append(toolbar, fields);
+
+  let sets: RuleSet[] = [];
+  let current = -1;
+
+  function show(index: number) {
+    current = index;
+    const set = sets[index];
+    fields.hidden = !set;
+    removeBtn.disabled = !set;
+    picker.value = String(index);
+    if (!set) return;
+    name.value = set.name;
+    prompt.value = set.prompt ?? '';
+    vocabulary.value = (set.vocabulary ?? []).join('\n');
+    replacements.value = formatReplacements(set.replacements ?? []);
+    fillers.box.checked = !!set.fillers;
+    numbers.box.checked = !!set.numbers;
+    maskProfanity.box.checked = !!set.mask?.includes('profanity');
+    maskEmail.box.checked = !!set.mask?.includes('email');
+    maskPhone.box.checked = !!set.mask?.includes('phone');
+    casing.value = set.casing ?? '';
+  }
+
+  function listSets() {
+    picker.textContent = '';
+    if (sets.length === 0) picker.appendChild(option('-1', 'No rule sets'));
+    sets.forEach((set, i) => picker.appendChild(option(String(i), set.name || '(unnamed)')));
+    picker.value = String(current);
+    options.onChange?.(sets.map((set) => set.name));
+  }
+
+  // the fields as they stand, into the set being edited
+  function store() {
+    if (!sets[current]) return;
+    const mask = [
+      ...(maskProfanity.box.checked ? ['profanity' as const] : []),
+      ...(maskEmail.box.checked ? ['email' as const] : []),
+      ...(maskPhone.box.checked ? ['phone' as const] : []),
+    ];
+    const rules = parseReplacements(replacements.value);
+    const terms = vocabulary.value.split('\n').map((term) => term.trim()).filter(Boolean);
+    sets[current] = {
+      name: name.value.trim(),
+      ...(prompt.value.trim() ? { prompt: prompt.value.trim() } : {}),
+      ...(terms.length ? { vocabulary: terms } : {}),
+      ...(rules.length ? { replacements: rules } : {}),
+      ...(fillers.box.checked ? { fillers: true } : {}),
+      ...(numbers.box.checked ? { numbers: true } : {}),
+      ...(mask.length ? { mask } : {}),
+      ...(casing.value ? { casing: casing.value as RuleSet['casing'] & string } : {}),
+    };
+  }
+
+  function set(next: RuleSet[]) {
+    sets = next.map((s) => structuredClone(s));
+    current = sets.length ? 0 : -1;
+    listSets();
+    show(current);
+  }
+
+  function get(): RuleSet[] {
+    store();
+    return checkRuleSets(sets);
+  }
+
+  picker.addEventListener('change', () => {
+    try {
+      store();
+    } catch (err: any) {
+      // stay on the set with the mistake
+      picker.value = String(current);
+      alert(err?.message ?? String(err));
+      return;
+    }
+    show(Number(picker.value));
+  });
+  name.addEventListener('input', () => {
+    const opt = picker.options[picker.selectedIndex];
+    if (opt) opt.textContent = name.value.trim() || '(unnamed)';
+  });
+  name.addEventListener('change', () => {
+    if (sets[current]) sets[current]!.name = name.value.trim();
+    options.onChange?.(sets.map((s) => s.name));
+  });
+  addBtn.addEventListener('click', () => {
+    try {
+      store();
+    } catch (err: any) {
+      alert(err?.message ?? String(err));
+      return;
+    }
+    const taken = new Set(sets.map((s) => s.name.toLowerCase()));
+    let n = sets.length + 1;
+    while (taken.has(`rules ${n}`)) n++;
+    sets.push({ name: `Rules ${n}` });
+    current = sets.length - 1;
+    listSets();
+    show(current);
+    name.focus();
+    name.select();
+  });
+  removeBtn.addEventListener('click', () => {
+    const doomed = sets[current];
+    if (!doomed || !confirm(`Delete the rule set "${doomed.name}"?`)) return;
+    sets.splice(current, 1);
+    current = Math.min(current, sets.length - 1);
+    listSets();
+    show(current);
+  });
+
+  return { get, set };
+}
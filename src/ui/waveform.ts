@@ -0,0 +1,291 @@
+/**
+ * Waveform view for a loaded file
+ * - Min/max peaks are computed once per zoom level (each level halves the previous), so redraws only read
+ *   about one bucket per pixel however long the file is
+ * - Mouse wheel zooms around the cursor (shift+wheel or horizontal scroll pans), drag pans,
+ *   shift+drag selects a time range, a plain click seeks
+ * - Draws a time ruler, speech regions, the selection and the playhead
+ */
+
+export type TimeRange = { start: number; end: number };
+
+export type WaveformViewOptions = {
+  onSeek?: (seconds: number) => void;
+  onSelect?: (selection: TimeRange | null) => void;
+};
+
+export type WaveformView = {
+  setAudio: (samples: Float32Array, sampleRate: number, regions?: TimeRange[]) => void;
+  /** forget the audio; the canvas is left to other drawing (e.g. the live recording view) */
+  clear: () => void;
+  hasAudio: () => boolean;
+  setPlayhead: (seconds: number | null) => void;
+  getSelection: () => TimeRange | null;
+  setSelection: (selection: TimeRange | null) => void;
+  redraw: () => void;
+};
+
+type PeakLevel = { bucket: number; min: Float32Array; max: Float32Array };
+
+const BASE_BUCKET = 64;
+const RULER_HEIGHT = 18;
+const DRAG_THRESHOLD_PX = 3;
+// tick spacings in seconds; the smallest one that keeps labels apart is used
+const TICK_STEPS = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600];
+
+export function buildPeaks(samples: Float32Array): PeakLevel[] {
+  const levels: PeakLevel[] = [];
+  const count = Math.ceil(samples.length / BASE_BUCKET);
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+  for (let b = 0; b < count; b++) {
+    let lo = 1;
+    let hi = -1;
+    const end = Math.min(samples.length, (b + 1) * BASE_BUCKET);
+    for (let i = b * BASE_BUCKET; i < end; i++) {
+      const v = samples[i]!;
+      if (v < lo) lo = v;
+      if (v > hi) hi = v;
+    }
+    min[b] = lo;
+    max[b] = hi;
+  }
+  levels.push({ bucket: BASE_BUCKET, min, max });
+  for (let prev = levels[0]!; prev.min.length > 1024; ) {
+    const n = Math.ceil(prev.min.length / 2);
+    const next: PeakLevel = { bucket: prev.bucket * 2, min: new Float32Array(n), max: new Float32Array(n) };
+    for (let b = 0; b < n; b++) {
+      const a = 2 * b;
+      const c = Math.min(prev.min.length - 1, a + 1);
+      next.min[b] = Math.min(prev.min[a]!, prev.min[c]!);
+      next.max[b] = Math.max(prev.max[a]!, prev.max[c]!);
+    }
+    levels.push(next);
+    prev = next;
+  }
+  return levels;
+}
+
+export function formatRulerTime(seconds: number, step: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const decimals = step < 0.1 ? 2 : step < 1 ? 1 : 0;
+  const s = (seconds % 60).toFixed(decimals).padStart(decimals ? 3 + decimals : 2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+export function createWaveformView(canvas: HTMLCanvasElement, options: WaveformViewOptions = {}): WaveformView {
+  const ctx = canvas.getContext('2d')!;
+  let samples: Float32Array | null = null;
+  let sampleRate = 16000;
+  let peaks: PeakLevel[] = [];
+  let regions: TimeRange[] = [];
+  let duration = 0;
+  let viewStart = 0;
+  let viewDuration = 0;
+  let playhead: number | null = null;
+  let selection: TimeRange | null = null;
+  let frame: number | null = null;
+
+  const size = () => {
+    const dpr = window.devicePixelRatio || 1;
+    return { w: Math.max(1, Math.floor(canvas.width / dpr)), h: Math.max(1, Math.floor(canvas.height / dpr)) };
+  };
+  const timeAt = (x: number) => viewStart + (x / size().w) * viewDuration;
+  const xAt = (seconds: number) => ((seconds - viewStart) / viewDuration) * size().w;
+
+  function clampView() {
+    const minDuration = Math.min(duration, 100 / sampleRate);
+    viewDuration = Math.max(minDuration, Math.min(duration, viewDuration));
+    viewStart = Math.max(0, Math.min(duration - viewDuration, viewStart));
+  }
+
+  function drawRuler(w: number) {
+    ctx.fillStyle = '#f4f4f4';
+    ctx.fillRect(0, 0, w, RULER_HEIGHT);
+    const step = TICK_STEPS.find((s) => (s / viewDuration) * w >= 70) ?? TICK_STEPS[TICK_STEPS.length - 1]!;
+    ctx.strokeStyle = '#999';
+    ctx.fillStyle = '#444';
+    ctx.font = '10px sans-serif';
+    ctx.textBaseline = 'top';
+    ctx.beginPath();
+    for (let t = Math.ceil(viewStart / step) * step; t <= viewStart + viewDuration; t += step) {
+      const x = Math.round(xAt(t)) + 0.5;
+      ctx.moveTo(x, RULER_HEIGHT - 6);
+      ctx.lineTo(x, RULER_HEIGHT);
+      ctx.fillText(formatRulerTime(t, step), x + 2, 2);
+    }
+    ctx.stroke();
+  }
+
+  function drawPeaks(w: number, top: number, h: number) {
+    if (!samples) return;
+    const perPixel = (viewDuration * sampleRate) / w;
+    // coarsest level that still has at least one bucket per pixel; raw samples when zoomed in closer
+    let level: PeakLevel | null = null;
+    for (const l of peaks) if (l.bucket <= perPixel) level = l;
+    const mid = top + h / 2;
+    ctx.strokeStyle = '#007acc';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = 0; x < w; x++) {
+      const s0 = Math.floor((viewStart + (x / w) * viewDuration) * sampleRate);
+      const s1 = Math.max(s0 + 1, Math.floor((viewStart + ((x + 1) / w) * viewDuration) * sampleRate));
+      let lo = 1;
+      let hi = -1;
+      if (level) {
+        const b1 = Math.min(level.min.length, Math.ceil(s1 / level.bucket));
+        for (let b = Math.floor(s0 / level.bucket); b < b1; b++) {
+          if (level.min[b]! < lo) lo = level.min[b]!;
+          if (level.max[b]! > hi) hi = level.max[b]!;
+        }
+      } else {
+        for (let i = s0; i < s1 && i < samples.length; i++) {
+          if (samples[i]! < lo) lo = samples[i]!;
+          if (samples[i]! > hi) hi = samples[i]!;
+        }
+      }
+      if (hi < lo) continue;
+      ctx.moveTo(x + 0.5, mid - hi * (h / 2));
+      ctx.lineTo(x + 0.5, mid - lo * (h / 2) + 1);
+    }
+    ctx.stroke();
+  }
+
+  function draw() {
+    frame = null;
+    if (!samples) return;
+    const { w, h } = size();
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, w, h);
+    const top = RULER_HEIGHT;
+    const waveHeight = h - top;
+    ctx.fillStyle = 'rgba(76, 175, 80, 0.18)';
+    for (const r of regions) {
+      if (r.end < viewStart || r.start > viewStart + viewDuration) continue;
+      ctx.fillRect(xAt(r.start), top, Math.max(1, xAt(r.end) - xAt(r.start)), waveHeight);
+    }
+    if (selection) {
+      ctx.fillStyle = 'rgba(255, 193, 7, 0.3)';
+      ctx.fillRect(xAt(selection.start), top, Math.max(1, xAt(selection.end) - xAt(selection.start)), waveHeight);
+    }
+    drawPeaks(w, top, waveHeight);
+    drawRuler(w);
+    if (playhead !== null && playhead >= viewStart && playhead <= viewStart + viewDuration) {
+      const x = xAt(playhead);
+      ctx.strokeStyle = '#d32f2f';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, h);
+      ctx.stroke();
+    }
+  }
+
+  const redraw = () => {
+    if (samples && frame === null) frame = requestAnimationFrame(draw);
+  };
+
+  canvas.addEventListener('wheel', (e) => {
+    if (!samples) return;
+    e.preventDefault();
+    const rect = canvas.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+      const delta = Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : e.deltaY;
+      viewStart += (delta / rect.width) * viewDuration;
+    } else {
+      // keep the time under the cursor in place
+      const anchor = timeAt(x);
+      viewDuration *= Math.exp(e.deltaY * 0.0015);
+      clampView();
+      viewStart = anchor - (x / rect.width) * viewDuration;
+    }
+    clampView();
+    redraw();
+  }, { passive: false });
+
+  let drag: { x: number; viewStart: number; select: boolean; moved: boolean } | null = null;
+  canvas.addEventListener('pointerdown', (e) => {
+    if (!samples || e.button !== 0) return;
+    canvas.setPointerCapture(e.pointerId);
+    drag = { x: e.clientX, viewStart, select: e.shiftKey, moved: false };
+  });
+  canvas.addEventListener('pointermove', (e) => {
+    if (!drag) return;
+    const dx = e.clientX - drag.x;
+    if (!drag.moved && Math.abs(dx) < DRAG_THRESHOLD_PX) return;
+    drag.moved = true;
+    const rect = canvas.getBoundingClientRect();
+    if (drag.select) {
+      const a = Math.max(0, Math.min(duration, timeAt(drag.x - rect.left)));
+      const b = Math.max(0, Math.min(duration, timeAt(e.clientX - rect.left)));
+      selection = { start: Math.min(a, b), end: Math.max(a, b) };
+    } else {
+      viewStart = drag.viewStart - (dx / rect.width) * viewDuration;
+      clampView();
+    }
+    redraw();
+  });
+  canvas.addEventListener('pointerup', (e) => {
+    if (!drag) return;
+    const { moved, select } = drag;
+    drag = null;
+    if (moved) {
+      if (select) options.onSelect?.(selection);
+      return;
+    }
+    const rect = canvas.getBoundingClientRect();
+    if (selection) {
+      selection = null;
+      options.onSelect?.(null);
+      redraw();
+    }
+    options.onSeek?.(Math.max(0, Math.min(duration, timeAt(e.clientX - rect.left))));
+  });
+
+  return {
+    setAudio: (next, rate, speech = []) => {
+      samples = next;
+      sampleRate = rate;
+      peaks = buildPeaks(next);
+      regions = speech;
+      duration = next.length / rate;
+      viewStart = 0;
+      viewDuration = duration;
+      selection = null;
+      playhead = null;
+      options.onSelect?.(null);
+      redraw();
+    },
+    clear: () => {
+      samples = null;
+      peaks = [];
+      regions = [];
+      selection = null;
+      playhead = null;
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+    },
+    hasAudio: () => samples !== null,
+    setPlayhead: (seconds) => {
+      // page along when playback runs off the right edge of a zoomed view
+      const viewEnd = viewStart + viewDuration;
+      if (seconds !== null && playhead !== null && !drag && playhead <= viewEnd && seconds > viewEnd) {
+        viewStart = seconds;
+        clampView();
+      }
+      playhead = seconds;
+      redraw();
+    },
+    getSelection: () => selection,
+    setSelection: (next) => {
+      selection = next;
+      redraw();
+    },
+    redraw,
+  };
+}
+
+export default { createWaveformView, buildPeaks, formatRulerTime };
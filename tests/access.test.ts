@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { allowFolder, checkReadable, checkWritable, configureAccess, grantPaths } from '../src/services/access.js';
+
+let root: string;
+let allowed: string;
+let outside: string;
+let picked: string;
+
+const denied = expect.objectContaining({ name: 'AccessDeniedError' });
+
+beforeAll(async () => {
+  root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'vtp-access-')));
+  allowed = path.join(root, 'recordings');
+  outside = path.join(root, 'elsewhere');
+  await fs.mkdir(allowed);
+  await fs.mkdir(outside);
+  await fs.writeFile(path.join(allowed, 'take-1.wav'), '');
+  await fs.writeFile(path.join(outside, 'secret.txt'), 'secret');
+  await fs.writeFile(path.join(outside, 'talk.mp3'), '');
+  await fs.symlink(path.join(outside, 'secret.txt'), path.join(allowed, 'link.txt'));
+  await fs.symlink(outside, path.join(allowed, 'linked-folder'));
+  picked = path.join(outside, 'talk.mp3');
+  configureAccess({ folders: [] });
+  allowFolder(allowed);
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('configured folders', () => {
+  it('may be read and written', async () => {
+    await expect(checkReadable(path.join(allowed, 'take-1.wav'))).resolves.toBeUndefined();
+    await expect(checkWritable(path.join(allowed, 'take-2.wav'))).resolves.toBeUndefined();
+  });
+
+  it('do not reach outside through ..', async () => {
+    await expect(checkReadable(path.join(allowed, '..', 'elsewhere', 'secret.txt'))).rejects.toEqual(denied);
+    await expect(checkWritable(`${allowed}/../elsewhere/new.txt`)).rejects.toEqual(denied);
+    await expect(checkReadable(`${allowed}/..`)).rejects.toEqual(denied);
+  });
+
+  it('do not reach outside through symlinks', async () => {
+    await expect(checkReadable(path.join(allowed, 'link.txt'))).rejects.toEqual(denied);
+    await expect(checkWritable(path.join(allowed, 'link.txt'))).rejects.toEqual(denied);
+    await expect(checkWritable(path.join(allowed, 'linked-folder', 'new.txt'))).rejects.toEqual(denied);
+  });
+
+  it('do not cover the folder itself or its look-alike siblings', async () => {
+    await expect(checkReadable(allowed)).rejects.toEqual(denied);
+    await fs.mkdir(`${allowed}-old`, { recursive: true });
+    await expect(checkReadable(path.join(`${allowed}-old`, 'take-1.wav'))).rejects.toEqual(denied);
+  });
+});
+
+describe('picked files', () => {
+  it('may be read once granted, and nothing else next to them', async () => {
+    await expect(checkReadable(picked)).rejects.toThrow(/open it through the file dialog first/);
+    await grantPaths([picked]);
+    await expect(checkReadable(picked)).resolves.toBeUndefined();
+    await expect(checkReadable(path.join(outside, 'secret.txt'))).rejects.toEqual(denied);
+  });
+
+  it('let transcripts be written next to them, with the same name', async () => {
+    await grantPaths([picked]);
+    await expect(checkWritable(path.join(outside, 'talk.srt'))).resolves.toBeUndefined();
+    await expect(checkWritable(path.join(outside, 'talk.JSON'))).resolves.toBeUndefined();
+    await expect(checkWritable(path.join(outside, 'talk.sh'))).rejects.toEqual(denied);
+    await expect(checkWritable(path.join(outside, 'other.txt'))).rejects.toEqual(denied);
+    // the picked file itself stays read-only
+    await expect(checkWritable(picked)).rejects.toEqual(denied);
+  });
+
+  it('are granted through their real path', async () => {
+    const link = path.join(root, 'shortcut.mp3');
+    await fs.symlink(picked, link);
+    await expect(checkReadable(link)).resolves.toBeUndefined();
+  });
+
+  it('must be absolute', async () => {
+    expect(() => grantPaths(['talk.mp3'])).toThrow(/not an absolute path/);
+    await expect(checkReadable('recordings/take-1.wav')).rejects.toThrow(/not an absolute path/);
+  });
+});
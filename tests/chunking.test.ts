@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { SAMPLE_RATE } from '../src/services/audio.js';
+import { mergeOverlappingText, planChunks, stitchChunks, type AudioChunk } from '../src/services/chunking.js';
+import type { Transcript } from '../src/services/types.js';
+
+// 70 s in 30 s windows overlapping by 5 s: 0-30, 25-55, 50-70
+const chunks = planChunks(70 * SAMPLE_RATE, { chunkSeconds: 30, strideSeconds: 5 });
+
+/** window transcript with one segment per [start, end, text], in window time */
+const timed = (...segments: [number, number, string][]): Transcript => ({
+  text: segments.map(([, , text]) => text).join(' '),
+  segments: segments.map(([start, end, text], id) => ({ id, start, end, text })),
+});
+
+/** what an engine without timestamps returns: one segment over the whole window */
+const untimed = (chunk: AudioChunk, text: string): Transcript => ({
+  text,
+  segments: [{ id: 0, start: 0, end: (chunk.end - chunk.start) / SAMPLE_RATE, text }],
+});
+
+describe('planChunks', () => {
+  it('splits long audio into overlapping windows that own the middle of each overlap', () => {
+    expect(chunks.map((c) => [c.start / SAMPLE_RATE, c.end / SAMPLE_RATE, c.ownStart, c.ownEnd])).toEqual([
+      [0, 30, 0, 27.5], [25, 55, 27.5, 52.5], [50, 70, 52.5, 70],
+    ]);
+  });
+
+  it('keeps short audio in one window', () => {
+    expect(planChunks(10 * SAMPLE_RATE)).toEqual([{ index: 0, start: 0, end: 10 * SAMPLE_RATE, ownStart: 0, ownEnd: 10 }]);
+  });
+});
+
+describe('mergeOverlappingText', () => {
+  it('drops the words repeated across the boundary', () => {
+    expect(mergeOverlappingText('we went to the market', 'To the market, then home')).toBe('we went to the market then home');
+    expect(mergeOverlappingText('one two', 'three four')).toBe('one two three four');
+  });
+});
+
+describe('stitchChunks', () => {
+  it('keeps each segment once, in file time', () => {
+    const stitched = stitchChunks([
+      { chunk: chunks[0]!, transcript: timed([0, 10, 'first part.'], [26, 29, 'in the overlap.']) },
+      { chunk: chunks[1]!, transcript: timed([1, 4, 'in the overlap.'], [10, 20, 'middle part.']) },
+      { chunk: chunks[2]!, transcript: timed([5, 15, 'last part.']) },
+    ], 70);
+    expect(stitched.segments.map(({ start, end, text }) => [start, end, text])).toEqual([
+      [0, 10, 'first part.'], [26, 29, 'in the overlap.'], [35, 45, 'middle part.'], [55, 65, 'last part.'],
+    ]);
+    expect(stitched.text).toBe('first part. in the overlap. middle part. last part.');
+  });
+
+  it('keeps the text of an untimed window between timed ones', () => {
+    const stitched = stitchChunks([
+      { chunk: chunks[0]!, transcript: timed([0, 10, 'first part.'], [20, 29, 'and then']) },
+      { chunk: chunks[1]!, transcript: untimed(chunks[1]!, 'and then the untimed middle') },
+      { chunk: chunks[2]!, transcript: timed([5, 15, 'last part.']) },
+    ], 70);
+    expect(stitched.text).toBe('first part. and then the untimed middle last part.');
+    expect(stitched.segments.map(({ start, end, text }) => [start, end, text])).toEqual([
+      [0, 10, 'first part.'], [20, 29, 'and then'], [27.5, 52.5, 'the untimed middle'], [55, 65, 'last part.'],
+    ]);
+    expect(stitched.segments.map((s) => s.id)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('joins windows without timings by their text', () => {
+    const stitched = stitchChunks(chunks.map((chunk, i) => ({
+      chunk,
+      transcript: untimed(chunk, ['one two three four', 'three four five six', 'five six seven'][i]!),
+    })), 70);
+    expect(stitched.text).toBe('one two three four five six seven');
+    expect(stitched.segments.map(({ start, end }) => [start, end])).toEqual([[0, 27.5], [27.5, 52.5], [52.5, 70]]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  DEFAULT_CONFIDENCE_THRESHOLD, groupTokensIntoWords, meanConfidence, uncertainWords, wordConfidences, withSegmentConfidence,
+} from '../src/services/confidence.js';
+import type { Transcript, TranscriptSegment } from '../src/services/types.js';
+
+describe('groupTokensIntoWords', () => {
+  it('starts a word at each leading space and averages its tokens', () => {
+    const words = groupTokensIntoWords([
+      { text: ' Kub', probability: 0.2 },
+      { text: 'ern', probability: 0.4 },
+      { text: 'etes', probability: 0.9 },
+      { text: ' rocks', probability: 0.8 },
+      { text: '.', probability: 1 },
+    ]);
+    expect(words.map((w) => w.text)).toEqual(['Kubernetes', 'rocks.']);
+    expect(words[0]!.confidence).toBeCloseTo(0.5);
+    expect(words[1]!.confidence).toBeCloseTo(0.9);
+  });
+
+  it('drops whitespace-only pieces and starts a new word after them', () => {
+    const words = groupTokensIntoWords([
+      { text: 'Hi', probability: 0.6 },
+      { text: ' ', probability: 0.1 },
+      { text: 'there', probability: 0.7 },
+    ]);
+    expect(words).toEqual([{ text: 'Hi', confidence: 0.6 }, { text: 'there', confidence: 0.7 }]);
+    expect(groupTokensIntoWords([])).toEqual([]);
+  });
+});
+
+describe('segment scores', () => {
+  const timed: TranscriptSegment = {
+    id: 0,
+    start: 0,
+    end: 2,
+    text: 'hello world',
+    words: [{ text: ' hello', start: 0, end: 1, confidence: 0.9 }, { text: ' world', start: 1, end: 2 }],
+  };
+  const scored: TranscriptSegment = {
+    id: 1,
+    start: 2,
+    end: 4,
+    text: 'good bye',
+    wordScores: [{ text: 'good', confidence: 0.8 }, { text: 'bye', confidence: 0.2 }],
+  };
+
+  it('come from the timed words, or else from the word scores', () => {
+    expect(wordConfidences(timed)).toEqual([{ text: 'hello', confidence: 0.9 }, { text: 'world' }]);
+    expect(wordConfidences(scored)).toBe(scored.wordScores);
+    expect(wordConfidences({ id: 2, start: 4, end: 5, text: 'plain' })).toEqual([]);
+  });
+
+  it('average the scored words and are left out without scores', () => {
+    expect(withSegmentConfidence(timed).confidence).toBeCloseTo(0.9);
+    expect(withSegmentConfidence(scored).confidence).toBeCloseTo(0.5);
+    expect(withSegmentConfidence({ id: 2, start: 4, end: 5, text: 'plain', confidence: 0.3 })).not.toHaveProperty('confidence');
+    expect(meanConfidence([])).toBeUndefined();
+  });
+
+  it('flag the words under the threshold, in transcript order', () => {
+    const transcript: Transcript = { text: 'hello world good bye', segments: [timed, scored] };
+    expect(uncertainWords(transcript)).toEqual([{ segment: 1, word: 1, text: 'bye', confidence: 0.2 }]);
+    expect(uncertainWords(transcript, 0.95).map((w) => [w.segment, w.word])).toEqual([[0, 0], [1, 0], [1, 1]]);
+    // exactly at the threshold is not uncertain
+    expect(uncertainWords({ text: 'x', segments: [{ ...scored, wordScores: [{ text: 'x', confidence: DEFAULT_CONFIDENCE_THRESHOLD }] }] })).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from '@jest/globals';
+import { assignSpeakers, diarize, mfcc, speakerLabel } from '../src/services/diarization.js';
+import type { Transcript } from '../src/services/types.js';
+
+const RATE = 16000;
+
+/** Deterministic noise, so the features (and the clustering) are the same on every run */
+function noise(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 1073741824 - 1;
+  };
+}
+
+/**
+ * A synthetic voice: harmonics of `pitch` shaped by one formant around `formant` Hz, with a little vibrato,
+ * a syllable-rate loudness change and breath noise, so its MFCC frames vary like speech does
+ */
+function voice(seconds: number, pitch: number, formant: number, seed: number): Float32Array {
+  const random = noise(seed);
+  const samples = new Float32Array(Math.round(seconds * RATE));
+  let phase = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / RATE;
+    const f0 = pitch * (1 + 0.03 * Math.sin(2 * Math.PI * 5 * t));
+    phase += (2 * Math.PI * f0) / RATE;
+    let v = 0;
+    for (let h = 1; h * pitch < 4000; h++) {
+      const distance = (h * pitch - formant) / 400;
+      v += Math.sin(h * phase) * Math.exp(-distance * distance) / h ** 0.5;
+    }
+    const envelope = 0.6 + 0.4 * Math.sin(2 * Math.PI * 4 * t);
+    samples[i] = 0.1 * envelope * v + 0.005 * random();
+  }
+  return samples;
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const out = new Float32Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+const silence = (seconds: number) => new Float32Array(Math.round(seconds * RATE));
+
+// A for 6 s, B for 6 s, A again, with a second of silence between turns
+const conversation = concat(
+  voice(6, 110, 500, 1), silence(1), voice(6, 230, 2000, 2), silence(1), voice(6, 112, 520, 3),
+);
+
+describe('mfcc', () => {
+  it('gives one frame per 10 ms hop', () => {
+    const frames = mfcc(voice(1, 150, 800, 4));
+    expect(frames).toHaveLength(98);
+    expect(frames[0]).toHaveLength(19);
+  });
+
+  it('does not depend on the loudness', () => {
+    const quiet = voice(0.5, 150, 800, 5);
+    const loud = quiet.map((v) => v * 4);
+    const [a, b] = [mfcc(quiet)[20]!, mfcc(loud)[20]!];
+    a.forEach((value, d) => expect(b[d]).toBeCloseTo(value, 1));
+  });
+});
+
+describe('diarize', () => {
+  it('finds the turns of two voices with the count given', () => {
+    const turns = diarize(conversation, RATE, { speakers: 2 });
+    expect(turns.map((t) => t.speaker)).toEqual([0, 1, 0]);
+    expect(turns[1]!.start).toBeGreaterThan(6);
+    expect(turns[1]!.end).toBeLessThan(14);
+  });
+
+  it('finds the number of voices by itself', () => {
+    expect(diarize(conversation, RATE).map((t) => t.speaker)).toEqual([0, 1, 0]);
+  });
+
+  it('keeps one voice in one turn', () => {
+    const turns = diarize(concat(voice(5, 110, 500, 6), silence(0.4), voice(5, 110, 500, 7)), RATE);
+    expect(turns).toHaveLength(1);
+    expect(turns[0]!.speaker).toBe(0);
+  });
+
+  it('returns no turns for silence', () => {
+    expect(diarize(silence(5), RATE)).toEqual([]);
+  });
+});
+
+describe('assignSpeakers', () => {
+  const transcript: Transcript = {
+    text: 'hello there. hi. how are you',
+    segments: [
+      { id: 0, start: 0, end: 4, text: 'hello there.' },
+      { id: 1, start: 4.5, end: 6.5, text: 'hi.' },
+      { id: 2, start: 7, end: 9, text: 'how are you' },
+    ],
+  };
+
+  it('labels segments by overlap and numbers speakers by first appearance', () => {
+    const labeled = assignSpeakers(transcript, [
+      { start: 0, end: 4.2, speaker: 1 },
+      { start: 4.2, end: 6.6, speaker: 0 },
+      // the third segment is between turns: it goes to the nearest one
+      { start: 9.5, end: 11, speaker: 1 },
+    ]);
+    expect(labeled.segments.map((s) => s.speaker)).toEqual(['S1', 'S2', 'S1']);
+    expect(labeled.speakers).toEqual([{ id: 'S1', name: 'Speaker 1' }, { id: 'S2', name: 'Speaker 2' }]);
+    expect(speakerLabel(labeled, 'S2')).toBe('Speaker 2');
+    expect(speakerLabel({ ...labeled, speakers: [{ id: 'S2', name: 'Ada' }] }, 'S2')).toBe('Ada');
+  });
+
+  it('leaves the transcript alone without turns', () => {
+    expect(assignSpeakers(transcript, [])).toBe(transcript);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import { alignErrors, characterErrorRate, combineErrorRates, normalizeText, wordErrorRate } from '../src/eval/metrics.js';
+
+describe('normalizeText', () => {
+  it('lowercases and removes punctuation', () => {
+    expect(normalizeText('Hello, World!  How are   you?')).toBe('hello world how are you');
+  });
+
+  it('drops apostrophes instead of splitting on them', () => {
+    expect(normalizeText("Don't stop — it’s fine.")).toBe('dont stop its fine');
+  });
+
+  it('keeps accents unless asked to remove them', () => {
+    expect(normalizeText('Élève à Noël')).toBe('élève à noël');
+    expect(normalizeText('Élève à Noël', { removeDiacritics: true })).toBe('eleve a noel');
+  });
+
+  it('folds compatibility characters', () => {
+    expect(normalizeText('ﬁnal ２０２４')).toBe('final 2024');
+  });
+});
+
+describe('alignErrors', () => {
+  it('counts substitutions, deletions and insertions', () => {
+    expect(alignErrors(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e'])).toEqual({ substitutions: 1, deletions: 0, insertions: 1, reference: 4 });
+    expect(alignErrors(['a', 'b', 'c'], ['a', 'c'])).toEqual({ substitutions: 0, deletions: 1, insertions: 0, reference: 3 });
+  });
+
+  it('handles empty sequences', () => {
+    expect(alignErrors([], ['a', 'b'])).toEqual({ substitutions: 0, deletions: 0, insertions: 2, reference: 0 });
+    expect(alignErrors(['a', 'b'], [])).toEqual({ substitutions: 0, deletions: 2, insertions: 0, reference: 2 });
+  });
+});
+
+describe('wordErrorRate', () => {
+  it('is zero for texts that only differ in case and punctuation', () => {
+    expect(wordErrorRate('The cat sat on the mat.', 'the cat sat on the mat').rate).toBe(0);
+  });
+
+  it('divides the edits by the reference length', () => {
+    const wer = wordErrorRate('the cat sat on the mat', 'the cat sat on a mat today');
+    expect(wer).toMatchObject({ substitutions: 1, insertions: 1, deletions: 0, reference: 6 });
+    expect(wer.rate).toBeCloseTo(2 / 6);
+  });
+
+  it('can exceed 1 and handles empty references', () => {
+    expect(wordErrorRate('yes', 'no no no').rate).toBe(3);
+    expect(wordErrorRate('', '').rate).toBe(0);
+    expect(wordErrorRate('', 'noise').rate).toBe(1);
+  });
+});
+
+describe('characterErrorRate', () => {
+  it('compares the normalized characters, spaces included', () => {
+    const cer = characterErrorRate('Hello world', 'hallo world!');
+    expect(cer).toMatchObject({ substitutions: 1, reference: 11 });
+    expect(cer.rate).toBeCloseTo(1 / 11);
+  });
+});
+
+describe('combineErrorRates', () => {
+  it('weights items by their reference length', () => {
+    const combined = combineErrorRates([wordErrorRate('a b c d', 'a b c x'), wordErrorRate('e f', '')]);
+    expect(combined).toMatchObject({ substitutions: 1, deletions: 2, reference: 6 });
+    expect(combined.rate).toBeCloseTo(3 / 6);
+  });
+});
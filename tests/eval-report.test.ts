@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { loadManifest, runEvaluation, type EvalConfig, type EvalDeps } from '../src/eval/evaluate.js';
+import { formatReportTable, writeReport } from '../src/eval/report.js';
+import type { TranscribeOptions } from '../src/services/transcribe.js';
+import type { Transcript } from '../src/services/types.js';
+
+const HYPOTHESES: Record<string, Record<string, string>> = {
+  tiny: { 'one.wav': 'the quick brown fox jumped', 'two.wav': 'hello word' },
+  base: { 'one.wav': 'The quick brown fox jumps.', 'two.wav': 'Hello, world!' },
+};
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vtp-eval-'));
+  for (const name of ['one.wav', 'two.wav', 'three.wav']) await fs.writeFile(path.join(directory, name), '');
+  await fs.writeFile(path.join(directory, 'two.txt'), 'Hello world.\n');
+  await fs.writeFile(path.join(directory, 'manifest.json'), JSON.stringify({
+    items: [
+      { audio: 'one.wav', reference: 'The quick brown fox jumps' },
+      { audio: 'two.wav', referenceFile: 'two.txt', language: 'en' },
+      { audio: 'three.wav' },
+    ],
+    configs: [{ name: 'tiny', model: 'tiny' }, { name: 'base', model: 'base', preprocess: { normalize: true } }],
+  }));
+});
+
+afterAll(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+/** Stubbed transcriber: fixed text per model and file, 10 s of audio taking 2 s; three.wav fails with tiny */
+function stubDeps(calls: { file: string; options: TranscribeOptions }[]): EvalDeps {
+  let clock = 0;
+  return {
+    now: () => clock,
+    loadModel: async (config: EvalConfig) => {
+      clock += 500;
+      return { model: `Xenova/whisper-${config.model}`, loaded: true };
+    },
+    transcribe: async (file: string, options: TranscribeOptions): Promise<Transcript> => {
+      calls.push({ file, options });
+      clock += 2000;
+      const name = path.basename(file);
+      if (name === 'three.wav' && options.model === 'tiny') throw new Error('decoding failed');
+      const text = HYPOTHESES[options.model!]?.[name] ?? 'unscored speech';
+      return { text, segments: [{ id: 0, start: 0, end: 10, text }], duration: 10, model: `Xenova/whisper-${options.model}` };
+    },
+    log: () => {},
+  };
+}
+
+describe('loadManifest', () => {
+  it('resolves paths and reads reference files', async () => {
+    const manifest = await loadManifest(path.join(directory, 'manifest.json'));
+    expect(manifest.items.map((item) => item.id)).toEqual(['one.wav', 'two.wav', 'three.wav']);
+    expect(manifest.items[0]!.audio).toBe(path.join(directory, 'one.wav'));
+    expect(manifest.items[1]).toMatchObject({ reference: 'Hello world.\n', language: 'en' });
+    expect(manifest.items[2]!.reference).toBeUndefined();
+    expect(manifest.configs).toEqual([{ name: 'tiny', model: 'tiny' }, { name: 'base', model: 'base', preprocess: { normalize: true } }]);
+  });
+
+  it('rejects missing audio files', async () => {
+    const bad = path.join(directory, 'bad.json');
+    await fs.writeFile(bad, JSON.stringify({ items: [{ audio: 'missing.wav' }] }));
+    await expect(loadManifest(bad)).rejects.toThrow(/audio file not found/);
+  });
+});
+
+describe('runEvaluation', () => {
+  it('scores, times and aggregates every configuration', async () => {
+    const manifest = await loadManifest(path.join(directory, 'manifest.json'));
+    const calls: { file: string; options: TranscribeOptions }[] = [];
+    const report = await runEvaluation(manifest.items, manifest.configs, stubDeps(calls));
+
+    expect(calls).toHaveLength(6);
+    expect(calls[3]!.options).toMatchObject({ model: 'base', preprocess: { normalize: true }, confidence: false });
+    expect(calls[1]!.options.language).toBe('en');
+
+    const [tiny, base] = report.configs;
+    expect(tiny).toMatchObject({ model: 'Xenova/whisper-tiny', loadTime: 0.5, scored: 2, failed: 1 });
+    // one substitution in each item: 2 edits over 7 reference words
+    expect(tiny!.wer!.rate).toBeCloseTo(2 / 7);
+    expect(tiny!.items[2]).toMatchObject({ id: 'three.wav', error: 'decoding failed' });
+    expect(tiny!.realTimeFactor).toBeCloseTo(0.2);
+    expect(base).toMatchObject({ scored: 2, failed: 0 });
+    expect(base!.wer!.rate).toBe(0);
+    expect(base!.cer!.rate).toBe(0);
+    expect(base!.items[2]).toMatchObject({ hypothesis: 'unscored speech', realTimeFactor: 0.2 });
+    expect(base!.items[2]!.wer).toBeUndefined();
+  });
+
+  it('reports a model that cannot be loaded on every item', async () => {
+    const manifest = await loadManifest(path.join(directory, 'manifest.json'));
+    const calls: { file: string; options: TranscribeOptions }[] = [];
+    const deps = { ...stubDeps(calls), loadModel: async () => { throw new Error('model not found'); } };
+    const report = await runEvaluation(manifest.items, [{ name: 'missing', model: 'missing' }], deps);
+    expect(calls).toHaveLength(0);
+    expect(report.configs[0]).toMatchObject({ loadError: 'model not found', failed: 3, scored: 0 });
+    expect(report.configs[0]!.wer).toBeUndefined();
+  });
+});
+
+describe('report output', () => {
+  it('formats a comparison table and writes JSON and text', async () => {
+    const manifest = await loadManifest(path.join(directory, 'manifest.json'));
+    const report = await runEvaluation(manifest.items, manifest.configs, stubDeps([]), { manifest: 'manifest.json' });
+    const text = formatReportTable(report);
+    const lines = text.split('\n');
+
+    const header = lines.find((line) => line.startsWith('Config'))!;
+    expect(header.split(/\s{2,}/)).toEqual(['Config', 'Model', 'Settings', 'WER', 'CER', 'RTF', 'Load', 'Scored', 'Failed']);
+    expect(lines.find((line) => line.startsWith('tiny'))!.split(/\s{2,}/))
+      .toEqual(['tiny', 'Xenova/whisper-tiny', '-', '28.6%', '8.3%', '0.20', '0.50 s', '2/3', '1']);
+    expect(lines.find((line) => line.startsWith('base'))!.split(/\s{2,}/))
+      .toEqual(['base', 'Xenova/whisper-base', 'normalize', '0.0%', '0.0%', '0.20', '0.50 s', '2/3', '0']);
+    expect(lines.find((line) => line.startsWith('three.wav'))!.split(/\s{2,}/)).toEqual(['three.wav', '10.00 s', 'failed', 'unscored']);
+    expect(text).toContain('tiny / three.wav: decoding failed');
+
+    const written = await writeReport(report, path.join(directory, 'reports', 'run'));
+    expect(JSON.parse(await fs.readFile(written.json, 'utf8'))).toEqual(report);
+    expect(await fs.readFile(written.text, 'utf8')).toBe(text);
+  });
+});
+
+describe('bundled manifest', () => {
+  it('has a reference for every clip, so a run fills the WER / CER columns', async () => {
+    const manifest = await loadManifest(path.join('audios', 'manifest.json'));
+    expect(manifest.items.map((item) => item.id)).toEqual(['sample-0.wav', 'sample-0.mp3', 'testaudio_8000_test01_20s.wav', 'french-nasal-vowel.mp3']);
+    for (const item of manifest.items) expect(item.reference?.trim()).toBeTruthy();
+    expect(manifest.items[3]!.language).toBe('fr');
+
+    const report = await runEvaluation(manifest.items, [{ name: 'default' }], {
+      transcribe: async (): Promise<Transcript> => ({ text: 'my thought I have nobody', segments: [], duration: 10 }),
+      log: () => {},
+    });
+    expect(report.configs[0]).toMatchObject({ scored: 4, failed: 0 });
+    const row = formatReportTable(report).split('\n').find((line) => line.startsWith('default'))!.split(/\s{2,}/);
+    expect(row[3]).toMatch(/^\d+\.\d%$/);
+    expect(row[4]).toMatch(/^\d+\.\d%$/);
+  });
+});
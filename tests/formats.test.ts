@@ -0,0 +1,63 @@
+import { describe, expect, it } from '@jest/globals';
+import { formatFromPath, formatTimestamp, formatTranscript, toSrt, toText, toVtt } from '../src/services/formats.js';
+import type { Transcript } from '../src/services/types.js';
+
+const transcript: Transcript = {
+  text: 'Hello there. General Kenobi!',
+  segments: [
+    { id: 0, start: 0.5, end: 2.0004, text: ' Hello there.', speaker: 'S1' },
+    { id: 1, start: 2.5, end: 3, text: '  ' },
+    { id: 2, start: 3661.9996, end: 3663.25, text: 'General Kenobi!', speaker: 'S2' },
+  ],
+  speakers: [{ id: 'S1', name: 'Obi-Wan' }, { id: 'S2', name: 'Speaker 2' }],
+};
+
+describe('formatTimestamp', () => {
+  it('rounds to the millisecond, with hours and the separator of the format', () => {
+    expect(formatTimestamp(0)).toBe('00:00:00,000');
+    expect(formatTimestamp(1.0005)).toBe('00:00:01,001');
+    expect(formatTimestamp(59.9996, '.')).toBe('00:01:00.000');
+    expect(formatTimestamp(36000 + 62.5)).toBe('10:01:02,500');
+    expect(formatTimestamp(-1)).toBe('00:00:00,000');
+  });
+});
+
+describe('subtitles', () => {
+  it('number SRT cues, skip empty segments and prefix speaker names', () => {
+    expect(toSrt(transcript)).toBe([
+      '1\n00:00:00,500 --> 00:00:02,000\nObi-Wan: Hello there.\n',
+      '2\n01:01:02,000 --> 01:01:03,250\nSpeaker 2: General Kenobi!\n',
+    ].join('\n'));
+  });
+
+  it('write VTT cues with voice tags', () => {
+    expect(toVtt(transcript)).toBe([
+      'WEBVTT\n',
+      '00:00:00.500 --> 00:00:02.000\n<v Obi-Wan>Hello there.\n',
+      '01:01:02.000 --> 01:01:03.250\n<v Speaker 2>General Kenobi!\n',
+    ].join('\n'));
+  });
+
+  it('escape markup in VTT cue text and voice names', () => {
+    const vtt = toVtt({
+      text: '',
+      segments: [{ id: 0, start: 0, end: 1, text: 'if a < b && c --> d', speaker: 'S1' }],
+      speakers: [{ id: 'S1', name: 'Tom & <Jerry>' }],
+    });
+    expect(vtt).toContain('\n<v Tom &amp; &lt;Jerry&gt;>if a &lt; b &amp;&amp; c --&gt; d\n');
+    expect(vtt.match(/-->/g)).toHaveLength(1);
+  });
+});
+
+describe('text and formats', () => {
+  it('write one paragraph per speaker turn', () => {
+    expect(toText(transcript)).toBe('Obi-Wan: Hello there.\n\nSpeaker 2: General Kenobi!\n');
+    expect(toText({ text: ' plain ', segments: [] })).toBe('plain\n');
+  });
+
+  it('pick the format from the extension', () => {
+    expect(formatFromPath('talk.SRT')).toBe('srt');
+    expect(formatFromPath('talk.docx')).toBe('txt');
+    expect(JSON.parse(formatTranscript(transcript, 'json'))).toEqual(transcript);
+  });
+});
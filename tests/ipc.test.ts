@@ -0,0 +1,149 @@
+import { describe, expect, it } from '@jest/globals';
+import type { IpcMain } from 'electron';
+import { AccessDeniedError } from '../src/services/access.js';
+import { bridgeSpec, IPC, settingsPatch, transcribeRequest } from '../src/ipc/contract.js';
+import { registerIpc, toIpcError, type IpcHandlers } from '../src/ipc/main.js';
+import { arr, IpcError, num, obj, oneOf, optional, str } from '../src/ipc/validate.js';
+
+type Listener = (event: any, ...args: unknown[]) => unknown;
+
+/** Just enough of ipcMain to call the registered handlers the way the renderer would */
+function fakeIpcMain() {
+  const handlers = new Map<string, Listener>();
+  const listeners = new Map<string, Listener>();
+  const ipcMain = {
+    handle: (channel: string, listener: Listener) => { handlers.set(channel, listener); },
+    on: (channel: string, listener: Listener) => { listeners.set(channel, listener); },
+  };
+  return {
+    ipcMain: ipcMain as unknown as IpcMain,
+    invoke: (channel: string, ...args: unknown[]) => handlers.get(channel)!({}, ...args) as Promise<any>,
+    send: (channel: string, ...args: unknown[]) => listeners.get(channel)!({}, ...args),
+  };
+}
+
+/** A handler for every method that records its arguments; `overrides` replace some of them */
+function recordingHandlers(calls: unknown[][], overrides: Record<string, Listener> = {}): IpcHandlers {
+  const handlers: Record<string, Listener> = {};
+  for (const [method, def] of Object.entries(IPC)) {
+    if (def.kind !== 'event') handlers[method] = overrides[method] ?? ((_event, ...args) => { calls.push([method, ...args]); return {}; });
+  }
+  return handlers as unknown as IpcHandlers;
+}
+
+const invalid = (message: RegExp) => expect.objectContaining({ name: 'IpcError', code: 'invalid-argument', message: expect.stringMatching(message) });
+
+describe('checks', () => {
+  it('name the argument and the expected type', () => {
+    expect(() => str()(42, 'arg')).toThrow(invalid(/^arg: expected a string, got number$/));
+    expect(() => num()(Number.NaN, 'arg')).toThrow(invalid(/expected a finite number/));
+    expect(() => num({ integer: true })(1.5, 'arg')).toThrow(invalid(/expected an integer/));
+    expect(() => num({ min: 0, max: 1 })(2, 'arg')).toThrow(invalid(/2 is out of range/));
+    expect(() => oneOf(['a', 'b'] as const)('c', 'arg')).toThrow(invalid(/expected one of "a", "b", got string/));
+    expect(() => obj({})([], 'arg')).toThrow(invalid(/expected an object, got array/));
+    expect(() => obj({})(null, 'arg')).toThrow(invalid(/got null/));
+  });
+
+  it('enforce lengths and patterns', () => {
+    expect(() => str({ max: 3 })('abcd', 'arg')).toThrow(invalid(/longer than 3 characters/));
+    expect(() => str({ pattern: /^\w+$/ })('../x', 'arg')).toThrow(invalid(/invalid value "..\/x"/));
+    expect(() => arr(str(), { max: 1 })(['a', 'b'], 'arg')).toThrow(invalid(/more than 1 items/));
+    expect(() => arr(num())([1, 'two'], 'arg')).toThrow(invalid(/^arg\[1\]: expected a finite number/));
+  });
+
+  it('drop keys an object does not declare and accept missing optional ones', () => {
+    const check = obj({ name: str(), size: optional(num()) });
+    expect(check({ name: 'a', size: null, extra: true, __proto__: { polluted: 1 } }, 'arg')).toEqual({ name: 'a' });
+    expect(() => check({ size: 1 }, 'arg')).toThrow(invalid(/^arg\.name: expected a string, got undefined$/));
+  });
+});
+
+describe('contract', () => {
+  it('rejects malformed transcription requests', () => {
+    expect(transcribeRequest({ language: 'fr', vad: true, diarize: { speakers: 2 } }, 'request')).toEqual({ language: 'fr', vad: true, diarize: { speakers: 2 } });
+    expect(() => transcribeRequest({ diarize: { speakers: 0 } }, 'request')).toThrow(invalid(/request\.diarize\.speakers: 0 is out of range/));
+    expect(() => transcribeRequest({ task: 'summarize' }, 'request')).toThrow(invalid(/request\.task/));
+    expect(transcribeRequest({ timestamps: 'word' }, 'request')).toEqual({ timestamps: 'word' });
+    expect(() => transcribeRequest({ timestamps: 'char' }, 'request')).toThrow(invalid(/request\.timestamps: expected one of "segment", "word"/));
+    expect(() => transcribeRequest({ preprocess: { tempo: 'fast' } }, 'request')).toThrow(invalid(/request\.preprocess\.tempo/));
+  });
+
+  it('rejects malformed settings patches', () => {
+    expect(() => settingsPatch({ ui: { theme: 'neon' } }, 'patch')).toThrow(invalid(/patch\.ui\.theme/));
+    expect(() => settingsPatch({ outputFormats: ['txt', 'docx'] }, 'patch')).toThrow(invalid(/patch\.outputFormats\[1\]/));
+    expect(() => settingsPatch({ ruleSets: [{ name: 'a', mask: ['passwords'] }] }, 'patch')).toThrow(invalid(/patch\.ruleSets\[0\]\.mask\[0\]/));
+  });
+
+  it('lists every method for the preload', () => {
+    const spec = bridgeSpec();
+    expect(spec).toHaveLength(Object.keys(IPC).length);
+    expect(spec).toContainEqual({ method: 'sendStreamPcm', channel: 'stream-pcm', kind: 'send', log: false });
+    expect(new Set(spec.map((s) => s.channel)).size).toBe(spec.length);
+  });
+});
+
+describe('registerIpc', () => {
+  it('checks the arguments before the handler runs', async () => {
+    const calls: unknown[][] = [];
+    const ipc = fakeIpcMain();
+    registerIpc(ipc.ipcMain, recordingHandlers(calls));
+
+    expect(await ipc.invoke('transcribe-file', '/audio/a.wav', { vad: 'yes' })).toEqual({
+      ok: false,
+      error: { code: 'invalid-argument', message: 'transcribeFile argument 2.vad: expected a boolean, got string' },
+    });
+    expect(await ipc.invoke('get-job', '../../etc')).toMatchObject({ ok: false, error: { code: 'invalid-argument' } });
+    expect(await ipc.invoke('list-jobs', 'extra')).toMatchObject({
+      ok: false, error: { code: 'invalid-argument', message: 'listJobs: expected at most 0 arguments, got 1' },
+    });
+    expect(await ipc.invoke('stream-chunk', 'session-1', 'not a buffer')).toMatchObject({ ok: false, error: { code: 'invalid-argument' } });
+    expect(calls).toEqual([]);
+
+    expect(await ipc.invoke('transcribe-file', '/audio/a.wav', { vad: true, extra: 1 })).toEqual({ ok: true });
+    // a trailing undefined is dropped, so the handler's default applies
+    expect(await ipc.invoke('transcribe-file', '/audio/b.wav', undefined)).toEqual({ ok: true });
+    expect(calls).toEqual([['transcribeFile', '/audio/a.wav', { vad: true }], ['transcribeFile', '/audio/b.wav']]);
+  });
+
+  it('drops malformed sends without calling the handler', async () => {
+    const calls: unknown[][] = [];
+    const ipc = fakeIpcMain();
+    registerIpc(ipc.ipcMain, recordingHandlers(calls));
+    const consoleError = console.error;
+    console.error = () => {};
+    try {
+      await ipc.send('stream-pcm', 'session-1', [0, 1]);
+    } finally {
+      console.error = consoleError;
+    }
+    await ipc.send('stream-pcm', 'session-1', new ArrayBuffer(8));
+    expect(calls).toEqual([['sendStreamPcm', 'session-1', new ArrayBuffer(8)]]);
+  });
+
+  it('returns refusals as structured errors', async () => {
+    const ipc = fakeIpcMain();
+    registerIpc(ipc.ipcMain, recordingHandlers([], {
+      saveTranscript: () => { throw new AccessDeniedError('not allowed to write /etc/passwd'); },
+    }));
+    expect(await ipc.invoke('save-transcript', '/etc/passwd', 'text')).toEqual({
+      ok: false, error: { code: 'access-denied', message: 'not allowed to write /etc/passwd' },
+    });
+  });
+
+  it('refuses incomplete or unknown handler sets at startup', () => {
+    const handlers = recordingHandlers([]) as unknown as Record<string, unknown>;
+    const { listJobs, ...missing } = handlers;
+    expect(() => registerIpc(fakeIpcMain().ipcMain, missing as unknown as IpcHandlers)).toThrow(/no IPC handler for listJobs \(list-jobs\)/);
+    expect(() => registerIpc(fakeIpcMain().ipcMain, { ...handlers, onProgress: listJobs } as unknown as IpcHandlers))
+      .toThrow(/IPC handlers without a contract entry: onProgress/);
+  });
+});
+
+describe('toIpcError', () => {
+  it('maps errors to codes', () => {
+    expect(toIpcError(new IpcError('not-found', 'no job 3'))).toEqual({ code: 'not-found', message: 'no job 3' });
+    expect(toIpcError(Object.assign(new Error('ENOENT: no such file'), { code: 'ENOENT' }))).toMatchObject({ code: 'not-found' });
+    expect(toIpcError(Object.assign(new Error('aborted'), { name: 'AbortError' }))).toEqual({ code: 'cancelled', message: 'cancelled' });
+    expect(toIpcError('boom')).toEqual({ code: 'internal', message: 'boom' });
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { cancelJob, clearFinishedJobs, configureJobs, enqueueJob, getJob, listJobs, waitForJob } from '../src/services/jobs.js';
+import type { Transcriber, TranscribeOptions } from '../src/services/transcribe.js';
+import type { Transcript } from '../src/services/types.js';
+
+/** A transcription started by the queue; the test decides when it finishes */
+type Call = { filePath: string; options: TranscribeOptions; finish: () => void };
+
+const calls: Call[] = [];
+
+const transcriber: Transcriber = {
+  transcribeFile: (filePath, options = {}) => new Promise<Transcript>((resolve, reject) => {
+    const signal = options.signal!;
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    calls.push({ filePath, options, finish: () => resolve({ text: filePath, segments: [] }) });
+  }),
+  transcribeSamples: async () => ({ text: '', segments: [] }),
+};
+
+const status = (id: string) => getJob(id)?.status;
+
+/** Let the queue react to a finished or cancelled job */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+afterEach(async () => {
+  for (const job of listJobs()) cancelJob(job.id);
+  await settle();
+  clearFinishedJobs();
+  calls.length = 0;
+});
+
+describe('job queue', () => {
+  it('runs up to `concurrency` jobs at once, the others in order', async () => {
+    configureJobs({ concurrency: 2, transcriber });
+    const [a, b, c] = ['a.wav', 'b.wav', 'c.wav'].map((file) => enqueueJob(`/audio/${file}`, { timestamps: 'word' }));
+    expect([a, b, c].map((job) => status(job!.id))).toEqual(['running', 'running', 'queued']);
+    expect(calls.map((call) => call.filePath)).toEqual(['/audio/a.wav', '/audio/b.wav']);
+    // the request's options reach the transcriber
+    expect(calls[0]!.options).toMatchObject({ timestamps: 'word' });
+
+    calls[1]!.finish();
+    expect(await waitForJob(b!.id)).toEqual({ text: '/audio/b.wav', segments: [] });
+    await settle();
+    expect(status(c!.id)).toBe('running');
+    expect(calls.map((call) => call.filePath)).toEqual(['/audio/a.wav', '/audio/b.wav', '/audio/c.wav']);
+  });
+
+  it('drops a cancelled queued job without running it', async () => {
+    configureJobs({ concurrency: 1, transcriber });
+    const first = enqueueJob('/audio/first.wav');
+    const second = enqueueJob('/audio/second.wav');
+    expect(cancelJob(second.id)).toBe(true);
+    expect(status(second.id)).toBe('cancelled');
+    await expect(waitForJob(second.id)).rejects.toMatchObject({ name: 'AbortError' });
+
+    calls[0]!.finish();
+    await waitForJob(first.id);
+    await settle();
+    expect(calls).toHaveLength(1);
+    expect(cancelJob(second.id)).toBe(false);
+  });
+
+  it('aborts a cancelled running job and starts the next one', async () => {
+    configureJobs({ concurrency: 1, transcriber });
+    const first = enqueueJob('/audio/first.wav');
+    const second = enqueueJob('/audio/second.wav');
+    expect(cancelJob(first.id)).toBe(true);
+    expect(calls[0]!.options.signal!.aborted).toBe(true);
+    await expect(waitForJob(first.id)).rejects.toMatchObject({ name: 'AbortError' });
+    await settle();
+    expect(getJob(first.id)).toMatchObject({ status: 'cancelled' });
+    expect(getJob(first.id)).not.toHaveProperty('error');
+    expect(status(second.id)).toBe('running');
+  });
+
+  it('starts waiting jobs when the limit is raised', async () => {
+    configureJobs({ concurrency: 1, transcriber });
+    const jobs = ['a.wav', 'b.wav', 'c.wav'].map((file) => enqueueJob(`/audio/${file}`));
+    expect(calls).toHaveLength(1);
+    configureJobs({ concurrency: 3 });
+    expect(jobs.map((job) => status(job.id))).toEqual(['running', 'running', 'running']);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from '@jest/globals';
+import { AUTO_LANGUAGE, isEnglishOnlyModel, languageName, normalizeLanguage, WHISPER_LANGUAGES } from '../src/services/languages.js';
+
+describe('normalizeLanguage', () => {
+  it('accepts codes and English names', () => {
+    expect(normalizeLanguage('fr')).toBe('fr');
+    expect(normalizeLanguage(' French ')).toBe('fr');
+    expect(normalizeLanguage('ht')).toBe('ht');
+    expect(normalizeLanguage('Haitian Creole')).toBe('ht');
+    expect(normalizeLanguage('AUTO')).toBe(AUTO_LANGUAGE);
+    expect(normalizeLanguage(undefined)).toBeUndefined();
+  });
+
+  it('maps aliases to their code', () => {
+    expect(normalizeLanguage('Burmese')).toBe('my');
+    expect(normalizeLanguage('castilian')).toBe('es');
+    expect(normalizeLanguage('Haitian')).toBe('ht');
+    expect(normalizeLanguage('Moldovan')).toBe('ro');
+  });
+
+  it('rejects unknown languages', () => {
+    expect(() => normalizeLanguage('Klingon')).toThrow(/unsupported language: Klingon/);
+  });
+});
+
+describe('language list', () => {
+  it('holds one entry per code, with a display name', () => {
+    const codes = WHISPER_LANGUAGES.map(([code]) => code);
+    expect(new Set(codes).size).toBe(codes.length);
+    expect(codes).not.toContain('burmese');
+    for (const [code, name] of WHISPER_LANGUAGES) {
+      expect(code).toMatch(/^[a-z]{2,3}$/);
+      expect(name[0]).toBe(name[0]!.toUpperCase());
+    }
+    expect(languageName('ht')).toBe('Haitian Creole');
+  });
+
+  it('spots English-only models', () => {
+    expect(isEnglishOnlyModel('Xenova/whisper-small.en')).toBe(true);
+    expect(isEnglishOnlyModel('ggml-base.en.bin')).toBe(true);
+    expect(isEnglishOnlyModel('Xenova/whisper-small')).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import { afterAll, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  addTranscript, configureLibrary, deleteEntry, getEntry, listEntries, renameEntry, resolveEntryId, searchLibrary, updateTranscript,
+} from '../src/services/library.js';
+import type { Transcript } from '../src/services/types.js';
+
+const directories: string[] = [];
+let directory: string;
+
+/** transcript with one segment per sentence, a second apart */
+const transcript = (...sentences: string[]): Transcript => ({
+  text: sentences.join(' '),
+  segments: sentences.map((text, id) => ({ id, start: id, end: id + 1, text })),
+  duration: sentences.length,
+  language: 'en',
+});
+
+const readIndex = async () => JSON.parse(await fs.readFile(path.join(directory, 'index.json'), 'utf8'));
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vtp-library-'));
+  directories.push(directory);
+  configureLibrary({ directory });
+});
+
+afterAll(async () => {
+  for (const dir of directories) await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('library', () => {
+  it('stores a transcript with its entry', async () => {
+    const entry = await addTranscript(transcript('Hello there.', 'How are you?'), { sourcePath: '/audio/call.wav', engine: 'fake' });
+    expect(entry).toMatchObject({ title: 'call.wav', sourcePath: '/audio/call.wav', engine: 'fake', segments: 2, duration: 2, language: 'en' });
+    expect(entry.preview).toBe('Hello there. How are you?');
+    expect((await getEntry(entry.id)).transcript.segments).toHaveLength(2);
+    expect(await readIndex()).toEqual([entry]);
+    expect(await resolveEntryId(entry.id.slice(0, 8))).toBe(entry.id);
+  });
+
+  it('keeps both of two transcripts added at the same time', async () => {
+    const [a, b] = await Promise.all([
+      addTranscript(transcript('first'), { sourcePath: '/audio/a.wav' }),
+      addTranscript(transcript('second'), { sourcePath: '/audio/b.wav' }),
+    ]);
+    expect((await readIndex()).map((e: { id: string }) => e.id).sort()).toEqual([a!.id, b!.id].sort());
+    // a fresh read of the files sees them too
+    configureLibrary({ directory });
+    expect(await listEntries()).toHaveLength(2);
+  });
+
+  it('finds entries containing every query word, accents and case aside', async () => {
+    const meeting = await addTranscript(transcript('The budget is approved.', 'Next: the café opening.'), { sourcePath: '/a.wav', title: 'Weekly sync' });
+    await addTranscript(transcript('Budget talks stalled.'), { sourcePath: '/b.wav' });
+    const hits = await searchLibrary('CAFE budget');
+    expect(hits.map((hit) => hit.entry.id)).toEqual([meeting.id]);
+    expect(hits[0]!.matches).toEqual([
+      { segment: 0, start: 0, end: 1, text: 'The budget is approved.' },
+      { segment: 1, start: 1, end: 2, text: 'Next: the café opening.' },
+    ]);
+    // titles count too
+    expect(await searchLibrary('weekly')).toHaveLength(1);
+    expect(await searchLibrary('  ')).toEqual([]);
+  });
+
+  it('renames and updates entries', async () => {
+    const entry = await addTranscript(transcript('draft'), { sourcePath: '/a.wav' });
+    expect(await renameEntry(entry.id, '  Board meeting ')).toMatchObject({ title: 'Board meeting' });
+    await expect(renameEntry(entry.id, ' ')).rejects.toThrow(/title must not be empty/);
+    const updated = await updateTranscript(entry.id, transcript('final text', 'with two segments'));
+    expect(updated).toMatchObject({ title: 'Board meeting', segments: 2, preview: 'final text with two segments' });
+    expect((await getEntry(entry.id)).transcript.text).toBe('final text with two segments');
+  });
+
+  it('deletes an entry and its transcript file', async () => {
+    const entry = await addTranscript(transcript('gone soon'), { sourcePath: '/a.wav' });
+    await deleteEntry(entry.id);
+    expect(await listEntries()).toEqual([]);
+    await expect(fs.access(path.join(directory, `${entry.id}.json`))).rejects.toThrow();
+    await expect(deleteEntry(entry.id)).rejects.toThrow(/no library entry/);
+    await expect(getEntry('../index')).rejects.toThrow(/invalid library id/);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyTextRules, checkRuleSets, checkTextRules, enginePrompt, postprocessTranscript } from '../src/services/postprocess.js';
+import type { Transcript } from '../src/services/types.js';
+
+describe('spoken numbers', () => {
+  const numbers = (text: string) => applyTextRules(text, { numbers: true });
+
+  it('turns runs of number words into digits', () => {
+    expect(numbers('we sold twenty five units')).toBe('we sold 25 units');
+    expect(numbers('two hundred and forty-two thousand three hundred people')).toBe('242300 people');
+    expect(numbers('a budget of three million')).toBe('a budget of 3000000');
+  });
+
+  it('reads years in pairs and keeps separate numbers apart', () => {
+    expect(numbers('in nineteen eighty four')).toBe('in 1984');
+    expect(numbers('dial one two three')).toBe('dial one two three');
+    expect(numbers('eleven twelve')).toBe('11 12');
+  });
+
+  it('leaves small and round numbers as words', () => {
+    expect(numbers('one of the three days')).toBe('one of the three days');
+    expect(numbers('a hundred people')).toBe('a hundred people');
+  });
+
+  it('writes percent as a sign after digits', () => {
+    expect(numbers('up forty percent')).toBe('up 40%');
+    expect(numbers('five percent')).toBe('five percent');
+  });
+});
+
+describe('replacements', () => {
+  it('match whole words, ignoring case unless asked', () => {
+    const rules = { replacements: [{ find: 'cube control', replace: 'kubectl' }, { find: 'Go', replace: 'Golang', matchCase: true }] };
+    expect(applyTextRules('Run Cube  Control apply, then go to the Go docs.', rules)).toBe('Run kubectl apply, then go to the Golang docs.');
+    expect(applyTextRules('cube controller', rules)).toBe('cube controller');
+  });
+
+  it('support regular expressions with groups', () => {
+    const rules = { replacements: [{ find: '\\bv(\\d+) point (\\d+)', replace: 'v$1.$2', regex: true }] };
+    expect(applyTextRules('upgrade to v2 point 7 today', rules)).toBe('upgrade to v2.7 today');
+  });
+
+  it('apply in order', () => {
+    const rules = { replacements: [{ find: 'a', replace: 'b' }, { find: 'b', replace: 'c' }] };
+    expect(applyTextRules('a b', rules)).toBe('c c');
+  });
+
+  it('restore the spelling of vocabulary terms', () => {
+    const rules = { vocabulary: ['GitHub', 'Visual Studio Code', 'Visual Studio'] };
+    expect(applyTextRules('push to git hub from visual studio code', rules)).toBe('push to GitHub from Visual Studio Code');
+    expect(applyTextRules('open visual studio', rules)).toBe('open Visual Studio');
+  });
+});
+
+describe('masking', () => {
+  it('hides e-mail addresses, written or dictated', () => {
+    const rules = { mask: ['email' as const] };
+    expect(applyTextRules('write to jane.doe@example.co.uk today', rules)).toBe('write to [email] today');
+    expect(applyTextRules('it is john dot smith at example dot com', rules)).toBe('it is [email]');
+  });
+
+  it('hides phone numbers but not years or amounts', () => {
+    const rules = { mask: ['phone' as const] };
+    expect(applyTextRules('call +33 6 12 34 56 78 or (555) 123-4567', rules)).toBe('call [phone] or [phone]');
+    expect(applyTextRules('five five five one two three four five six seven', rules)).toBe('[phone]');
+    expect(applyTextRules('in 2024 we paid 1 250.00', rules)).toBe('in 2024 we paid 1 250.00');
+  });
+
+  it('only hides digits shaped like a phone number', () => {
+    const rules = { mask: ['phone' as const] };
+    expect(applyTextRules('ring 06 12 34 56 78, 020 7946 0958 or 555-123-4567', rules)).toBe('ring [phone], [phone] or [phone]');
+    for (const text of ['Between 2019 - 2020', 'Order 12345678', '1 250 000 euros', '1.250.000 EUR', 'on 15.03.2024 at 10:30']) {
+      expect(applyTextRules(text, rules)).toBe(text);
+    }
+  });
+
+  it('keeps the first letter of profanity', () => {
+    expect(applyTextRules('Well, shit. That is Bullshit', { mask: ['profanity'] })).toBe('Well, s***. That is B*******');
+    expect(applyTextRules('a shitake mushroom', { mask: ['profanity'] })).toBe('a shitake mushroom');
+  });
+});
+
+describe('fillers and casing', () => {
+  it('strips hesitations with their punctuation and hands on the capital', () => {
+    expect(applyTextRules('Um, so we, uh, shipped it... Hmm. Euh bon.', { fillers: true })).toBe('So we, shipped it... Bon.');
+    expect(applyTextRules('umbrella and humming', { fillers: true })).toBe('umbrella and humming');
+    expect(applyTextRules('Uhm...', { fillers: true })).toBe('');
+  });
+
+  it('capitalizes sentences and "I"', () => {
+    expect(applyTextRules("i think i'm done. really? yes", { casing: 'sentence' })).toBe("I think I'm done. Really? Yes");
+    expect(applyTextRules('and i agree', { casing: 'sentence' }, { sentenceStart: false })).toBe('and I agree');
+    expect(applyTextRules('Mixed Case', { casing: 'upper' })).toBe('MIXED CASE');
+  });
+});
+
+describe('checkTextRules', () => {
+  it('drops empty rules and rejects invalid ones', () => {
+    expect(checkTextRules({ prompt: '  ', vocabulary: ['', 'Foo', 'Foo'], replacements: [], fillers: false, mask: [] })).toEqual({ vocabulary: ['Foo'] });
+    expect(() => checkTextRules({ replacements: [{ find: '(', regex: true }] })).toThrow(/replacements\[0\]\.find is not a valid regular expression/);
+    expect(() => checkTextRules({ mask: ['ssn'] })).toThrow(/mask must list some of profanity, email, phone/);
+    expect(() => checkTextRules({ shout: true })).toThrow(/unknown rule: shout/);
+    expect(() => checkRuleSets([{ name: 'Calls' }, { name: 'calls' }])).toThrow(/two rule sets are named calls/);
+  });
+
+  it('builds the engine prompt from the prompt and the vocabulary', () => {
+    expect(enginePrompt({ prompt: 'A weekly sync.', vocabulary: ['Kubernetes', 'Helm'] })).toBe('A weekly sync. Kubernetes, Helm.');
+    expect(enginePrompt({ fillers: true })).toBeUndefined();
+  });
+});
+
+describe('postprocessTranscript', () => {
+  const transcript: Transcript = {
+    text: 'Um. we have twenty five users',
+    segments: [
+      { id: 0, start: 0, end: 1, text: 'Um.', words: [{ text: ' Um.', start: 0, end: 1, confidence: 0.4 }] },
+      {
+        id: 1,
+        start: 1,
+        end: 4,
+        text: 'we have twenty five users',
+        words: [
+          { text: ' we', start: 1, end: 1.5, confidence: 0.9 },
+          { text: ' have', start: 1.5, end: 2, confidence: 0.8 },
+          { text: ' twenty', start: 2, end: 2.8, confidence: 0.7 },
+          { text: ' five', start: 2.8, end: 3.2, confidence: 0.6 },
+          { text: ' users', start: 3.2, end: 4, confidence: 0.95 },
+        ],
+      },
+    ],
+  };
+
+  it('rewrites segments, drops the empty ones and keeps word timings', () => {
+    const result = postprocessTranscript(transcript, { fillers: true, numbers: true, casing: 'sentence' });
+    expect(result.text).toBe('We have 25 users');
+    expect(result.segments).toHaveLength(1);
+    expect(result.segments[0]!.words!.map(({ text, start, end, confidence }) => [text.trim(), start, end, confidence])).toEqual([
+      ['We', 1, 1.5, undefined],
+      ['have', 1.5, 2, 0.8],
+      ['25', 2, 3.2, undefined],
+      ['users', 3.2, 4, 0.95],
+    ]);
+  });
+
+  it('returns the transcript itself when no rule changes the text', () => {
+    expect(postprocessTranscript(transcript, { prompt: 'context only' })).toBe(transcript);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { configureRecordings, endSession, pushChunk, pushPcm, startSession } from '../src/services/recording.js';
+import type { Transcriber } from '../src/services/transcribe.js';
+
+let directory: string;
+
+const transcribed: string[] = [];
+const transcriber: Transcriber = {
+  transcribeFile: async (filePath) => {
+    transcribed.push(filePath);
+    return { text: 'recorded words', segments: [{ id: 0, start: 0, end: 1, text: 'recorded words' }], duration: 1 };
+  },
+  transcribeSamples: async () => ({ text: '', segments: [] }),
+};
+
+const chunk = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vtp-recording-'));
+  configureRecordings({ directory, transcriber });
+});
+
+afterAll(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe('recording sessions', () => {
+  it('appends chunks in order and saves the audio with its transcript', async () => {
+    await startSession('ordered');
+    await Promise.all(['one,', 'two,', 'three'].map((text) => pushChunk('ordered', chunk(text))));
+    const result = await endSession('ordered');
+    expect(await fs.readFile(result.audioPath, 'utf8')).toBe('one,two,three');
+    expect(path.extname(result.audioPath)).toBe('.webm');
+    expect(await fs.readFile(result.transcriptPath, 'utf8')).toContain('recorded words');
+    expect(transcribed).toContain(result.audioPath);
+  });
+
+  it('keeps recording after a chunk fails to be written', async () => {
+    await startSession('flaky');
+    const part = path.join(directory, '.incomplete', 'flaky.webm');
+    expect(await pushChunk('flaky', chunk('before,'))).toMatchObject({ bytes: 7 });
+
+    // a directory in place of the part file makes the next append fail
+    await fs.rename(part, `${part}.saved`);
+    await fs.mkdir(part);
+    await expect(pushChunk('flaky', chunk('lost,'))).rejects.toThrow();
+    await fs.rmdir(part);
+    await fs.rename(`${part}.saved`, part);
+
+    expect(await pushChunk('flaky', chunk('after'))).toMatchObject({ bytes: 12 });
+    const result = await endSession('flaky');
+    expect(await fs.readFile(result.audioPath, 'utf8')).toBe('before,after');
+  });
+
+  it('ends a session whose last chunk failed', async () => {
+    await startSession('broken');
+    const part = path.join(directory, '.incomplete', 'broken.webm');
+    await pushChunk('broken', chunk('kept'));
+    await fs.rename(part, `${part}.saved`);
+    await fs.mkdir(part);
+    await expect(pushChunk('broken', chunk('lost'))).rejects.toThrow();
+    await fs.rmdir(part);
+    await fs.rename(`${part}.saved`, part);
+
+    const result = await endSession('broken');
+    expect(await fs.readFile(result.audioPath, 'utf8')).toBe('kept');
+  });
+});
+
+describe('live sessions', () => {
+  // the live passes run on their own transcriber; one pass at the end, as no step is ever reached
+  const live = (transcribeSamples: Transcriber['transcribeSamples']) =>
+    ({ live: { stepSeconds: 3600, transcriber: { ...transcriber, transcribeSamples } } });
+
+  it('keep the live transcript when the last pass succeeds', async () => {
+    await startSession('live-ok', live(async () => ({ text: 'live words', segments: [{ id: 0, start: 0, end: 1, text: 'live words' }] })));
+    await pushChunk('live-ok', chunk('audio'));
+    pushPcm('live-ok', new Float32Array(16000));
+    const result = await endSession('live-ok');
+    expect(result.transcript.text).toBe('live words');
+    expect(transcribed).not.toContain(result.audioPath);
+  });
+
+  it('transcribe the whole recording when the last pass fails', async () => {
+    let passes = 0;
+    // the first pass commits a segment; the last one, on the remaining audio, fails
+    await startSession('live-failed', {
+      live: {
+        stepSeconds: 1,
+        stableMarginSeconds: 0,
+        transcriber: {
+          ...transcriber,
+          transcribeSamples: async () => {
+            if (passes++ > 0) throw new Error('model crashed');
+            return { text: 'first second', segments: [{ id: 0, start: 0, end: 0.5, text: 'first' }, { id: 1, start: 0.5, end: 2, text: 'second' }] };
+          },
+        },
+      },
+    });
+    await pushChunk('live-failed', chunk('audio'));
+    pushPcm('live-failed', new Float32Array(32000));
+    const logged: string[] = [];
+    const result = await endSession('live-failed', { log: (message) => logged.push(message) });
+    expect(result.transcript.text).toBe('recorded words');
+    expect(transcribed).toContain(result.audioPath);
+    expect(passes).toBe(2);
+    expect(logged).toEqual([expect.stringContaining('model crashed')]);
+  });
+});
@@ -0,0 +1,231 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import http from 'http';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import type { Duplex } from 'stream';
+import { SAMPLE_RATE } from '../src/services/audio.js';
+import { configureJobs } from '../src/services/jobs.js';
+import { configureRecordings } from '../src/services/recording.js';
+import { configureSettings } from '../src/services/settings.js';
+import { transcribeSamples, type Transcriber } from '../src/services/transcribe.js';
+import { startServer, type RunningServer } from '../src/server/server.js';
+import { acceptWebSocket, type WebSocketConnection } from '../src/server/websocket.js';
+
+const TOKEN = 'secret-token';
+let directory: string;
+let server: RunningServer;
+
+/** The fake engine on one second of audio per 1000 bytes of the file, without ffmpeg */
+const transcriber: Transcriber = {
+  transcribeFile: async (filePath, options = {}) => {
+    const { size } = await fs.stat(filePath);
+    return transcribeSamples(new Float32Array(Math.round((size / 1000) * SAMPLE_RATE)), { ...options, engine: 'fake' });
+  },
+  transcribeSamples: (samples, options = {}) => transcribeSamples(samples, { ...options, engine: 'fake' }),
+};
+
+function upload(fields: Record<string, string>, bytes = 12_000, token: string | null = TOKEN) {
+  const form = new FormData();
+  form.append('file', new Blob([new Uint8Array(bytes)]), 'clip.wav');
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+  return fetch(`${server.url}/v1/audio/transcriptions`, {
+    method: 'POST',
+    body: form,
+    ...(token ? { headers: { Authorization: `Bearer ${token}` } } : {}),
+  });
+}
+
+/** A client frame: masked, as RFC 6455 requires of clients */
+function clientFrame(opcode: number, payload: Buffer, fin = true): Buffer {
+  const mask = crypto.randomBytes(4);
+  const length = payload.length;
+  const header = length < 126 ? Buffer.from([0, 0x80 | length]) : Buffer.from([0, 0x80 | 126, length >> 8, length & 0xff]);
+  header[0] = (fin ? 0x80 : 0) | opcode;
+  const masked = Buffer.from(payload);
+  for (let i = 0; i < masked.length; i++) masked[i]! ^= mask[i & 3]!;
+  return Buffer.concat([header, mask, masked]);
+}
+
+function handshake(pathAndQuery: string): Buffer {
+  return Buffer.from(
+    `GET ${pathAndQuery} HTTP/1.1\r\nHost: localhost\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n`
+    + `Sec-WebSocket-Key: ${crypto.randomBytes(16).toString('base64')}\r\nSec-WebSocket-Version: 13\r\n\r\n`,
+  );
+}
+
+async function connect(port: number | string): Promise<net.Socket> {
+  const socket = net.connect(Number(port), '127.0.0.1');
+  await new Promise<void>((resolve, reject) => socket.once('connect', resolve).once('error', reject));
+  return socket;
+}
+
+/** Text messages the server sends on `socket`, after the handshake response */
+function serverMessages(socket: net.Socket) {
+  const messages: any[] = [];
+  const waiters: (() => void)[] = [];
+  let buffer = Buffer.alloc(0);
+  let upgraded = false;
+  socket.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    if (!upgraded) {
+      const end = buffer.indexOf('\r\n\r\n');
+      if (end < 0) return;
+      expect(buffer.subarray(0, end).toString()).toMatch(/^HTTP\/1\.1 101 /);
+      buffer = buffer.subarray(end + 4);
+      upgraded = true;
+    }
+    while (buffer.length >= 2) {
+      let length = buffer[1]! & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (buffer.length < offset + length) return;
+      if ((buffer[0]! & 0x0f) === 0x1) messages.push(JSON.parse(buffer.subarray(offset, offset + length).toString('utf8')));
+      buffer = buffer.subarray(offset + length);
+      waiters.splice(0).forEach((wake) => wake());
+    }
+  });
+  return {
+    async next(type: string): Promise<any> {
+      for (;;) {
+        const found = messages.find((m) => m.type === type || m.type === 'error');
+        if (found) {
+          messages.splice(messages.indexOf(found), 1);
+          return found;
+        }
+        await new Promise<void>((resolve) => waiters.push(resolve));
+      }
+    },
+  };
+}
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vtp-server-'));
+  const settingsFile = path.join(directory, 'settings.json');
+  await fs.writeFile(settingsFile, '{}');
+  configureSettings({ path: settingsFile });
+  configureRecordings({ directory: path.join(directory, 'recordings'), transcriber });
+  server = await startServer({ port: 0, token: TOKEN, maxUploadBytes: 50_000, defaults: { engine: 'fake' }, log: () => {} });
+  // after startServer, which configures the queue for itself
+  configureJobs({ transcriber });
+});
+
+afterAll(async () => {
+  await server.close();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe('audio API', () => {
+  it('answers health checks without a token', async () => {
+    const res = await fetch(`${server.url}/health`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ status: 'ok', engine: 'fake' });
+  });
+
+  it('refuses requests without the token', async () => {
+    const res = await upload({}, 12_000, null);
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ error: { code: 'invalid_api_key' } });
+    expect((await upload({}, 12_000, 'wrong')).status).toBe(401);
+  });
+
+  it('transcribes a multipart upload as json', async () => {
+    const res = await upload({ model: 'whisper-1' });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ text: 'segment 1 segment 2 segment 3' });
+  });
+
+  it('returns segments and word timings in verbose_json', async () => {
+    const res = await upload({ response_format: 'verbose_json', 'timestamp_granularities[]': 'word' });
+    const body = await res.json() as any;
+    expect(body).toMatchObject({ task: 'transcribe', language: 'english', duration: 12, text: 'segment 1 segment 2 segment 3' });
+    expect(body.segments.map((s: any) => [s.start, s.end, s.text.trim()])).toEqual([[0, 5, 'segment 1'], [5, 10, 'segment 2'], [10, 12, 'segment 3']]);
+    expect(body.words[0]).toEqual({ word: 'segment', start: 0, end: 2.5 });
+  });
+
+  it('returns subtitles in srt', async () => {
+    const res = await upload({ response_format: 'srt' });
+    expect(res.headers.get('content-type')).toMatch(/^text\/plain/);
+    expect(await res.text()).toMatch(/^1\r?\n00:00:00,000 --> 00:00:05,000\r?\nsegment 1\r?\n\r?\n2\r?\n00:00:05,000 --> 00:00:10,000/);
+  });
+
+  it('refuses uploads over the size limit', async () => {
+    const res = await upload({}, 60_000);
+    expect(res.status).toBe(413);
+    expect(await res.json()).toMatchObject({ error: { message: 'request body exceeds 50000 bytes' } });
+  });
+
+  it('rejects an unknown response format', async () => {
+    const res = await upload({ response_format: 'xml' });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { code: 'invalid_response_format' } });
+  });
+});
+
+describe('streaming WebSocket', () => {
+  it('accepts masked, fragmented messages sent with the handshake', async () => {
+    const socket = await connect(new URL(server.url).port);
+    const messages = serverMessages(socket);
+
+    // the start message split over three frames, all sent with the upgrade request: the server reads them as `head`
+    const start = Buffer.from(JSON.stringify({ type: 'start', format: 'pcm_s16le' }));
+    socket.write(Buffer.concat([
+      handshake(`/v1/stream?token=${TOKEN}`),
+      clientFrame(0x1, start.subarray(0, 10), false),
+      clientFrame(0x0, start.subarray(10, 20), false),
+      clientFrame(0x0, start.subarray(20), true),
+    ]));
+    expect(await messages.next('started')).toMatchObject({ type: 'started' });
+
+    // 18000 bytes of PCM in two binary frames, then end; the fake transcriber reads 18 s from the file
+    socket.write(clientFrame(0x2, Buffer.alloc(9_000), false));
+    socket.write(clientFrame(0x0, Buffer.alloc(9_000), true));
+    socket.write(clientFrame(0x1, Buffer.from(JSON.stringify({ type: 'end' }))));
+    const result = await messages.next('result');
+    expect(result).toMatchObject({ type: 'result', text: 'segment 1 segment 2 segment 3 segment 4' });
+    expect(await fs.readFile(result.audioPath)).toHaveLength(44 + 18_000);
+    socket.destroy();
+  });
+
+  it('refuses a stream without the token', async () => {
+    const socket = await connect(new URL(server.url).port);
+    let response = '';
+    socket.on('data', (chunk) => { response += chunk.toString(); });
+    socket.write(handshake('/v1/stream'));
+    await new Promise((resolve) => socket.once('close', resolve));
+    expect(response).toMatch(/^HTTP\/1\.1 401 /);
+  });
+});
+
+describe('acceptWebSocket', () => {
+  it('hands frames read with the request to handlers that already hold the connection', async () => {
+    // an echo server that answers from inside onMessage
+    const echo = http.createServer();
+    let upgraded: Duplex | undefined;
+    echo.on('upgrade', (req, socket, head) => {
+      upgraded = socket;
+      const ws: WebSocketConnection | null = acceptWebSocket(req, socket, head, {
+        onMessage: (message) => ws!.sendJson({ type: 'echo', data: message.binary ? message.data.length : message.data }),
+      });
+    });
+    await new Promise<void>((resolve) => echo.listen(0, '127.0.0.1', resolve));
+    const socket = await connect((echo.address() as net.AddressInfo).port);
+    const messages = serverMessages(socket);
+    socket.write(Buffer.concat([handshake('/'), clientFrame(0x1, Buffer.from('hel'), false), clientFrame(0x0, Buffer.from('lo'), true)]));
+    expect(await messages.next('echo')).toEqual({ type: 'echo', data: 'hello' });
+    socket.destroy();
+    // the server no longer tracks upgraded sockets
+    upgraded?.destroy();
+    await new Promise((resolve) => echo.close(resolve));
+  });
+});
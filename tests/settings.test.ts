@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  configureSettings, DEFAULT_SETTINGS, loadSettings, onSettingsChange, resetSettings, updateSettings, type Settings,
+} from '../src/services/settings.js';
+
+let directory: string;
+let settingsFile: string;
+let warnings: string[];
+
+async function loadFrom(content: string): Promise<Settings> {
+  await fs.writeFile(settingsFile, content);
+  configureSettings({ path: settingsFile });
+  return loadSettings();
+}
+
+const readFile = async () => JSON.parse(await fs.readFile(settingsFile, 'utf8'));
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vtp-settings-'));
+});
+
+beforeEach(() => {
+  settingsFile = path.join(directory, `settings-${Math.random().toString(36).slice(2)}.json`);
+  warnings = [];
+  jest.spyOn(console, 'warn').mockImplementation((message) => { warnings.push(String(message)); });
+});
+
+afterAll(async () => {
+  jest.restoreAllMocks();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe('loadSettings', () => {
+  it('uses the defaults when there is no file', async () => {
+    configureSettings({ path: settingsFile });
+    expect(await loadSettings()).toEqual(DEFAULT_SETTINGS);
+    expect(warnings).toEqual([]);
+  });
+
+  it('uses the defaults, with a warning, when the file is not JSON', async () => {
+    expect(await loadFrom('{"engine": "whisper-cpp",')).toEqual(DEFAULT_SETTINGS);
+    expect(warnings).toEqual([expect.stringContaining('cannot read')]);
+  });
+
+  it('ignores a file that is not an object', async () => {
+    expect(await loadFrom('null')).toEqual(DEFAULT_SETTINGS);
+    expect(await loadFrom('42')).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('fills a partial file from the defaults', async () => {
+    const settings = await loadFrom(JSON.stringify({ language: 'French', ui: { fontSize: 18 } }));
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, language: 'fr', ui: { ...DEFAULT_SETTINGS.ui, fontSize: 18 } });
+  });
+
+  it('drops each invalid value and keeps the valid ones', async () => {
+    const settings = await loadFrom(JSON.stringify({
+      engine: 'whisper-cpp',
+      chunkSeconds: -1,
+      vad: 'yes',
+      outputFormats: ['docx'],
+      outputDirectory: 'transcripts',
+      language: 'Klingon',
+      preprocess: { highpass: 'low' },
+      ui: { theme: 'neon', live: false },
+    }));
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, engine: 'whisper-cpp', ui: { ...DEFAULT_SETTINGS.ui, live: false } });
+    expect(warnings).toHaveLength(7);
+    expect(warnings).toContainEqual(expect.stringContaining('chunkSeconds must be between 0 and 600'));
+    expect(warnings).toContainEqual(expect.stringContaining('ui.theme must be one of system, light, dark'));
+  });
+
+  it('reads the default rule set after the list, in any key order', async () => {
+    const settings = await loadFrom(JSON.stringify({ ruleSet: 'MEETINGS', ruleSets: [{ name: 'meetings', fillers: true }] }));
+    expect(settings.ruleSet).toBe('meetings');
+    expect(settings.ruleSets).toEqual([{ name: 'meetings', fillers: true }]);
+    expect((await loadFrom(JSON.stringify({ ruleSet: 'gone', ruleSets: [] }))).ruleSet).toBeUndefined();
+  });
+
+  it('reads the file once', async () => {
+    await loadFrom(JSON.stringify({ engine: 'xenova' }));
+    await fs.writeFile(settingsFile, JSON.stringify({ engine: 'whisper-cpp' }));
+    expect((await loadSettings()).engine).toBe('xenova');
+    configureSettings({ path: settingsFile });
+    expect((await loadSettings()).engine).toBe('whisper-cpp');
+  });
+});
+
+describe('updateSettings', () => {
+  beforeEach(() => {
+    configureSettings({ path: settingsFile });
+  });
+
+  it('merges a change, writes it and tells the listeners', async () => {
+    const seen: Settings[] = [];
+    const stop = onSettingsChange((settings) => seen.push(settings));
+    try {
+      const settings = await updateSettings({ engine: 'whisper-cpp', ui: { theme: 'dark' } });
+      expect(settings).toEqual({ ...DEFAULT_SETTINGS, engine: 'whisper-cpp', ui: { ...DEFAULT_SETTINGS.ui, theme: 'dark' } });
+      expect(await readFile()).toEqual(settings);
+      expect(seen).toEqual([settings]);
+    } finally {
+      stop();
+    }
+    await updateSettings({ vad: true });
+    expect(seen).toHaveLength(1);
+    // the earlier change is kept
+    expect(await readFile()).toMatchObject({ engine: 'whisper-cpp', vad: true, ui: { theme: 'dark' } });
+  });
+
+  it('rejects an invalid change without writing anything', async () => {
+    await updateSettings({ model: 'base' });
+    await expect(updateSettings({ model: 'small', chunkSeconds: 900 })).rejects.toThrow(/chunkSeconds/);
+    expect(await loadSettings()).toMatchObject({ model: 'base', chunkSeconds: 30 });
+    expect(await readFile()).toMatchObject({ model: 'base', chunkSeconds: 30 });
+    // later changes still go through
+    expect(await updateSettings({ model: 'small' })).toMatchObject({ model: 'small' });
+  });
+
+  it('clears optional values with an empty string', async () => {
+    await updateSettings({ language: 'de', outputDirectory: path.join(directory, 'out') });
+    const settings = await updateSettings({ language: '', outputDirectory: '' });
+    expect(settings.language).toBeUndefined();
+    expect(settings.outputDirectory).toBeUndefined();
+  });
+
+  it('drops the default rule set with its rule set', async () => {
+    await updateSettings({ ruleSets: [{ name: 'calls' }, { name: 'notes' }], ruleSet: 'calls' });
+    expect(await updateSettings({ ruleSets: [{ name: 'notes' }] })).not.toHaveProperty('ruleSet');
+    await expect(updateSettings({ ruleSet: 'calls' })).rejects.toThrow(/ruleSet must name one of the rule sets \(notes\)/);
+    await expect(updateSettings({ ruleSets: [{ name: 'a' }, { name: 'A' }] })).rejects.toThrow(/two rule sets are named A/);
+  });
+
+  it('applies changes one after the other', async () => {
+    await Promise.all([updateSettings({ engine: 'xenova' }), updateSettings({ model: 'tiny' }), updateSettings({ vad: true })]);
+    expect(await readFile()).toMatchObject({ engine: 'xenova', model: 'tiny', vad: true });
+  });
+
+  it('resets to the defaults', async () => {
+    await updateSettings({ engine: 'xenova', ui: { fontSize: 20 } });
+    expect(await resetSettings()).toEqual(DEFAULT_SETTINGS);
+    expect(await readFile()).toEqual(DEFAULT_SETTINGS);
+  });
+});
@@ -0,0 +1,144 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { spawnSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { encodeWav, resolveFfmpeg, SAMPLE_RATE } from '../src/services/audio.js';
+import { registerEngine } from '../src/services/engines/index.js';
+import { createFakeEngine } from '../src/services/engines/fake.js';
+import { parseWhisperCppJson } from '../src/services/engines/whisper-cpp.js';
+import { configureSettings } from '../src/services/settings.js';
+import { transcribeFile, transcribeSamples, type TranscribeProgress } from '../src/services/transcribe.js';
+
+let directory: string;
+let settingsFile: string;
+
+/** `seconds` of a quiet 440 Hz tone; the fake engine only looks at the length */
+const tone = (seconds: number) => Float32Array.from({ length: seconds * SAMPLE_RATE }, (_, i) => 0.1 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE));
+
+async function useSettings(settings: object) {
+  await fs.writeFile(settingsFile, JSON.stringify(settings));
+  configureSettings({ path: settingsFile });
+}
+
+// the decoding half of transcribeFile needs a working ffmpeg
+const ffmpeg = await resolveFfmpeg();
+const withFfmpeg = spawnSync(ffmpeg, ['-version']).status === 0 ? it : it.skip;
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vtp-transcribe-'));
+  settingsFile = path.join(directory, 'settings.json');
+  registerEngine(createFakeEngine({ segmentSeconds: 5 }));
+  registerEngine({ ...createFakeEngine({ textFor: () => 'from the other engine' }), name: 'other', defaultModel: 'other-model' });
+});
+
+beforeEach(async () => {
+  await useSettings({ engine: 'fake' });
+});
+
+afterAll(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe('transcribeSamples', () => {
+  it('returns the timed segments of the engine', async () => {
+    const progress: TranscribeProgress[] = [];
+    const transcript = await transcribeSamples(tone(12), { log: () => {}, onProgress: (p) => progress.push(p) });
+    expect(transcript).toMatchObject({ text: 'segment 1 segment 2 segment 3', duration: 12, model: 'fake' });
+    expect(transcript.segments.map(({ start, end, text }) => [start, end, text])).toEqual([
+      [0, 5, 'segment 1'], [5, 10, 'segment 2'], [10, 12, 'segment 3'],
+    ]);
+    expect(progress.at(-1)).toMatchObject({ stage: 'done', percent: 100, chunks: 1 });
+  });
+
+  it('adds word timings in word mode', async () => {
+    const transcript = await transcribeSamples(tone(5), { timestamps: 'word', log: () => {} });
+    expect(transcript.segments[0]!.words?.map(({ text, start, end }) => [text.trim(), start, end])).toEqual([['segment', 0, 2.5], ['1', 2.5, 5]]);
+  });
+
+  it('stitches the windows of long audio on the file timeline', async () => {
+    const transcript = await transcribeSamples(tone(50), { chunkSeconds: 30, strideSeconds: 5, log: () => {} });
+    const starts = transcript.segments.map((s) => s.start);
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+    expect(transcript.segments.at(-1)!.end).toBeCloseTo(50);
+    expect(transcript.duration).toBe(50);
+  });
+
+  it('uses the engine from the options over the one in the settings', async () => {
+    const transcript = await transcribeSamples(tone(3), { engine: 'other', log: () => {} });
+    expect(transcript).toMatchObject({ text: 'from the other engine', model: 'other-model' });
+  });
+
+  it('falls back to the engine and model from the settings', async () => {
+    await useSettings({ engine: 'other', model: 'tuned' });
+    expect(await transcribeSamples(tone(3), { log: () => {} })).toMatchObject({ text: 'from the other engine', model: 'tuned' });
+    // the settings' model belongs to the settings' engine
+    expect(await transcribeSamples(tone(3), { engine: 'fake', log: () => {} })).toMatchObject({ text: 'segment 1', model: 'fake' });
+  });
+
+  it('rejects unknown engines', async () => {
+    await expect(transcribeSamples(tone(1), { engine: 'missing', log: () => {} })).rejects.toThrow(/unknown engine: missing/);
+  });
+});
+
+describe('transcribeFile', () => {
+  it('rejects an empty range before decoding', async () => {
+    await expect(transcribeFile(path.join(directory, 'none.wav'), { start: 5, end: 2, log: () => {} })).rejects.toThrow(/invalid range/);
+  });
+
+  withFfmpeg('decodes a WAV file and transcribes it', async () => {
+    const file = path.join(directory, 'tone.wav');
+    await fs.writeFile(file, encodeWav(tone(7)));
+    const transcript = await transcribeFile(file, { preprocess: {}, log: () => {} });
+    expect(transcript.text).toBe('segment 1 segment 2');
+    expect(transcript.duration).toBeCloseTo(7, 1);
+  });
+
+  withFfmpeg('keeps file timings for a range', async () => {
+    const file = path.join(directory, 'range.wav');
+    await fs.writeFile(file, encodeWav(tone(20)));
+    const transcript = await transcribeFile(file, { preprocess: {}, start: 10, end: 16, log: () => {} });
+    expect(transcript.segments.map(({ start, end }) => [start, end])).toEqual([[10, 15], [15, 16]]);
+  });
+});
+
+describe('parseWhisperCppJson', () => {
+  const json = {
+    result: { language: 'fr' },
+    transcription: [
+      { offsets: { from: 0, to: 2500 }, text: ' Bonjour tout', tokens: [{ text: '[_BEG_]', p: 1 }, { text: ' Bonjour', p: 0.9 }, { text: ' tout', p: 0.5 }] },
+      { offsets: { from: 2500, to: 4000 }, text: ' le monde.', tokens: [{ text: ' le', p: 0.8 }, { text: ' mon', p: 0.6 }, { text: 'de.', p: 0.4 }] },
+    ],
+  };
+
+  it('reads segments, scores and the detected language', () => {
+    const transcript = parseWhisperCppJson(json, { model: 'base', language: 'auto', task: 'transcribe', timestamps: 'segment' }, 4);
+    expect(transcript).toMatchObject({ text: 'Bonjour tout le monde.', language: 'fr', duration: 4, model: 'base' });
+    expect(transcript.segments.map(({ start, end, text }) => [start, end, text])).toEqual([[0, 2.5, 'Bonjour tout'], [2.5, 4, 'le monde.']]);
+    expect(transcript.segments[0]!.wordScores).toEqual([{ text: 'Bonjour', confidence: 0.9 }, { text: 'tout', confidence: 0.5 }]);
+    // a word split into tokens scores the mean of its tokens
+    expect(transcript.segments[1]!.wordScores![1]).toEqual({ text: 'monde.', confidence: 0.5 });
+    expect(transcript.segments[1]!.confidence).toBeCloseTo(0.65);
+  });
+
+  it('groups one-word pieces into segments in word mode', () => {
+    const words = {
+      transcription: [
+        { offsets: { from: 0, to: 400 }, text: ' Hello', tokens: [{ text: ' Hello', p: 0.9 }] },
+        { offsets: { from: 400, to: 900 }, text: ' world.', tokens: [{ text: ' world', p: 0.7 }, { text: '.', p: 0.9 }] },
+        { offsets: { from: 900, to: 900 }, text: '' },
+      ],
+    };
+    const transcript = parseWhisperCppJson(words, { model: 'base.en', task: 'transcribe', timestamps: 'word' }, 1);
+    expect(transcript.text).toBe('Hello world.');
+    expect(transcript.language).toBe('en');
+    expect(transcript.segments).toHaveLength(1);
+    expect(transcript.segments[0]!.words?.map(({ text, start, end }) => [text.trim(), start, end])).toEqual([['Hello', 0, 0.4], ['world.', 0.4, 0.9]]);
+    expect(transcript.segments[0]!.words![1]!.confidence).toBeCloseTo(0.8);
+  });
+
+  it('keeps the language asked for and tolerates an empty output', () => {
+    expect(parseWhisperCppJson({}, { model: 'base', language: 'de', task: 'transcribe', timestamps: 'segment' }, 2))
+      .toMatchObject({ text: '', segments: [], language: 'de' });
+  });
+});
@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { configureSettings } from '../src/services/settings.js';
+import { transcribeSamples } from '../src/services/transcribe.js';
+import { detectSpeech, frameLevels, planUtterances, speechDuration } from '../src/services/vad.js';
+
+const RATE = 16000;
+
+const silence = (seconds: number) => new Float32Array(Math.round(seconds * RATE));
+const tone = (seconds: number, amplitude = 0.3) =>
+  Float32Array.from({ length: Math.round(seconds * RATE) }, (_, i) => amplitude * Math.sin((2 * Math.PI * 220 * i) / RATE));
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const out = new Float32Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+describe('frameLevels', () => {
+  it('measures each frame in dBFS', () => {
+    const levels = frameLevels(concat(tone(0.3, 1), silence(0.3)));
+    expect(levels).toHaveLength(20);
+    // a full-scale sine has an RMS of 1/√2
+    expect(levels[0]).toBeCloseTo(-3, 0);
+    expect(levels[19]).toBeLessThan(-150);
+  });
+});
+
+describe('detectSpeech', () => {
+  it('finds a tone between silences, padded by 200 ms', () => {
+    const regions = detectSpeech(concat(silence(5), tone(2), silence(5)));
+    expect(regions).toHaveLength(1);
+    expect(regions[0]!.start).toBeCloseTo(4.8, 1);
+    expect(regions[0]!.end).toBeCloseTo(7.2, 1);
+  });
+
+  it('bridges short pauses and splits at long ones', () => {
+    const regions = detectSpeech(concat(silence(2), tone(1), silence(0.3), tone(1), silence(3), tone(1), silence(2)));
+    expect(regions.map(({ start, end }) => [start, end].map((t) => Math.round(t * 10) / 10))).toEqual([[1.8, 4.5], [7.1, 8.5]]);
+    // 2.3 s and 1 s of sound, 200 ms of padding on each side, to the nearest 30 ms frame
+    expect(speechDuration(regions)).toBeGreaterThan(4.1);
+    expect(speechDuration(regions)).toBeLessThan(4.2);
+  });
+
+  it('drops clicks shorter than minSpeechMs', () => {
+    expect(detectSpeech(concat(silence(2), tone(0.06), silence(2)))).toEqual([]);
+    expect(detectSpeech(concat(silence(2), tone(0.06), silence(2)), RATE, { minSpeechMs: 30 })).toHaveLength(1);
+  });
+
+  it('ignores noise under the minimum level', () => {
+    expect(detectSpeech(concat(silence(2), tone(1, 0.001), silence(2)))).toEqual([]);
+  });
+
+  it('treats audio without pauses as speech throughout', () => {
+    expect(detectSpeech(tone(3))).toEqual([{ start: 0, end: 3 }]);
+  });
+});
+
+describe('planUtterances', () => {
+  it('joins regions closer than a second while they fit', () => {
+    const samples = silence(20);
+    const regions = [{ start: 1, end: 3 }, { start: 3.5, end: 5 }, { start: 8, end: 9 }];
+    expect(planUtterances(samples, regions)).toEqual([{ start: 1, end: 5 }, { start: 8, end: 9 }]);
+    expect(planUtterances(samples, regions, RATE, { maxSeconds: 3 })).toEqual([{ start: 1, end: 3 }, { start: 3.5, end: 5 }, { start: 8, end: 9 }]);
+  });
+
+  it('splits long speech at its quietest point', () => {
+    // 25 s of speech with a dip at 17 s, too short to be a pause
+    const samples = concat(tone(17), tone(0.3, 0.01), tone(7.7));
+    const pieces = planUtterances(samples, [{ start: 0, end: 25 }], RATE, { maxSeconds: 20 });
+    expect(pieces).toHaveLength(2);
+    expect(pieces[0]!.end).toBeGreaterThan(17);
+    expect(pieces[0]!.end).toBeLessThan(17.3);
+    expect(pieces[1]).toEqual({ start: pieces[0]!.end, end: 25 });
+  });
+});
+
+describe('transcribeSamples with vad', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vtp-vad-'));
+    const settingsFile = path.join(directory, 'settings.json');
+    await fs.writeFile(settingsFile, JSON.stringify({ engine: 'fake' }));
+    configureSettings({ path: settingsFile });
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('only sends the speech to the engine and keeps file timings', async () => {
+    const samples = concat(silence(20), tone(3), silence(20), tone(2), silence(10));
+    const transcript = await transcribeSamples(samples, { vad: true, log: () => {} });
+    // the fake engine writes one segment per 5 s it receives: the silence never reaches it
+    expect(transcript.segments).toHaveLength(2);
+    expect(transcript.segments[0]!.start).toBeCloseTo(19.8, 1);
+    expect(transcript.segments[1]!.start).toBeCloseTo(42.8, 1);
+    expect(transcript.duration).toBe(55);
+  });
+});
@@ -0,0 +1,99 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SAMPLE_RATE } from '../src/services/audio.js';
+import { configureSettings } from '../src/services/settings.js';
+import { transcribeSamples, type TranscribeOptions } from '../src/services/transcribe.js';
+import { startWatching, type Watcher, type WatchEvent } from '../src/services/watch.js';
+
+let root: string;
+let directory: string;
+let watcher: Watcher | null = null;
+
+/** The fake engine on one second of audio per byte of the file; files containing "broken" fail */
+async function transcribe(file: string, options: TranscribeOptions) {
+  const content = await fs.readFile(file, 'utf8');
+  if (content.includes('broken')) throw new Error('cannot decode');
+  return transcribeSamples(new Float32Array(content.length * SAMPLE_RATE), { ...options, engine: 'fake' });
+}
+
+/** Watches `directory` until `count` files are done or failed */
+async function watchUntil(count: number): Promise<WatchEvent[]> {
+  const events: WatchEvent[] = [];
+  await new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(`timed out: ${JSON.stringify(events)}`)), 5000);
+    startWatching({
+      directory,
+      settleMs: 0,
+      pollMs: 20,
+      transcribe,
+      onEvent: (event) => {
+        events.push(event);
+        if (events.filter((e) => e.type === 'done' || e.type === 'failed').length === count) {
+          clearTimeout(timeout);
+          resolve();
+        }
+      },
+    }).then((started) => { watcher = started; }, reject);
+  });
+  return events;
+}
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'vtp-watch-'));
+  const settingsFile = path.join(root, 'settings.json');
+  await fs.writeFile(settingsFile, '{}');
+  configureSettings({ path: settingsFile });
+});
+
+afterEach(async () => {
+  await watcher?.stop();
+  watcher = null;
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('startWatching', () => {
+  it('writes a transcript per file, keeping the source extension in its name', async () => {
+    directory = await fs.mkdtemp(path.join(root, 'names-'));
+    await fs.writeFile(path.join(directory, 'sample-0.wav'), 'abc');
+    await fs.writeFile(path.join(directory, 'sample-0.mp3'), 'abcdefgh');
+    await fs.writeFile(path.join(directory, 'notes.txt'), 'not audio');
+
+    const events = await watchUntil(2);
+    const outputs = path.join(directory, 'transcripts');
+    expect((await fs.readdir(outputs)).sort()).toEqual(['sample-0.mp3.txt', 'sample-0.wav.txt']);
+    expect(await fs.readFile(path.join(outputs, 'sample-0.wav.txt'), 'utf8')).toContain('segment 1');
+    expect(await fs.readFile(path.join(outputs, 'sample-0.mp3.txt'), 'utf8')).toContain('segment 2');
+    expect(events.filter((e) => e.type === 'done').map((e) => e.type === 'done' && path.basename(e.outputs[0]!)).sort())
+      .toEqual(['sample-0.mp3.txt', 'sample-0.wav.txt']);
+  });
+
+  it('skips files already done after a restart', async () => {
+    directory = await fs.mkdtemp(path.join(root, 'restart-'));
+    await fs.writeFile(path.join(directory, 'first.wav'), 'abc');
+    await watchUntil(1);
+    await watcher!.stop();
+
+    await fs.writeFile(path.join(directory, 'second.wav'), 'abc');
+    const events = await watchUntil(1);
+    expect(events.filter((e) => e.type === 'started').map((e) => e.type === 'started' && path.basename(e.file))).toEqual(['second.wav']);
+    // the state is saved after the event; stopping waits for it
+    await watcher!.stop();
+    const state = JSON.parse(await fs.readFile(path.join(directory, '.transcribe-watch.json'), 'utf8'));
+    expect(Object.keys(state.files).sort()).toEqual(['first.wav', 'second.wav']);
+  });
+
+  it('moves files that fail to the error folder with the reason', async () => {
+    directory = await fs.mkdtemp(path.join(root, 'errors-'));
+    await fs.writeFile(path.join(directory, 'bad.wav'), 'broken');
+
+    const events = await watchUntil(1);
+    expect(events.at(-1)).toMatchObject({ type: 'failed', error: 'cannot decode', movedTo: path.join(directory, 'failed', 'bad.wav') });
+    await expect(fs.access(path.join(directory, 'bad.wav'))).rejects.toThrow();
+    expect(await fs.readFile(path.join(directory, 'failed', 'errors.log'), 'utf8')).toMatch(/\tbad\.wav\t.*\tcannot decode\n$/);
+  });
+});
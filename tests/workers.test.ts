@@ -0,0 +1,68 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Worker as WorkerThread, WorkerOptions } from 'worker_threads';
+
+// every worker the pool starts, in order, so a test can kill one mid-request. The workers run
+// transcribe-worker.ts: they get the TypeScript loader, as under ts-node
+const started: WorkerThread[] = [];
+const actual = await import('worker_threads');
+jest.unstable_mockModule('worker_threads', () => ({
+  ...actual,
+  Worker: class extends actual.Worker {
+    constructor(script: URL, options: WorkerOptions = {}) {
+      super(script, { ...options, execArgv: [...process.execArgv, '--loader', 'ts-node/esm/transpile-only', '--no-warnings'] });
+      started.push(this);
+    }
+  },
+}));
+
+const { configureSettings } = await import('../src/services/settings.js');
+const { configureWorkers, stopWorkers, transcribeSamplesInWorker } = await import('../src/services/workers.js');
+
+jest.setTimeout(60_000);
+
+const RATE = 16000;
+const options = { engine: 'fake', log: () => {} };
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vtp-workers-'));
+  configureSettings({ path: path.join(directory, 'settings.json') });
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  await stopWorkers();
+  jest.restoreAllMocks();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe('worker pool', () => {
+  it('transcribes in a worker thread and leaves the caller\'s samples alone', async () => {
+    const samples = new Float32Array(6 * RATE);
+    const transcript = await transcribeSamplesInWorker(samples, { ...options, timestamps: 'word' });
+    expect(transcript.segments.map((s) => s.text)).toEqual(['segment 1', 'segment 2']);
+    expect(transcript.segments[0]!.words).toHaveLength(2);
+    expect(samples).toHaveLength(6 * RATE);
+  });
+
+  it('fails only the request of a crashed worker and replaces the worker', async () => {
+    await stopWorkers();
+    started.length = 0;
+    configureWorkers({ threads: 2 });
+    const crashed = transcribeSamplesInWorker(new Float32Array(RATE), options);
+    const other = transcribeSamplesInWorker(new Float32Array(2 * RATE), options);
+    expect(started).toHaveLength(2);
+    // the first worker dies before it can answer
+    await started[0]!.terminate();
+
+    await expect(crashed).rejects.toThrow(/the transcription worker crashed/);
+    expect((await other).duration).toBe(2);
+    const next = await Promise.all([1, 3].map((seconds) => transcribeSamplesInWorker(new Float32Array(seconds * RATE), options)));
+    expect(next.map((t) => t.duration)).toEqual([1, 3]);
+    expect(started).toHaveLength(3);
+  });
+});